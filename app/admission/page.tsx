@@ -27,6 +27,7 @@ export default function AdmissionPredictionPage() {
   const [opdAdmissions, setOpdAdmissions] = useState('');
   const [scheduledAdmissions, setScheduledAdmissions] = useState('');
   const [isHoliday, setIsHoliday] = useState(false);
+  const [airQualityIndex, setAirQualityIndex] = useState('');
   const [notes, setNotes] = useState('');
   const [saving, setSaving] = useState(false);
   
@@ -233,6 +234,7 @@ export default function AdmissionPredictionPage() {
           opd_admissions: Number(opdAdmissions || 0),
           scheduled_admissions: Number(scheduledAdmissions || 0),
           is_holiday: isHoliday,
+          air_quality_index: airQualityIndex ? Number(airQualityIndex) : undefined,
           notes,
         }),
       });
@@ -249,6 +251,7 @@ export default function AdmissionPredictionPage() {
         setOpdAdmissions('');
         setScheduledAdmissions('');
         setIsHoliday(false);
+        setAirQualityIndex('');
         setNotes('');
         
         // Reload stats
@@ -813,6 +816,22 @@ export default function AdmissionPredictionPage() {
                   </label>
                 </div>
 
+                <div className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl p-4">
+                  <label htmlFor="air-quality-index" className="block text-sm font-semibold mb-2 text-gray-900 dark:text-white">
+                    🌫️ Air Quality Index (Optional)
+                  </label>
+                  <input
+                    id="air-quality-index"
+                    type="number"
+                    value={airQualityIndex}
+                    onChange={(e) => setAirQualityIndex(e.target.value)}
+                    min="0"
+                    max="500"
+                    placeholder="e.g., 180 (CPCB daily AQI)"
+                    className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-gray-500 dark:focus:ring-gray-400 focus:border-gray-500 dark:focus:border-gray-400 transition-all font-semibold"
+                  />
+                </div>
+
                 <div>
                   <label htmlFor="notes" className="block text-sm font-semibold mb-2 text-gray-900 dark:text-white flex items-center gap-2">
                     📝 Notes (Optional)
@@ -36,6 +36,7 @@ interface AdmissionDataPoint {
   day_of_week: number;
   is_weekend: boolean;
   is_holiday: boolean;
+  air_quality_index?: number;   // Indian National AQI (0-500) for the day, if recorded
   
   // Metadata
   created_at: Date;
@@ -59,6 +60,7 @@ export async function POST(request: NextRequest) {
       opd_admissions,
       scheduled_admissions,
       is_holiday,
+      air_quality_index,
       notes,
     } = body;
 
@@ -77,6 +79,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (
+      air_quality_index !== undefined &&
+      (typeof air_quality_index !== 'number' || air_quality_index < 0 || air_quality_index > 500)
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'Air quality index must be a number from 0 to 500' },
+        { status: 400 }
+      );
+    }
+
     // Parse date and calculate day of week
     const admissionDate = new Date(date);
     const dayOfWeek = admissionDate.getDay();
@@ -96,6 +108,8 @@ export async function POST(request: NextRequest) {
       is_holiday: is_holiday || false,
       created_at: new Date(),
       notes: notes || '',
+      // Firestore rejects undefined, so the AQI is only set when recorded
+      ...(air_quality_index !== undefined && { air_quality_index }),
     };
 
     // Check if data for this date already exists
@@ -267,6 +281,7 @@ export async function GET(request: NextRequest) {
             same_day_last_week: sameDayLastWeek,
             same_day_last_month: sameDayLastMonth,
             trend: Math.max(-1, Math.min(1, trend)), // Clamp between -1 and 1
+            air_quality_index: point.air_quality_index,
           },
           target: {
             total_admissions: point.total_admissions,
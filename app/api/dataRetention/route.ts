@@ -0,0 +1,66 @@
+/**
+ * API Route: Data Retention Job
+ * Endpoint: /api/dataRetention
+ * Method: GET (called daily by the cron job in vercel.json)
+ *
+ * Rolls hourly weather records past their window into daily `weather_stats`,
+ * then trims each collection to its retention window (see `lib/dataRetention.ts`)
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>` (Vercel Cron sends it automatically)
+ * and FIREBASE_SERVICE_ACCOUNT_KEY: reads and deletes go through the Admin SDK
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { runDataRetention, type RetentionRunSummary } from '@/lib/dataRetention'
+import type { ApiResponse } from '@/lib/types/doctor-module'
+
+// Rolling up a backlog of days can take a few minutes
+export const maxDuration = 300
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Retention is not configured',
+      message: 'Set CRON_SECRET to enable the data retention job'
+    }, { status: 503 })
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Unauthorized',
+      message: 'A valid cron secret is required'
+    }, { status: 401 })
+  }
+
+  if (!process.env.FIREBASE_SERVICE_ACCOUNT_KEY) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Retention is not configured',
+      message: 'Set FIREBASE_SERVICE_ACCOUNT_KEY so the retention job can read and delete records'
+    }, { status: 503 })
+  }
+
+  try {
+    const summary = await runDataRetention()
+    const deleted = Object.values(summary.deleted).reduce((sum, count) => sum + count, 0)
+
+    return NextResponse.json<ApiResponse<RetentionRunSummary>>({
+      success: summary.errors.length === 0,
+      data: summary,
+      message: `Rolled up ${summary.rolled_up_days} city-day(s) and deleted ${deleted} document(s)` +
+        (summary.errors.length > 0 ? ` with ${summary.errors.length} error(s)` : '')
+    }, { status: summary.errors.length > 0 ? 500 : 200 })
+
+  } catch (error) {
+    console.error('❌ Error in data retention API:', error)
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      message: 'Data retention failed'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * API Route: Multi-day Disease Outlook
+ * Endpoint: /api/diseaseOutlook
+ * Method: GET
+ *
+ * Query: `pincode` (6 digits) or `city` (a registered Indian city), plus optional `days` (1-14, default 7)
+ * Returns per-disease daily risk curves and the projected peak day
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getDiseaseOutlook, DEFAULT_OUTLOOK_DAYS, MAX_OUTLOOK_DAYS } from '@/lib/diseaseOutlook'
+import { getDiseaseOutlookByPinCode } from '@/lib/pinCodeDiseaseAnalysis'
+import { findLocation } from '@/lib/locationRegistry'
+import { loadLocations } from '@/lib/locationStore'
+import type { ApiResponse, DiseaseOutlookSummary } from '@/lib/types/doctor-module'
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const pincode = searchParams.get('pincode')
+  const city = searchParams.get('city')
+  const days = searchParams.get('days') ? Number(searchParams.get('days')) : DEFAULT_OUTLOOK_DAYS
+
+  if (!Number.isInteger(days) || days < 1 || days > MAX_OUTLOOK_DAYS) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Invalid days',
+      message: `days must be a whole number from 1 to ${MAX_OUTLOOK_DAYS}`
+    }, { status: 400 })
+  }
+
+  if (!pincode && !city) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'PIN code or city is required',
+      message: 'Usage: /api/diseaseOutlook?pincode=560001&days=14'
+    }, { status: 400 })
+  }
+
+  try {
+    if (pincode) {
+      if (!/^\d{6}$/.test(pincode)) {
+        return NextResponse.json<ApiResponse<null>>({
+          success: false,
+          error: 'Invalid PIN code format',
+          message: 'PIN code must be exactly 6 digits'
+        }, { status: 400 })
+      }
+
+      const result = await getDiseaseOutlookByPinCode(pincode, days)
+      if (!result) {
+        return NextResponse.json<ApiResponse<null>>({
+          success: false,
+          error: 'Outlook failed',
+          message: 'Could not find location or forecast for this PIN code'
+        }, { status: 404 })
+      }
+
+      return NextResponse.json<ApiResponse<DiseaseOutlookSummary>>({
+        success: true,
+        data: result.outlook,
+        message: `${days}-day disease outlook for ${result.location.city}, ${result.location.state}`
+      })
+    }
+
+    const location = findLocation(await loadLocations(), city as string)
+    if (!location) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `City "${city}" not found in database`,
+        message: 'City not supported. Please use one of the registered Indian cities.'
+      }, { status: 404 })
+    }
+
+    const outlook = await getDiseaseOutlook({
+      latitude: location.latitude,
+      longitude: location.longitude,
+      city: location.city
+    }, days, location)
+
+    return NextResponse.json<ApiResponse<DiseaseOutlookSummary>>({
+      success: true,
+      data: outlook,
+      message: `${days}-day disease outlook for ${location.city}`
+    })
+  } catch (error) {
+    console.error('❌ Error in disease outlook API:', error)
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      message: 'Failed to build disease outlook'
+    }, { status: 500 })
+  }
+}
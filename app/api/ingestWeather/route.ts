@@ -0,0 +1,66 @@
+/**
+ * API Route: Scheduled Weather Ingestion
+ * Endpoint: /api/ingestWeather
+ * Method: GET (called hourly by the cron job in vercel.json)
+ *
+ * Stores one weather record per registered location for the current hour, runs the
+ * disease prediction for each and logs the run in `ingestion_logs`.
+ * Locations already stored this hour are skipped, so extra triggers are harmless.
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>` (Vercel Cron sends it automatically)
+ * and FIREBASE_SERVICE_ACCOUNT_KEY: the run log is written through the Admin SDK
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { runWeatherIngestion, type IngestionRunSummary } from '@/lib/weatherIngestion'
+import type { ApiResponse } from '@/lib/types/doctor-module'
+
+// Fetching and predicting for every location can take a few minutes
+export const maxDuration = 300
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Ingestion is not configured',
+      message: 'Set CRON_SECRET to enable scheduled weather ingestion'
+    }, { status: 503 })
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Unauthorized',
+      message: 'A valid cron secret is required'
+    }, { status: 401 })
+  }
+
+  if (!process.env.FIREBASE_SERVICE_ACCOUNT_KEY) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Ingestion is not configured',
+      message: 'Set FIREBASE_SERVICE_ACCOUNT_KEY so the ingestion job can log its runs'
+    }, { status: 503 })
+  }
+
+  try {
+    const summary = await runWeatherIngestion()
+
+    return NextResponse.json<ApiResponse<IngestionRunSummary>>({
+      success: summary.status !== 'failed',
+      data: summary,
+      message: `Weather ingestion ${summary.status}: ${summary.stored} stored, ${summary.skipped} already stored, ${summary.failed} failed` +
+        (summary.history_unavailable.length > 0 ? `, ${summary.history_unavailable.length} without weather history` : '')
+    }, { status: summary.status === 'failed' ? 500 : 200 })
+
+  } catch (error) {
+    console.error('❌ Error in weather ingestion API:', error)
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      message: 'Weather ingestion failed'
+    }, { status: 500 })
+  }
+}
@@ -1,25 +1,28 @@
 /**
  * API Route: ML-Based Disease Prediction
  * Endpoint: /api/mlPredict
- * Method: POST
+ * Method: POST (predict), GET (model status and evaluation report)
  * 
  * This endpoint uses TensorFlow.js neural network for disease prediction
+ * The model is loaded from the model store; it is trained by POST /api/trainMLModel
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { predictWithML, initializeMLModel, getMLModel } from '@/lib/mlModel'
-import type { WeatherInput, DiseasePrediction, ModelMetrics } from '@/lib/mlModel'
+import { predictWithML, loadMLModel, getMLModel } from '@/lib/mlModel'
+import type { WeatherInput, ModelMetrics } from '@/lib/mlModel'
+import type { EvaluationReport } from '@/lib/mlEvaluation'
+import type { MLDiseasePrediction } from '@/lib/types/doctor-module'
 
 interface MLPredictRequest {
   weather: WeatherInput
-  initModel?: boolean // Set to true to train model before prediction
 }
 
 interface MLPredictResponse {
   success: boolean
   data?: {
-    predictions: DiseasePrediction[]
+    predictions: MLDiseasePrediction[]
     modelMetrics: ModelMetrics
+    evaluation?: EvaluationReport | null // GET only
     method: 'ML' | 'Rule-Based'
   }
   error?: string
@@ -32,7 +35,7 @@ interface MLPredictResponse {
 export async function POST(request: NextRequest) {
   try {
     const body: MLPredictRequest = await request.json()
-    const { weather, initModel = false } = body
+    const { weather } = body
 
     if (!weather) {
       return NextResponse.json<MLPredictResponse>({
@@ -44,16 +47,17 @@ export async function POST(request: NextRequest) {
 
     console.log('🧠 ML Prediction requested for weather:', weather)
 
-    // Initialize model if requested or not trained
-    const model = getMLModel()
-    if (initModel || !model.isTrained()) {
-      console.log('🔄 Training ML model...')
-      await initializeMLModel(2000, 50) // 2000 samples, 50 epochs
+    if (!(await loadMLModel())) {
+      return NextResponse.json<MLPredictResponse>({
+        success: false,
+        error: 'No trained model available',
+        message: 'Run the training job (POST /api/trainMLModel) to store a model version'
+      }, { status: 503 })
     }
 
     // Make predictions
     const predictions = await predictWithML(weather)
-    const metrics = model.getMetrics()
+    const metrics = getMLModel().getMetrics()
 
     console.log(`✅ ML Predictions generated: ${predictions.length} diseases`)
 
@@ -79,23 +83,24 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * GET handler - Get ML model status and metrics
+ * GET handler - Get ML model status, metrics and per-disease evaluation
  */
 export async function GET() {
   try {
-    const model = getMLModel()
-    const metrics = model.getMetrics()
+    await loadMLModel()
+    const metrics = getMLModel().getMetrics()
 
     return NextResponse.json<MLPredictResponse>({
       success: true,
       data: {
         predictions: [],
         modelMetrics: metrics,
+        evaluation: getMLModel().getEvaluation(),
         method: metrics.trained ? 'ML' : 'Rule-Based'
       },
       message: metrics.trained 
-        ? `ML model is trained with ${(metrics.accuracy * 100).toFixed(2)}% accuracy`
-        : 'ML model not yet trained'
+        ? `ML model version ${metrics.version} is trained with ${(metrics.accuracy * 100).toFixed(2)}% accuracy`
+        : 'No trained ML model stored yet'
     })
 
   } catch (error) {
@@ -0,0 +1,51 @@
+/**
+ * API Route: PIN Code Location
+ * Endpoint: /api/pinCodeLocation
+ * Method: GET
+ *
+ * Query: `pincode` (6 digits)
+ * Returns the PIN code's city, district, state and coordinates; PIN codes looked up
+ * on the network are cached in the PIN code directory by the server
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getLocationFromPinCode, type PinCodeLocation } from '@/lib/pinCodeDiseaseAnalysis'
+import type { ApiResponse } from '@/lib/types/doctor-module'
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const pincode = searchParams.get('pincode')
+
+  if (!pincode || !/^\d{6}$/.test(pincode)) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Invalid PIN code format',
+      message: 'Usage: /api/pinCodeLocation?pincode=560001'
+    }, { status: 400 })
+  }
+
+  try {
+    const location = await getLocationFromPinCode(pincode)
+    if (!location) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'PIN code not found',
+        message: 'Could not find this PIN code. Please check and try again.'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json<ApiResponse<PinCodeLocation>>({
+      success: true,
+      data: location,
+      message: `Located PIN ${pincode} in ${location.city}, ${location.state}`
+    })
+  } catch (error) {
+    console.error('❌ Error in PIN code location API:', error)
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      message: 'Failed to look up PIN code'
+    }, { status: 500 })
+  }
+}
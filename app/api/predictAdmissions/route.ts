@@ -4,6 +4,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { fetchAirQuality } from '@/lib/airQuality';
+import type { AdmissionFeatures } from '@/lib/admissionMLModel';
 
 export async function POST(request: NextRequest) {
   try {
@@ -43,6 +45,13 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (features.air_quality_index !== undefined && typeof features.air_quality_index !== 'number') {
+      return NextResponse.json(
+        { success: false, error: 'air_quality_index must be a number when provided' },
+        { status: 400 }
+      );
+    }
+
     // Prediction happens in browser (model runs client-side)
     // This API just validates and returns the features
     return NextResponse.json({
@@ -68,6 +77,9 @@ export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const hospital_id = searchParams.get('hospital_id') || 'default';
+    // Hospital location, for the current air quality (optional)
+    const latitude = searchParams.get('latitude');
+    const longitude = searchParams.get('longitude');
     
     // Get recent admission data to generate features for prediction
     const baseUrl = request.nextUrl.origin;
@@ -108,7 +120,7 @@ export async function GET(request: NextRequest) {
     const tomorrow = new Date();
     tomorrow.setDate(tomorrow.getDate() + 1);
 
-    const features = {
+    const features: AdmissionFeatures = {
       day_of_week: tomorrow.getDay(),
       month: tomorrow.getMonth() + 1,
       day_of_month: tomorrow.getDate(),
@@ -121,6 +133,20 @@ export async function GET(request: NextRequest) {
       trend: Math.max(-1, Math.min(1, trend)),
     };
 
+    // Today's air quality stands in for tomorrow's; without it the model uses its default
+    if (latitude && longitude) {
+      try {
+        const airQuality = await fetchAirQuality({
+          latitude: Number(latitude),
+          longitude: Number(longitude),
+          city: hospital_id,
+        });
+        features.air_quality_index = airQuality.aqi;
+      } catch (error) {
+        console.warn('Could not fetch air quality for admission features:', error);
+      }
+    }
+
     return NextResponse.json({
       success: true,
       features,
@@ -0,0 +1,130 @@
+/**
+ * API Route: Disease Surveillance Data
+ * Endpoint: /api/surveillanceData
+ *
+ * POST - Import weekly case counts from an IDSP-style CSV
+ *   Requires `Authorization: Bearer <ML_TRAINING_SECRET>` and FIREBASE_SERVICE_ACCOUNT_KEY
+ *   (records are written through the Admin SDK)
+ *   Body: the CSV (Content-Type: text/csv) or JSON { csv: string }
+ *   Columns: week_start, state, district, disease, cases (optional: latitude, longitude)
+ *
+ * GET - Summary of the stored surveillance data
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getDiseaseLabel,
+  importSurveillanceRecords,
+  loadSurveillanceRecords,
+  parseSurveillanceCsv,
+} from '@/lib/surveillanceData'
+import type { ApiResponse } from '@/lib/types/doctor-module'
+
+interface SurveillanceImportResult {
+  imported: number
+  errors: string[] // Rows that were left out
+  unmapped_diseases: string[] // Imported, but not predicted by the model
+}
+
+interface SurveillanceSummary {
+  records: number
+  districts: number
+  diseases: string[]
+  first_week: string | null
+  last_week: string | null
+}
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.ML_TRAINING_SECRET
+  if (!secret) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Import is not configured',
+      message: 'Set ML_TRAINING_SECRET to enable surveillance data import'
+    }, { status: 503 })
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Unauthorized',
+      message: 'A valid training secret is required'
+    }, { status: 401 })
+  }
+
+  if (!process.env.FIREBASE_SERVICE_ACCOUNT_KEY) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Import is not configured',
+      message: 'Set FIREBASE_SERVICE_ACCOUNT_KEY so the import can write surveillance records'
+    }, { status: 503 })
+  }
+
+  const csv = request.headers.get('content-type')?.includes('application/json')
+    ? (await request.json().catch(() => ({}))).csv
+    : await request.text()
+
+  if (typeof csv !== 'string' || csv.trim() === '') {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Missing CSV',
+      message: 'Send the CSV as the request body (text/csv) or as { csv } (application/json)'
+    }, { status: 400 })
+  }
+
+  const { records, errors } = parseSurveillanceCsv(csv)
+  if (records.length === 0) {
+    return NextResponse.json<ApiResponse<SurveillanceImportResult>>({
+      success: false,
+      data: { imported: 0, errors, unmapped_diseases: [] },
+      error: 'No valid rows',
+      message: errors[0] || 'The CSV has no data rows'
+    }, { status: 400 })
+  }
+
+  try {
+    const imported = await importSurveillanceRecords(records)
+    const unmapped = [...new Set(records.filter(record => !getDiseaseLabel(record.disease)).map(record => record.disease))]
+
+    return NextResponse.json<ApiResponse<SurveillanceImportResult>>({
+      success: true,
+      data: { imported, errors, unmapped_diseases: unmapped },
+      message: `Imported ${imported} surveillance record(s)` +
+        (errors.length > 0 ? `, skipped ${errors.length} invalid row(s)` : '')
+    })
+  } catch (error) {
+    console.error('❌ Error importing surveillance data:', error)
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      message: 'Failed to import surveillance data'
+    }, { status: 500 })
+  }
+}
+
+export async function GET() {
+  try {
+    const records = await loadSurveillanceRecords()
+    const weeks = records.map(record => record.week_start).sort()
+
+    return NextResponse.json<ApiResponse<SurveillanceSummary>>({
+      success: true,
+      data: {
+        records: records.length,
+        districts: new Set(records.map(record => `${record.state}|${record.district}`.toLowerCase())).size,
+        diseases: [...new Set(records.map(record => record.disease))].sort(),
+        first_week: weeks[0] || null,
+        last_week: weeks[weeks.length - 1] || null,
+      }
+    })
+  } catch (error) {
+    console.error('❌ Error loading surveillance data:', error)
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      message: 'Failed to load surveillance data'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * API Route: Disease ML Model Training Job
+ * Endpoint: /api/trainMLModel
+ * Method: POST
+ *
+ * Trains the disease prediction model and stores it as a new version in the
+ * model store. Prediction routes never train; they load the current version.
+ *
+ * Requires `Authorization: Bearer <ML_TRAINING_SECRET>`
+ * Body (optional): {
+ *   samples?: number (100-20000, default 2000; synthetic data only),
+ *   epochs?: number (1-200, default 50),
+ *   source?: 'auto' | 'surveillance' | 'synthetic' (default 'auto': surveillance data when enough is stored)
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { trainAndStoreMLModel, type TrainingSource } from '@/lib/mlModel'
+import type { ModelVersionInfo } from '@/lib/mlModelStore'
+import type { ApiResponse } from '@/lib/types/doctor-module'
+
+// Training a new version can take a minute
+export const maxDuration = 300
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.ML_TRAINING_SECRET
+  if (!secret) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Training is not configured',
+      message: 'Set ML_TRAINING_SECRET to enable the training job'
+    }, { status: 503 })
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Unauthorized',
+      message: 'A valid training secret is required'
+    }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const samples = body.samples ?? 2000
+  const epochs = body.epochs ?? 50
+  const source: TrainingSource = body.source ?? 'auto'
+
+  if (!Number.isInteger(samples) || samples < 100 || samples > 20000 ||
+      !Number.isInteger(epochs) || epochs < 1 || epochs > 200) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Invalid training options',
+      message: 'samples must be 100-20000 and epochs 1-200 (whole numbers)'
+    }, { status: 400 })
+  }
+
+  if (!['auto', 'surveillance', 'synthetic'].includes(source)) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Invalid training options',
+      message: "source must be 'auto', 'surveillance' or 'synthetic'"
+    }, { status: 400 })
+  }
+
+  try {
+    console.log(`🧠 Training job started: ${source} data, ${epochs} epochs`)
+    const info = await trainAndStoreMLModel(samples, epochs, source)
+
+    return NextResponse.json<ApiResponse<ModelVersionInfo>>({
+      success: true,
+      data: info,
+      message: `Stored disease model version ${info.version} trained on ${info.training_source} data (test accuracy ${(info.metrics.testAccuracy * 100).toFixed(2)}%)`
+    })
+  } catch (error) {
+    console.error('❌ Error in training job:', error)
+
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      message: 'Failed to train and store the disease model'
+    }, { status: 500 })
+  }
+}
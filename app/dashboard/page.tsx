@@ -2,15 +2,37 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { db } from '@/lib/firebase'
-import { collection, query, where, getDocs, doc, setDoc, getDoc, orderBy, limit, Timestamp } from 'firebase/firestore'
+import { doc, getDoc } from 'firebase/firestore'
 import { User as FirebaseUser } from 'firebase/auth'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import Image from 'next/image'
-import { Bed, MapPin, Phone, Clock, RefreshCw, Heart, User, Building, Droplets } from 'lucide-react'
+import { Bed, MapPin, Phone, Clock, RefreshCw, Heart, User, Building, Droplets, BarChart3, Navigation, AlertTriangle, ArrowRightLeft } from 'lucide-react'
 import { useAuth } from '@/lib/useAuthFixed'
 import ThemeToggle from '@/components/ThemeToggle'
 import DashboardDoctorInsights from '@/components/DashboardDoctorInsights'
+import WardBedInputs, { type WardFormState, wardsToFormState, formStateToWards } from '@/components/WardBedInputs'
+import OxygenSupplyInputs, { type OxygenFormState, oxygenToFormState, formStateToOxygen } from '@/components/OxygenSupplyInputs'
+import NearbyHospitalSearch from '@/components/NearbyHospitalSearch'
+import ReferralPanel from '@/components/ReferralPanel'
+import DiseaseIdMigration from '@/components/DiseaseIdMigration'
+import { WARD_TYPES, getFreeBeds, validateWards } from '@/lib/hospitalAvailability'
+import { subscribeToHospitals } from '@/lib/availabilitySubscription'
+import { recordAvailabilityUpdate, fetchLatestAvailability } from '@/lib/availabilityStore'
+import { REFERRAL_REQUESTER_ROLES, applyBedHolds, subscribeToAcceptedReferrals } from '@/lib/referrals'
+import { STALE_AVAILABILITY_HOURS, isHospitalStale, getStaleHospitals } from '@/lib/availabilityFreshness'
+import { formatDuration } from '@/lib/availabilityHistory'
+import { hasRequiredResources, rankHospitalsByProximity, formatDistance } from '@/lib/nearestHospitals'
+import {
+  OXYGEN_ALERT_HOURS,
+  getHoursUntilDepletion,
+  getTankFillPercentage,
+  isOxygenLow,
+  formatHoursUntilDepletion,
+  validateOxygenSupply,
+} from '@/lib/oxygenSupply'
+import type { Hospital, WardType, RequiredResource, SearchOrigin } from '@/lib/types/hospital'
+import type { Referral } from '@/lib/types/referral'
 
 interface Profile {
   id: string
@@ -25,21 +47,6 @@ interface Profile {
   hospital_id?: string
 }
 
-interface Hospital {
-  id: number | string  // Allow both number and string IDs
-  name: string
-  address: string
-  phone_number?: string
-  latitude: number
-  longitude: number
-  pincode?: string
-  availability?: {
-    available_beds: number
-    available_oxygen: number
-    last_updated: string
-  }[]
-}
-
 export default function Dashboard() {
   const { user, profile, loading, signOut } = useAuth()
   const router = useRouter()
@@ -76,13 +83,16 @@ function DashboardContent({ user, profile, signOut }: {
   profile: Profile | null, 
   signOut: () => Promise<void> 
 }) {
-  const [hospitals, setHospitals] = useState<Hospital[]>([])
-  const [filteredHospitals, setFilteredHospitals] = useState<Hospital[]>([])
+  const [liveHospitals, setLiveHospitals] = useState<Hospital[]>([])
   const [loading, setLoading] = useState(true)
   const [updateLoading, setUpdateLoading] = useState(false)
   const [userHospital, setUserHospital] = useState<Hospital | null>(null)
   const [error, setError] = useState('')
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
+
+  // Live subscription status; bumping the key re-subscribes
+  const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'live' | 'error'>('connecting')
+  const [subscriptionKey, setSubscriptionKey] = useState(0)
   
   // State for PIN code analysis
   const [selectedPinCode, setSelectedPinCode] = useState('')
@@ -90,28 +100,44 @@ function DashboardContent({ user, profile, signOut }: {
   
   // Admin form state - ADD THESE BACK
   const [selectedHospital, setSelectedHospital] = useState('')
-  const [beds, setBeds] = useState('')
-  const [oxygen, setOxygen] = useState('')
+  const [wardForm, setWardForm] = useState<WardFormState>(() => wardsToFormState())
+  const [oxygenForm, setOxygenForm] = useState<OxygenFormState>(() => oxygenToFormState())
+
+  // Bed type filter for the hospital list ('' = any bed type)
+  const [wardFilter, setWardFilter] = useState<WardType | ''>('')
+
+  // Accepted referrals hold beds until their window ends; `now` ticks so holds expire on screen
+  const [acceptedReferrals, setAcceptedReferrals] = useState<Referral[]>([])
+  const [now, setNow] = useState(() => Date.now())
+  const [referralTarget, setReferralTarget] = useState('')
+
+  // Live counts with referral bed holds applied
+  const hospitals = applyBedHolds(liveHospitals, acceptedReferrals, now)
+
+  // "Find beds near me" search: origin switches the list to distance ranking
+  const [searchOrigin, setSearchOrigin] = useState<SearchOrigin | null>(null)
+  const [requiredResources, setRequiredResources] = useState<RequiredResource[]>([])
 
   // Handler for PIN code analysis
   const handlePinCodeAnalyzed = (pinCode: string, cityName: string) => {
     setSelectedPinCode(pinCode)
     setSelectedCity(cityName)
     console.log('PIN Code analyzed:', pinCode, 'City:', cityName)
-    
-    // Filter hospitals by PIN code
-    if (pinCode) {
-      const filtered = hospitals.filter(hospital => 
-        hospital.pincode === pinCode || 
-        hospital.address.includes(pinCode)
-      )
-      setFilteredHospitals(filtered)
-      console.log(`Found ${filtered.length} hospitals in PIN code ${pinCode}`)
-    } else {
-      setFilteredHospitals(hospitals)
-    }
   }
 
+  // Filter hospitals by PIN code (derived so live updates keep the filter applied)
+  const filteredHospitals = selectedPinCode
+    ? hospitals.filter(hospital => 
+        hospital.pincode === selectedPinCode || 
+        hospital.address.includes(selectedPinCode)
+      )
+    : hospitals
+
+  // Keep the admin's own hospital in sync with the live subscription
+  const currentUserHospital = userHospital
+    ? hospitals.find(hospital => String(hospital.id) === String(userHospital.id)) || userHospital
+    : null
+
   // Debug logging (only when needed)
   console.log('Dashboard - User ID:', user?.uid)
   console.log('Dashboard - Profile:', { 
@@ -147,17 +173,10 @@ function DashboardContent({ user, profile, signOut }: {
       
       console.log('Actual hospital ID:', actualHospitalId, 'Type:', typeof actualHospitalId)
 
-      // Get availability data for this hospital - use string comparison
-      
-      const availabilityQuery = query(
-        collection(db, 'availability'),
-        where('hospital_id', '==', actualHospitalId),  // Use original ID type
-        orderBy('updated_at', 'desc'),
-        limit(1)
-      )
-      const availabilitySnap = await getDocs(availabilityQuery)
+      // Get current availability for this hospital (one document read)
+      const latestAvailability = await fetchLatestAvailability(actualHospitalId)
 
-      console.log('Availability records found:', availabilitySnap.size)
+      console.log('Latest availability found:', !!latestAvailability)
 
       const hospital: Hospital = {
         id: actualHospitalId,  // Keep as string if it's a string
@@ -166,11 +185,7 @@ function DashboardContent({ user, profile, signOut }: {
         phone_number: hospitalData.phone,
         latitude: hospitalData.latitude || 0,
         longitude: hospitalData.longitude || 0,
-        availability: availabilitySnap.empty ? [] : [{
-          available_beds: availabilitySnap.docs[0].data().available_beds || 0,
-          available_oxygen: availabilitySnap.docs[0].data().available_oxygen || 0,
-          last_updated: availabilitySnap.docs[0].data().updated_at?.toDate?.()?.toLocaleString() || ''
-        }]
+        availability: latestAvailability ? [latestAvailability] : []
       }
 
       console.log('User hospital loaded:', hospital)
@@ -180,8 +195,8 @@ function DashboardContent({ user, profile, signOut }: {
       
       // Pre-populate form if availability exists
       if (hospital.availability && hospital.availability.length > 0) {
-        setBeds(hospital.availability[0].available_beds.toString())
-        setOxygen(hospital.availability[0].available_oxygen.toString())
+        setWardForm(wardsToFormState(hospital.availability[0].wards))
+        setOxygenForm(oxygenToFormState(hospital.availability[0].oxygen))
       }
     } catch (error: unknown) {
       console.error('Error loading user hospital:', error)
@@ -189,117 +204,23 @@ function DashboardContent({ user, profile, signOut }: {
     }
   }, [profile?.hospital_id])
 
-  const loadHospitals = useCallback(async () => {
-    console.log('=== LOADING HOSPITALS ===')
-    try {
-      // Get all hospitals from Firestore
-      const hospitalsQuery = query(
-        collection(db, 'hospitals'),
-        orderBy('name')
-      )
-      
-      const hospitalsSnap = await getDocs(hospitalsQuery)
-      console.log('Hospitals found:', hospitalsSnap.size)
-      
-      // Get all availability data
-      const availabilitySnap = await getDocs(collection(db, 'availability'))
-      console.log('Total availability records:', availabilitySnap.size)
-      
-      const availabilityMap = new Map()
-      
-      availabilitySnap.docs.forEach(doc => {
-        const data = doc.data()
-        const hospitalId = data.hospital_id
-        
-        console.log('Availability record:', {
-          docId: doc.id,
-          hospitalId: hospitalId,
-          hospitalIdType: typeof hospitalId,
-          beds: data.available_beds,
-          oxygen: data.available_oxygen,
-          updated: data.updated_at?.toDate?.()?.toLocaleString()
-        })
-        
-        // Keep hospital ID as-is, don't convert to number
-        // Skip only if undefined or null
-        if (hospitalId === null || hospitalId === undefined) {
-          console.warn('Skipping invalid hospital ID:', hospitalId)
-          return
-        }
-        
-        // Convert to string for consistent comparison
-        const hospitalIdKey = String(hospitalId)
-        
-        // Keep only the most recent record for each hospital
-        if (!availabilityMap.has(hospitalIdKey) || 
-            data.updated_at > availabilityMap.get(hospitalIdKey).updated_at) {
-          availabilityMap.set(hospitalIdKey, data)
-        }
-      })
-      
-      console.log('Availability map size:', availabilityMap.size)
-      console.log('Availability map entries:', Array.from(availabilityMap.entries()))
-      
-      // Combine hospitals with availability
-      const hospitals: Hospital[] = hospitalsSnap.docs.map(doc => {
-        const data = doc.data()
-        const hospitalId = data.id || doc.id
-        
-        // Keep hospital ID as string or number, don't force conversion
-        const hospitalIdKey = String(hospitalId)
-        
-        const availData = availabilityMap.get(hospitalIdKey)
-        
-        const hospital = {
-          id: hospitalId,  // Keep original type
-          name: data.name,
-          address: data.address,
-          phone_number: data.phone,
-          latitude: data.latitude || 0,
-          longitude: data.longitude || 0,
-          pincode: data.pincode || '',
-          availability: availData ? [{
-            available_beds: availData.available_beds || 0,
-            available_oxygen: availData.available_oxygen || 0,
-            last_updated: availData.updated_at?.toDate?.()?.toLocaleString() || ''
-          }] : []
-        }
-        
-        console.log('Hospital processed:', {
-          id: hospital.id,
-          idType: typeof hospital.id,
-          name: hospital.name,
-          beds: hospital.availability[0]?.available_beds || 0,
-          oxygen: hospital.availability[0]?.available_oxygen || 0,
-          hasAvailability: !!availData
-        })
-        
-        return hospital
-      })
-
-      console.log('Total hospitals loaded:', hospitals.length)
-      console.log('Total beds across all hospitals:', hospitals.reduce((sum, h) => sum + (h.availability?.[0]?.available_beds || 0), 0))
-      console.log('Total oxygen across all hospitals:', hospitals.reduce((sum, h) => sum + (h.availability?.[0]?.available_oxygen || 0), 0))
-
-      setHospitals(hospitals)
-      setFilteredHospitals(hospitals) // Initialize with all hospitals
-    } catch (error: unknown) {
-      console.error('Error loading hospitals:', error)
-      setError('Failed to load hospital data')
-    } finally {
-      setLoading(false)
-    }
-  }, [])
-
   // UPDATE AVAILABILITY FUNCTION
   const updateAvailability = async (e: React.FormEvent) => {
     e.preventDefault()
     
-    if (!selectedHospital || !beds || !oxygen) {
+    if (!selectedHospital || !oxygenForm.cylinders) {
       setError('Please fill all fields')
       return
     }
 
+    const wards = formStateToWards(wardForm)
+    const oxygen = formStateToOxygen(oxygenForm)
+    const validationError = validateWards(wards) || validateOxygenSupply(oxygen)
+    if (validationError) {
+      alert('❌ ' + validationError)
+      return
+    }
+
     setUpdateLoading(true)
     setError('')
 
@@ -309,7 +230,7 @@ function DashboardContent({ user, profile, signOut }: {
       
       console.log('=== UPDATING AVAILABILITY ===')
       console.log('Hospital ID:', hospitalId, 'Type:', typeof hospitalId)
-      console.log('Beds:', beds)
+      console.log('Wards:', wards)
       console.log('Oxygen:', oxygen)
       
       // Verify the hospital exists
@@ -322,50 +243,14 @@ function DashboardContent({ user, profile, signOut }: {
         console.warn('Hospital document not found!')
       }
       
-      // Create or update availability document
-      const availabilityDocId = `${hospitalId}_${Date.now()}`
-      const availabilityRef = doc(db, 'availability', availabilityDocId)
-      
-      const availabilityData = {
-        hospital_id: hospitalId,  // Use original ID (string or number)
-        available_beds: parseInt(beds),
-        available_oxygen: parseInt(oxygen),
-        updated_at: Timestamp.now()
-      }
-      
-      console.log('Creating availability document:', availabilityDocId)
-      console.log('Availability data:', availabilityData)
+      // Write history entry and latest-availability document in one batch
+      const availabilityDocId = await recordAvailabilityUpdate(hospitalId, { wards, oxygen })
       
-      await setDoc(availabilityRef, availabilityData)
-      
-      console.log('✅ Availability document created successfully!')
-      
-      // Verify the document was created
-      const verifySnap = await getDoc(availabilityRef)
-      if (verifySnap.exists()) {
-        console.log('✅ Verified: Document exists in Firestore')
-        console.log('Document data:', verifySnap.data())
-      } else {
-        console.error('❌ Document creation failed!')
-      }
-      
-      // Force reload data with a small delay to ensure Firestore has synced
-      console.log('Waiting for Firestore sync...')
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
-      console.log('Reloading hospitals data...')
-      setLoading(true)
-      await loadHospitals()
-      
-      if (profile?.role === 'hospital_admin') {
-        console.log('Reloading user hospital...')
-        await loadUserHospital()
-      }
-      
-      setLoading(false)
+      // No reload needed: the live subscription picks up the new document
+      console.log('✅ Availability document created successfully:', availabilityDocId)
       console.log('=== UPDATE COMPLETE ===')
 
-      alert('✅ Availability updated successfully! Check the dashboard for updated numbers.')
+      alert('✅ Availability updated successfully! All open dashboards update automatically.')
     } catch (error: unknown) {
       console.error('❌ Error updating availability:', error)
       setError('Failed to update availability. Please try again.')
@@ -375,26 +260,46 @@ function DashboardContent({ user, profile, signOut }: {
     }
   }
 
-  // Force refresh function
-  const forceRefresh = async () => {
-    setLoading(true)
+  // Reconnect the live subscription after an error
+  const reconnect = () => {
     setError('')
-    
-    try {
-      await loadHospitals()
-      if (profile?.role === 'hospital_admin' && profile?.hospital_id) {
-        await loadUserHospital()
-      }
-    } catch (error) {
-      console.error('Force refresh failed:', error)
-      setError('Failed to refresh data')
-    }
+    setSubscriptionKey(key => key + 1)
   }
 
   // useEffect hooks after function definitions
   useEffect(() => {
-    loadHospitals()
-  }, [loadHospitals])
+    console.log('=== SUBSCRIBING TO HOSPITALS ===')
+    setConnectionStatus('connecting')
+
+    const unsubscribe = subscribeToHospitals(
+      liveHospitals => {
+        console.log('Live hospitals update:', liveHospitals.length)
+        setLiveHospitals(liveHospitals)
+        setConnectionStatus('live')
+        setLoading(false)
+      },
+      error => {
+        console.error('Hospital subscription error:', error)
+        setConnectionStatus('error')
+        setLoading(false)
+      }
+    )
+
+    return () => unsubscribe()
+  }, [subscriptionKey])
+
+  useEffect(() => {
+    const unsubscribe = subscribeToAcceptedReferrals(
+      setAcceptedReferrals,
+      error => console.error('Referral holds subscription error:', error)
+    )
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000)
+
+    return () => {
+      unsubscribe()
+      clearInterval(timer)
+    }
+  }, [subscriptionKey])
 
   useEffect(() => {
     if (profile?.role === 'hospital_admin' && profile?.hospital_id) {
@@ -424,6 +329,49 @@ function DashboardContent({ user, profile, signOut }: {
     return 'Available'
   }
 
+  // Free beds that matter for the current bed type filter (stale counts are not trusted)
+  const getRelevantFreeBeds = (hospital: Hospital): number => {
+    const avail = hospital.availability?.[0]
+    if (!avail || isHospitalStale(hospital, now)) return 0
+    return wardFilter ? getFreeBeds(avail.wards[wardFilter]) : avail.available_beds
+  }
+
+  // Availability filters never match stale hospitals
+  const matchesAvailabilityFilters = (hospital: Hospital): boolean =>
+    (!wardFilter || getRelevantFreeBeds(hospital) > 0) &&
+    (requiredResources.length === 0 ||
+      (!isHospitalStale(hospital, now) && hasRequiredResources(hospital, requiredResources)))
+
+  // Nearby search ranks the whole network, so the PIN code area filter does not apply
+  const rankedHospitals = searchOrigin
+    ? rankHospitalsByProximity(
+        hospitals.filter(matchesAvailabilityFilters),
+        searchOrigin,
+        requiredResources,
+        getRelevantFreeBeds
+      )
+    : null
+
+  const visibleHospitals = rankedHospitals
+    ? rankedHospitals.map(ranked => ranked.hospital)
+    : filteredHospitals.filter(matchesAvailabilityFilters)
+
+  // Hospitals that have gone quiet, for the super admin report
+  const staleHospitals = getStaleHospitals(hospitals, now)
+
+  const canRequestReferral = REFERRAL_REQUESTER_ROLES.includes(profile?.role || '')
+
+  // Hospitals projected to run out of oxygen within the alert threshold, soonest first
+  const lowOxygenHospitals = hospitals
+    .filter(hospital => isOxygenLow(hospital.availability?.[0]))
+    .sort((a, b) =>
+      (getHoursUntilDepletion(a.availability![0]) ?? 0) - (getHoursUntilDepletion(b.availability![0]) ?? 0)
+    )
+
+  const distanceById = new Map(
+    (rankedHospitals || []).map(ranked => [String(ranked.hospital.id), ranked.distance_km])
+  )
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-white dark:bg-gray-900">
@@ -677,19 +625,24 @@ function DashboardContent({ user, profile, signOut }: {
         </div>
 
         {/* Hospital Admin Management */}
-        {profile?.role === 'hospital_admin' && userHospital && (
+        {profile?.role === 'hospital_admin' && currentUserHospital && (
           <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-200 dark:border-gray-800 p-8 mb-8 shadow-sm">
             <h2 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white">Manage Your Hospital</h2>
             
             <div className="bg-blue-50 dark:bg-blue-950/30 rounded-xl p-6 mb-6 border border-blue-100 dark:border-blue-900">
               <h3 className="text-xl font-bold mb-4 flex items-center text-gray-900 dark:text-white">
                 <MapPin className="h-6 w-6 mr-2 text-blue-600 dark:text-blue-400" />
-                {userHospital?.name}
+                {currentUserHospital?.name}
               </h3>
+              {isHospitalStale(currentUserHospital, now) && (
+                <div className="mb-4 text-sm font-medium text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800 rounded-lg px-3 py-2">
+                  Your availability is older than {STALE_AVAILABILITY_HOURS} hours and is marked stale. Submit an update below.
+                </div>
+              )}
               <div className="grid grid-cols-2 gap-4">
                 <div className="bg-white dark:bg-gray-800 rounded-xl p-4 text-center border border-gray-200 dark:border-gray-700">
                   <div className="text-3xl font-bold text-emerald-600 dark:text-emerald-400">
-                    {userHospital?.availability?.[0]?.available_beds || 0}
+                    {currentUserHospital?.availability?.[0]?.available_beds || 0}
                   </div>
                   <div className="text-sm font-medium flex items-center justify-center mt-2 text-gray-700 dark:text-gray-300">
                     <Bed className="h-4 w-4 mr-1" />
@@ -698,44 +651,48 @@ function DashboardContent({ user, profile, signOut }: {
                 </div>
                 <div className="bg-white dark:bg-gray-800 rounded-xl p-4 text-center border border-gray-200 dark:border-gray-700">
                   <div className="text-3xl font-bold text-indigo-600 dark:text-indigo-400">
-                    {userHospital?.availability?.[0]?.available_oxygen || 0}
+                    {currentUserHospital?.availability?.[0]?.available_oxygen || 0}
                   </div>
                   <div className="text-sm font-medium flex items-center justify-center mt-2 text-gray-700 dark:text-gray-300">
                     <Droplets className="h-4 w-4 mr-1" />
                     Oxygen Cylinders
                   </div>
+                  {currentUserHospital?.availability?.[0] && (() => {
+                    const avail = currentUserHospital.availability[0]
+                    const tankFill = getTankFillPercentage(avail.oxygen)
+                    return (
+                      <div className={`text-xs mt-1 ${isOxygenLow(avail) ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-gray-500 dark:text-gray-400'}`}>
+                        {tankFill !== null && `Tank ${tankFill.toFixed(0)}% · `}
+                        {formatHoursUntilDepletion(getHoursUntilDepletion(avail))}
+                      </div>
+                    )
+                  })()}
                 </div>
               </div>
+              {currentUserHospital?.availability?.[0] && (
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-2 mt-4">
+                  {WARD_TYPES.map(({ type, shortLabel }) => {
+                    const ward = currentUserHospital.availability![0].wards[type]
+                    return (
+                      <div key={type} className="bg-white dark:bg-gray-800 rounded-lg p-2 text-center border border-gray-200 dark:border-gray-700">
+                        <div className="text-lg font-bold text-gray-900 dark:text-white">
+                          {getFreeBeds(ward)}<span className="text-xs font-normal text-gray-500 dark:text-gray-400">/{ward.total}</span>
+                        </div>
+                        <div className="text-xs text-gray-600 dark:text-gray-400">{shortLabel}</div>
+                        {ward.held ? (
+                          <div className="text-[10px] font-medium text-amber-600 dark:text-amber-400">{ward.held} held</div>
+                        ) : null}
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
             </div>
 
             {/* Update Form */}
             <form onSubmit={updateAvailability} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">Available Beds</label>
-                  <input
-                    type="number"
-                    value={beds}
-                    onChange={(e) => setBeds(e.target.value)}
-                    className="w-full px-4 py-3 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-blue-500 dark:focus:border-blue-400 transition-colors"
-                    placeholder="Enter available beds"
-                    required
-                    min="0"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">Oxygen Cylinders</label>
-                  <input
-                    type="number"
-                    value={oxygen}
-                    onChange={(e) => setOxygen(e.target.value)}
-                    className="w-full px-4 py-3 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-blue-500 dark:focus:border-blue-400 transition-colors"
-                    placeholder="Enter oxygen cylinders"
-                    required
-                    min="0"
-                  />
-                </div>
-              </div>
+              <WardBedInputs value={wardForm} onChange={setWardForm} />
+              <OxygenSupplyInputs value={oxygenForm} onChange={setOxygenForm} />
               <button
                 type="submit"
                 disabled={updateLoading}
@@ -751,6 +708,57 @@ function DashboardContent({ user, profile, signOut }: {
         {profile?.role === 'super_admin' && (
           <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-200 dark:border-gray-800 p-8 mb-8 shadow-sm">
             <h2 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white">Super Admin: Update Any Hospital</h2>
+
+            {/* Low Oxygen Alerts */}
+            <div className={`rounded-xl p-4 mb-6 border ${lowOxygenHospitals.length > 0 ? 'bg-red-50 dark:bg-red-950/30 border-red-200 dark:border-red-800' : 'bg-gray-50 dark:bg-gray-800/50 border-gray-200 dark:border-gray-700'}`}>
+              <h3 className="text-sm font-semibold mb-2 flex items-center text-gray-900 dark:text-white">
+                <AlertTriangle className={`h-4 w-4 mr-2 ${lowOxygenHospitals.length > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-400'}`} />
+                Oxygen below {OXYGEN_ALERT_HOURS}h of supply ({lowOxygenHospitals.length})
+              </h3>
+              {lowOxygenHospitals.length === 0 ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400">All hospitals are above the oxygen alert threshold</p>
+              ) : (
+                <ul className="space-y-1">
+                  {lowOxygenHospitals.map(hospital => {
+                    const avail = hospital.availability![0]
+                    return (
+                      <li key={String(hospital.id)} className="flex justify-between text-sm text-gray-900 dark:text-white">
+                        <span>{hospital.name}</span>
+                        <span className="font-semibold text-red-600 dark:text-red-400">
+                          {formatHoursUntilDepletion(getHoursUntilDepletion(avail))}
+                          <span className="font-normal text-gray-500 dark:text-gray-400"> · {avail.oxygen.cylinders} cylinders</span>
+                        </span>
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+            </div>
+
+            {/* Stale Availability Report */}
+            <div className={`rounded-xl p-4 mb-6 border ${staleHospitals.length > 0 ? 'bg-amber-50 dark:bg-amber-950/30 border-amber-200 dark:border-amber-800' : 'bg-gray-50 dark:bg-gray-800/50 border-gray-200 dark:border-gray-700'}`}>
+              <h3 className="text-sm font-semibold mb-2 flex items-center text-gray-900 dark:text-white">
+                <Clock className={`h-4 w-4 mr-2 ${staleHospitals.length > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-gray-400'}`} />
+                No update in {STALE_AVAILABILITY_HOURS}h ({staleHospitals.length})
+              </h3>
+              {staleHospitals.length === 0 ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400">Every hospital has reported recently</p>
+              ) : (
+                <ul className="space-y-1">
+                  {staleHospitals.map(({ hospital, age_ms }) => (
+                    <li key={String(hospital.id)} className="flex justify-between text-sm text-gray-900 dark:text-white">
+                      <span>{hospital.name}</span>
+                      <span className="font-semibold text-amber-600 dark:text-amber-400">
+                        {age_ms === null ? 'Never updated' : `${formatDuration(age_ms)} ago`}
+                        {hospital.phone_number && (
+                          <span className="font-normal text-gray-500 dark:text-gray-400"> · {hospital.phone_number}</span>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
             
             <form onSubmit={updateAvailability} className="space-y-4">
               <div>
@@ -761,11 +769,11 @@ function DashboardContent({ user, profile, signOut }: {
                     setSelectedHospital(e.target.value)
                     const hospital = hospitals.find(h => h.id.toString() === e.target.value)
                     if (hospital?.availability?.[0]) {
-                      setBeds(hospital.availability[0].available_beds.toString())
-                      setOxygen(hospital.availability[0].available_oxygen.toString())
+                      setWardForm(wardsToFormState(hospital.availability[0].wards))
+                      setOxygenForm(oxygenToFormState(hospital.availability[0].oxygen))
                     } else {
-                      setBeds('')
-                      setOxygen('')
+                      setWardForm(wardsToFormState())
+                      setOxygenForm(oxygenToFormState())
                     }
                   }}
                   className="w-full px-4 py-3 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-blue-500 dark:focus:border-blue-400 transition-colors"
@@ -780,32 +788,8 @@ function DashboardContent({ user, profile, signOut }: {
                 </select>
               </div>
               
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">Available Beds</label>
-                  <input
-                    type="number"
-                    value={beds}
-                    onChange={(e) => setBeds(e.target.value)}
-                    className="w-full px-4 py-3 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-blue-500 dark:focus:border-blue-400 transition-colors"
-                    placeholder="Enter available beds"
-                    required
-                    min="0"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">Oxygen Cylinders</label>
-                  <input
-                    type="number"
-                    value={oxygen}
-                    onChange={(e) => setOxygen(e.target.value)}
-                    className="w-full px-4 py-3 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-blue-500 dark:focus:border-blue-400 transition-colors"
-                    placeholder="Enter oxygen cylinders"
-                    required
-                    min="0"
-                  />
-                </div>
-              </div>
+              <WardBedInputs value={wardForm} onChange={setWardForm} />
+              <OxygenSupplyInputs value={oxygenForm} onChange={setOxygenForm} />
               <button
                 type="submit"
                 disabled={updateLoading}
@@ -817,40 +801,81 @@ function DashboardContent({ user, profile, signOut }: {
           </div>
         )}
 
+        {/* Disease registry migration */}
+        {profile?.role === 'super_admin' && <DiseaseIdMigration />}
+
+        {/* Patient Referrals */}
+        {user && profile && (
+          <div id="referrals">
+            <ReferralPanel
+              userId={user.uid}
+              profile={profile}
+              hospitals={hospitals}
+              targetHospitalId={referralTarget}
+              onTargetHospitalChange={setReferralTarget}
+              now={now}
+            />
+          </div>
+        )}
+
         {/* Disease Prediction & Doctor Insights Component */}
         <DashboardDoctorInsights onPinCodeAnalyzed={handlePinCodeAnalyzed} />
 
         {/* Hospital Cards */}
         <div className="mb-12">
+          <NearbyHospitalSearch
+            origin={searchOrigin}
+            onOriginChange={setSearchOrigin}
+            requiredResources={requiredResources}
+            onRequiredResourcesChange={setRequiredResources}
+          />
+
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
             <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
-              {selectedPinCode ? `Hospitals in ${selectedCity} (${selectedPinCode})` : 'All Hospitals'}
+              {searchOrigin
+                ? `Hospitals near ${searchOrigin.label}`
+                : selectedPinCode ? `Hospitals in ${selectedCity} (${selectedPinCode})` : 'All Hospitals'}
             </h2>
             <div className="flex items-center space-x-3">
-              {selectedPinCode && (
+              {selectedPinCode && !searchOrigin && (
                 <button
                   onClick={() => {
                     setSelectedPinCode('')
                     setSelectedCity('')
-                    setFilteredHospitals(hospitals)
                   }}
                   className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-all"
                 >
                   <span>Clear Filter</span>
                 </button>
               )}
-              <button
-                onClick={forceRefresh}
-                disabled={loading}
-                className="flex items-center space-x-2 px-4 py-2 text-sm font-semibold text-white bg-gray-900 dark:bg-white dark:text-gray-900 rounded-lg hover:bg-gray-800 dark:hover:bg-gray-100 disabled:opacity-50 transition-all shadow-sm"
+              <select
+                value={wardFilter}
+                onChange={(e) => setWardFilter(e.target.value as WardType | '')}
+                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-all"
               >
-                <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
-                <span>{loading ? 'Refreshing...' : 'Refresh'}</span>
-              </button>
+                <option value="">Any bed type</option>
+                {WARD_TYPES.map(({ type, label }) => (
+                  <option key={type} value={type}>{label} free</option>
+                ))}
+              </select>
+              {connectionStatus === 'error' ? (
+                <button
+                  onClick={reconnect}
+                  className="flex items-center space-x-2 px-4 py-2 text-sm font-semibold text-white bg-gray-900 dark:bg-white dark:text-gray-900 rounded-lg hover:bg-gray-800 dark:hover:bg-gray-100 transition-all shadow-sm"
+                >
+                  <RefreshCw className="h-4 w-4" />
+                  <span>Reconnect</span>
+                </button>
+              ) : (
+                <span className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                  <span className={`w-2 h-2 rounded-full ${connectionStatus === 'live' ? 'bg-emerald-500 animate-pulse' : 'bg-gray-400'}`}></span>
+                  <span>{connectionStatus === 'live' ? 'Live' : 'Connecting...'}</span>
+                </span>
+              )}
             </div>
           </div>
 
-          {filteredHospitals.length === 0 && selectedPinCode ? (
+          {filteredHospitals.length === 0 && selectedPinCode && !searchOrigin ? (
             <div className="bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800 rounded-xl p-8 text-center">
               <div className="text-amber-600 dark:text-amber-400 text-lg font-semibold mb-2">
                 No hospitals found in PIN code {selectedPinCode}
@@ -862,19 +887,40 @@ function DashboardContent({ user, profile, signOut }: {
                 onClick={() => {
                   setSelectedPinCode('')
                   setSelectedCity('')
-                  setFilteredHospitals(hospitals)
                 }}
                 className="px-6 py-2 text-sm font-semibold text-white bg-gray-900 dark:bg-white dark:text-gray-900 rounded-lg hover:bg-gray-800 dark:hover:bg-gray-100 transition-all"
               >
                 View All Hospitals
               </button>
             </div>
+          ) : visibleHospitals.length === 0 && (wardFilter || requiredResources.length > 0) ? (
+            <div className="bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800 rounded-xl p-8 text-center">
+              <div className="text-amber-600 dark:text-amber-400 text-lg font-semibold mb-2">
+                {wardFilter
+                  ? `No hospitals with free ${WARD_TYPES.find(w => w.type === wardFilter)?.label} beds`
+                  : 'No hospitals have all the required resources right now'}
+              </div>
+              <button
+                onClick={() => {
+                  setWardFilter('')
+                  setRequiredResources([])
+                }}
+                className="px-6 py-2 text-sm font-semibold text-white bg-gray-900 dark:bg-white dark:text-gray-900 rounded-lg hover:bg-gray-800 dark:hover:bg-gray-100 transition-all"
+              >
+                Clear Requirements
+              </button>
+            </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredHospitals.map((hospital, index) => {
+              {visibleHospitals.map((hospital, index) => {
                 const avail = hospital.availability?.[0]
                 const beds = avail?.available_beds || 0
+                const statusBeds = getRelevantFreeBeds(hospital)
+                const stale = isHospitalStale(hospital, now)
                 const oxygen = avail?.available_oxygen || 0
+                const oxygenHours = avail ? getHoursUntilDepletion(avail) : null
+                const oxygenLow = isOxygenLow(avail)
+                const distanceKm = distanceById.get(String(hospital.id))
                 
                 // Generate a truly unique key using index, ID, and sanitized name
                 const sanitizedName = hospital.name.replace(/\s+/g, '-').replace(/[^a-zA-Z0-9-]/g, '')
@@ -884,9 +930,25 @@ function DashboardContent({ user, profile, signOut }: {
                 <div key={hospitalKey} className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6 hover:shadow-md transition-shadow">
                   <div className="flex items-start justify-between mb-4">
                     <h3 className="text-xl font-bold text-gray-900 dark:text-white">{hospital.name}</h3>
-                    <span className={`px-3 py-1 rounded-full text-xs font-semibold ${getStatusColor(beds)}`}>
-                      {getStatusText(beds)}
-                    </span>
+                    <div className="flex flex-col items-end gap-1">
+                      {stale ? (
+                        <span
+                          className="px-3 py-1 rounded-full text-xs font-semibold bg-gray-200 text-gray-700 dark:bg-gray-800 dark:text-gray-300"
+                          title={`No update in the last ${STALE_AVAILABILITY_HOURS} hours`}
+                        >
+                          Stale
+                        </span>
+                      ) : (
+                        <span className={`px-3 py-1 rounded-full text-xs font-semibold ${getStatusColor(statusBeds)}`}>
+                          {getStatusText(statusBeds)}
+                        </span>
+                      )}
+                      {oxygenLow && (
+                        <span className="px-3 py-1 rounded-full text-xs font-semibold bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400">
+                          Low O₂
+                        </span>
+                      )}
+                    </div>
                   </div>
                   
                   <div className="space-y-2 mb-4">
@@ -894,6 +956,12 @@ function DashboardContent({ user, profile, signOut }: {
                       <MapPin className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-gray-500" />
                       <span>{hospital.address}</span>
                     </div>
+                    {distanceKm !== undefined && (
+                      <div className="flex items-center text-sm font-medium text-blue-600 dark:text-blue-400">
+                        <Navigation className="h-4 w-4 mr-2" />
+                        <span>{formatDistance(distanceKm)} away</span>
+                      </div>
+                    )}
                     {hospital.phone_number && (
                       <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
                         <Phone className="h-4 w-4 mr-2 text-gray-500" />
@@ -916,15 +984,60 @@ function DashboardContent({ user, profile, signOut }: {
                         <Droplets className="h-3 w-3 mr-1" />
                         Oxygen
                       </div>
+                      {avail && (
+                        <div className={`text-xs mt-1 ${oxygenLow ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-gray-500 dark:text-gray-400'}`}>
+                          {formatHoursUntilDepletion(oxygenHours)}
+                        </div>
+                      )}
                     </div>
                   </div>
 
-                  {avail?.last_updated && (
-                    <div className="mt-4 text-xs text-gray-500 dark:text-gray-400 flex items-center">
-                      <Clock className="h-3 w-3 mr-1" />
-                      Updated: {avail.last_updated}
+                  {avail && (
+                    <div className="flex flex-wrap gap-1.5 mt-4">
+                      {WARD_TYPES.filter(({ type }) => avail.wards[type].total > 0).map(({ type, shortLabel }) => {
+                        const free = getFreeBeds(avail.wards[type])
+                        return (
+                          <span key={type} className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(free)}`}>
+                            {shortLabel}: {free}{avail.wards[type].held ? ` (${avail.wards[type].held} held)` : ''}
+                          </span>
+                        )
+                      })}
                     </div>
                   )}
+
+                  <div className="mt-4 flex items-center justify-between">
+                    {avail?.last_updated ? (
+                      <div className={`text-xs flex items-center ${stale ? 'text-amber-600 dark:text-amber-400 font-medium' : 'text-gray-500 dark:text-gray-400'}`}>
+                        <Clock className="h-3 w-3 mr-1" />
+                        Updated: {avail.last_updated}
+                      </div>
+                    ) : (
+                      <div className="text-xs text-amber-600 dark:text-amber-400 font-medium">Never updated</div>
+                    )}
+                    <div className="flex items-center space-x-3">
+                      {canRequestReferral && hospital.doc_id && hospital.doc_id !== profile?.hospital_id && (
+                        <button
+                          onClick={() => {
+                            setReferralTarget(String(hospital.id))
+                            document.getElementById('referrals')?.scrollIntoView({ behavior: 'smooth' })
+                          }}
+                          className="flex items-center text-xs font-medium text-emerald-600 dark:text-emerald-400 hover:underline"
+                        >
+                          <ArrowRightLeft className="h-3 w-3 mr-1" />
+                          Request Bed
+                        </button>
+                      )}
+                      {hospital.doc_id && (
+                        <Link
+                          href={`/hospitals/${hospital.doc_id}/history`}
+                          className="flex items-center text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          <BarChart3 className="h-3 w-3 mr-1" />
+                          History
+                        </Link>
+                      )}
+                    </div>
+                  </div>
                 </div>
               )
             })}
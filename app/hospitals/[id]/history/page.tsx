@@ -0,0 +1,234 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { doc, getDoc } from 'firebase/firestore'
+import { Heart, ArrowLeft, Bed, Clock, AlertTriangle, Activity } from 'lucide-react'
+import { db } from '@/lib/firebase'
+import { AuthGuard } from '@/components/AuthGuard'
+import ThemeToggle from '@/components/ThemeToggle'
+import AvailabilityHistoryChart from '@/components/AvailabilityHistoryChart'
+import { parseHospital } from '@/lib/hospitalAvailability'
+import {
+  HISTORY_RANGES,
+  type HistoryRangeKey,
+  fetchAvailabilityHistory,
+  calculateDailyStats,
+  calculateZeroBedStats,
+  formatDuration,
+  getRangeStart,
+} from '@/lib/availabilityHistory'
+import type { Hospital, AvailabilityHistoryPoint } from '@/lib/types/hospital'
+
+export default function HospitalHistoryPage() {
+  return (
+    <AuthGuard>
+      <HospitalHistoryContent />
+    </AuthGuard>
+  )
+}
+
+function HospitalHistoryContent() {
+  const params = useParams<{ id: string }>()
+  const [hospital, setHospital] = useState<Hospital | null>(null)
+  const [points, setPoints] = useState<AvailabilityHistoryPoint[]>([])
+  const [range, setRange] = useState<HistoryRangeKey>('30d')
+  const [rangeEnd, setRangeEnd] = useState(() => Date.now())
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const hospitalSnap = await getDoc(doc(db, 'hospitals', params.id))
+      if (!hospitalSnap.exists()) {
+        throw new Error('Hospital not found')
+      }
+
+      const loadedHospital = parseHospital(hospitalSnap.id, hospitalSnap.data())
+      const now = Date.now()
+      const history = await fetchAvailabilityHistory(loadedHospital.id, getRangeStart(range, now))
+
+      setHospital(loadedHospital)
+      setPoints(history)
+      setRangeEnd(now)
+    } catch (error: unknown) {
+      console.error('Error loading availability history:', error)
+      setError(error instanceof Error ? error.message : 'Failed to load availability history')
+    } finally {
+      setLoading(false)
+    }
+  }, [params.id, range])
+
+  useEffect(() => {
+    loadHistory()
+  }, [loadHistory])
+
+  const rangeStart = getRangeStart(range, rangeEnd).getTime()
+  const dailyStats = calculateDailyStats(points, rangeEnd)
+  const zeroBedStats = calculateZeroBedStats(points, rangeEnd)
+  const daysAtZero = dailyStats.filter(day => day.min_beds === 0).length
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      {/* Header */}
+      <header className="fixed top-0 left-0 right-0 bg-white/80 dark:bg-gray-950/80 backdrop-blur-xl border-b border-gray-200/50 dark:border-gray-800/50 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-2.5">
+              <div className="relative">
+                <Heart className="h-7 w-7 text-rose-500 fill-rose-500" />
+                <div className="absolute -top-1 -right-1 w-2 h-2 bg-emerald-400 rounded-full animate-pulse"></div>
+              </div>
+              <Link href="/" className="group">
+                <h1 className="text-xl font-bold text-gray-900 dark:text-white tracking-tight">
+                  Smart<span className="text-rose-500">Med</span>
+                </h1>
+                <p className="text-[10px] text-gray-500 dark:text-gray-400 -mt-0.5">Health Intelligence</p>
+              </Link>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Link
+                href="/dashboard"
+                className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-all"
+              >
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Dashboard
+              </Link>
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="pt-24 pb-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          {/* Title & Range Selector */}
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+              <h2 className="text-3xl font-bold text-gray-900 dark:text-white">
+                {hospital?.name || 'Hospital'} History
+              </h2>
+              <p className="text-gray-600 dark:text-gray-400">Bed and oxygen availability over time</p>
+            </div>
+            <div className="flex bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-1">
+              {HISTORY_RANGES.map(({ key, label }) => (
+                <button
+                  key={key}
+                  onClick={() => setRange(key)}
+                  className={`px-3 py-1.5 text-sm font-medium rounded-md transition-all ${
+                    range === key
+                      ? 'bg-gray-900 dark:bg-white text-white dark:text-gray-900'
+                      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error ? (
+            <div className="bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800 rounded-xl p-6 text-center text-red-600 dark:text-red-400">
+              {error}
+            </div>
+          ) : loading ? (
+            <div className="flex justify-center py-24">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 dark:border-blue-400"></div>
+            </div>
+          ) : (
+            <>
+              {/* Zero-Bed Statistics */}
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-4 shadow-sm">
+                  <div className="flex items-center justify-between mb-2">
+                    <Clock className="h-5 w-5 text-red-600 dark:text-red-400" />
+                    <span className="text-2xl font-bold text-gray-900 dark:text-white">{formatDuration(zeroBedStats.total_ms)}</span>
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Time at zero beds ({zeroBedStats.percentage.toFixed(1)}%)
+                  </p>
+                </div>
+                <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-4 shadow-sm">
+                  <div className="flex items-center justify-between mb-2">
+                    <AlertTriangle className="h-5 w-5 text-orange-600 dark:text-orange-400" />
+                    <span className="text-2xl font-bold text-gray-900 dark:text-white">{zeroBedStats.episodes}</span>
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">Times the hospital ran out of beds</p>
+                </div>
+                <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-4 shadow-sm">
+                  <div className="flex items-center justify-between mb-2">
+                    <Bed className="h-5 w-5 text-yellow-600 dark:text-yellow-400" />
+                    <span className="text-2xl font-bold text-gray-900 dark:text-white">{formatDuration(zeroBedStats.longest_ms)}</span>
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">Longest stretch without beds</p>
+                </div>
+                <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-4 shadow-sm">
+                  <div className="flex items-center justify-between mb-2">
+                    <Activity className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+                    <span className="text-2xl font-bold text-gray-900 dark:text-white">{daysAtZero}</span>
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">Days that hit zero beds</p>
+                </div>
+              </div>
+
+              {/* Time Series */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <AvailabilityHistoryChart
+                  points={points}
+                  series="available_beds"
+                  rangeStart={rangeStart}
+                  rangeEnd={rangeEnd}
+                  title="Available Beds"
+                  color="#059669"
+                />
+                <AvailabilityHistoryChart
+                  points={points}
+                  series="available_oxygen"
+                  rangeStart={rangeStart}
+                  rangeEnd={rangeEnd}
+                  title="Oxygen Cylinders"
+                  color="#4f46e5"
+                />
+              </div>
+
+              {/* Daily Min/Max */}
+              <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6 shadow-sm overflow-x-auto">
+                <h3 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">Daily Min / Max</h3>
+                {dailyStats.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No updates in this period</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-800">
+                        <th className="py-2 pr-4 font-medium">Date</th>
+                        <th className="py-2 pr-4 font-medium">Beds (min – max)</th>
+                        <th className="py-2 pr-4 font-medium">Oxygen (min – max)</th>
+                        <th className="py-2 font-medium">Updates</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...dailyStats].reverse().map(day => (
+                        <tr key={day.date} className="border-b border-gray-100 dark:border-gray-800 text-gray-900 dark:text-white">
+                          <td className="py-2 pr-4 font-mono">{day.date}</td>
+                          <td className={`py-2 pr-4 ${day.min_beds === 0 ? 'text-red-600 dark:text-red-400 font-semibold' : ''}`}>
+                            {day.min_beds} – {day.max_beds}
+                          </td>
+                          <td className="py-2 pr-4">{day.min_oxygen} – {day.max_oxygen}</td>
+                          <td className="py-2">{day.updates}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+/**
+ * Availability History Chart Component
+ * Step chart of a single availability series (beds or oxygen) over time
+ */
+
+'use client'
+
+import type { AvailabilityHistoryPoint } from '@/lib/types/hospital'
+
+interface AvailabilityHistoryChartProps {
+  points: AvailabilityHistoryPoint[]
+  series: 'available_beds' | 'available_oxygen'
+  rangeStart: number
+  rangeEnd: number
+  title: string
+  color: string // Stroke color (hex)
+}
+
+const WIDTH = 600
+const HEIGHT = 180
+const PADDING = 8
+
+export default function AvailabilityHistoryChart({
+  points,
+  series,
+  rangeStart,
+  rangeEnd,
+  title,
+  color,
+}: AvailabilityHistoryChartProps) {
+  const maxValue = Math.max(1, ...points.map(p => p[series]))
+  const span = Math.max(rangeEnd - rangeStart, 1)
+
+  const toX = (timestamp: number) => PADDING + ((timestamp - rangeStart) / span) * (WIDTH - 2 * PADDING)
+  const toY = (value: number) => HEIGHT - PADDING - (value / maxValue) * (HEIGHT - 2 * PADDING)
+
+  // Each value holds until the next update, so draw horizontal-then-vertical steps
+  let path = ''
+  points.forEach((point, i) => {
+    const x = toX(Math.max(point.timestamp, rangeStart))
+    const y = toY(point[series])
+    path += i === 0 ? `M ${x} ${y}` : ` H ${x} V ${y}`
+  })
+  if (points.length > 0) {
+    path += ` H ${toX(rangeEnd)}`
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h3>
+        <span className="text-xs text-gray-500 dark:text-gray-400">Peak: {maxValue}</span>
+      </div>
+      {points.length === 0 ? (
+        <div className="h-44 flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+          No updates in this period
+        </div>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-44" preserveAspectRatio="none">
+          <line
+            x1={PADDING}
+            x2={WIDTH - PADDING}
+            y1={toY(0)}
+            y2={toY(0)}
+            className="stroke-gray-200 dark:stroke-gray-700"
+            strokeWidth={1}
+          />
+          <path d={path} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        </svg>
+      )}
+      <div className="flex justify-between mt-2 text-xs text-gray-500 dark:text-gray-400">
+        <span>{new Date(rangeStart).toLocaleString()}</span>
+        <span>{new Date(rangeEnd).toLocaleString()}</span>
+      </div>
+    </div>
+  )
+}
@@ -20,8 +20,16 @@ import {
   Loader2,
   Shield
 } from 'lucide-react'
-import { analyzeDiseaseByPinCode } from '@/lib/pinCodeDiseaseAnalysis'
-import type { WeatherData, DiseasePrediction } from '@/lib/types/doctor-module'
+import { DEFAULT_OUTLOOK_DAYS } from '@/lib/outlookOptions'
+import { CLIMATE_REGION_LABELS } from '@/lib/seasonalPriors'
+import RiskFactorBreakdown from './RiskFactorBreakdown'
+import DiseaseOutlookChart from './DiseaseOutlookChart'
+import type {
+  WeatherData,
+  DiseasePrediction,
+  DiseaseOutlookSummary,
+  SeasonalContext,
+} from '@/lib/types/doctor-module'
 
 interface DoctorInsightsProps {
   onPinCodeAnalyzed?: (pinCode: string, cityName: string) => void
@@ -36,6 +44,7 @@ interface AnalysisResult {
   }
   weather: WeatherData
   diseases: DiseasePrediction[]
+  season: SeasonalContext | null
   totalDoctorsRequired: number
 }
 
@@ -45,6 +54,9 @@ export default function DashboardDoctorInsights({ onPinCodeAnalyzed }: DoctorIns
   const [error, setError] = useState('')
   const [result, setResult] = useState<AnalysisResult | null>(null)
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
+  const [outlook, setOutlook] = useState<DiseaseOutlookSummary | null>(null)
+  const [outlookDays, setOutlookDays] = useState(DEFAULT_OUTLOOK_DAYS)
+  const [outlookLoading, setOutlookLoading] = useState(false)
 
   const validatePinCode = (pin: string): boolean => {
     if (!pin) {
@@ -59,14 +71,44 @@ export default function DashboardDoctorInsights({ onPinCodeAnalyzed }: DoctorIns
     return true
   }
 
+  // The outlook is optional: if the forecast fails, today's analysis still shows
+  const loadOutlook = async (pin: string, days: number) => {
+    setOutlookLoading(true)
+    try {
+      const response = await fetch(`/api/diseaseOutlook?pincode=${pin}&days=${days}`)
+      const outlookResult = await response.json()
+      setOutlook(outlookResult.success ? outlookResult.data : null)
+    } catch (err) {
+      console.error('Outlook error:', err)
+      setOutlook(null)
+    } finally {
+      setOutlookLoading(false)
+    }
+  }
+
+  const handleOutlookDaysChange = (days: number) => {
+    setOutlookDays(days)
+    if (result) {
+      loadOutlook(result.location.pincode, days)
+    }
+  }
+
   const handleAnalyze = async () => {
     if (!validatePinCode(pinCode)) return
 
     setAnalyzing(true)
     setError('')
+    setOutlook(null)
 
     try {
-      const analysis = await analyzeDiseaseByPinCode(pinCode)
+      // Analyses run on the server, which keeps the PIN code directory and weather cache
+      const response = await fetch('/api/analyzePinCode', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pincode: pinCode, type: 'full' })
+      })
+      const analysisResult = await response.json()
+      const analysis = analysisResult.success ? analysisResult.data : null
 
       if (!analysis || !analysis.location || !analysis.weather) {
         throw new Error('Could not analyze the area. Please check the PIN code.')
@@ -76,9 +118,11 @@ export default function DashboardDoctorInsights({ onPinCodeAnalyzed }: DoctorIns
         location: analysis.location,
         weather: analysis.weather,
         diseases: analysis.diseases,
+        season: analysis.season,
         totalDoctorsRequired: analysis.totalDoctorsRequired
       })
       setLastUpdated(new Date())
+      loadOutlook(pinCode, outlookDays)
       
       // Notify parent component
       if (onPinCodeAnalyzed) {
@@ -242,6 +286,16 @@ export default function DashboardDoctorInsights({ onPinCodeAnalyzed }: DoctorIns
                   <span className="text-sm sm:text-base text-gray-600 dark:text-gray-400">PIN Code:</span>
                   <span className="text-sm sm:text-base font-mono font-bold text-gray-900 dark:text-white">{result.location.pincode}</span>
                 </div>
+                {result.season && (
+                  <div className="flex justify-between items-center gap-2">
+                    <span className="text-sm sm:text-base text-gray-600 dark:text-gray-400">Season:</span>
+                    <span className="text-sm sm:text-base font-medium text-gray-900 dark:text-white text-right truncate">
+                      {new Date(2000, result.season.month - 1).toLocaleString(undefined, { month: 'long' })}
+                      {' · '}
+                      {result.season.region ? CLIMATE_REGION_LABELS[result.season.region] : 'National'} priors
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -310,8 +364,8 @@ export default function DashboardDoctorInsights({ onPinCodeAnalyzed }: DoctorIns
                 <span>Disease Risk Predictions</span>
               </h3>
               <div className="space-y-3 sm:space-y-4">
-                {result.diseases.map((disease, index) => (
-                  <div key={index} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 sm:p-4 hover:shadow-sm transition-shadow">
+                {result.diseases.map(disease => (
+                  <div key={disease.disease_id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 sm:p-4 hover:shadow-sm transition-shadow">
                     <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2 sm:gap-3 mb-2 sm:mb-3">
                       <div className="flex items-start space-x-2 min-w-0 flex-1">
                         <span className="text-lg sm:text-xl flex-shrink-0">{getRiskIcon(disease.risk_level)}</span>
@@ -337,11 +391,17 @@ export default function DashboardDoctorInsights({ onPinCodeAnalyzed }: DoctorIns
                           style={{ width: `${disease.risk_level * 100}%` }}
                         />
                       </div>
+                      {disease.seasonal_prior !== null && (
+                        <p className="mt-1 text-[10px] sm:text-xs text-gray-500 dark:text-gray-400">
+                          Weather {(disease.weather_risk * 100).toFixed(0)}% · Seasonal prior {(disease.seasonal_prior * 100).toFixed(0)}%
+                        </p>
+                      )}
                     </div>
                     <div className="flex items-center text-xs sm:text-sm text-gray-600 dark:text-gray-400">
                       <Users className="h-3 w-3 sm:h-4 sm:w-4 mr-1.5 sm:mr-2 text-blue-600 dark:text-blue-400 flex-shrink-0" />
                       <span className="font-medium">{disease.required_doctors} doctors recommended</span>
                     </div>
+                    <RiskFactorBreakdown prediction={disease} />
                   </div>
                 ))}
               </div>
@@ -356,6 +416,21 @@ export default function DashboardDoctorInsights({ onPinCodeAnalyzed }: DoctorIns
             </div>
           )}
 
+          {/* Multi-day Outlook */}
+          {outlook ? (
+            <DiseaseOutlookChart
+              outlook={outlook}
+              days={outlookDays}
+              onDaysChange={handleOutlookDaysChange}
+              loading={outlookLoading}
+            />
+          ) : outlookLoading && (
+            <div className="bg-white dark:bg-gray-900 rounded-xl sm:rounded-2xl border border-gray-200 dark:border-gray-800 p-4 sm:p-6 shadow-sm flex items-center justify-center text-sm text-gray-600 dark:text-gray-400">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Loading forecast outlook...
+            </div>
+          )}
+
           {/* Specialty Breakdown */}
           {specialtyMap.size > 0 && (
             <div className="bg-white dark:bg-gray-900 rounded-xl sm:rounded-2xl border border-gray-200 dark:border-gray-800 p-4 sm:p-6 shadow-sm">
@@ -0,0 +1,66 @@
+'use client'
+
+/**
+ * Disease ID Migration (super admins)
+ * Moves stored disease records onto the disease registry IDs
+ */
+
+import { useState } from 'react'
+import { CheckCircle, AlertCircle, Loader, RefreshCw } from 'lucide-react'
+import { migrateDiseaseIds, type DiseaseIdMigrationResult } from '@/lib/diseaseIdMigration'
+
+export default function DiseaseIdMigration() {
+  const [running, setRunning] = useState(false)
+  const [results, setResults] = useState<DiseaseIdMigrationResult[] | null>(null)
+
+  const runMigration = async () => {
+    setRunning(true)
+    try {
+      setResults(await migrateDiseaseIds())
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-200 dark:border-gray-800 p-6 mb-8 shadow-sm">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-3">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">Disease Registry Migration</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Adds disease IDs to stored predictions, rule overrides, seasonal priors and ensemble weights.
+            Safe to run more than once.
+          </p>
+        </div>
+        <button
+          onClick={runMigration}
+          disabled={running}
+          className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors inline-flex items-center gap-2 whitespace-nowrap"
+        >
+          {running ? <Loader className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          <span>{running ? 'Migrating...' : 'Migrate Records'}</span>
+        </button>
+      </div>
+
+      {results && (
+        <ul className="space-y-1.5 text-sm">
+          {results.map(result => (
+            <li key={result.collection} className="flex items-start gap-2">
+              {result.error ? (
+                <AlertCircle className="w-4 h-4 mt-0.5 text-red-500 flex-shrink-0" />
+              ) : (
+                <CheckCircle className="w-4 h-4 mt-0.5 text-green-500 flex-shrink-0" />
+              )}
+              <span className="text-gray-700 dark:text-gray-300">
+                <span className="font-mono">{result.collection}</span>:{' '}
+                {result.error
+                  ? <span className="text-red-600 dark:text-red-400">{result.error}</span>
+                  : `${result.updated} of ${result.scanned} document(s) updated`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
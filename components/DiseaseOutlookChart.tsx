@@ -0,0 +1,122 @@
+/**
+ * Disease Outlook Chart Component
+ * Daily forecast risk curve per disease with each disease's projected peak day
+ */
+
+'use client'
+
+import { CalendarDays, Users } from 'lucide-react'
+import { OUTLOOK_DAY_OPTIONS } from '@/lib/outlookOptions'
+import type { DiseaseOutlookSummary } from '@/lib/types/doctor-module'
+
+interface DiseaseOutlookChartProps {
+  outlook: DiseaseOutlookSummary
+  days: number
+  onDaysChange: (days: number) => void
+  loading?: boolean
+}
+
+const WIDTH = 600
+const HEIGHT = 200
+const PADDING = 8
+
+const LINE_COLORS = ['#dc2626', '#ea580c', '#ca8a04', '#16a34a', '#2563eb', '#7c3aed', '#db2777', '#0891b2']
+
+// Forecast dates are local calendar days; parse as local midnight
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })
+}
+
+export default function DiseaseOutlookChart({ outlook, days, onDaysChange, loading = false }: DiseaseOutlookChartProps) {
+  const dayCount = outlook.forecast.length
+  const toX = (index: number) => PADDING + (dayCount > 1 ? index / (dayCount - 1) : 0.5) * (WIDTH - 2 * PADDING)
+  const toY = (risk: number) => HEIGHT - PADDING - risk * (HEIGHT - 2 * PADDING)
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-xl sm:rounded-2xl border border-gray-200 dark:border-gray-800 p-4 sm:p-6 shadow-sm">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-3 sm:mb-4">
+        <h3 className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white flex items-center">
+          <CalendarDays className="h-4 w-4 sm:h-5 sm:w-5 mr-2 text-blue-600 dark:text-blue-400 flex-shrink-0" />
+          <span>{days}-Day Disease Outlook</span>
+        </h3>
+        <div className="flex gap-1">
+          {OUTLOOK_DAY_OPTIONS.map(option => (
+            <button
+              key={option}
+              onClick={() => onDaysChange(option)}
+              disabled={loading}
+              className={`px-3 py-1 rounded-lg text-xs sm:text-sm font-medium transition-colors disabled:opacity-50 ${
+                option === days
+                  ? 'bg-gray-900 dark:bg-white text-white dark:text-gray-900'
+                  : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+              }`}
+            >
+              {option} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {outlook.diseases.length === 0 ? (
+        <div className="h-32 flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+          No disease is forecast to reach significant risk in this period
+        </div>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-48" preserveAspectRatio="none">
+            {/* Medium and high risk bands */}
+            {[0.4, 0.6].map(level => (
+              <line
+                key={level}
+                x1={PADDING}
+                x2={WIDTH - PADDING}
+                y1={toY(level)}
+                y2={toY(level)}
+                className="stroke-gray-200 dark:stroke-gray-700"
+                strokeWidth={1}
+                strokeDasharray="4 4"
+              />
+            ))}
+            {outlook.diseases.map((disease, i) => (
+              <polyline
+                key={disease.disease_id}
+                points={disease.points.map((point, index) => `${toX(index)},${toY(point.risk_level)}`).join(' ')}
+                fill="none"
+                stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </svg>
+          <div className="flex justify-between mt-2 text-xs text-gray-500 dark:text-gray-400">
+            <span>{formatDay(outlook.forecast[0]?.recorded_at || '')}</span>
+            <span>{formatDay(outlook.forecast[dayCount - 1]?.recorded_at || '')}</span>
+          </div>
+
+          <div className="mt-3 sm:mt-4 space-y-2">
+            {outlook.diseases.map((disease, i) => (
+              <div key={disease.disease_id} className="flex items-center justify-between gap-3 p-2.5 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+                <div className="flex items-center min-w-0">
+                  <span
+                    className="w-3 h-3 rounded-full mr-2 flex-shrink-0"
+                    style={{ backgroundColor: LINE_COLORS[i % LINE_COLORS.length] }}
+                  />
+                  <span className="text-xs sm:text-sm font-medium text-gray-900 dark:text-white truncate">{disease.disease}</span>
+                </div>
+                <div className="flex items-center gap-3 text-xs sm:text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                  <span>
+                    Peak <span className="font-semibold text-gray-900 dark:text-white">{(disease.peak_risk * 100).toFixed(0)}%</span> on {formatDay(disease.peak_date)}
+                  </span>
+                  <span className="hidden sm:flex items-center">
+                    <Users className="h-3 w-3 sm:h-4 sm:w-4 mr-1 text-blue-600 dark:text-blue-400" />
+                    {disease.peak_required_doctors}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
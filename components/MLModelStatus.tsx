@@ -1,7 +1,8 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Brain, TrendingUp, Zap, CheckCircle, AlertCircle, Loader } from 'lucide-react'
+import { Brain, TrendingUp, Zap, CheckCircle, AlertCircle, Loader, RefreshCw, Target } from 'lucide-react'
+import type { EvaluationReport } from '@/lib/mlEvaluation'
 
 interface ModelMetrics {
   accuracy: number
@@ -10,15 +11,22 @@ interface ModelMetrics {
   trainingTime: number
   totalSamples: number
   testAccuracy: number
+  version?: number
+}
+
+function formatMetric(value: number | null): string {
+  return value === null ? '–' : value.toFixed(2)
 }
 
 export default function MLModelStatus() {
   const [metrics, setMetrics] = useState<ModelMetrics | null>(null)
+  const [evaluation, setEvaluation] = useState<EvaluationReport | null>(null)
+  const [calibrationDisease, setCalibrationDisease] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
-  const [training, setTraining] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const initializeModel = async () => {
+  // The model is trained by a separate job; this only reports the stored version
+  const loadStatus = async () => {
     try {
       setLoading(true)
       setError(null)
@@ -29,75 +37,23 @@ export default function MLModelStatus() {
       
       if (data.success && data.data.modelMetrics) {
         setMetrics(data.data.modelMetrics)
-        
-        // Auto-train if not trained
-        if (!data.data.modelMetrics.trained) {
-          console.log('🔄 Auto-training ML model...')
-          setLoading(false) // Stop loading before training
-          await trainModel()
-        } else {
-          setLoading(false)
-        }
+        setEvaluation(data.data.evaluation ?? null)
       } else {
         setError(data.error || 'Failed to load model')
-        setLoading(false)
       }
     } catch (error) {
       console.error('Failed to fetch model status:', error)
       setError(error instanceof Error ? error.message : 'Unknown error')
+    } finally {
       setLoading(false)
     }
   }
 
   useEffect(() => {
-    initializeModel()
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+    loadStatus()
   }, [])
 
-  const trainModel = async () => {
-    try {
-      setTraining(true)
-      setError(null)
-      
-      console.log('🧠 Starting ML model training...')
-      
-      const response = await fetch('/api/mlPredict', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          weather: {
-            temperature: 28,
-            humidity: 80,
-            rainfall: 10,
-            wind_speed: 12,
-            uv_index: 6,
-            pressure: 1013,
-            dew_point: 24,
-            weather_code: 61
-          },
-          initModel: true
-        })
-      })
-      
-      const data = await response.json()
-      
-      console.log('Training response:', data)
-      
-      if (data.success && data.data.modelMetrics) {
-        setMetrics(data.data.modelMetrics)
-        console.log('✅ Model trained successfully!', data.data.modelMetrics)
-      } else {
-        setError(data.error || 'Training failed')
-      }
-    } catch (error) {
-      console.error('Failed to train model:', error)
-      setError(error instanceof Error ? error.message : 'Training error')
-    } finally {
-      setTraining(false)
-    }
-  }
-
-  if (loading || training) {
+  if (loading) {
     return (
       <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-6 shadow-sm">
         <div className="flex flex-col items-center justify-center py-12 space-y-4">
@@ -107,31 +63,11 @@ export default function MLModelStatus() {
           </div>
           <div className="text-center">
             <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-2">
-              {training ? 'Training ML Model...' : 'Loading ML Model...'}
+              Loading ML Model...
             </h3>
             <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
-              {training 
-                ? 'Training neural network with 2000 samples over 50 epochs. This may take 30-60 seconds.' 
-                : 'Checking model status...'}
+              Loading the current model version from the model store...
             </p>
-            {training && (
-              <div className="bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 rounded-lg p-4 max-w-md mx-auto">
-                <div className="space-y-2 text-xs text-gray-700 dark:text-gray-300">
-                  <div className="flex items-center gap-2">
-                    <CheckCircle className="w-4 h-4 text-purple-600 dark:text-purple-400" />
-                    <span>Loading TensorFlow.js...</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Loader className="w-4 h-4 animate-spin text-purple-600 dark:text-purple-400" />
-                    <span>Generating 2000 training samples...</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Loader className="w-4 h-4 animate-spin text-purple-600 dark:text-purple-400" />
-                    <span>Training neural network (50 epochs)...</span>
-                  </div>
-                </div>
-              </div>
-            )}
           </div>
         </div>
       </div>
@@ -160,7 +96,7 @@ export default function MLModelStatus() {
           <div className="flex items-center gap-2 px-3 py-1.5 bg-green-100 dark:bg-green-900/20 rounded-full">
             <CheckCircle className="w-4 h-4 text-green-600 dark:text-green-400" />
             <span className="text-sm font-medium text-green-700 dark:text-green-300">
-              Active
+              Active{metrics.version !== undefined && ` · v${metrics.version}`}
             </span>
           </div>
         ) : (
@@ -265,6 +201,120 @@ export default function MLModelStatus() {
             </div>
           </div>
 
+          {/* Per-disease evaluation on the held-out split */}
+          {evaluation ? (
+            <div className="border border-gray-200 dark:border-gray-800 rounded-lg p-4 mb-6">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-2">
+                  <Target className="w-4 h-4 text-purple-500" />
+                  <h4 className="text-sm font-bold text-gray-900 dark:text-white">
+                    Evaluation Report
+                  </h4>
+                </div>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {evaluation.test_samples.toLocaleString()} held-out samples · threshold {evaluation.threshold}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 text-sm">
+                {[
+                  { label: 'Macro F1', value: formatMetric(evaluation.macro_f1) },
+                  { label: 'Macro ROC-AUC', value: formatMetric(evaluation.macro_roc_auc) },
+                  { label: 'Macro Recall', value: formatMetric(evaluation.macro_recall) },
+                  { label: 'Mean Brier Score', value: evaluation.macro_brier_score.toFixed(3) },
+                ].map(item => (
+                  <div key={item.label} className="bg-gray-50 dark:bg-gray-800/50 rounded-lg p-3">
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{item.label}</div>
+                    <div className="text-lg font-bold text-gray-900 dark:text-white">{item.value}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-800">
+                      <th className="py-2 pr-3 font-medium">Disease</th>
+                      <th className="py-2 px-2 font-medium text-right">Positives</th>
+                      <th className="py-2 px-2 font-medium text-right">Precision</th>
+                      <th className="py-2 px-2 font-medium text-right">Recall</th>
+                      <th className="py-2 px-2 font-medium text-right">F1</th>
+                      <th className="py-2 px-2 font-medium text-right">ROC-AUC</th>
+                      <th className="py-2 pl-2 font-medium text-right">Brier</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {evaluation.diseases.map(disease => (
+                      <tr
+                        key={disease.disease}
+                        onClick={() => setCalibrationDisease(
+                          calibrationDisease === disease.disease ? null : disease.disease
+                        )}
+                        className={`cursor-pointer border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800/50 ${
+                          calibrationDisease === disease.disease ? 'bg-purple-50 dark:bg-purple-900/20' : ''
+                        }`}
+                      >
+                        <td className="py-2 pr-3 text-gray-900 dark:text-white">{disease.disease}</td>
+                        <td className="py-2 px-2 text-right font-mono text-gray-600 dark:text-gray-400">{disease.positives}</td>
+                        <td className="py-2 px-2 text-right font-mono text-gray-900 dark:text-white">{formatMetric(disease.precision)}</td>
+                        <td className="py-2 px-2 text-right font-mono text-gray-900 dark:text-white">{formatMetric(disease.recall)}</td>
+                        <td className="py-2 px-2 text-right font-mono text-gray-900 dark:text-white">{formatMetric(disease.f1)}</td>
+                        <td className="py-2 px-2 text-right font-mono text-gray-900 dark:text-white">{formatMetric(disease.roc_auc)}</td>
+                        <td className="py-2 pl-2 text-right font-mono text-gray-900 dark:text-white">{disease.brier_score.toFixed(3)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Reliability curve: predicted probability vs observed rate per bin */}
+              {(() => {
+                const selected = evaluation.diseases.find(disease => disease.disease === calibrationDisease)
+                if (!selected) {
+                  return (
+                    <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                      Select a disease to see its calibration (reliability curve).
+                    </p>
+                  )
+                }
+                return (
+                  <div className="mt-4">
+                    <h5 className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      Calibration: {selected.disease}
+                    </h5>
+                    <div className="space-y-1.5">
+                      {selected.reliability.map(bin => (
+                        <div key={bin.lower} className="flex items-center gap-2 text-xs">
+                          <span className="w-16 font-mono text-gray-500 dark:text-gray-400">
+                            {bin.lower.toFixed(1)}–{bin.upper.toFixed(1)}
+                          </span>
+                          <div className="flex-1 space-y-0.5">
+                            <div className="bg-gray-200 dark:bg-gray-700 rounded-full h-1.5 overflow-hidden">
+                              <div className="h-full bg-purple-500" style={{ width: `${bin.mean_predicted * 100}%` }} />
+                            </div>
+                            <div className="bg-gray-200 dark:bg-gray-700 rounded-full h-1.5 overflow-hidden">
+                              <div className="h-full bg-green-500" style={{ width: `${bin.observed_rate * 100}%` }} />
+                            </div>
+                          </div>
+                          <span className="w-12 text-right font-mono text-gray-500 dark:text-gray-400">n={bin.count}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                      <span className="text-purple-600 dark:text-purple-400">Predicted</span> vs{' '}
+                      <span className="text-green-600 dark:text-green-400">observed</span> rate per probability bin;
+                      a well-calibrated model has matching bars.
+                    </p>
+                  </div>
+                )
+              })()}
+            </div>
+          ) : (
+            <p className="mb-6 text-sm text-gray-500 dark:text-gray-400">
+              This version was stored without an evaluation report. Retrain to generate one.
+            </p>
+          )}
+
           {/* Model Architecture Info */}
           <div className="bg-gray-50 dark:bg-gray-800/50 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
             <h4 className="text-sm font-bold text-gray-900 dark:text-white mb-3">
@@ -294,46 +344,23 @@ export default function MLModelStatus() {
             </div>
           </div>
 
-          {/* Retrain Button */}
-          <button
-            onClick={trainModel}
-            disabled={training}
-            className="mt-4 w-full px-4 py-2.5 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white font-medium rounded-lg transition-colors flex items-center justify-center gap-2"
-          >
-            {training ? (
-              <>
-                <Loader className="w-4 h-4 animate-spin" />
-                <span>Retraining Model...</span>
-              </>
-            ) : (
-              <>
-                <Brain className="w-4 h-4" />
-                <span>Retrain Model</span>
-              </>
-            )}
-          </button>
+          <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+            New versions are trained by the training job (<span className="font-mono">POST /api/trainMLModel</span>)
+            and picked up here on the next server start.
+          </p>
         </>
       ) : (
         <div className="text-center py-8">
           <p className="text-gray-600 dark:text-gray-400 mb-4">
-            ML model is not yet trained. Train the model to start making AI-powered predictions.
+            No trained model version is stored yet, so predictions use the rule-based engine.
+            Run the training job (<span className="font-mono">POST /api/trainMLModel</span>) to store one.
           </p>
           <button
-            onClick={trainModel}
-            disabled={training}
-            className="px-6 py-3 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white font-medium rounded-lg transition-colors inline-flex items-center gap-2"
+            onClick={loadStatus}
+            className="px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white font-medium rounded-lg transition-colors inline-flex items-center gap-2"
           >
-            {training ? (
-              <>
-                <Loader className="w-5 h-5 animate-spin" />
-                <span>Training Model...</span>
-              </>
-            ) : (
-              <>
-                <Brain className="w-5 h-5" />
-                <span>Train ML Model Now</span>
-              </>
-            )}
+            <RefreshCw className="w-5 h-5" />
+            <span>Check Again</span>
           </button>
         </div>
       )}
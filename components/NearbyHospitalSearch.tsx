@@ -0,0 +1,189 @@
+/**
+ * Nearby Hospital Search Component
+ * "Find beds near me": picks a search origin from browser geolocation or a PIN code
+ * and the resources the patient needs
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Navigation, MapPin, Loader2, AlertTriangle, X } from 'lucide-react'
+import { REQUIRED_RESOURCES } from '@/lib/nearestHospitals'
+import type { RequiredResource, SearchOrigin } from '@/lib/types/hospital'
+
+interface NearbyHospitalSearchProps {
+  origin: SearchOrigin | null
+  onOriginChange: (origin: SearchOrigin | null) => void
+  requiredResources: RequiredResource[]
+  onRequiredResourcesChange: (resources: RequiredResource[]) => void
+}
+
+export default function NearbyHospitalSearch({
+  origin,
+  onOriginChange,
+  requiredResources,
+  onRequiredResourcesChange,
+}: NearbyHospitalSearchProps) {
+  const [pinCode, setPinCode] = useState('')
+  const [locating, setLocating] = useState<'geolocation' | 'pincode' | null>(null)
+  const [error, setError] = useState('')
+
+  const locateWithBrowser = () => {
+    if (!navigator.geolocation) {
+      setError('Location is not supported by this browser. Enter a PIN code instead.')
+      return
+    }
+
+    setLocating('geolocation')
+    setError('')
+
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        onOriginChange({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          label: 'your location',
+          source: 'geolocation',
+        })
+        setLocating(null)
+      },
+      geoError => {
+        console.error('Geolocation error:', geoError)
+        setError(
+          geoError.code === geoError.PERMISSION_DENIED
+            ? 'Location permission denied. Enter a PIN code instead.'
+            : 'Could not determine your location. Enter a PIN code instead.'
+        )
+        setLocating(null)
+      },
+      { timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    )
+  }
+
+  const searchByPinCode = async () => {
+    if (!/^\d{6}$/.test(pinCode)) {
+      setError('Please enter a valid 6-digit PIN code')
+      return
+    }
+
+    setLocating('pincode')
+    setError('')
+
+    try {
+      const response = await fetch(`/api/pinCodeLocation?pincode=${pinCode}`)
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.message || 'Could not find this PIN code. Please check and try again.')
+      }
+      const location = result.data
+
+      onOriginChange({
+        latitude: location.latitude,
+        longitude: location.longitude,
+        label: `${location.city} (${location.pincode})`,
+        source: 'pincode',
+      })
+    } catch (err) {
+      console.error('PIN code lookup error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to look up PIN code')
+    } finally {
+      setLocating(null)
+    }
+  }
+
+  const toggleResource = (resource: RequiredResource) => {
+    onRequiredResourcesChange(
+      requiredResources.includes(resource)
+        ? requiredResources.filter(r => r !== resource)
+        : [...requiredResources, resource]
+    )
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-4 sm:p-6 mb-6 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+          <Navigation className="h-5 w-5 mr-2 text-blue-600 dark:text-blue-400" />
+          Find Beds Near Me
+        </h3>
+        {origin && (
+          <button
+            onClick={() => onOriginChange(null)}
+            className="flex items-center text-sm font-medium text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+          >
+            <X className="h-4 w-4 mr-1" />
+            Clear location
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-3">
+        <button
+          onClick={locateWithBrowser}
+          disabled={locating !== null}
+          className="flex items-center justify-center space-x-2 px-4 py-2.5 text-sm font-semibold text-white bg-gray-900 dark:bg-white dark:text-gray-900 rounded-lg hover:bg-gray-800 dark:hover:bg-gray-100 disabled:opacity-50 transition-all shadow-sm whitespace-nowrap"
+        >
+          {locating === 'geolocation' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Navigation className="h-4 w-4" />}
+          <span>Use My Location</span>
+        </button>
+
+        <div className="flex flex-1 gap-2">
+          <input
+            type="text"
+            value={pinCode}
+            onChange={(e) => {
+              setPinCode(e.target.value.replace(/\D/g, '').slice(0, 6))
+              if (error) setError('')
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') searchByPinCode()
+            }}
+            placeholder="or enter PIN code, e.g. 560001"
+            maxLength={6}
+            disabled={locating !== null}
+            className="flex-1 min-w-0 px-4 py-2.5 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg text-sm text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent"
+          />
+          <button
+            onClick={searchByPinCode}
+            disabled={locating !== null || !pinCode}
+            className="flex items-center space-x-2 px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-all whitespace-nowrap"
+          >
+            {locating === 'pincode' ? <Loader2 className="h-4 w-4 animate-spin" /> : <MapPin className="h-4 w-4" />}
+            <span>Search</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-4">
+        {REQUIRED_RESOURCES.map(({ resource, label }) => {
+          const selected = requiredResources.includes(resource)
+          return (
+            <button
+              key={resource}
+              onClick={() => toggleResource(resource)}
+              className={`px-3 py-1.5 rounded-full text-xs font-semibold border transition-all ${
+                selected
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          )
+        })}
+      </div>
+
+      {origin && (
+        <p className="mt-3 text-sm text-gray-600 dark:text-gray-400">
+          Showing hospitals nearest to <span className="font-medium text-gray-900 dark:text-white">{origin.label}</span>, closest with free beds first
+        </p>
+      )}
+      {error && (
+        <div className="mt-3 text-red-600 dark:text-red-400 text-sm flex items-center">
+          <AlertTriangle className="h-4 w-4 mr-1 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  )
+}
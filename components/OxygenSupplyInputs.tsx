@@ -0,0 +1,76 @@
+/**
+ * Oxygen Supply Inputs Component
+ * Cylinder count and liquid-oxygen tank level/capacity in the availability update form
+ */
+
+'use client'
+
+import { getTankFillPercentage } from '@/lib/oxygenSupply'
+import type { OxygenSupply } from '@/lib/types/hospital'
+
+export type OxygenFormState = Record<keyof OxygenSupply, string>
+
+/**
+ * Pre-populates the form from a stored supply
+ */
+export function oxygenToFormState(supply?: OxygenSupply): OxygenFormState {
+  return {
+    cylinders: supply ? supply.cylinders.toString() : '',
+    tank_litres: supply ? supply.tank_litres.toString() : '',
+    tank_capacity_litres: supply ? supply.tank_capacity_litres.toString() : '',
+  }
+}
+
+/**
+ * Converts form input into a supply (blank fields count as 0)
+ */
+export function formStateToOxygen(state: OxygenFormState): OxygenSupply {
+  return {
+    cylinders: parseInt(state.cylinders) || 0,
+    tank_litres: parseFloat(state.tank_litres) || 0,
+    tank_capacity_litres: parseFloat(state.tank_capacity_litres) || 0,
+  }
+}
+
+interface OxygenSupplyInputsProps {
+  value: OxygenFormState
+  onChange: (value: OxygenFormState) => void
+}
+
+const FIELDS: { field: keyof OxygenSupply; label: string; placeholder: string }[] = [
+  { field: 'cylinders', label: 'Oxygen Cylinders', placeholder: 'Enter oxygen cylinders' },
+  { field: 'tank_litres', label: 'Liquid O₂ Tank Level (L)', placeholder: '0 if no tank' },
+  { field: 'tank_capacity_litres', label: 'Liquid O₂ Tank Capacity (L)', placeholder: '0 if no tank' },
+]
+
+export default function OxygenSupplyInputs({ value, onChange }: OxygenSupplyInputsProps) {
+  const fillPercentage = getTankFillPercentage(formStateToOxygen(value))
+
+  const inputClassName = 'w-full px-4 py-3 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-blue-500 dark:focus:border-blue-400 transition-colors'
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {FIELDS.map(({ field, label, placeholder }) => (
+          <div key={field}>
+            <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">{label}</label>
+            <input
+              type="number"
+              value={value[field]}
+              onChange={(e) => onChange({ ...value, [field]: e.target.value })}
+              className={inputClassName}
+              placeholder={placeholder}
+              required={field === 'cylinders'}
+              min="0"
+            />
+          </div>
+        ))}
+      </div>
+      {fillPercentage !== null && (
+        <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+          Tank is {fillPercentage.toFixed(0)}% full
+        </p>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,8 @@
 'use client'
 
 import { useState } from 'react'
+import RiskFactorBreakdown from './RiskFactorBreakdown'
+import type { DiseasePrediction } from '@/lib/types/doctor-module'
 
 interface DoctorRequirement {
   specialty: string
@@ -28,11 +30,7 @@ interface FullAnalysisData {
     humidity: number
     rainfall: number
   } | null
-  diseases: Array<{
-    name: string
-    severity: string
-    probability: number
-  }>
+  diseases: Pick<DiseasePrediction, 'disease_id' | 'disease' | 'risk_level' | 'weather_risk' | 'seasonal_prior' | 'contributing_factors'>[]
   doctorRequirements: DoctorRequirement[]
   totalDoctorsRequired: number
   summary: string
@@ -230,21 +228,27 @@ export default function PinCodeDiseaseRisk() {
             <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg">
               <h3 className="font-bold text-lg mb-3 text-gray-900 dark:text-white">🦠 Disease Predictions</h3>
               <div className="space-y-2">
-                {fullData.diseases.map((disease, idx) => (
-                  <div key={idx} className="flex justify-between items-center p-3 bg-white dark:bg-gray-800 rounded">
-                    <span className="font-medium text-gray-900 dark:text-white">{disease.name}</span>
-                    <div className="flex items-center gap-3">
-                      <span className={`px-3 py-1 rounded-full text-sm ${
-                        disease.severity === 'High' ? 'bg-red-200 dark:bg-red-900 text-red-800 dark:text-red-200' :
-                        disease.severity === 'Medium' ? 'bg-yellow-200 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200' :
-                        'bg-green-200 dark:bg-green-900 text-green-800 dark:text-green-200'
-                      }`}>
-                        {disease.severity}
-                      </span>
-                      <span className="text-gray-700 dark:text-gray-300 font-semibold">{disease.probability}%</span>
+                {fullData.diseases.map(disease => {
+                  const severity = disease.risk_level >= 0.6 ? 'High' : disease.risk_level >= 0.4 ? 'Medium' : 'Low'
+                  return (
+                    <div key={disease.disease_id} className="p-3 bg-white dark:bg-gray-800 rounded">
+                      <div className="flex justify-between items-center">
+                        <span className="font-medium text-gray-900 dark:text-white">{disease.disease}</span>
+                        <div className="flex items-center gap-3">
+                          <span className={`px-3 py-1 rounded-full text-sm ${
+                            severity === 'High' ? 'bg-red-200 dark:bg-red-900 text-red-800 dark:text-red-200' :
+                            severity === 'Medium' ? 'bg-yellow-200 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200' :
+                            'bg-green-200 dark:bg-green-900 text-green-800 dark:text-green-200'
+                          }`}>
+                            {severity}
+                          </span>
+                          <span className="text-gray-700 dark:text-gray-300 font-semibold">{(disease.risk_level * 100).toFixed(0)}%</span>
+                        </div>
+                      </div>
+                      <RiskFactorBreakdown prediction={disease} />
                     </div>
-                  </div>
-                ))}
+                  )
+                })}
               </div>
             </div>
           )}
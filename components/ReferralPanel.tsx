@@ -0,0 +1,374 @@
+/**
+ * Referral Panel Component
+ * Request a bed at another hospital and follow incoming/outgoing referrals
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Send, Inbox, ArrowRightLeft, Loader2, Clock } from 'lucide-react'
+import { WARD_TYPES, getFreeBeds } from '@/lib/hospitalAvailability'
+import {
+  ACUITY_LEVELS,
+  REFERRAL_HOLD_OPTIONS_HOURS,
+  DEFAULT_REFERRAL_HOLD_HOURS,
+  REFERRAL_REQUESTER_ROLES,
+  getEffectiveStatus,
+  createReferral,
+  acceptReferral,
+  declineReferral,
+  cancelReferral,
+  markReferralAdmitted,
+  subscribeToIncomingReferrals,
+  subscribeToOutgoingReferrals,
+} from '@/lib/referrals'
+import type { Hospital, WardType } from '@/lib/types/hospital'
+import type { AcuityLevel, EffectiveReferralStatus, Referral } from '@/lib/types/referral'
+
+interface ReferralPanelProps {
+  userId: string
+  profile: {
+    name: string
+    role: string
+    hospital_id?: string
+    hospital_name?: string
+  }
+  hospitals: Hospital[] // With bed holds applied
+  targetHospitalId: string // String(hospital.id) of the hospital to request at
+  onTargetHospitalChange: (hospitalId: string) => void
+  now: number
+}
+
+const STATUS_STYLES: Record<EffectiveReferralStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400',
+  accepted: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+  declined: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+  cancelled: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  admitted: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400',
+  expired: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+}
+
+const ACUITY_STYLES: Record<AcuityLevel, string> = {
+  critical: 'text-red-600 dark:text-red-400',
+  serious: 'text-orange-600 dark:text-orange-400',
+  stable: 'text-emerald-600 dark:text-emerald-400',
+}
+
+const getWardLabel = (type: WardType) => WARD_TYPES.find(w => w.type === type)?.label || type
+
+export default function ReferralPanel({
+  userId,
+  profile,
+  hospitals,
+  targetHospitalId,
+  onTargetHospitalChange,
+  now,
+}: ReferralPanelProps) {
+  const [incoming, setIncoming] = useState<Referral[]>([])
+  const [outgoing, setOutgoing] = useState<Referral[]>([])
+  const [bedType, setBedType] = useState<WardType>('general')
+  const [acuity, setAcuity] = useState<AcuityLevel>('serious')
+  const [patientNotes, setPatientNotes] = useState('')
+  const [holdHours, setHoldHours] = useState<Record<string, number>>({})
+  const [declineReasons, setDeclineReasons] = useState<Record<string, string>>({})
+  const [submitting, setSubmitting] = useState(false)
+  const [actingOn, setActingOn] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const canRequest = REFERRAL_REQUESTER_ROLES.includes(profile.role)
+  const receivingHospitalId = profile.role === 'hospital_admin' ? profile.hospital_id : undefined
+
+  useEffect(() => {
+    if (!canRequest) return
+    return subscribeToOutgoingReferrals(userId, setOutgoing, err => {
+      console.error('Outgoing referrals subscription error:', err)
+      setError('Could not load your referral requests')
+    })
+  }, [userId, canRequest])
+
+  useEffect(() => {
+    if (!receivingHospitalId) return
+    return subscribeToIncomingReferrals(receivingHospitalId, setIncoming, err => {
+      console.error('Incoming referrals subscription error:', err)
+      setError('Could not load incoming referrals')
+    })
+  }, [receivingHospitalId])
+
+  if (!canRequest) return null
+
+  // Admins cannot refer to their own hospital
+  const targetOptions = hospitals.filter(hospital => hospital.doc_id !== profile.hospital_id)
+  const targetHospital = targetOptions.find(hospital => String(hospital.id) === targetHospitalId)
+  const targetFreeBeds = targetHospital?.availability?.[0]
+    ? getFreeBeds(targetHospital.availability[0].wards[bedType])
+    : 0
+
+  const requestBed = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!targetHospital?.doc_id) {
+      setError('Please choose a hospital')
+      return
+    }
+
+    setSubmitting(true)
+    setError('')
+
+    try {
+      const ownHospital = hospitals.find(hospital => hospital.doc_id === profile.hospital_id)
+      await createReferral({
+        to_hospital_id: String(targetHospital.id),
+        to_hospital_doc_id: targetHospital.doc_id,
+        to_hospital_name: targetHospital.name,
+        from_hospital_doc_id: profile.hospital_id || null,
+        from_hospital_name: ownHospital?.name || profile.hospital_name || null,
+        requested_by: userId,
+        requested_by_name: profile.name,
+        bed_type: bedType,
+        acuity,
+        patient_notes: patientNotes.trim(),
+      })
+      setPatientNotes('')
+      onTargetHospitalChange('')
+    } catch (err) {
+      console.error('Referral request error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to request bed')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const runAction = async (referralId: string, action: () => Promise<void>) => {
+    setActingOn(referralId)
+    setError('')
+    try {
+      await action()
+    } catch (err) {
+      console.error('Referral update error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update referral')
+    } finally {
+      setActingOn(null)
+    }
+  }
+
+  const renderStatus = (referral: Referral) => {
+    const status = getEffectiveStatus(referral, now)
+    return (
+      <span className={`px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${STATUS_STYLES[status]}`}>
+        {status}
+      </span>
+    )
+  }
+
+  const renderSummary = (referral: Referral) => (
+    <div className="text-xs text-gray-600 dark:text-gray-400 mt-1 space-y-0.5">
+      <div>
+        {getWardLabel(referral.bed_type)} ·{' '}
+        <span className={`font-semibold capitalize ${ACUITY_STYLES[referral.acuity]}`}>{referral.acuity}</span> ·{' '}
+        {new Date(referral.created_at).toLocaleString()}
+      </div>
+      {referral.patient_notes && <div className="italic">&ldquo;{referral.patient_notes}&rdquo;</div>}
+      {getEffectiveStatus(referral, now) === 'accepted' && referral.hold_until && (
+        <div className="flex items-center text-green-700 dark:text-green-400">
+          <Clock className="h-3 w-3 mr-1" />
+          Bed held until {new Date(referral.hold_until).toLocaleTimeString()}
+        </div>
+      )}
+      {referral.status === 'declined' && referral.decline_reason && (
+        <div className="text-red-600 dark:text-red-400">Reason: {referral.decline_reason}</div>
+      )}
+    </div>
+  )
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-blue-500 dark:focus:border-blue-400 transition-colors'
+  const smallButtonClassName = 'px-3 py-1.5 text-xs font-semibold rounded-lg disabled:opacity-50 transition-all'
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-200 dark:border-gray-800 p-8 mb-8 shadow-sm">
+      <h2 className="text-2xl font-bold mb-6 flex items-center text-gray-900 dark:text-white">
+        <ArrowRightLeft className="h-6 w-6 mr-2 text-blue-600 dark:text-blue-400" />
+        Patient Referrals
+      </h2>
+
+      {error && (
+        <div className="mb-4 bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800 rounded-lg p-3 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Request Form */}
+        <form onSubmit={requestBed} className="space-y-3 bg-gray-50 dark:bg-gray-800/50 rounded-xl p-4 border border-gray-200 dark:border-gray-700">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Request a Bed</h3>
+          <select
+            value={targetHospitalId}
+            onChange={(e) => onTargetHospitalChange(e.target.value)}
+            className={inputClassName}
+            required
+          >
+            <option value="">Choose receiving hospital</option>
+            {targetOptions.map(hospital => (
+              <option key={String(hospital.id)} value={String(hospital.id)}>
+                {hospital.name}
+              </option>
+            ))}
+          </select>
+          <div className="grid grid-cols-2 gap-3">
+            <select
+              value={bedType}
+              onChange={(e) => setBedType(e.target.value as WardType)}
+              className={inputClassName}
+            >
+              {WARD_TYPES.map(({ type, label }) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+            <select
+              value={acuity}
+              onChange={(e) => setAcuity(e.target.value as AcuityLevel)}
+              className={inputClassName}
+            >
+              {ACUITY_LEVELS.map(({ level, label }) => (
+                <option key={level} value={level}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <textarea
+            value={patientNotes}
+            onChange={(e) => setPatientNotes(e.target.value)}
+            className={inputClassName}
+            rows={2}
+            placeholder="Clinical notes (no patient identifiers)"
+          />
+          {targetHospital && (
+            <p className={`text-xs ${targetFreeBeds > 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-amber-600 dark:text-amber-400'}`}>
+              {targetFreeBeds > 0
+                ? `${targetFreeBeds} ${getWardLabel(bedType)} bed(s) currently free`
+                : `No ${getWardLabel(bedType)} beds free right now — the hospital may still accept`}
+            </p>
+          )}
+          <button
+            type="submit"
+            disabled={submitting || !targetHospitalId}
+            className="w-full flex items-center justify-center space-x-2 bg-gray-900 dark:bg-white text-white dark:text-gray-900 py-2.5 rounded-lg text-sm font-semibold hover:bg-gray-800 dark:hover:bg-gray-100 disabled:opacity-50 transition-all shadow-sm"
+          >
+            {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            <span>{submitting ? 'Requesting...' : 'Request Bed'}</span>
+          </button>
+        </form>
+
+        {/* Outgoing Requests */}
+        <div>
+          <h3 className="text-sm font-semibold mb-3 flex items-center text-gray-900 dark:text-white">
+            <Send className="h-4 w-4 mr-2" />
+            Your Requests ({outgoing.length})
+          </h3>
+          {outgoing.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No referral requests yet</p>
+          ) : (
+            <ul className="space-y-2 max-h-80 overflow-y-auto">
+              {outgoing.map(referral => (
+                <li key={referral.id} className="rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">{referral.to_hospital_name}</span>
+                    {renderStatus(referral)}
+                  </div>
+                  {renderSummary(referral)}
+                  {referral.status === 'pending' && (
+                    <button
+                      onClick={() => runAction(referral.id, () => cancelReferral(referral.id))}
+                      disabled={actingOn === referral.id}
+                      className={`${smallButtonClassName} mt-2 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700`}
+                    >
+                      Cancel Request
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Incoming Requests (receiving hospital admin) */}
+      {receivingHospitalId && (
+        <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-800">
+          <h3 className="text-sm font-semibold mb-3 flex items-center text-gray-900 dark:text-white">
+            <Inbox className="h-4 w-4 mr-2" />
+            Incoming Requests ({incoming.filter(r => r.status === 'pending').length} pending)
+          </h3>
+          {incoming.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No referrals received</p>
+          ) : (
+            <ul className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {incoming.map(referral => (
+                <li key={referral.id} className="rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">
+                      {referral.from_hospital_name || referral.requested_by_name}
+                    </span>
+                    {renderStatus(referral)}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Requested by {referral.requested_by_name}</div>
+                  {renderSummary(referral)}
+
+                  {referral.status === 'pending' && (
+                    <div className="mt-3 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={holdHours[referral.id] ?? DEFAULT_REFERRAL_HOLD_HOURS}
+                          onChange={(e) => setHoldHours({ ...holdHours, [referral.id]: Number(e.target.value) })}
+                          className="px-2 py-1.5 text-xs border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                        >
+                          {REFERRAL_HOLD_OPTIONS_HOURS.map(hours => (
+                            <option key={hours} value={hours}>Hold {hours}h</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => runAction(referral.id, () =>
+                            acceptReferral(referral.id, holdHours[referral.id] ?? DEFAULT_REFERRAL_HOLD_HOURS)
+                          )}
+                          disabled={actingOn === referral.id}
+                          className={`${smallButtonClassName} text-white bg-emerald-600 hover:bg-emerald-700`}
+                        >
+                          Accept
+                        </button>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={declineReasons[referral.id] || ''}
+                          onChange={(e) => setDeclineReasons({ ...declineReasons, [referral.id]: e.target.value })}
+                          placeholder="Reason (optional)"
+                          className="flex-1 min-w-0 px-2 py-1.5 text-xs border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                        />
+                        <button
+                          onClick={() => runAction(referral.id, () =>
+                            declineReferral(referral.id, declineReasons[referral.id] || '')
+                          )}
+                          disabled={actingOn === referral.id}
+                          className={`${smallButtonClassName} text-white bg-rose-600 hover:bg-rose-700`}
+                        >
+                          Decline
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {getEffectiveStatus(referral, now) === 'accepted' && (
+                    <button
+                      onClick={() => runAction(referral.id, () => markReferralAdmitted(referral.id))}
+                      disabled={actingOn === referral.id}
+                      className={`${smallButtonClassName} mt-2 text-white bg-blue-600 hover:bg-blue-700`}
+                    >
+                      Mark Patient Admitted
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
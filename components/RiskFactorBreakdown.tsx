@@ -0,0 +1,84 @@
+/**
+ * Risk Factor Breakdown Component
+ * Collapsible "why this risk" panel listing the rule conditions behind a disease prediction
+ * and the seasonal adjustment applied on top
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { ChevronDown, ChevronUp, Info } from 'lucide-react'
+import { RULE_FIELD_LABELS, formatRuleFieldValue } from '@/lib/diseaseRuleEngine'
+import type { DiseasePrediction } from '@/lib/types/doctor-module'
+
+interface RiskFactorBreakdownProps {
+  prediction: Pick<DiseasePrediction, 'risk_level' | 'weather_risk' | 'seasonal_prior' | 'contributing_factors'>
+}
+
+export default function RiskFactorBreakdown({ prediction }: RiskFactorBreakdownProps) {
+  const [open, setOpen] = useState(false)
+  const { risk_level, weather_risk, seasonal_prior, contributing_factors: factors } = prediction
+
+  if (factors.length === 0) return null
+
+  const totalWeight = factors.reduce((sum, factor) => sum + factor.weight, 0)
+  const isCapped = totalWeight > weather_risk + 0.001
+
+  return (
+    <div className="mt-2 sm:mt-3">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center text-xs sm:text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+      >
+        <Info className="h-3 w-3 sm:h-4 sm:w-4 mr-1 flex-shrink-0" />
+        Why this risk?
+        {open ? <ChevronUp className="h-3 w-3 sm:h-4 sm:w-4 ml-1" /> : <ChevronDown className="h-3 w-3 sm:h-4 sm:w-4 ml-1" />}
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-2.5 sm:p-3">
+          {factors.map((factor, index) => (
+            <div key={index} className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-xs sm:text-sm text-gray-900 dark:text-white">
+                  {factor.kind === 'bonus' && (
+                    <span className="mr-1.5 px-1.5 py-0.5 rounded bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 text-[10px] sm:text-xs font-medium">
+                      Combined
+                    </span>
+                  )}
+                  {factor.label}
+                </p>
+                <p className="text-[10px] sm:text-xs text-gray-600 dark:text-gray-400">
+                  Condition: {factor.condition} · Observed:{' '}
+                  {factor.observed
+                    .map(({ field, value }) => `${RULE_FIELD_LABELS[field].label} ${formatRuleFieldValue(field, value)}`)
+                    .join(', ')}
+                </p>
+              </div>
+              <span className="text-xs sm:text-sm font-semibold text-gray-900 dark:text-white whitespace-nowrap">
+                +{(factor.weight * 100).toFixed(0)}%
+              </span>
+            </div>
+          ))}
+          {isCapped && (
+            <p className="pt-2 border-t border-gray-200 dark:border-gray-700 text-[10px] sm:text-xs text-gray-500 dark:text-gray-400">
+              Factors add up to {(totalWeight * 100).toFixed(0)}%; weather risk is capped at 100%.
+            </p>
+          )}
+          {seasonal_prior !== null && (
+            <div className="flex items-start justify-between gap-3 pt-2 border-t border-gray-200 dark:border-gray-700">
+              <p className="text-[10px] sm:text-xs text-gray-600 dark:text-gray-400">
+                Weather risk {(weather_risk * 100).toFixed(0)}%, adjusted for the season
+                (prior {(seasonal_prior * 100).toFixed(0)}% for this month; 50% is typical)
+              </p>
+              <span className="text-xs sm:text-sm font-semibold text-gray-900 dark:text-white whitespace-nowrap">
+                = {(risk_level * 100).toFixed(0)}%
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+/**
+ * Ward Bed Inputs Component
+ * Total capacity / occupied inputs for every ward type in the availability update form
+ */
+
+'use client'
+
+import { WARD_TYPES, createEmptyWards, getFreeBeds } from '@/lib/hospitalAvailability'
+import type { WardType, WardBeds } from '@/lib/types/hospital'
+
+export type WardFormState = Record<WardType, { total: string; occupied: string }>
+
+/**
+ * Pre-populates the form from a stored inventory
+ */
+export function wardsToFormState(wards?: WardBeds): WardFormState {
+  const source = wards || createEmptyWards()
+  return WARD_TYPES.reduce((state, { type }) => {
+    state[type] = {
+      total: wards ? source[type].total.toString() : '',
+      occupied: wards ? source[type].occupied.toString() : '',
+    }
+    return state
+  }, {} as WardFormState)
+}
+
+/**
+ * Converts form input into an inventory (blank fields count as 0)
+ */
+export function formStateToWards(state: WardFormState): WardBeds {
+  const wards = createEmptyWards()
+  WARD_TYPES.forEach(({ type }) => {
+    wards[type] = {
+      total: parseInt(state[type].total) || 0,
+      occupied: parseInt(state[type].occupied) || 0,
+    }
+  })
+  return wards
+}
+
+interface WardBedInputsProps {
+  value: WardFormState
+  onChange: (value: WardFormState) => void
+}
+
+export default function WardBedInputs({ value, onChange }: WardBedInputsProps) {
+  const wards = formStateToWards(value)
+
+  const updateField = (type: WardType, field: 'total' | 'occupied', fieldValue: string) => {
+    onChange({
+      ...value,
+      [type]: { ...value[type], [field]: fieldValue },
+    })
+  }
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-blue-500 dark:focus:border-blue-400 transition-colors'
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+      {WARD_TYPES.map(({ type, label }) => (
+        <div key={type} className="bg-gray-50 dark:bg-gray-800/50 rounded-xl p-4 border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between mb-3">
+            <span className="text-sm font-semibold text-gray-900 dark:text-white">{label}</span>
+            <span className="text-xs font-medium text-emerald-600 dark:text-emerald-400">
+              {getFreeBeds(wards[type])} free
+            </span>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs font-medium mb-1 text-gray-600 dark:text-gray-400">Total</label>
+              <input
+                type="number"
+                value={value[type].total}
+                onChange={(e) => updateField(type, 'total', e.target.value)}
+                className={inputClassName}
+                placeholder="0"
+                min="0"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium mb-1 text-gray-600 dark:text-gray-400">Occupied</label>
+              <input
+                type="number"
+                value={value[type].occupied}
+                onChange={(e) => updateField(type, 'occupied', e.target.value)}
+                className={inputClassName}
+                placeholder="0"
+                min="0"
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  calculateIndianAqi,
+  createFixtureAirQualityProvider,
+  getAqiCategory,
+  withAirQuality,
+  type AirQualityProvider,
+} from '../airQuality'
+
+const CLEAN_AIR = { pm25: 0, pm10: 0, no2: 0, o3: 0 }
+
+describe('calculateIndianAqi', () => {
+  it.each([
+    [30, 50],
+    [60, 100],
+    [90, 200],
+    [120, 300],
+    [250, 400],
+    [380, 500],
+  ])('maps PM2.5 %d µg/m³ on a breakpoint to AQI %d', (pm25, aqi) => {
+    expect(calculateIndianAqi({ ...CLEAN_AIR, pm25 })).toBe(aqi)
+  })
+
+  it('interpolates within a band', () => {
+    expect(calculateIndianAqi({ ...CLEAN_AIR, pm25: 45 })).toBe(75)
+    expect(calculateIndianAqi({ ...CLEAN_AIR, pm10: 175 })).toBe(150)
+    expect(calculateIndianAqi({ ...CLEAN_AIR, no2: 130 })).toBe(150)
+    expect(calculateIndianAqi({ ...CLEAN_AIR, o3: 188 })).toBe(250)
+  })
+
+  it('caps concentrations above the last breakpoint at 500', () => {
+    expect(calculateIndianAqi({ ...CLEAN_AIR, pm10: 900 })).toBe(500)
+  })
+
+  it('is the highest pollutant sub-index', () => {
+    expect(calculateIndianAqi({ pm25: 45, pm10: 175, no2: 20, o3: 25 })).toBe(150)
+  })
+
+  it('treats negative readings as zero', () => {
+    expect(calculateIndianAqi({ pm25: -5, pm10: -1, no2: 0, o3: 0 })).toBe(0)
+  })
+})
+
+describe('getAqiCategory', () => {
+  it.each([
+    [0, 'Good'],
+    [50, 'Good'],
+    [51, 'Satisfactory'],
+    [100, 'Satisfactory'],
+    [200, 'Moderate'],
+    [300, 'Poor'],
+    [400, 'Very Poor'],
+    [401, 'Severe'],
+  ])('AQI %d is %s', (aqi, category) => {
+    expect(getAqiCategory(aqi)).toBe(category)
+  })
+})
+
+describe('withAirQuality', () => {
+  const weather = { city: 'Delhi', temperature: 15, humidity: 60, rainfall: 0 }
+  const coordinates = { latitude: 28.61, longitude: 77.21 }
+
+  it('adds the provider readings with their AQI', async () => {
+    const provider = createFixtureAirQualityProvider({ pm25: 45, pm10: 80, no2: 30, o3: 40, pollen: 10 })
+    const result = await withAirQuality(weather, coordinates, provider)
+
+    expect(result.airQuality).toEqual({ pm25: 45, pm10: 80, no2: 30, o3: 40, pollen: 10, aqi: 80, source: 'fixture' })
+  })
+
+  it('returns the weather unchanged when the provider fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const failing: AirQualityProvider = {
+      name: 'failing',
+      fetchAirQuality: () => Promise.reject(new Error('offline')),
+    }
+
+    expect(await withAirQuality(weather, coordinates, failing)).toEqual(weather)
+  })
+})
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+import { parseCsvLine } from '../csv'
+
+describe('parseCsvLine', () => {
+  it('splits on commas and trims fields', () => {
+    expect(parseCsvLine('560001, Bengaluru ,Karnataka')).toEqual(['560001', 'Bengaluru', 'Karnataka'])
+  })
+
+  it('keeps commas and escaped quotes inside quoted fields', () => {
+    expect(parseCsvLine('"Fort, Mumbai","He said ""hi""",400001'))
+      .toEqual(['Fort, Mumbai', 'He said "hi"', '400001'])
+  })
+
+  it('keeps empty fields', () => {
+    expect(parseCsvLine('a,,c,')).toEqual(['a', '', 'c', ''])
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { summarizeDay, summarizeWeatherByDay } from '../dailyWeather'
+import type { WeatherData } from '../types/doctor-module'
+
+function snapshot(recordedAt: string, reading: Partial<WeatherData> = {}): WeatherData {
+  return { city: 'Pune', temperature: 25, humidity: 70, rainfall: 2, recorded_at: recordedAt, ...reading }
+}
+
+describe('summarizeWeatherByDay', () => {
+  it('reduces hourly snapshots to the daily archive shape', () => {
+    const days = summarizeWeatherByDay([
+      snapshot('2025-07-02T03:00:00.000Z', { temperature: 22, rainfall: 1, uvIndex: 1, weatherCode: 3 }),
+      snapshot('2025-07-01T12:00:00.000Z', { temperature: 30 }),
+      snapshot('2025-07-02T15:00:00.000Z', { temperature: 32, rainfall: 0, uvIndex: 8, weatherCode: 61 }),
+      snapshot('not a date'),
+    ])
+
+    expect(days.map(d => d.recorded_at)).toEqual(['2025-07-01', '2025-07-02'])
+    expect(days[1]).toMatchObject({ temperature: 27, rainfall: 12, uvIndex: 8, weatherCode: 61, data_points: 2 })
+  })
+})
+
+describe('summarizeDay', () => {
+  it('leaves out readings no snapshot had', () => {
+    const day = summarizeDay([snapshot('2025-07-01T06:00:00.000Z', { pressure: 1004 })], '2025-07-01')
+
+    expect(day).toMatchObject({ temperature: 25, humidity: 70, rainfall: 48, pressure: 1004, recorded_at: '2025-07-01' })
+    expect(day.windSpeed).toBeUndefined()
+    expect(day.uvIndex).toBeUndefined()
+  })
+})
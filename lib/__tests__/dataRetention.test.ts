@@ -0,0 +1,208 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { Timestamp } from 'firebase-admin/firestore'
+import {
+  DEFAULT_RETENTION_POLICY,
+  loadRetentionPolicy,
+  mergeWeatherStats,
+  runDataRetention,
+  summarizeWeatherDay,
+} from '../dataRetention'
+import { getAdminDb } from '../firebaseAdmin'
+import type { WeatherData } from '../types/doctor-module'
+
+vi.mock('../firebase', () => ({ db: {} }))
+vi.mock('../firebaseAdmin', () => ({ getAdminDb: vi.fn() }))
+vi.mock('../weatherIngestion', () => ({ INGESTION_LOGS_COLLECTION: 'ingestion_logs' }))
+
+type StoredDoc = Record<string, unknown>
+
+/**
+ * In-memory stand-in for the Admin SDK calls the retention job makes
+ */
+function createFakeAdminDb(collections: Record<string, Record<string, StoredDoc>>) {
+  const comparable = (value: unknown): number | string => (value instanceof Timestamp ? value.toMillis() : value as string)
+  const compare = {
+    '<': (a: number | string, b: number | string) => a < b,
+    '>=': (a: number | string, b: number | string) => a >= b,
+  }
+
+  const docRef = (name: string, id: string) => ({
+    name,
+    id,
+    get: async () => ({ exists: id in (collections[name] || {}), data: () => collections[name]?.[id] }),
+    set: async (data: StoredDoc) => {
+      collections[name] = { ...collections[name], [id]: data }
+    },
+  })
+
+  const query = (name: string, filters: ((doc: StoredDoc) => boolean)[] = [], order?: string, max?: number) => ({
+    where: (field: string, op: '<' | '>=', value: unknown) =>
+      query(name, [...filters, doc => compare[op](comparable(doc[field]), comparable(value))], order, max),
+    orderBy: (field: string) => query(name, filters, field, max),
+    limit: (count: number) => query(name, filters, order, count),
+    get: async () => {
+      let entries = Object.entries(collections[name] || {}).filter(([, doc]) => filters.every(filter => filter(doc)))
+      if (order) entries = entries.sort(([, a], [, b]) => (comparable(a[order]) < comparable(b[order]) ? -1 : 1))
+      const docs = entries.slice(0, max).map(([id, doc]) => ({ ref: docRef(name, id), data: () => doc }))
+      return { empty: docs.length === 0, size: docs.length, docs }
+    },
+  })
+
+  return {
+    collection: (name: string) => ({ ...query(name), doc: (id: string) => docRef(name, id) }),
+    batch: () => {
+      const deletes: { name: string; id: string }[] = []
+      return {
+        delete: (ref: { name: string; id: string }) => deletes.push(ref),
+        commit: async () => deletes.forEach(({ name, id }) => delete collections[name][id]),
+      }
+    },
+  }
+}
+
+function hourly(city: string, recordedAt: string, reading: Partial<WeatherData>): StoredDoc {
+  return {
+    city,
+    location_id: city.toLowerCase(),
+    temperature: 30,
+    humidity: 70,
+    rainfall: 0,
+    ...reading,
+    recorded_at: Timestamp.fromDate(new Date(recordedAt)),
+  }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+describe('summarizeWeatherDay', () => {
+  it('stores the daily summary, with rainfall totalled from the mean hourly rate', () => {
+    const stats = summarizeWeatherDay([
+      { city: 'Pune', temperature: 24, humidity: 80, rainfall: 1, uvIndex: 2, pressure: 1008 },
+      { city: 'Pune', temperature: 31, humidity: 61, rainfall: 0, uvIndex: 9 },
+      { city: 'Pune', temperature: 27, humidity: 70, rainfall: 2 },
+    ], '2025-07-01')
+
+    expect(stats).toEqual({
+      city: 'Pune',
+      date: '2025-07-01',
+      avg_temperature: 27.5,
+      avg_humidity: 70.33,
+      total_rainfall: 24,
+      avg_pressure: 1008,
+      max_uv_index: 9,
+      data_points: 3,
+      period_start: '2025-07-01T00:00:00.000Z',
+      period_end: '2025-07-01T23:59:59.999Z',
+    })
+  })
+})
+
+describe('mergeWeatherStats', () => {
+  it('weights averages by data points and keeps the highest UV index', () => {
+    const existing = summarizeWeatherDay([
+      { city: 'Pune', temperature: 20, humidity: 90, rainfall: 3, uvIndex: 4 },
+    ], '2025-07-01')
+    const added = summarizeWeatherDay([
+      { city: 'Pune', temperature: 26, humidity: 60, rainfall: 0, windSpeed: 10, uvIndex: 7 },
+      { city: 'Pune', temperature: 26, humidity: 60, rainfall: 0, windSpeed: 14 },
+    ], '2025-07-01')
+
+    expect(mergeWeatherStats(existing, added)).toMatchObject({
+      avg_temperature: 24,
+      avg_humidity: 70,
+      total_rainfall: 24,
+      avg_wind_speed: 12,
+      max_uv_index: 7,
+      data_points: 3,
+    })
+  })
+})
+
+describe('loadRetentionPolicy', () => {
+  it('applies valid stored windows and keeps the defaults for invalid ones', async () => {
+    vi.mocked(getAdminDb).mockReturnValue(createFakeAdminDb({
+      retention_config: { default: { doctor_requirements: 180, ingestion_logs: 0, weather_stats: null } },
+    }) as never)
+
+    expect(await loadRetentionPolicy()).toEqual({
+      ...DEFAULT_RETENTION_POLICY,
+      doctor_requirements: 180,
+      weather_stats: null,
+    })
+  })
+
+  it('keeps raw weather as long as the lagged features need it', async () => {
+    vi.mocked(getAdminDb).mockReturnValue(createFakeAdminDb({
+      retention_config: { default: { weather_data: 7 } },
+    }) as never)
+
+    expect((await loadRetentionPolicy()).weather_data).toBe(21)
+  })
+})
+
+describe('runDataRetention', () => {
+  const now = Date.parse('2025-08-15T12:00:00Z')
+
+  it('rolls old weather into daily stats before deleting it', async () => {
+    const collections: Record<string, Record<string, StoredDoc>> = {
+      weather_data: {
+        a: hourly('Pune', '2025-07-01T02:00:00Z', { temperature: 24, rainfall: 1 }),
+        b: hourly('Pune', '2025-07-01T14:00:00Z', { temperature: 30, rainfall: 0 }),
+        c: hourly('Mumbai', '2025-07-01T08:00:00Z', { temperature: 29 }),
+        d: hourly('Pune', '2025-07-02T08:00:00Z', { temperature: 26 }),
+        recent: hourly('Pune', '2025-08-14T08:00:00Z', { temperature: 28 }),
+      },
+      weather_stats: {
+        'pune_2025-07-02': { ...summarizeWeatherDay([{ city: 'Pune', temperature: 20, humidity: 70, rainfall: 0 }], '2025-07-02'), location_id: 'pune' },
+      },
+    }
+    vi.mocked(getAdminDb).mockReturnValue(createFakeAdminDb(collections) as never)
+
+    const summary = await runDataRetention(now)
+
+    expect(summary.errors).toEqual([])
+    expect(summary.rolled_up_days).toBe(3)
+    expect(summary.deleted.weather_data).toBe(4)
+    expect(Object.keys(collections.weather_data)).toEqual(['recent'])
+    expect(collections.weather_stats['pune_2025-07-01']).toMatchObject({ avg_temperature: 27, total_rainfall: 12, data_points: 2 })
+    expect(collections.weather_stats['mumbai_2025-07-01']).toMatchObject({ avg_temperature: 29, data_points: 1 })
+    // A day already aggregated by an interrupted run is merged, not replaced
+    expect(collections.weather_stats['pune_2025-07-02']).toMatchObject({ avg_temperature: 23, data_points: 2 })
+  })
+
+  it('trims other collections to their windows and drops expired cache entries', async () => {
+    const collections: Record<string, Record<string, StoredDoc>> = {
+      doctor_requirements: {
+        old: { generated_at: Timestamp.fromDate(new Date('2025-04-01T00:00:00Z')) },
+        kept: { generated_at: Timestamp.fromDate(new Date('2025-08-01T00:00:00Z')) },
+      },
+      ingestion_logs: {
+        old: { started_at: Timestamp.fromDate(new Date('2025-07-01T00:00:00Z')) },
+        kept: { started_at: Timestamp.fromDate(new Date('2025-08-10T00:00:00Z')) },
+      },
+      weather_cache: {
+        expired: { expires_at: Timestamp.fromMillis(now - 1000) },
+        kept: { expires_at: Timestamp.fromMillis(now + 1000) },
+      },
+    }
+    vi.mocked(getAdminDb).mockReturnValue(createFakeAdminDb(collections) as never)
+
+    const summary = await runDataRetention(now)
+
+    expect(summary.deleted).toMatchObject({ doctor_requirements: 1, ingestion_logs: 1, weather_cache: 1 })
+    expect(Object.keys(collections.doctor_requirements)).toEqual(['kept'])
+    expect(Object.keys(collections.ingestion_logs)).toEqual(['kept'])
+    expect(Object.keys(collections.weather_cache)).toEqual(['kept'])
+  })
+
+  it('fails when the Admin SDK is not configured', async () => {
+    vi.mocked(getAdminDb).mockImplementation(() => {
+      throw new Error('Missing FIREBASE_SERVICE_ACCOUNT_KEY')
+    })
+
+    await expect(runDataRetention(now)).rejects.toThrow('FIREBASE_SERVICE_ACCOUNT_KEY')
+  })
+})
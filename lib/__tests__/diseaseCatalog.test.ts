@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest'
+import { filterDefinitionsForLocation, isEndemicIn } from '../diseaseCatalog'
+import { DISEASE_DEFINITIONS } from '../predictDisease'
+import type { DiseaseDefinition, EndemicArea } from '../types/doctor-module'
+
+function definition(id: string, endemic?: EndemicArea): DiseaseDefinition {
+  return { ...DISEASE_DEFINITIONS[0], id, endemic }
+}
+
+// Endemic in Kerala, and in the Terai districts of Uttarakhand only
+const TERAI_DISEASE = definition('terai_disease', {
+  states: ['Kerala'],
+  districts: ['Udham Singh Nagar', 'Haridwar'],
+})
+
+describe('isEndemicIn', () => {
+  it('matches listed states by normalized name', () => {
+    expect(isEndemicIn(TERAI_DISEASE, { state: ' kerala ' })).toBe(true)
+    expect(isEndemicIn(definition('odisha_disease', { states: ['Odisha'] }), { state: 'Orissa' })).toBe(true)
+  })
+
+  it('matches listed districts in states that are not endemic', () => {
+    expect(isEndemicIn(TERAI_DISEASE, { state: 'Uttarakhand', district: 'udham  singh nagar' })).toBe(true)
+    expect(isEndemicIn(TERAI_DISEASE, { state: 'Uttarakhand', district: 'Dehradun' })).toBe(false)
+    expect(isEndemicIn(TERAI_DISEASE, { state: 'Uttarakhand' })).toBe(false)
+    expect(isEndemicIn(TERAI_DISEASE, { state: 'Uttarakhand', district: null })).toBe(false)
+  })
+
+  it('never matches by district alone when the area lists no districts', () => {
+    expect(isEndemicIn(definition('kerala_disease', { states: ['Kerala'] }), { state: 'Uttarakhand', district: 'Haridwar' })).toBe(false)
+  })
+
+  it('matches everywhere without an endemic area or a known state', () => {
+    expect(isEndemicIn(definition('everywhere'), { state: 'Uttarakhand' })).toBe(true)
+    expect(isEndemicIn(TERAI_DISEASE, { state: null, district: 'Dehradun' })).toBe(true)
+  })
+})
+
+describe('filterDefinitionsForLocation', () => {
+  it('keeps only the definitions endemic at the location', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const definitions = [definition('everywhere'), TERAI_DISEASE]
+
+    expect(filterDefinitionsForLocation(definitions, { state: 'Uttarakhand', district: 'Dehradun' }).map(d => d.id))
+      .toEqual(['everywhere'])
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { DISEASE_DEFINITIONS } from '../predictDisease'
+import { evaluateRule, explainRule, parseDiseaseDefinitionsJson } from '../diseaseRuleEngine'
+import { LEGACY_RISK_CALCULATORS } from './fixtures/legacyRiskCalculators'
+import type { WeatherData } from '../types/doctor-module'
+
+// Values on and around the thresholds used by the rules
+const FIELD_VALUES = {
+  temperature: [-5, 0, 5, 9.9, 10, 15, 18, 20, 22, 24.9, 25, 28, 30, 30.1, 32, 35, 36, 38, 40, 42, 45],
+  humidity: [10, 20, 30, 40, 45, 50, 55, 60, 65, 70, 71, 75, 76, 80, 81, 85, 90, 91, 95, 100],
+  rainfall: [0, 0.5, 1, 2, 3, 5, 10, 15, 20, 20.1, 25, 30, 50, 80, 100],
+  windSpeed: [undefined, 0, 5, 10, 14.9, 15, 20, 25, 30, 40],
+  uvIndex: [undefined, 0, 2, 3, 5, 6, 7, 8, 10, 11, 12],
+  pressure: [undefined, 990, 1000, 1005, 1010, 1013, 1015, 1020, 1025, 1030],
+  dewPoint: [undefined, -5, 0, 5, 10, 15, 18, 20, 22, 24, 26],
+}
+
+const SAMPLE_COUNT = 5000
+
+/**
+ * Deterministic weather samples (linear congruential generator), so failures reproduce
+ */
+function sampleWeather(count: number): WeatherData[] {
+  let seed = 12345
+  const pick = <T>(values: T[]): T => {
+    seed = (seed * 1103515245 + 12345) % 2147483648
+    return values[seed % values.length]
+  }
+
+  return Array.from({ length: count }, () => ({
+    city: 'Test City',
+    temperature: pick(FIELD_VALUES.temperature),
+    humidity: pick(FIELD_VALUES.humidity),
+    rainfall: pick(FIELD_VALUES.rainfall),
+    windSpeed: pick(FIELD_VALUES.windSpeed),
+    uvIndex: pick(FIELD_VALUES.uvIndex),
+    pressure: pick(FIELD_VALUES.pressure),
+    dewPoint: pick(FIELD_VALUES.dewPoint),
+  }))
+}
+
+describe('disease rules', () => {
+  const samples = sampleWeather(SAMPLE_COUNT)
+
+  // Weather without lagged or air quality readings, which the closures did not use
+  describe.each(Object.keys(LEGACY_RISK_CALCULATORS))('%s', name => {
+    it('matches the hand-written risk calculator', () => {
+      const definition = DISEASE_DEFINITIONS.find(d => d.name === name)
+      expect(definition).toBeDefined()
+
+      samples.forEach(weather => {
+        expect(evaluateRule(definition!.rule, weather)).toBeCloseTo(LEGACY_RISK_CALCULATORS[name](weather), 10)
+      })
+    })
+  })
+
+  it('explains the risk with contributions adding up to it', () => {
+    samples.slice(0, 500).forEach(weather => {
+      DISEASE_DEFINITIONS.forEach(definition => {
+        const { risk, contributions } = explainRule(definition.rule, weather)
+        const total = contributions.reduce((sum, contribution) => sum + contribution.weight, 0)
+        expect(risk).toBeCloseTo(Math.min(total, 1), 10)
+        contributions.slice(1).forEach((contribution, i) => {
+          expect(contribution.weight).toBeLessThanOrEqual(contributions[i].weight)
+        })
+      })
+    })
+  })
+})
+
+describe('parseDiseaseDefinitionsJson', () => {
+  const dengue = DISEASE_DEFINITIONS.find(d => d.id === 'dengue')!
+  const tunedRule = {
+    factors: [{ label: 'Humidity', tiers: [{ when: [{ field: 'humidity', gt: 50 }], weight: 0.6 }] }],
+    bonuses: [],
+  }
+
+  it('applies tuned weights to a disease matched by name', () => {
+    const merged = parseDiseaseDefinitionsJson(JSON.stringify([{ name: 'Dengue Fever', rule: tunedRule }]), DISEASE_DEFINITIONS)
+    const tuned = merged.find(d => d.id === 'dengue')!
+
+    expect(merged).toHaveLength(DISEASE_DEFINITIONS.length)
+    expect(tuned.specialty).toBe(dengue.specialty)
+    expect(evaluateRule(tuned.rule, { city: 'Test City', temperature: 10, humidity: 60, rainfall: 0 })).toBe(0.6)
+  })
+
+  it('skips overrides with invalid rules', () => {
+    const invalid = { ...tunedRule, factors: [{ label: 'Humidity', tiers: [{ when: [{ field: 'mood', gt: 1 }], weight: 0.6 }] }] }
+    const merged = parseDiseaseDefinitionsJson(JSON.stringify([{ id: 'dengue', rule: invalid }]), DISEASE_DEFINITIONS)
+
+    expect(merged.find(d => d.id === 'dengue')!.rule).toBe(dengue.rule)
+  })
+
+  it('rejects JSON that is not an array', () => {
+    expect(() => parseDiseaseDefinitionsJson('{}', DISEASE_DEFINITIONS)).toThrow('must be an array')
+  })
+})
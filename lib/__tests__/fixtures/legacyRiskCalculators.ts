@@ -0,0 +1,364 @@
+/**
+ * Risk calculators of the disease definitions before the declarative rule engine,
+ * kept verbatim so the declarative rules can be checked against them
+ */
+
+import type { WeatherData } from '../../types/doctor-module'
+
+export const LEGACY_RISK_CALCULATORS: Record<string, (weather: WeatherData) => number> = {
+  'Dengue Fever': (weather: WeatherData): number => {
+    let risk = 0
+    
+    // Optimal dengue breeding temperature: 25-30°C (highest risk)
+    if (weather.temperature >= 25 && weather.temperature <= 30) {
+      risk += 0.35
+    } else if (weather.temperature >= 20 && weather.temperature <= 35) {
+      risk += 0.20
+    }
+    
+    // High humidity is critical for mosquito survival (>70% optimal)
+    if (weather.humidity > 80) {
+      risk += 0.30
+    } else if (weather.humidity > 70) {
+      risk += 0.20
+    }
+    
+    // Rainfall creates breeding grounds (5-20mm optimal)
+    if (weather.rainfall >= 5 && weather.rainfall <= 20) {
+      risk += 0.25
+    } else if (weather.rainfall > 20) {
+      risk += 0.15 // Too much rain can flush out larvae
+    }
+    
+    // Low wind speed allows mosquitoes to fly (<15 km/h)
+    if (weather.windSpeed !== undefined && weather.windSpeed < 15) {
+      risk += 0.10
+    }
+    
+    // Compound risk for perfect dengue conditions
+    if (weather.temperature >= 25 && weather.temperature <= 30 && 
+        weather.humidity > 75 && weather.rainfall >= 5) {
+      risk = Math.min(risk + 0.15, 1.0)
+    }
+    
+    return Math.min(risk, 1.0)
+  },
+  'Malaria': (weather: WeatherData): number => {
+    let risk = 0
+    
+    // Malaria parasites develop optimally at 20-30°C
+    if (weather.temperature >= 20 && weather.temperature <= 30) {
+      risk += 0.35
+    } else if (weather.temperature >= 18 && weather.temperature <= 32) {
+      risk += 0.20
+    }
+    
+    // High humidity (60-90%) crucial for mosquito survival
+    if (weather.humidity >= 70 && weather.humidity <= 90) {
+      risk += 0.30
+    } else if (weather.humidity >= 60) {
+      risk += 0.20
+    }
+    
+    // Moderate rainfall creates breeding sites
+    if (weather.rainfall >= 3 && weather.rainfall <= 15) {
+      risk += 0.25
+    }
+    
+    // Low wind speed (<10 km/h) helps mosquito activity
+    if (weather.windSpeed !== undefined && weather.windSpeed < 10) {
+      risk += 0.10
+    }
+    
+    return Math.min(risk, 1.0)
+  },
+  'Influenza (Flu)': (weather: WeatherData): number => {
+    let risk = 0
+    
+    // Flu thrives in cold temperatures (5-15°C optimal)
+    if (weather.temperature >= 5 && weather.temperature <= 15) {
+      risk += 0.40
+    } else if (weather.temperature < 20) {
+      risk += 0.25
+    }
+    
+    // Low to moderate humidity (40-70%) helps virus spread
+    if (weather.humidity >= 40 && weather.humidity <= 70) {
+      risk += 0.30
+    } else if (weather.humidity < 40) {
+      risk += 0.20 // Dry air allows longer aerosol survival
+    }
+    
+    // High atmospheric pressure associated with cold, dry conditions
+    if (weather.pressure !== undefined && weather.pressure > 1020) {
+      risk += 0.10
+    }
+    
+    // Winter conditions compound risk
+    if (weather.temperature < 15 && weather.humidity >= 40 && weather.humidity <= 70) {
+      risk = Math.min(risk + 0.15, 1.0)
+    }
+    
+    return Math.min(risk, 1.0)
+  },
+  'Typhoid Fever': (weather: WeatherData): number => {
+    let risk = 0
+    
+    // Warm, humid conditions (20-35°C) promote bacterial growth
+    if (weather.temperature >= 25 && weather.temperature <= 35) {
+      risk += 0.35
+    } else if (weather.temperature >= 20) {
+      risk += 0.20
+    }
+    
+    // High humidity increases contamination risk
+    if (weather.humidity > 70) {
+      risk += 0.25
+    }
+    
+    // Heavy rainfall (>10mm) contaminates water supplies
+    if (weather.rainfall > 10) {
+      risk += 0.30
+    } else if (weather.rainfall > 2) {
+      risk += 0.15
+    }
+    
+    // Flooding conditions (high rain + high humidity)
+    if (weather.rainfall > 15 && weather.humidity > 75) {
+      risk = Math.min(risk + 0.20, 1.0)
+    }
+    
+    return Math.min(risk, 1.0)
+  },
+  'Heat Stroke': (weather: WeatherData): number => {
+    let risk = 0
+    
+    // Extreme heat is primary factor (>35°C)
+    if (weather.temperature > 42) {
+      risk += 0.60
+    } else if (weather.temperature > 38) {
+      risk += 0.45
+    } else if (weather.temperature > 35) {
+      risk += 0.30
+    }
+    
+    // High UV index (>8) increases risk
+    if (weather.uvIndex !== undefined) {
+      if (weather.uvIndex > 10) {
+        risk += 0.20
+      } else if (weather.uvIndex > 8) {
+        risk += 0.15
+      }
+    }
+    
+    // High humidity prevents cooling through sweating
+    if (weather.temperature > 35 && weather.humidity > 70) {
+      risk += 0.20 // Heat index effect
+    } else if (weather.temperature > 35 && weather.humidity < 30) {
+      risk += 0.10 // Dry heat dehydration
+    }
+    
+    return Math.min(risk, 1.0)
+  },
+  'Respiratory Infections': (weather: WeatherData): number => {
+    let risk = 0
+    
+    // Cold temperatures (<18°C) stress respiratory system
+    if (weather.temperature < 10) {
+      risk += 0.35
+    } else if (weather.temperature < 18) {
+      risk += 0.25
+    }
+    
+    // Moderate to high humidity (50-80%) supports pathogen survival
+    if (weather.humidity >= 60 && weather.humidity <= 80) {
+      risk += 0.30
+    } else if (weather.humidity >= 50) {
+      risk += 0.20
+    }
+    
+    // Low pressure systems associated with respiratory issues
+    if (weather.pressure !== undefined && weather.pressure < 1000) {
+      risk += 0.15
+    }
+    
+    // Cold, damp conditions compound risk
+    if (weather.temperature < 15 && weather.humidity > 65 && weather.rainfall > 1) {
+      risk = Math.min(risk + 0.15, 1.0)
+    }
+    
+    return Math.min(risk, 1.0)
+  },
+  'Pneumonia': (weather: WeatherData): number => {
+    let risk = 0
+    
+    // Very cold temperatures (<15°C) increase risk
+    if (weather.temperature < 5) {
+      risk += 0.40
+    } else if (weather.temperature < 15) {
+      risk += 0.30
+    }
+    
+    // High humidity (>60%) in cold weather
+    if (weather.humidity > 70 && weather.temperature < 15) {
+      risk += 0.35
+    } else if (weather.humidity > 60) {
+      risk += 0.20
+    }
+    
+    // Sudden temperature drops increase vulnerability
+    if (weather.dewPoint !== undefined) {
+      const temperatureDiff = weather.temperature - weather.dewPoint
+      if (temperatureDiff > 10 && weather.temperature < 15) {
+        risk += 0.15
+      }
+    }
+    
+    return Math.min(risk, 1.0)
+  },
+  'Allergic Rhinitis': (weather: WeatherData): number => {
+    let risk = 0
+    
+    // Mild temperatures (15-25°C) ideal for pollen release
+    if (weather.temperature >= 18 && weather.temperature <= 24) {
+      risk += 0.35
+    } else if (weather.temperature >= 15 && weather.temperature <= 25) {
+      risk += 0.25
+    }
+    
+    // Moderate humidity (40-70%) optimal for pollen spread
+    if (weather.humidity >= 45 && weather.humidity <= 65) {
+      risk += 0.30
+    }
+    
+    // Low rainfall (<1mm) keeps pollen airborne longer
+    if (weather.rainfall < 1) {
+      risk += 0.20
+    }
+    
+    // Moderate wind (10-20 km/h) disperses pollen
+    if (weather.windSpeed !== undefined && weather.windSpeed >= 10 && weather.windSpeed <= 20) {
+      risk += 0.15
+    }
+    
+    return Math.min(risk, 1.0)
+  },
+  'Asthma Attacks': (weather: WeatherData): number => {
+    let risk = 0
+    
+    // Temperature extremes trigger asthma
+    if (weather.temperature < 5 || weather.temperature > 30) {
+      risk += 0.30
+    } else if (weather.temperature < 10 || weather.temperature > 25) {
+      risk += 0.20
+    }
+    
+    // Very high humidity (>80%) or very low (<30%) problematic
+    if (weather.humidity > 85 || weather.humidity < 25) {
+      risk += 0.30
+    } else if (weather.humidity > 75 || weather.humidity < 35) {
+      risk += 0.20
+    }
+    
+    // High wind speed can carry irritants
+    if (weather.windSpeed !== undefined && weather.windSpeed > 25) {
+      risk += 0.20
+    }
+    
+    // Low pressure systems trigger symptoms
+    if (weather.pressure !== undefined && weather.pressure < 1005) {
+      risk += 0.20
+    }
+    
+    return Math.min(risk, 1.0)
+  },
+  'Dehydration & Heat Exhaustion': (weather: WeatherData): number => {
+    let risk = 0
+    
+    // High temperatures (>32°C) increase fluid loss
+    if (weather.temperature > 38) {
+      risk += 0.45
+    } else if (weather.temperature > 35) {
+      risk += 0.35
+    } else if (weather.temperature > 32) {
+      risk += 0.25
+    }
+    
+    // Low humidity (<40%) exacerbates dehydration through increased evaporation
+    if (weather.humidity < 30 && weather.temperature > 32) {
+      risk += 0.30
+    } else if (weather.humidity < 40 && weather.temperature > 35) {
+      risk += 0.20
+    }
+    
+    // High UV index increases sun exposure risk
+    if (weather.uvIndex !== undefined && weather.uvIndex > 8) {
+      risk += 0.15
+    }
+    
+    // Wind speed >15 km/h increases evaporation
+    if (weather.windSpeed !== undefined && weather.windSpeed > 15 && weather.temperature > 35) {
+      risk += 0.10
+    }
+    
+    return Math.min(risk, 1.0)
+  },
+  'Gastroenteritis': (weather: WeatherData): number => {
+    let risk = 0
+    
+    // Warm temperatures (22-38°C) promote bacterial growth in food
+    if (weather.temperature >= 28 && weather.temperature <= 35) {
+      risk += 0.35
+    } else if (weather.temperature >= 22 && weather.temperature <= 38) {
+      risk += 0.25
+    }
+    
+    // High humidity (>60%) increases food spoilage rate
+    if (weather.humidity > 75) {
+      risk += 0.30
+    } else if (weather.humidity > 60) {
+      risk += 0.20
+    }
+    
+    // Heavy rainfall contaminates water and food
+    if (weather.rainfall > 10) {
+      risk += 0.25
+    } else if (weather.rainfall > 5) {
+      risk += 0.15
+    }
+    
+    // Perfect conditions for foodborne illness
+    if (weather.temperature >= 25 && weather.humidity > 70 && weather.rainfall > 5) {
+      risk = Math.min(risk + 0.15, 1.0)
+    }
+    
+    return Math.min(risk, 1.0)
+  },
+  'Skin Infections': (weather: WeatherData): number => {
+    let risk = 0
+    
+    // Hot, humid conditions (>25°C, >70% humidity) ideal for microbes
+    if (weather.temperature > 30 && weather.humidity > 80) {
+      risk += 0.45
+    } else if (weather.temperature > 25 && weather.humidity > 70) {
+      risk += 0.35
+    }
+    
+    // High dewpoint indicates moisture that supports fungal growth
+    if (weather.dewPoint !== undefined && weather.dewPoint > 20) {
+      risk += 0.25
+    }
+    
+    // Light rain keeps skin damp
+    if (weather.rainfall > 1 && weather.rainfall < 5) {
+      risk += 0.15
+    }
+    
+    // Low wind prevents skin drying
+    if (weather.windSpeed !== undefined && weather.windSpeed < 5) {
+      risk += 0.10
+    }
+    
+    return Math.min(risk, 1.0)
+  },
+}
@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { mergeLocations } from '../locationStore'
+import type { RegisteredLocation } from '../types/doctor-module'
+
+vi.mock('../firebase', () => ({ db: {} }))
+
+const BUILT_IN: RegisteredLocation[] = [
+  { id: 'mysuru', city: 'Mysuru', district: 'Mysuru', state: 'Karnataka', latitude: 12.2958, longitude: 76.6394, population: 990900, aliases: ['Mysore'] },
+  { id: 'kochi', city: 'Kochi', district: 'Ernakulam', state: 'Kerala', latitude: 9.9312, longitude: 76.2673, population: 2119724 },
+]
+
+const ids = (locations: RegisteredLocation[]) => locations.map(location => location.id)
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+describe('mergeLocations', () => {
+  it('removes disabled locations, and ignores disabled IDs that do not exist', () => {
+    const locations = mergeLocations(BUILT_IN, [
+      { id: 'kochi', data: { disabled: true } },
+      { id: 'nowhere', data: { disabled: true } },
+    ])
+
+    expect(ids(locations)).toEqual(['mysuru'])
+  })
+
+  it('applies corrections to built-in locations and adds new ones', () => {
+    const locations = mergeLocations(BUILT_IN, [
+      { id: 'mysuru', data: { population: 1000000, disabled: false } },
+      { id: 'shimoga', data: { city: 'Shivamogga', district: 'Shivamogga', state: 'Karnataka', latitude: 13.93, longitude: 75.57, population: 322650 } },
+    ])
+
+    expect(ids(locations)).toEqual(['mysuru', 'kochi', 'shimoga'])
+    expect(locations[0]).toEqual({ ...BUILT_IN[0], population: 1000000 })
+  })
+
+  it('keeps the built-in location when an override makes it invalid', () => {
+    const locations = mergeLocations(BUILT_IN, [
+      { id: 'mysuru', data: { latitude: 51.5 } },
+      { id: 'kochi', data: { aliases: 'Cochin' } },
+    ])
+
+    expect(locations).toEqual(BUILT_IN)
+    expect(console.warn).toHaveBeenCalledWith('⚠️ Ignoring location "mysuru": latitude must be within India (6 to 38)')
+    expect(console.warn).toHaveBeenCalledWith('⚠️ Ignoring location "kochi": aliases must be a list of names')
+  })
+
+  it('skips new locations with missing fields', () => {
+    const locations = mergeLocations(BUILT_IN, [
+      { id: 'shimoga', data: { city: 'Shivamogga', state: 'Karnataka', latitude: 13.93, longitude: 75.57, population: 322650 } },
+    ])
+
+    expect(ids(locations)).toEqual(['mysuru', 'kochi'])
+    expect(console.warn).toHaveBeenCalledWith('⚠️ Ignoring location "shimoga": district is required')
+  })
+})
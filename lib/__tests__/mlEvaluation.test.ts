@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { evaluatePredictions, reliabilityCurve, rocAuc } from '../mlEvaluation'
+
+describe('rocAuc', () => {
+  it('is 1 when every positive scores above every negative', () => {
+    expect(rocAuc([false, false, true, true], [0.1, 0.2, 0.7, 0.9])).toBe(1)
+  })
+
+  it('is 0 when the ranking is reversed', () => {
+    expect(rocAuc([true, true, false, false], [0.1, 0.2, 0.7, 0.9])).toBe(0)
+  })
+
+  it('counts the share of correctly ordered positive/negative pairs', () => {
+    expect(rocAuc([false, false, true, true], [0.1, 0.4, 0.35, 0.8])).toBe(0.75)
+  })
+
+  it('gives tied scores half credit', () => {
+    expect(rocAuc([true, false, true, false], [0.5, 0.5, 0.5, 0.5])).toBe(0.5)
+    expect(rocAuc([true, false, false], [0.6, 0.6, 0.2])).toBe(0.75)
+  })
+
+  it('is null when only one class is present', () => {
+    expect(rocAuc([true, true], [0.2, 0.8])).toBeNull()
+    expect(rocAuc([false, false], [0.2, 0.8])).toBeNull()
+  })
+})
+
+describe('reliabilityCurve', () => {
+  it('reports the mean prediction and observed rate of each non-empty bin', () => {
+    const curve = reliabilityCurve([false, true, true, false, true], [0.12, 0.18, 0.85, 0.95, 1])
+
+    expect(curve).toHaveLength(3)
+    expect(curve[0]).toMatchObject({ lower: 0.1, upper: 0.2, count: 2, observed_rate: 0.5 })
+    expect(curve[0].mean_predicted).toBeCloseTo(0.15, 10)
+    expect(curve[1]).toMatchObject({ lower: 0.8, upper: 0.9, count: 1, observed_rate: 1 })
+    // A probability of exactly 1 falls in the last bin
+    expect(curve[2]).toMatchObject({ lower: 0.9, upper: 1, count: 2, observed_rate: 0.5 })
+  })
+})
+
+describe('evaluatePredictions', () => {
+  const labels = [[1, 0], [0, 0], [1, 0], [0, 0]]
+  const probabilities = [[0.9, 0.1], [0.2, 0.3], [0.4, 0.2], [0.6, 0.1]]
+  const report = evaluatePredictions(['dengue', 'malaria'], labels, probabilities)
+
+  it('computes threshold metrics, ROC-AUC and the Brier score per disease', () => {
+    const [dengue] = report.diseases
+
+    expect(dengue).toMatchObject({ disease_id: 'dengue', disease: 'Dengue Fever', positives: 2 })
+    expect(dengue.precision).toBe(0.5)
+    expect(dengue.recall).toBe(0.5)
+    expect(dengue.f1).toBe(0.5)
+    expect(dengue.roc_auc).toBe(0.75)
+    expect(dengue.brier_score).toBeCloseTo((0.01 + 0.04 + 0.36 + 0.36) / 4, 10)
+  })
+
+  it('leaves undefined metrics null and out of the macro averages', () => {
+    const [dengue, malaria] = report.diseases
+
+    expect(malaria.positives).toBe(0)
+    expect(malaria.precision).toBeNull()
+    expect(malaria.recall).toBeNull()
+    expect(malaria.roc_auc).toBeNull()
+    expect(report.macro_precision).toBe(dengue.precision)
+    expect(report.macro_roc_auc).toBe(dengue.roc_auc)
+    expect(report.macro_brier_score).toBeCloseTo((dengue.brier_score + malaria.brier_score) / 2, 10)
+  })
+
+  it('leaves unobserved labels out of their disease only', () => {
+    const masked = evaluatePredictions(['dengue', 'malaria'], [[1, null], [0, 1], [null, 0]], [[0.8, 0.9], [0.3, 0.7], [0.9, 0.2]])
+    const [dengue, malaria] = masked.diseases
+
+    expect(masked.test_samples).toBe(3)
+    expect(dengue.roc_auc).toBe(1)
+    expect(dengue.brier_score).toBeCloseTo((0.04 + 0.09) / 2, 10)
+    expect(malaria.positives).toBe(1)
+    expect(malaria.brier_score).toBeCloseTo((0.09 + 0.04) / 2, 10)
+  })
+
+  it('counts soft labels at or above the threshold as positive', () => {
+    const soft = evaluatePredictions(['dengue'], [[0.5], [0.49]], [[0.7], [0.3]])
+
+    expect(soft.diseases[0].positives).toBe(1)
+    expect(soft.diseases[0].roc_auc).toBe(1)
+    expect(soft.diseases[0].brier_score).toBeCloseTo((0.09 + 0.09) / 2, 10)
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildModelFeatures,
+  buildModelFeaturesFromSnapshots,
+  selectModelWindow,
+} from '../mlFeatures'
+import type { WeatherData } from '../types/doctor-module'
+
+function day(date: string, reading: Partial<WeatherData> = {}): WeatherData {
+  return { city: 'Pune', temperature: 25, humidity: 70, rainfall: 2, recorded_at: date, ...reading }
+}
+
+describe('selectModelWindow', () => {
+  const days = Array.from({ length: 20 }, (_, i) => day(`2025-07-${String(i + 1).padStart(2, '0')}`))
+
+  it('keeps the 14 days before the end date', () => {
+    const window = selectModelWindow(days, '2025-07-16')!
+
+    expect(window.map(d => d.recorded_at)).toEqual(days.slice(1, 15).map(d => d.recorded_at))
+  })
+
+  it('is null with fewer than 7 days of weather', () => {
+    expect(selectModelWindow(days.slice(0, 6), '2025-07-10')).toBeNull()
+  })
+})
+
+describe('buildModelFeatures', () => {
+  it('averages the window and keeps its most severe weather code', () => {
+    expect(buildModelFeatures([
+      day('2025-07-01', { temperature: 24, rainfall: 10, weatherCode: 3 }),
+      day('2025-07-02', { temperature: 28, rainfall: 0, weatherCode: 63, windSpeed: 12 }),
+    ])).toEqual({
+      temperature: 26,
+      humidity: 70,
+      rainfall: 5,
+      wind_speed: 12,
+      uv_index: 0,
+      pressure: 1013,
+      dew_point: 0,
+      weather_code: 63,
+    })
+  })
+})
+
+describe('buildModelFeaturesFromSnapshots', () => {
+  it('gives the same inputs as training on the equivalent daily archive', () => {
+    const snapshots = Array.from({ length: 14 }, (_, i) => {
+      const date = `2025-07-${String(i + 1).padStart(2, '0')}`
+      return [
+        day(`${date}T02:00:00.000Z`, { temperature: 20 + i, rainfall: 0.5 }),
+        day(`${date}T14:00:00.000Z`, { temperature: 30 + i, rainfall: 1.5 }),
+      ]
+    }).flat()
+    const archive = Array.from({ length: 14 }, (_, i) =>
+      day(`2025-07-${String(i + 1).padStart(2, '0')}`, { temperature: 25 + i, rainfall: 24 })
+    )
+
+    expect(buildModelFeaturesFromSnapshots(snapshots, Date.parse('2025-07-15T09:00:00Z')))
+      .toEqual(buildModelFeatures(archive))
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { createEmptyWards } from '../hospitalAvailability'
+import {
+  calculateOxygenConsumptionRate,
+  getHoursUntilDepletion,
+  isOxygenLow,
+  projectDepletionTime,
+} from '../oxygenSupply'
+import type { HospitalAvailability, OxygenSupply } from '../types/hospital'
+
+const HOUR = 60 * 60 * 1000
+const supply: OxygenSupply = { cylinders: 2, tank_litres: 0, tank_capacity_litres: 0 }
+
+function availability(oxygen: OxygenSupply, consumptionLph: number | null, measuredAt: number): HospitalAvailability {
+  return {
+    available_beds: 0,
+    available_oxygen: oxygen.cylinders,
+    wards: createEmptyWards(),
+    oxygen,
+    oxygen_consumption_lph: consumptionLph,
+    oxygen_depletes_at: projectDepletionTime(oxygen, consumptionLph, measuredAt),
+    last_updated: new Date(measuredAt).toISOString(),
+    updated_at_ms: measuredAt,
+  }
+}
+
+describe('projectDepletionTime', () => {
+  it('projects from the gaseous volume and the hourly rate', () => {
+    expect(projectDepletionTime(supply, 1000, 0)).toBe(14 * HOUR)
+  })
+
+  it('has no projection when nothing is consumed', () => {
+    expect(projectDepletionTime(supply, 0, 0)).toBeNull()
+    expect(projectDepletionTime(supply, null, 0)).toBeNull()
+  })
+})
+
+describe('calculateOxygenConsumptionRate', () => {
+  it('is zero when the supply has not changed', () => {
+    expect(calculateOxygenConsumptionRate([
+      { timestamp: 0, supply_litres: 14000 },
+      { timestamp: 2 * HOUR, supply_litres: 14000 },
+    ])).toBe(0)
+  })
+
+  it('skips refills', () => {
+    expect(calculateOxygenConsumptionRate([
+      { timestamp: 0, supply_litres: 14000 },
+      { timestamp: HOUR, supply_litres: 13000 },
+      { timestamp: 2 * HOUR, supply_litres: 20000 },
+    ])).toBe(1000)
+  })
+})
+
+describe('getHoursUntilDepletion', () => {
+  it('is null with zero consumption, so the hospital is not flagged', () => {
+    const stable = availability(supply, 0, 0)
+
+    expect(getHoursUntilDepletion(stable, HOUR)).toBeNull()
+    expect(isOxygenLow(stable, 24, HOUR)).toBe(false)
+  })
+
+  it('is 0 without any oxygen, whatever the consumption', () => {
+    expect(getHoursUntilDepletion(availability({ cylinders: 0, tank_litres: 0, tank_capacity_litres: 0 }, 0, 0), HOUR)).toBe(0)
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest'
+import { parseIndiaPostCsv } from '../pinCodeDirectory'
+
+vi.mock('../firebase', () => ({ db: {} }))
+vi.mock('../firebaseAdmin', () => ({ getAdminDb: vi.fn() }))
+
+const HEADER = 'circlename,regionname,divisionname,officename,pincode,officetype,delivery,district,statename,latitude,longitude'
+
+function csv(...rows: string[]): string {
+  return [HEADER, ...rows].join('\r\n')
+}
+
+describe('parseIndiaPostCsv', () => {
+  it('names a PIN code after its head office and takes the median coordinates', () => {
+    const { entries, skipped, errors } = parseIndiaPostCsv(csv(
+      'Karnataka Circle,Bangalore HQ,Bangalore East,Shivajinagar S.O,560001,S.O,Delivery,BENGALURU URBAN,KARNATAKA,12.98,77.60',
+      'Karnataka Circle,Bangalore HQ,Bangalore East,Bangalore G.P.O.,560001,H.O,Delivery,BENGALURU URBAN,KARNATAKA,12.97,77.59',
+      'Karnataka Circle,Bangalore HQ,Bangalore East,Stray B.O,560001,B.O,Delivery,BENGALURU URBAN,KARNATAKA,13.50,78.10',
+    ))
+
+    expect(errors).toEqual([])
+    expect(skipped).toBe(0)
+    expect(entries).toEqual([{
+      pincode: '560001',
+      office: 'Bangalore G.P.O.',
+      district: 'Bengaluru Urban',
+      state: 'Karnataka',
+      latitude: 12.98,
+      longitude: 77.6,
+      source: 'india_post',
+    }])
+  })
+
+  it('corrects swapped coordinates and ignores ones outside India', () => {
+    const { entries } = parseIndiaPostCsv(csv(
+      'Maharashtra Circle,Mumbai,Mumbai GPO,Fort S.O,400001,S.O,Delivery,MUMBAI,MAHARASHTRA,72.83,18.93',
+      'Maharashtra Circle,Mumbai,Mumbai GPO,Stray S.O,400001,S.O,Delivery,MUMBAI,MAHARASHTRA,0,0',
+    ))
+
+    expect(entries[0]).toMatchObject({ latitude: 18.93, longitude: 72.83 })
+  })
+
+  it('skips PIN codes without valid coordinates and reports bad PIN codes', () => {
+    const { entries, skipped, errors } = parseIndiaPostCsv(csv(
+      'Delhi Circle,Delhi,New Delhi Central,Connaught Place S.O,110001,S.O,Delivery,NEW DELHI,DELHI,NA,NA',
+      'Delhi Circle,Delhi,New Delhi Central,Broken,11000,S.O,Delivery,NEW DELHI,DELHI,28.63,77.22',
+    ))
+
+    expect(entries).toEqual([])
+    expect(skipped).toBe(1)
+    expect(errors).toEqual(['Line 3: pincode must be 6 digits'])
+  })
+
+  it('accepts quoted fields and alternative column names', () => {
+    const { entries } = parseIndiaPostCsv([
+      'OfficeName,Pincode,OfficeType,DistrictName,StateName,Latitude,Longitude',
+      '"Fort, Mumbai",400001,H.O,Mumbai,Maharashtra,18.93,72.83',
+    ].join('\n'))
+
+    expect(entries[0]).toMatchObject({ office: 'Fort, Mumbai', district: 'Mumbai', state: 'Maharashtra' })
+  })
+
+  it('reports missing columns and empty files', () => {
+    expect(parseIndiaPostCsv('officename,pincode\nFort,400001').errors)
+      .toEqual(['Missing column(s): officeType, district, state, latitude, longitude'])
+    expect(parseIndiaPostCsv('').errors).toEqual(['CSV is empty'])
+  })
+})
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { blendPredictions, getMLWeight, predictDiseasesEnsemble } from '../predictionEnsemble'
+import { DISEASE_DEFINITIONS } from '../predictDisease'
+import { predictProbabilitiesWithML } from '../mlModel'
+import { fetchWeatherHistory } from '../weatherHistory'
+import type { DiseaseId, DiseasePrediction, EnsembleConfig } from '../types/doctor-module'
+
+vi.mock('../firebase', () => ({ db: {} }))
+vi.mock('../mlModel', () => ({ predictProbabilitiesWithML: vi.fn() }))
+vi.mock('../weatherHistory', () => ({ fetchWeatherHistory: vi.fn() }))
+
+const CONFIG: EnsembleConfig = { default_ml_weight: 0.5, ml_weights: {}, disagreement_margin: 0.3 }
+
+/**
+ * Rule-based prediction for a catalog disease at a given risk
+ */
+function rulePrediction(diseaseId: DiseaseId, risk: number): DiseasePrediction {
+  const definition = DISEASE_DEFINITIONS.find(d => d.id === diseaseId)!
+  return {
+    disease_id: definition.id,
+    disease: definition.name,
+    risk_level: risk,
+    weather_risk: risk,
+    seasonal_prior: null,
+    required_doctors: Math.ceil(definition.doctors_required * risk),
+    specialty: definition.specialty,
+    description: definition.description,
+    symptoms: definition.symptoms,
+    prevention: definition.prevention,
+    contributing_factors: [],
+  }
+}
+
+function byDisease(values: Partial<Record<DiseaseId, number>>): Record<DiseaseId, number> {
+  return values as Record<DiseaseId, number>
+}
+
+describe('getMLWeight', () => {
+  it('uses the per-disease weight, or the default', () => {
+    const config = { ...CONFIG, ml_weights: byDisease({ dengue: 0.8 }) }
+
+    expect(getMLWeight('dengue', config)).toBe(0.8)
+    expect(getMLWeight('malaria', config)).toBe(0.5)
+  })
+
+  it('clamps weights to 0-1', () => {
+    expect(getMLWeight('dengue', { ...CONFIG, ml_weights: byDisease({ dengue: 1.5 }) })).toBe(1)
+    expect(getMLWeight('dengue', { ...CONFIG, default_ml_weight: -0.2 })).toBe(0)
+  })
+})
+
+describe('blendPredictions', () => {
+  it('keeps the rule-based risk when no model is available', () => {
+    const [dengue] = blendPredictions([rulePrediction('dengue', 0.6)], null, DISEASE_DEFINITIONS, CONFIG)
+
+    expect(dengue).toMatchObject({ risk_level: 0.6, rule_risk: 0.6, ml_risk: null, ml_weight: 0, disagreement: false })
+  })
+
+  it('blends both risks with the ML weight and recomputes the doctors needed', () => {
+    const config = { ...CONFIG, ml_weights: byDisease({ malaria: 0.25 }) }
+    const predictions = blendPredictions(
+      [rulePrediction('dengue', 0.6), rulePrediction('malaria', 0.8)],
+      byDisease({ dengue: 0.4, malaria: 0.4 }),
+      DISEASE_DEFINITIONS,
+      config
+    )
+    const dengue = predictions.find(p => p.disease_id === 'dengue')!
+    const malaria = predictions.find(p => p.disease_id === 'malaria')!
+
+    expect(dengue.risk_level).toBeCloseTo(0.5, 10)
+    expect(dengue).toMatchObject({ rule_risk: 0.6, ml_risk: 0.4, ml_weight: 0.5, required_doctors: 3 })
+    expect(malaria.risk_level).toBeCloseTo(0.7, 10)
+    expect(malaria.ml_weight).toBe(0.25)
+  })
+
+  it('flags diseases whose methods differ by more than the margin', () => {
+    const predictions = blendPredictions(
+      [rulePrediction('dengue', 0.9), rulePrediction('malaria', 0.6)],
+      byDisease({ dengue: 0.5, malaria: 0.35 }),
+      DISEASE_DEFINITIONS,
+      CONFIG
+    )
+
+    expect(predictions.find(p => p.disease_id === 'dengue')!.disagreement).toBe(true)
+    expect(predictions.find(p => p.disease_id === 'malaria')!.disagreement).toBe(false)
+  })
+
+  it('drops low risks unless the methods disagree, highest risk first', () => {
+    const predictions = blendPredictions(
+      [rulePrediction('dengue', 0.1), rulePrediction('malaria', 0.1), rulePrediction('typhoid', 0.7)],
+      byDisease({ dengue: 0.1, malaria: 0.45, typhoid: 0.7 }),
+      DISEASE_DEFINITIONS,
+      CONFIG
+    )
+
+    expect(predictions.map(p => p.disease_id)).toEqual(['typhoid', 'malaria'])
+    expect(predictions[1]).toMatchObject({ disagreement: true })
+  })
+
+  it('ignores ML outputs for diseases outside the rule predictions', () => {
+    const predictions = blendPredictions(
+      [rulePrediction('dengue', 0.6)],
+      byDisease({ dengue: 0.6, malaria: 0.9 }),
+      DISEASE_DEFINITIONS,
+      CONFIG
+    )
+
+    expect(predictions.map(p => p.disease_id)).toEqual(['dengue'])
+  })
+})
+
+describe('predictDiseasesEnsemble', () => {
+  const weather = { city: 'Mumbai', temperature: 28, humidity: 85, rainfall: 10, windSpeed: 8 }
+  const season = { state: null, region: null, month: 7, priors: byDisease({}) }
+
+  beforeEach(() => {
+    vi.mocked(predictProbabilitiesWithML).mockReset()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('uses rule-based risk only when too little weather history is stored', async () => {
+    vi.mocked(fetchWeatherHistory).mockResolvedValue([])
+
+    const predictions = await predictDiseasesEnsemble(weather, DISEASE_DEFINITIONS, season, CONFIG)
+
+    expect(predictProbabilitiesWithML).not.toHaveBeenCalled()
+    expect(predictions.length).toBeGreaterThan(0)
+    predictions.forEach(prediction => {
+      expect(prediction.ml_risk).toBeNull()
+      expect(prediction.risk_level).toBe(prediction.rule_risk)
+    })
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest'
+import { applyBedHolds } from '../referrals'
+import { createEmptyWards, getTotalFreeBeds } from '../hospitalAvailability'
+import type { Hospital, WardBeds } from '../types/hospital'
+import type { Referral } from '../types/referral'
+
+vi.mock('../firebase', () => ({ db: {} }))
+
+const NOW = Date.parse('2025-07-01T12:00:00Z')
+const HOUR = 60 * 60 * 1000
+
+function hospital(id: number, wards: Partial<WardBeds>): Hospital {
+  const allWards = { ...createEmptyWards(), ...wards }
+  return {
+    id,
+    name: `Hospital ${id}`,
+    address: '',
+    latitude: 0,
+    longitude: 0,
+    availability: [{
+      available_beds: getTotalFreeBeds(allWards),
+      available_oxygen: 0,
+      wards: allWards,
+      oxygen: { cylinders: 0, tank_litres: 0, tank_capacity_litres: 0 },
+      oxygen_consumption_lph: null,
+      oxygen_depletes_at: null,
+      last_updated: new Date(NOW).toISOString(),
+      updated_at_ms: NOW,
+    }],
+  }
+}
+
+function referral(toHospitalId: number, holdUntil: number | null, fields: Partial<Referral> = {}): Referral {
+  return {
+    id: `referral-${toHospitalId}-${holdUntil}`,
+    to_hospital_id: String(toHospitalId),
+    to_hospital_doc_id: `doc-${toHospitalId}`,
+    to_hospital_name: `Hospital ${toHospitalId}`,
+    from_hospital_doc_id: null,
+    from_hospital_name: null,
+    requested_by: 'doctor-1',
+    requested_by_name: 'Doctor',
+    bed_type: 'icu',
+    acuity: 'serious',
+    patient_notes: '',
+    status: 'accepted',
+    decline_reason: null,
+    hold_until: holdUntil,
+    created_at: NOW - HOUR,
+    responded_at: NOW - HOUR,
+    ...fields,
+  }
+}
+
+describe('applyBedHolds', () => {
+  it('holds a bed for each active referral and ignores expired ones', () => {
+    const [held] = applyBedHolds(
+      [hospital(1, { icu: { total: 5, occupied: 1 } })],
+      [referral(1, NOW + HOUR), referral(1, NOW + 2 * HOUR), referral(1, NOW - HOUR)],
+      NOW
+    )
+
+    expect(held.availability![0].wards.icu.held).toBe(2)
+    expect(held.availability![0].available_beds).toBe(2)
+  })
+
+  it('only holds beds for accepted referrals', () => {
+    const hospitals = [hospital(1, { icu: { total: 5, occupied: 1 } })]
+
+    expect(applyBedHolds(hospitals, [referral(1, null, { status: 'pending' }), referral(1, NOW - HOUR)], NOW)).toBe(hospitals)
+  })
+
+  it('never takes free beds below zero', () => {
+    const [full, other] = applyBedHolds(
+      [hospital(1, { icu: { total: 2, occupied: 2 } }), hospital(2, { general: { total: 3, occupied: 0 } })],
+      [referral(1, NOW + HOUR)],
+      NOW
+    )
+
+    expect(full.availability![0].wards.icu.held).toBe(1)
+    expect(full.availability![0].available_beds).toBe(0)
+    expect(other.availability![0].available_beds).toBe(3)
+  })
+})
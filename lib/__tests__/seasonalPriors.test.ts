@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_SEASONAL_PRIOR_CONFIG,
+  SEASONAL_PRIOR_WEIGHT,
+  applySeasonalPrior,
+  getSeasonalPrior,
+} from '../seasonalPriors'
+import type { MonthlyCurve, SeasonalPriorConfig } from '../types/doctor-module'
+
+const FLAT_CURVE: MonthlyCurve = [0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5]
+
+describe('getSeasonalPrior', () => {
+  it('reads the month from a 1-based index', () => {
+    // Kerala (west_coast) monsoon curve
+    expect(getSeasonalPrior('malaria', 'Kerala', 1)).toBe(0.2)
+    expect(getSeasonalPrior('malaria', 'Kerala', 7)).toBe(1.0)
+    expect(getSeasonalPrior('malaria', 'Kerala', 12)).toBe(0.3)
+  })
+
+  it('falls back to the national curve when the region has none for the season', () => {
+    // Telangana is central_deccan, which has no curves of its own
+    expect(getSeasonalPrior('malaria', 'Telangana', 7)).toBe(0.9)
+  })
+
+  it('uses the national curve for unknown or missing states', () => {
+    expect(getSeasonalPrior('malaria', 'Atlantis', 7)).toBe(0.9)
+    expect(getSeasonalPrior('malaria', null, 7)).toBe(0.9)
+  })
+
+  it('resolves state aliases to their region', () => {
+    // Orissa → Odisha (east)
+    expect(getSeasonalPrior('malaria', 'Orissa', 5)).toBe(0.5)
+  })
+
+  it('prefers a state override, then the override region, over the defaults', () => {
+    const config: SeasonalPriorConfig = {
+      ...DEFAULT_SEASONAL_PRIOR_CONFIG,
+      state_overrides: {
+        kerala: { diseases: { malaria: FLAT_CURVE } },
+        telangana: { region: 'west_coast' },
+      },
+    }
+
+    expect(getSeasonalPrior('malaria', 'Kerala', 7, config)).toBe(0.5)
+    expect(getSeasonalPrior('dengue', 'Kerala', 10, config)).toBe(0.9)
+    expect(getSeasonalPrior('malaria', 'Telangana', 7, config)).toBe(1.0)
+  })
+
+  it('is null for diseases without a seasonal pattern', () => {
+    expect(getSeasonalPrior('cholera', 'Kerala', 7)).toBeNull()
+  })
+})
+
+describe('applySeasonalPrior', () => {
+  it('scales the weather risk from 1 - weight at prior 0 to 1 + weight at prior 1', () => {
+    expect(applySeasonalPrior(0.5, 0)).toBeCloseTo(0.5 * (1 - SEASONAL_PRIOR_WEIGHT))
+    expect(applySeasonalPrior(0.5, 0.5)).toBe(0.5)
+    expect(applySeasonalPrior(0.5, 1)).toBeCloseTo(0.5 * (1 + SEASONAL_PRIOR_WEIGHT))
+  })
+
+  it('caps the risk at 1 and keeps zero risk at zero', () => {
+    expect(applySeasonalPrior(0.9, 1)).toBe(1)
+    expect(applySeasonalPrior(0, 1)).toBe(0)
+  })
+
+  it('leaves the risk unchanged without a prior', () => {
+    expect(applySeasonalPrior(0.42, null)).toBe(0.42)
+  })
+})
@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { buildSurveillanceTrainingData, type SurveillanceRecord } from '../surveillanceData'
+import { fetchWeatherArchiveFromAPI } from '../fetchWeatherData'
+import type { WeatherData } from '../types/doctor-module'
+
+vi.mock('../firebase', () => ({ db: {} }))
+vi.mock('../firebaseAdmin', () => ({ getAdminDb: vi.fn() }))
+vi.mock('../fetchWeatherData', () => ({ fetchWeatherArchiveFromAPI: vi.fn() }))
+vi.mock('../pinCodeDiseaseAnalysis', () => ({ getDistrictCoordinates: vi.fn() }))
+
+function record(week_start: string, disease: string, cases: number): SurveillanceRecord {
+  return { week_start, state: 'Kerala', district: 'Ernakulam', disease, cases, latitude: 9.98, longitude: 76.28 }
+}
+
+/**
+ * Daily archive weather for every day of June and July 2025
+ */
+function archive(): WeatherData[] {
+  return Array.from({ length: 61 }, (_, i) => ({
+    city: 'Ernakulam',
+    temperature: 28,
+    humidity: 85,
+    rainfall: 12,
+    recorded_at: new Date(Date.UTC(2025, 5, 1 + i)).toISOString().slice(0, 10),
+  }))
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.mocked(fetchWeatherArchiveFromAPI).mockResolvedValue(archive())
+})
+
+describe('buildSurveillanceTrainingData', () => {
+  it('labels only the diseases the district reports', async () => {
+    const { data } = await buildSurveillanceTrainingData([
+      record('2025-07-07', 'Dengue', 40),
+      record('2025-07-07', 'Malaria', 5),
+      record('2025-07-14', 'Dengue', 20),
+    ])
+
+    expect(data).toHaveLength(2)
+    expect(data[0]).toMatchObject({ dengue: 1, malaria: 0.5, heat_stroke: null, influenza: null })
+    // A reported disease without a row that week had no cases
+    expect(data[1]).toMatchObject({ dengue: 0.5, malaria: 0, heat_stroke: null })
+  })
+})
@@ -30,9 +30,16 @@ export interface AdmissionFeatures {
   // Environmental (optional - can be added later)
   temperature?: number;
   rainfall?: number;
-  air_quality_index?: number;
+  air_quality_index?: number;   // Indian National AQI (0-500); model input, DEFAULT_AIR_QUALITY_INDEX when unknown
 }
 
+// "Satisfactory" upper bound, used when no air quality reading is available
+export const DEFAULT_AIR_QUALITY_INDEX = 100;
+
+// Bumped whenever the model inputs change, so models trained on old inputs are not loaded
+const MODEL_STORAGE_KEY = 'admission-prediction-model-v2';
+const STATS_STORAGE_KEY = 'admission-model-stats-v2';
+
 export interface AdmissionTarget {
   total_admissions: number;
   emergency_admissions: number;
@@ -86,6 +93,7 @@ export class AdmissionPredictionModel {
     'same_day_last_week',
     'same_day_last_month',
     'trend',
+    'air_quality_index',
   ];
 
   constructor() {
@@ -107,11 +115,11 @@ export class AdmissionPredictionModel {
 
     const model = tf.sequential();
 
-    // Input layer: 10 features
+    // Input layer: one unit per feature
     model.add(tf.layers.dense({
       units: 64,
       activation: 'relu',
-      inputShape: [10],
+      inputShape: [this.featureNames.length],
       kernelInitializer: 'heNormal',
       name: 'input_layer'
     }));
@@ -167,10 +175,10 @@ export class AdmissionPredictionModel {
   }
 
   /**
-   * Convert features object to normalized tensor
+   * Convert features object to model input values (in featureNames order)
    */
-  private featuresToTensor(features: AdmissionFeatures): tf.Tensor2D {
-    const featureArray = [
+  private toFeatureArray(features: AdmissionFeatures): number[] {
+    return [
       features.day_of_week,
       features.month,
       features.day_of_month,
@@ -181,9 +189,17 @@ export class AdmissionPredictionModel {
       features.same_day_last_week,
       features.same_day_last_month,
       features.trend,
+      features.air_quality_index ?? DEFAULT_AIR_QUALITY_INDEX,
     ];
+  }
 
-    let tensor = tf.tensor2d([featureArray], [1, 10]);
+  /**
+   * Convert features object to normalized tensor
+   */
+  private featuresToTensor(features: AdmissionFeatures): tf.Tensor2D {
+    const featureArray = this.toFeatureArray(features);
+
+    let tensor = tf.tensor2d([featureArray], [1, this.featureNames.length]);
 
     // Normalize if we have stats
     if (this.featureStats) {
@@ -203,29 +219,19 @@ export class AdmissionPredictionModel {
    * Calculate feature statistics for normalization
    */
   private calculateFeatureStats(trainingData: TrainingDataPoint[]): void {
-    const featureMatrix: number[][] = trainingData.map(point => [
-      point.features.day_of_week,
-      point.features.month,
-      point.features.day_of_month,
-      point.features.is_weekend,
-      point.features.is_public_holiday,
-      point.features.last_7_days_avg,
-      point.features.last_30_days_avg,
-      point.features.same_day_last_week,
-      point.features.same_day_last_month,
-      point.features.trend,
-    ]);
+    const featureMatrix: number[][] = trainingData.map(point => this.toFeatureArray(point.features));
 
     const mean: number[] = [];
     const std: number[] = [];
 
-    for (let i = 0; i < 10; i++) {
+    for (let i = 0; i < this.featureNames.length; i++) {
       const column = featureMatrix.map(row => row[i]);
       const avg = column.reduce((a, b) => a + b, 0) / column.length;
       const variance = column.reduce((a, b) => a + Math.pow(b - avg, 2), 0) / column.length;
       
       mean.push(avg);
-      std.push(Math.sqrt(variance));
+      // A feature constant in training (e.g. AQI never recorded) must not blow up at prediction time
+      std.push(Math.sqrt(variance) || 1);
     }
 
     this.featureStats = { mean, std };
@@ -278,18 +284,7 @@ export class AdmissionPredictionModel {
       const y: number[][] = [];
 
       for (const point of trainingData) {
-        X.push([
-          point.features.day_of_week,
-          point.features.month,
-          point.features.day_of_month,
-          point.features.is_weekend,
-          point.features.is_public_holiday,
-          point.features.last_7_days_avg,
-          point.features.last_30_days_avg,
-          point.features.same_day_last_week,
-          point.features.same_day_last_month,
-          point.features.trend,
-        ]);
+        X.push(this.toFeatureArray(point.features));
 
         y.push([
           point.target.total_admissions,
@@ -456,11 +451,11 @@ export class AdmissionPredictionModel {
     }
 
     try {
-      await this.model.save('localstorage://admission-prediction-model');
+      await this.model.save(`localstorage://${MODEL_STORAGE_KEY}`);
       
       // Save feature stats separately
       localStorage.setItem(
-        'admission-model-stats',
+        STATS_STORAGE_KEY,
         JSON.stringify(this.featureStats)
       );
 
@@ -477,15 +472,15 @@ export class AdmissionPredictionModel {
   async loadModel(): Promise<boolean> {
     try {
       // Check if model exists in localStorage first
-      const modelInfo = localStorage.getItem('tensorflowjs_models/admission-prediction-model/info');
+      const modelInfo = localStorage.getItem(`tensorflowjs_models/${MODEL_STORAGE_KEY}/info`);
       if (!modelInfo) {
         // Model doesn't exist yet - this is normal before first training
         return false;
       }
 
-      this.model = await tf.loadLayersModel('localstorage://admission-prediction-model');
+      this.model = await tf.loadLayersModel(`localstorage://${MODEL_STORAGE_KEY}`);
       
-      const statsJson = localStorage.getItem('admission-model-stats');
+      const statsJson = localStorage.getItem(STATS_STORAGE_KEY);
       if (statsJson) {
         this.featureStats = JSON.parse(statsJson);
       }
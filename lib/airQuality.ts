@@ -0,0 +1,188 @@
+/**
+ * Air Quality Providers
+ * Current PM2.5, PM10, NO2, O3 and (where reported) pollen for a location,
+ * used by the respiratory disease rules and the admission model
+ *
+ * The provider is chosen with NEXT_PUBLIC_AIR_QUALITY_PROVIDER:
+ * - `open-meteo` (default): Open-Meteo Air Quality API, free, no API key
+ *   Documentation: https://open-meteo.com/en/docs/air-quality-api
+ * - `fixture`: fixed readings, for offline development and testing
+ */
+
+import type { AirQualityData, WeatherData, WeatherFetchConfig } from './types/doctor-module'
+
+export interface AirQualityProvider {
+  name: string
+  fetchAirQuality(config: WeatherFetchConfig): Promise<AirQualityData>
+}
+
+type Pollutant = 'pm25' | 'pm10' | 'no2' | 'o3'
+
+// CPCB National AQI breakpoints (µg/m³) for the AQI bands 0, 50, 100, 200, 300, 400, 500
+const AQI_BANDS = [0, 50, 100, 200, 300, 400, 500]
+const AQI_BREAKPOINTS: Record<Pollutant, number[]> = {
+  pm25: [0, 30, 60, 90, 120, 250, 380],
+  pm10: [0, 50, 100, 250, 350, 430, 510],
+  no2: [0, 40, 80, 180, 280, 400, 520],
+  o3: [0, 50, 100, 168, 208, 748, 1000],
+}
+
+/**
+ * Sub-index for one pollutant, interpolated within its band (capped at 500)
+ */
+function calculateSubIndex(pollutant: Pollutant, concentration: number): number {
+  const breakpoints = AQI_BREAKPOINTS[pollutant]
+  for (let i = 1; i < breakpoints.length; i++) {
+    if (concentration <= breakpoints[i]) {
+      const fraction = (concentration - breakpoints[i - 1]) / (breakpoints[i] - breakpoints[i - 1])
+      return AQI_BANDS[i - 1] + fraction * (AQI_BANDS[i] - AQI_BANDS[i - 1])
+    }
+  }
+  return 500
+}
+
+/**
+ * Indian National AQI: the highest pollutant sub-index
+ */
+export function calculateIndianAqi(readings: Record<Pollutant, number>): number {
+  const subIndices = (Object.keys(AQI_BREAKPOINTS) as Pollutant[])
+    .map(pollutant => calculateSubIndex(pollutant, Math.max(readings[pollutant], 0)))
+  return Math.round(Math.max(...subIndices))
+}
+
+/**
+ * CPCB category for an AQI value
+ */
+export function getAqiCategory(aqi: number): string {
+  if (aqi <= 50) return 'Good'
+  if (aqi <= 100) return 'Satisfactory'
+  if (aqi <= 200) return 'Moderate'
+  if (aqi <= 300) return 'Poor'
+  if (aqi <= 400) return 'Very Poor'
+  return 'Severe'
+}
+
+interface OpenMeteoAirQualityResponse {
+  current?: Record<string, number | null | string>
+}
+
+const OPEN_METEO_POLLEN_FIELDS = [
+  'alder_pollen',
+  'birch_pollen',
+  'grass_pollen',
+  'mugwort_pollen',
+  'olive_pollen',
+  'ragweed_pollen',
+]
+
+/**
+ * Open-Meteo Air Quality API (CAMS)
+ * Pollen is only modelled for Europe, so it is left out elsewhere
+ */
+export const openMeteoAirQualityProvider: AirQualityProvider = {
+  name: 'open-meteo',
+
+  async fetchAirQuality({ latitude, longitude, city, timezone = 'auto' }) {
+    const params = new URLSearchParams({
+      latitude: latitude.toString(),
+      longitude: longitude.toString(),
+      current: ['pm2_5', 'pm10', 'nitrogen_dioxide', 'ozone', ...OPEN_METEO_POLLEN_FIELDS].join(','),
+      timezone,
+    })
+
+    const response = await fetch(`https://air-quality-api.open-meteo.com/v1/air-quality?${params.toString()}`, {
+      method: 'GET',
+      signal: AbortSignal.timeout(10000),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Open-Meteo Air Quality API error: ${response.status} ${response.statusText}`)
+    }
+
+    const data: OpenMeteoAirQualityResponse = await response.json()
+    const current = data.current
+    const reading = (field: string) => (typeof current?.[field] === 'number' ? current[field] as number : undefined)
+
+    const pm25 = reading('pm2_5')
+    const pm10 = reading('pm10')
+    if (pm25 === undefined || pm10 === undefined) {
+      throw new Error(`No particulate readings available for ${city}`)
+    }
+
+    const pollutants = { pm25, pm10, no2: reading('nitrogen_dioxide') ?? 0, o3: reading('ozone') ?? 0 }
+    const pollenReadings = OPEN_METEO_POLLEN_FIELDS
+      .map(reading)
+      .filter((value): value is number => value !== undefined)
+
+    return {
+      ...pollutants,
+      // Firestore rejects undefined, so pollen is only set when reported
+      ...(pollenReadings.length > 0 && { pollen: pollenReadings.reduce((sum, value) => sum + value, 0) }),
+      aqi: calculateIndianAqi(pollutants),
+      source: 'open-meteo',
+    }
+  },
+}
+
+// A moderately polluted winter day in a north Indian city
+const DEFAULT_FIXTURE_READINGS = { pm25: 75, pm10: 140, no2: 45, o3: 60, pollen: 30 }
+
+/**
+ * Provider returning fixed readings (no network)
+ * @param readings Pollutant and pollen values; AQI is derived from them
+ */
+export function createFixtureAirQualityProvider(
+  readings: Pick<AirQualityData, Pollutant | 'pollen'> = DEFAULT_FIXTURE_READINGS
+): AirQualityProvider {
+  return {
+    name: 'fixture',
+    async fetchAirQuality() {
+      return {
+        ...readings,
+        aqi: calculateIndianAqi(readings),
+        source: 'fixture',
+      }
+    },
+  }
+}
+
+/**
+ * Provider selected by NEXT_PUBLIC_AIR_QUALITY_PROVIDER
+ */
+export function getAirQualityProvider(): AirQualityProvider {
+  return process.env.NEXT_PUBLIC_AIR_QUALITY_PROVIDER === 'fixture'
+    ? createFixtureAirQualityProvider()
+    : openMeteoAirQualityProvider
+}
+
+/**
+ * Fetches current air quality from the configured provider
+ */
+export async function fetchAirQuality(
+  config: WeatherFetchConfig,
+  provider: AirQualityProvider = getAirQualityProvider()
+): Promise<AirQualityData> {
+  console.log(`🌫️ Fetching air quality for ${config.city} from ${provider.name}...`)
+  const airQuality = await provider.fetchAirQuality(config)
+  console.log(`🌫️ Air quality for ${config.city}: AQI ${airQuality.aqi} (${getAqiCategory(airQuality.aqi)})`)
+  return airQuality
+}
+
+/**
+ * Adds current air quality to weather data
+ * When the provider fails the weather is returned unchanged and
+ * air quality rule factors simply do not match
+ */
+export async function withAirQuality(
+  weather: WeatherData,
+  coordinates: { latitude: number; longitude: number },
+  provider: AirQualityProvider = getAirQualityProvider()
+): Promise<WeatherData> {
+  try {
+    const airQuality = await fetchAirQuality({ ...coordinates, city: weather.city }, provider)
+    return { ...weather, airQuality }
+  } catch (error) {
+    console.warn(`⚠️ Could not load air quality for ${weather.city}:`, error)
+    return weather
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Availability Freshness
+ * A hospital whose last availability update is older than the configured age
+ * is "stale": its counts are shown with a warning and never treated as available
+ */
+
+import type { Hospital } from './types/hospital'
+
+/**
+ * Updates older than this mark a hospital stale
+ * Configure with NEXT_PUBLIC_STALE_AVAILABILITY_HOURS (default 12)
+ */
+export const STALE_AVAILABILITY_HOURS = Number(process.env.NEXT_PUBLIC_STALE_AVAILABILITY_HOURS) || 12
+
+const MS_PER_HOUR = 60 * 60 * 1000
+
+/**
+ * Milliseconds since the hospital last reported availability
+ * Null when it has never reported
+ */
+export function getAvailabilityAgeMs(hospital: Hospital, now: number = Date.now()): number | null {
+  const updatedAt = hospital.availability?.[0]?.updated_at_ms
+  if (updatedAt === null || updatedAt === undefined) return null
+  return Math.max(now - updatedAt, 0)
+}
+
+/**
+ * Whether a hospital's availability is too old (or missing) to rely on
+ */
+export function isHospitalStale(
+  hospital: Hospital,
+  now: number = Date.now(),
+  thresholdHours: number = STALE_AVAILABILITY_HOURS
+): boolean {
+  const age = getAvailabilityAgeMs(hospital, now)
+  return age === null || age > thresholdHours * MS_PER_HOUR
+}
+
+/**
+ * Stale hospitals for the super admin report, longest silent first
+ * Hospitals that never reported come first
+ */
+export function getStaleHospitals(
+  hospitals: Hospital[],
+  now: number = Date.now(),
+  thresholdHours: number = STALE_AVAILABILITY_HOURS
+): { hospital: Hospital; age_ms: number | null }[] {
+  return hospitals
+    .filter(hospital => isHospitalStale(hospital, now, thresholdHours))
+    .map(hospital => ({ hospital, age_ms: getAvailabilityAgeMs(hospital, now) }))
+    .sort((a, b) => {
+      if (a.age_ms === null || b.age_ms === null) {
+        return (a.age_ms === null ? 0 : 1) - (b.age_ms === null ? 0 : 1)
+      }
+      return b.age_ms - a.age_ms
+    })
+}
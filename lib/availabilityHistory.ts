@@ -0,0 +1,212 @@
+/**
+ * Hospital Availability History
+ * Reads the append-only `availability` history collection as a time series and
+ * derives daily min/max and "time at zero beds" statistics
+ *
+ * Availability is treated as a step function: each update holds until the next one.
+ */
+
+import { db } from './firebase'
+import { collection, query, where, orderBy, limit, getDocs, Timestamp } from 'firebase/firestore'
+import { getHospitalIdVariants, parseAvailability } from './hospitalAvailability'
+import { AVAILABILITY_HISTORY_COLLECTION } from './availabilityStore'
+import type {
+  AvailabilityHistoryPoint,
+  AvailabilityRecord,
+  DailyAvailabilityStats,
+  ZeroBedStats,
+} from './types/hospital'
+
+/**
+ * Selectable history ranges
+ */
+export const HISTORY_RANGES = [
+  { key: '24h', label: '24 hours', days: 1 },
+  { key: '7d', label: '7 days', days: 7 },
+  { key: '30d', label: '30 days', days: 30 },
+  { key: '90d', label: '90 days', days: 90 },
+] as const
+
+export type HistoryRangeKey = typeof HISTORY_RANGES[number]['key']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Converts an availability document into a history point
+ */
+function toHistoryPoint(data: Partial<AvailabilityRecord>): AvailabilityHistoryPoint {
+  const updatedAt = data.updated_at as { toMillis?: () => number } | undefined
+  const availability = parseAvailability(data)
+
+  return {
+    timestamp: updatedAt?.toMillis?.() || 0,
+    available_beds: availability.available_beds,
+    available_oxygen: availability.available_oxygen,
+  }
+}
+
+/**
+ * Fetches a hospital's availability history since a given date
+ * The last update before `since` is included (clamped to `since`) so the
+ * series has a known value from the start of the range
+ * @returns Points in chronological order
+ */
+export async function fetchAvailabilityHistory(
+  hospitalId: number | string,
+  since: Date
+): Promise<AvailabilityHistoryPoint[]> {
+  const availabilityCollection = collection(db, AVAILABILITY_HISTORY_COLLECTION)
+  const idVariants = getHospitalIdVariants(hospitalId)
+  const sinceTimestamp = Timestamp.fromDate(since)
+
+  const [rangeSnap, priorSnap] = await Promise.all([
+    getDocs(query(
+      availabilityCollection,
+      where('hospital_id', 'in', idVariants),
+      where('updated_at', '>=', sinceTimestamp),
+      orderBy('updated_at', 'asc')
+    )),
+    getDocs(query(
+      availabilityCollection,
+      where('hospital_id', 'in', idVariants),
+      where('updated_at', '<', sinceTimestamp),
+      orderBy('updated_at', 'desc'),
+      limit(1)
+    )),
+  ])
+
+  const points = rangeSnap.docs.map(doc => toHistoryPoint(doc.data()))
+
+  if (!priorSnap.empty) {
+    const prior = toHistoryPoint(priorSnap.docs[0].data())
+    points.unshift({ ...prior, timestamp: since.getTime() })
+  }
+
+  console.log(`📈 Loaded ${points.length} availability points for hospital ${hospitalId}`)
+
+  return points
+}
+
+/**
+ * Local YYYY-MM-DD key for a timestamp
+ */
+function toDateKey(timestamp: number): string {
+  const date = new Date(timestamp)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Calculates daily min/max of beds and oxygen
+ * A day includes the value carried in from the previous day, so a hospital
+ * that stayed full all day without updating still reports min = max = 0
+ * @param points History points in chronological order
+ * @param rangeEnd End of the observed period (usually now)
+ */
+export function calculateDailyStats(
+  points: AvailabilityHistoryPoint[],
+  rangeEnd: number = Date.now()
+): DailyAvailabilityStats[] {
+  if (points.length === 0) return []
+
+  const stats: DailyAvailabilityStats[] = []
+  const firstDay = new Date(points[0].timestamp)
+  let dayStart = new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate()).getTime()
+  let index = 0
+  let carried: AvailabilityHistoryPoint | null = null
+
+  while (dayStart < rangeEnd) {
+    const next = new Date(dayStart)
+    next.setDate(next.getDate() + 1)
+    const dayEnd = next.getTime()
+
+    const values: AvailabilityHistoryPoint[] = carried ? [carried] : []
+    let updates = 0
+    while (index < points.length && points[index].timestamp < dayEnd) {
+      values.push(points[index])
+      carried = points[index]
+      updates++
+      index++
+    }
+
+    if (values.length > 0) {
+      const beds = values.map(v => v.available_beds)
+      const oxygen = values.map(v => v.available_oxygen)
+      stats.push({
+        date: toDateKey(dayStart),
+        min_beds: Math.min(...beds),
+        max_beds: Math.max(...beds),
+        min_oxygen: Math.min(...oxygen),
+        max_oxygen: Math.max(...oxygen),
+        updates,
+      })
+    }
+
+    dayStart = dayEnd
+  }
+
+  return stats
+}
+
+/**
+ * Calculates how long the hospital had no free beds
+ * The observed period runs from the first point to `rangeEnd`
+ * @param points History points in chronological order
+ * @param rangeEnd End of the observed period (usually now)
+ */
+export function calculateZeroBedStats(
+  points: AvailabilityHistoryPoint[],
+  rangeEnd: number = Date.now()
+): ZeroBedStats {
+  const stats: ZeroBedStats = { total_ms: 0, percentage: 0, episodes: 0, longest_ms: 0 }
+  if (points.length === 0) return stats
+
+  let inEpisode = false
+  let episodeMs = 0
+
+  points.forEach((point, i) => {
+    const end = i + 1 < points.length ? points[i + 1].timestamp : rangeEnd
+    const duration = Math.max(end - point.timestamp, 0)
+
+    if (point.available_beds === 0) {
+      if (!inEpisode) {
+        stats.episodes++
+        inEpisode = true
+        episodeMs = 0
+      }
+      episodeMs += duration
+      stats.total_ms += duration
+      stats.longest_ms = Math.max(stats.longest_ms, episodeMs)
+    } else {
+      inEpisode = false
+    }
+  })
+
+  const observedMs = rangeEnd - points[0].timestamp
+  stats.percentage = observedMs > 0 ? (stats.total_ms / observedMs) * 100 : 0
+
+  return stats
+}
+
+/**
+ * Formats a duration for display (e.g. "2d 4h", "3h 15m")
+ */
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.round(ms / 60000)
+  const days = Math.floor(totalMinutes / (24 * 60))
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60)
+  const minutes = totalMinutes % 60
+
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return `${minutes}m`
+}
+
+/**
+ * Start date of a history range relative to now
+ */
+export function getRangeStart(rangeKey: HistoryRangeKey, now: number = Date.now()): Date {
+  const range = HISTORY_RANGES.find(r => r.key === rangeKey) || HISTORY_RANGES[1]
+  return new Date(now - range.days * DAY_MS)
+}
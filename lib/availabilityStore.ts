@@ -0,0 +1,133 @@
+/**
+ * Hospital Availability Store
+ * Writes availability updates and reads the current state per hospital
+ *
+ * Every update is written twice in one batch:
+ * - `availability/{hospitalId}_{timestamp}`: append-only history for analytics
+ * - `availability_latest/{hospitalId}`: current counts, one document per hospital
+ *
+ * The oxygen consumption rate is derived from recent history at write time,
+ * so readers get it from the latest document without scanning history.
+ */
+
+import { db } from './firebase'
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  writeBatch,
+  Timestamp,
+} from 'firebase/firestore'
+import { getHospitalIdVariants, getTotalFreeBeds, parseAvailability, parseOxygenSupply } from './hospitalAvailability'
+import {
+  OXYGEN_RATE_WINDOW_HOURS,
+  calculateOxygenConsumptionRate,
+  getOxygenSupplyLitres,
+} from './oxygenSupply'
+import type { AvailabilityRecord, HospitalAvailability, OxygenSupply, WardBeds } from './types/hospital'
+
+export const AVAILABILITY_HISTORY_COLLECTION = 'availability'
+export const AVAILABILITY_LATEST_COLLECTION = 'availability_latest'
+
+/**
+ * Oxygen readings (gaseous litres) recorded for a hospital since a point in time, oldest first
+ */
+async function fetchRecentOxygenReadings(
+  hospitalId: number | string,
+  since: Date
+): Promise<{ timestamp: number; supply_litres: number }[]> {
+  const recentQuery = query(
+    collection(db, AVAILABILITY_HISTORY_COLLECTION),
+    where('hospital_id', 'in', getHospitalIdVariants(hospitalId)),
+    where('updated_at', '>=', Timestamp.fromDate(since)),
+    orderBy('updated_at', 'asc')
+  )
+  const snapshot = await getDocs(recentQuery)
+
+  return snapshot.docs.map(doc => {
+    const data = doc.data() as AvailabilityRecord
+    return {
+      timestamp: (data.updated_at as Timestamp).toMillis(),
+      supply_litres: getOxygenSupplyLitres(parseOxygenSupply(data)),
+    }
+  })
+}
+
+/**
+ * Records an availability update for a hospital
+ * The history entry and the latest-availability document are committed atomically
+ * @returns ID of the new history document
+ */
+export async function recordAvailabilityUpdate(
+  hospitalId: number | string,
+  update: { wards: WardBeds; oxygen: OxygenSupply }
+): Promise<string> {
+  const now = Timestamp.now()
+  const historyDocId = `${hospitalId}_${now.toMillis()}`
+
+  const since = new Date(now.toMillis() - OXYGEN_RATE_WINDOW_HOURS * 60 * 60 * 1000)
+  const readings = await fetchRecentOxygenReadings(hospitalId, since)
+  readings.push({ timestamp: now.toMillis(), supply_litres: getOxygenSupplyLitres(update.oxygen) })
+
+  const record: AvailabilityRecord = {
+    hospital_id: hospitalId,  // Use original ID (string or number)
+    available_beds: getTotalFreeBeds(update.wards),
+    available_oxygen: update.oxygen.cylinders,
+    liquid_oxygen_litres: update.oxygen.tank_litres,
+    liquid_oxygen_capacity_litres: update.oxygen.tank_capacity_litres,
+    oxygen_consumption_lph: calculateOxygenConsumptionRate(readings),
+    wards: update.wards,
+    updated_at: now,
+  }
+
+  const batch = writeBatch(db)
+  batch.set(doc(db, AVAILABILITY_HISTORY_COLLECTION, historyDocId), record)
+  batch.set(doc(db, AVAILABILITY_LATEST_COLLECTION, String(hospitalId)), {
+    ...record,
+    history_doc_id: historyDocId,
+  })
+  await batch.commit()
+
+  console.log(`✅ Recorded availability for hospital ${hospitalId} (${historyDocId})`)
+
+  return historyDocId
+}
+
+/**
+ * Reads the latest availability from the append-only history
+ * Used only for hospitals that have no `availability_latest` document yet
+ */
+export async function fetchLatestFromHistory(
+  hospitalId: number | string
+): Promise<HospitalAvailability | null> {
+  const latestQuery = query(
+    collection(db, AVAILABILITY_HISTORY_COLLECTION),
+    where('hospital_id', 'in', getHospitalIdVariants(hospitalId)),
+    orderBy('updated_at', 'desc'),
+    limit(1)
+  )
+  const snapshot = await getDocs(latestQuery)
+
+  return snapshot.empty ? null : parseAvailability(snapshot.docs[0].data())
+}
+
+/**
+ * Reads the current availability of a single hospital
+ * Falls back to the history collection for hospitals not yet materialized
+ */
+export async function fetchLatestAvailability(
+  hospitalId: number | string
+): Promise<HospitalAvailability | null> {
+  const latestSnap = await getDoc(doc(db, AVAILABILITY_LATEST_COLLECTION, String(hospitalId)))
+
+  if (latestSnap.exists()) {
+    return parseAvailability(latestSnap.data())
+  }
+
+  return fetchLatestFromHistory(hospitalId)
+}
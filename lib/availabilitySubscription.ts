@@ -0,0 +1,87 @@
+/**
+ * Real-time Hospital Availability Subscription
+ * Streams the hospital list and each hospital's latest availability
+ * to the dashboard using Firestore onSnapshot listeners
+ *
+ * Current counts come from `availability_latest` (one document per hospital),
+ * so the dashboard never scans the append-only history.
+ */
+
+import { db } from './firebase'
+import { collection, query, orderBy, onSnapshot, type Unsubscribe } from 'firebase/firestore'
+import { parseHospital, parseAvailability } from './hospitalAvailability'
+import { AVAILABILITY_LATEST_COLLECTION, fetchLatestFromHistory } from './availabilityStore'
+import type { Hospital, HospitalAvailability } from './types/hospital'
+
+/**
+ * Listens to all hospitals together with their latest availability
+ * Emits only once the hospital list and every hospital's availability are known,
+ * so the dashboard never renders a half-loaded list
+ * @returns Function that detaches every listener
+ */
+export function subscribeToHospitals(
+  onUpdate: (hospitals: Hospital[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe {
+  let hospitals: Hospital[] | null = null
+  let latestAvailability: Map<string, HospitalAvailability> | null = null
+
+  // Hospitals without a materialized document fall back to a one-time history read
+  const historyFallback = new Map<string, HospitalAvailability | null>()
+  const fallbackRequested = new Set<string>()
+
+  const emit = () => {
+    if (!hospitals || !latestAvailability) return
+    const latest = latestAvailability
+
+    const missing = hospitals
+      .map(hospital => String(hospital.id))
+      .filter(key => !latest.has(key))
+
+    missing.forEach(key => {
+      if (fallbackRequested.has(key)) return
+      fallbackRequested.add(key)
+
+      const hospital = hospitals!.find(h => String(h.id) === key)!
+      fetchLatestFromHistory(hospital.id)
+        .then(availability => {
+          historyFallback.set(key, availability)
+          emit()
+        })
+        .catch(onError)
+    })
+
+    if (missing.some(key => !historyFallback.has(key))) return
+
+    onUpdate(hospitals.map(hospital => {
+      const key = String(hospital.id)
+      const availability = latest.get(key) || historyFallback.get(key)
+      return { ...hospital, availability: availability ? [availability] : [] }
+    }))
+  }
+
+  const unsubscribeHospitals = onSnapshot(
+    query(collection(db, 'hospitals'), orderBy('name')),
+    snapshot => {
+      hospitals = snapshot.docs.map(doc => parseHospital(doc.id, doc.data()))
+      emit()
+    },
+    onError
+  )
+
+  const unsubscribeLatest = onSnapshot(
+    collection(db, AVAILABILITY_LATEST_COLLECTION),
+    snapshot => {
+      latestAvailability = new Map(
+        snapshot.docs.map(doc => [doc.id, parseAvailability(doc.data())])
+      )
+      emit()
+    },
+    onError
+  )
+
+  return () => {
+    unsubscribeHospitals()
+    unsubscribeLatest()
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Daily Weather
+ * One daily summary of stored weather snapshots, shared by the lagged weather features,
+ * the model inputs and the `weather_stats` rollup, so all three agree on a day's weather
+ *
+ * Days take the shape of the daily weather archive the model is trained on: temperature
+ * is the mean of the day's max and min, rainfall the day's total (mean hourly rate × 24,
+ * since snapshots are not guaranteed to cover every hour), UV the day's maximum and the
+ * weather code the most severe; other readings are means.
+ */
+
+import type { WeatherData } from './types/doctor-module'
+
+/**
+ * Weather of one UTC day, with `recorded_at` as its date (YYYY-MM-DD)
+ */
+export interface DailyWeather extends WeatherData {
+  recorded_at: string
+  data_points: number // Snapshots summarised
+}
+
+function mean(values: number[]): number | undefined {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined
+}
+
+function numbers(records: WeatherData[], pick: (record: WeatherData) => number | undefined): number[] {
+  return records.map(pick).filter((value): value is number => typeof value === 'number')
+}
+
+/**
+ * Summary of the snapshots of one day
+ */
+export function summarizeDay(records: WeatherData[], date: string): DailyWeather {
+  const temperatures = numbers(records, record => record.temperature)
+  const uvIndexes = numbers(records, record => record.uvIndex)
+  const weatherCodes = numbers(records, record => record.weatherCode)
+
+  return {
+    city: records[0].city,
+    temperature: temperatures.length > 0 ? (Math.max(...temperatures) + Math.min(...temperatures)) / 2 : 0,
+    humidity: mean(numbers(records, record => record.humidity)) ?? 0,
+    rainfall: (mean(numbers(records, record => record.rainfall)) ?? 0) * 24,
+    windSpeed: mean(numbers(records, record => record.windSpeed)),
+    uvIndex: uvIndexes.length > 0 ? Math.max(...uvIndexes) : undefined,
+    pressure: mean(numbers(records, record => record.pressure)),
+    dewPoint: mean(numbers(records, record => record.dewPoint)),
+    weatherCode: weatherCodes.length > 0 ? Math.max(...weatherCodes) : undefined,
+    recorded_at: date,
+    data_points: records.length,
+  }
+}
+
+/**
+ * Reduces snapshots to one summary per UTC day, oldest first
+ * Snapshots without a parseable `recorded_at` are ignored
+ */
+export function summarizeWeatherByDay(records: WeatherData[]): DailyWeather[] {
+  const byDate = new Map<string, WeatherData[]>()
+
+  records.forEach(record => {
+    const time = record.recorded_at ? Date.parse(record.recorded_at) : NaN
+    if (isNaN(time)) return
+    const date = new Date(time).toISOString().slice(0, 10)
+    byDate.set(date, [...(byDate.get(date) || []), record])
+  })
+
+  return Array.from(byDate.entries())
+    .map(([date, dayRecords]) => summarizeDay(dayRecords, date))
+    .sort((a, b) => a.recorded_at.localeCompare(b.recorded_at))
+}
@@ -0,0 +1,296 @@
+/**
+ * Data Retention
+ * Keeps collections from growing without bound while preserving weather history:
+ * hourly `weather_data` older than its window is rolled up into daily `weather_stats`
+ * (one document per city and UTC day) before the raw records are deleted, and other
+ * collections are trimmed to their windows. Deletes use batched writes.
+ *
+ * Windows are set per collection in days (null = keep forever), built in below and
+ * overridable in the `retention_config/default` document, e.g.
+ * `{ weather_data: 45, doctor_requirements: 180 }`
+ *
+ * Run daily by the cron route `/api/dataRetention`, through the Admin SDK: clients cannot
+ * delete these collections, and some of them are not readable without a signed-in user.
+ */
+
+import { getAdminDb } from './firebaseAdmin'
+import { Timestamp, type DocumentReference, type Query } from 'firebase-admin/firestore'
+import { summarizeDay } from './dailyWeather'
+import { WEATHER_HISTORY_WINDOWS_DAYS } from './weatherHistory'
+import { INGESTION_LOGS_COLLECTION } from './weatherIngestion'
+import { WEATHER_CACHE_COLLECTION } from './weatherCache'
+import type { WeatherData, WeatherStats } from './types/doctor-module'
+
+export const WEATHER_STATS_COLLECTION = 'weather_stats'
+export const RETENTION_CONFIG_COLLECTION = 'retention_config'
+const RETENTION_CONFIG_DOC = 'default'
+
+export type RetentionCollection = 'weather_data' | 'weather_stats' | 'doctor_requirements' | 'ingestion_logs'
+
+/**
+ * Days each collection is kept (null = keep forever)
+ */
+export type RetentionPolicy = Record<RetentionCollection, number | null>
+
+/**
+ * Built-in windows: daily aggregates are kept for model training and analytics
+ */
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  weather_data: 30,
+  weather_stats: null,
+  doctor_requirements: 90,
+  ingestion_logs: 30,
+}
+
+// Raw records feed the lagged weather features, so they are kept at least this long
+const MIN_WEATHER_DATA_DAYS = Math.max(...WEATHER_HISTORY_WINDOWS_DAYS)
+
+// Firestore allows at most 500 writes per batch
+const BATCH_SIZE = 500
+
+// Bounds on one run, so a large backlog is worked off over several runs
+const MAX_ROLLUP_DAYS_PER_RUN = 31
+const MAX_DELETE_BATCHES_PER_COLLECTION = 20
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Summary of one retention run
+ */
+export interface RetentionRunSummary {
+  policy: RetentionPolicy
+  rolled_up_days: number // City-days written to weather_stats
+  deleted: Record<string, number> // Documents deleted per collection
+  errors: string[]
+}
+
+/**
+ * Validates the stored windows; invalid values are dropped with a warning
+ */
+function parseRetentionPolicy(data: Record<string, unknown>): RetentionPolicy {
+  const policy: RetentionPolicy = { ...DEFAULT_RETENTION_POLICY }
+
+  for (const name of Object.keys(DEFAULT_RETENTION_POLICY) as RetentionCollection[]) {
+    const days = data[name]
+    if (days === undefined) continue
+    if (days === null || (Number.isInteger(days) && (days as number) >= 1)) {
+      policy[name] = days as number | null
+    } else {
+      console.warn(`⚠️ Ignoring retention window ${days} for ${name}: must be a whole number of days or null`)
+    }
+  }
+
+  if (policy.weather_data !== null && policy.weather_data < MIN_WEATHER_DATA_DAYS) {
+    console.warn(`⚠️ Keeping weather_data for ${MIN_WEATHER_DATA_DAYS} days instead of ${policy.weather_data}: lagged weather features need them`)
+    policy.weather_data = MIN_WEATHER_DATA_DAYS
+  }
+
+  return policy
+}
+
+/**
+ * Active retention windows: built-in defaults with the Firestore document applied
+ * Unlike the other settings there is no fallback: deleting with windows other than
+ * the configured ones could remove data meant to be kept
+ * @throws Error when Firestore cannot be read
+ */
+export async function loadRetentionPolicy(): Promise<RetentionPolicy> {
+  const snapshot = await getAdminDb().collection(RETENTION_CONFIG_COLLECTION).doc(RETENTION_CONFIG_DOC).get()
+  const data = snapshot.data()
+  return data ? parseRetentionPolicy(data) : DEFAULT_RETENTION_POLICY
+}
+
+function round(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value.toFixed(2))
+}
+
+/**
+ * Daily aggregate of one city's hourly records, from the same daily summary as the
+ * lagged features and model inputs (see dailyWeather)
+ */
+export function summarizeWeatherDay(records: WeatherData[], date: string): WeatherStats {
+  const day = summarizeDay(records, date)
+  const first = records[0] as WeatherData & { location_id?: string; state?: string }
+
+  const stats: WeatherStats = {
+    city: day.city,
+    ...(first.location_id && { location_id: first.location_id }),
+    ...(first.state && { state: first.state }),
+    date,
+    avg_temperature: round(day.temperature)!,
+    avg_humidity: round(day.humidity)!,
+    total_rainfall: round(day.rainfall)!,
+    avg_wind_speed: round(day.windSpeed),
+    avg_pressure: round(day.pressure),
+    avg_dew_point: round(day.dewPoint),
+    max_uv_index: day.uvIndex,
+    data_points: day.data_points,
+    period_start: `${date}T00:00:00.000Z`,
+    period_end: `${date}T23:59:59.999Z`,
+  }
+
+  // Firestore rejects undefined, so readings no record had are left out
+  return JSON.parse(JSON.stringify(stats))
+}
+
+/**
+ * Combines two aggregates of the same city and day, weighting averages by data points
+ * (a day is re-aggregated when an earlier run stored its stats but did not finish deleting)
+ */
+export function mergeWeatherStats(existing: WeatherStats, added: WeatherStats): WeatherStats {
+  const total = existing.data_points + added.data_points
+  const weighted = (a?: number, b?: number) =>
+    a === undefined ? b : b === undefined ? a : round((a * existing.data_points + b * added.data_points) / total)
+
+  const merged: WeatherStats = {
+    ...existing,
+    avg_temperature: weighted(existing.avg_temperature, added.avg_temperature)!,
+    avg_humidity: weighted(existing.avg_humidity, added.avg_humidity)!,
+    total_rainfall: weighted(existing.total_rainfall, added.total_rainfall)!,
+    avg_wind_speed: weighted(existing.avg_wind_speed, added.avg_wind_speed),
+    avg_pressure: weighted(existing.avg_pressure, added.avg_pressure),
+    avg_dew_point: weighted(existing.avg_dew_point, added.avg_dew_point),
+    max_uv_index: existing.max_uv_index === undefined || added.max_uv_index === undefined
+      ? existing.max_uv_index ?? added.max_uv_index
+      : Math.max(existing.max_uv_index, added.max_uv_index),
+    data_points: total,
+  }
+  return JSON.parse(JSON.stringify(merged))
+}
+
+function statsDocId(group: string, date: string): string {
+  return `${group.toLowerCase().replace(/[^a-z0-9]+/g, '_')}_${date}`
+}
+
+/**
+ * Deletes documents in batches
+ */
+async function deleteInBatches(refs: { ref: DocumentReference }[]): Promise<number> {
+  for (let start = 0; start < refs.length; start += BATCH_SIZE) {
+    const batch = getAdminDb().batch()
+    refs.slice(start, start + BATCH_SIZE).forEach(({ ref }) => batch.delete(ref))
+    await batch.commit()
+  }
+  return refs.length
+}
+
+/**
+ * Deletes every document a query matches, one batch at a time (up to the per-run bound)
+ */
+async function deleteMatching(matching: Query): Promise<number> {
+  let deleted = 0
+  for (let batches = 0; batches < MAX_DELETE_BATCHES_PER_COLLECTION; batches++) {
+    const snapshot = await matching.limit(BATCH_SIZE).get()
+    if (snapshot.empty) break
+    deleted += await deleteInBatches(snapshot.docs)
+    if (snapshot.size < BATCH_SIZE) break
+  }
+  return deleted
+}
+
+/**
+ * Rolls whole UTC days of weather_data older than the window into weather_stats,
+ * then deletes those raw records
+ */
+async function rollUpWeatherData(days: number, now: number): Promise<{ rolledUp: number; deleted: number }> {
+  const cutoffDate = new Date(now - days * MS_PER_DAY).toISOString().slice(0, 10)
+  const adminDb = getAdminDb()
+  const weatherData = adminDb.collection('weather_data')
+
+  const oldest = await weatherData.orderBy('recorded_at').limit(1).get()
+  const oldestRecordedAt = oldest.empty ? null : oldest.docs[0].data().recorded_at
+  if (!(oldestRecordedAt instanceof Timestamp)) return { rolledUp: 0, deleted: 0 }
+
+  let rolledUp = 0
+  let deleted = 0
+  let date = oldestRecordedAt.toDate().toISOString().slice(0, 10)
+
+  for (let day = 0; day < MAX_ROLLUP_DAYS_PER_RUN && date < cutoffDate; day++) {
+    const dayStart = Date.parse(`${date}T00:00:00Z`)
+    const snapshot = await weatherData
+      .where('recorded_at', '>=', Timestamp.fromMillis(dayStart))
+      .where('recorded_at', '<', Timestamp.fromMillis(dayStart + MS_PER_DAY))
+      .get()
+
+    // Group by registered location, or by city for records stored before the registry
+    const groups = new Map<string, WeatherData[]>()
+    snapshot.docs.forEach(record => {
+      const data = record.data() as WeatherData & { location_id?: string }
+      const group = data.location_id || data.city
+      if (group) groups.set(group, [...(groups.get(group) || []), data])
+    })
+
+    for (const [group, records] of Array.from(groups.entries())) {
+      const statsRef = adminDb.collection(WEATHER_STATS_COLLECTION).doc(statsDocId(group, date))
+      const existing = await statsRef.get()
+      const stats = summarizeWeatherDay(records, date)
+      await statsRef.set(existing.exists ? mergeWeatherStats(existing.data() as WeatherStats, stats) : stats)
+      rolledUp++
+    }
+
+    // Stats are stored first, so an interrupted run never loses a day
+    deleted += await deleteInBatches(snapshot.docs)
+    date = new Date(dayStart + MS_PER_DAY).toISOString().slice(0, 10)
+  }
+
+  return { rolledUp, deleted }
+}
+
+/**
+ * Applies the retention policy to every collection
+ * A failing collection is reported in `errors` and does not stop the others
+ * @throws Error when the Admin SDK is not configured or the policy cannot be read
+ */
+export async function runDataRetention(now: number = Date.now()): Promise<RetentionRunSummary> {
+  const adminDb = getAdminDb()
+  const policy = await loadRetentionPolicy()
+  const summary: RetentionRunSummary = { policy, rolled_up_days: 0, deleted: {}, errors: [] }
+  const cutoff = (days: number) => Timestamp.fromMillis(now - days * MS_PER_DAY)
+
+  const step = async (name: string, run: () => Promise<number>) => {
+    try {
+      summary.deleted[name] = await run()
+    } catch (error) {
+      console.error(`❌ Retention failed for ${name}:`, error)
+      summary.errors.push(`${name}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  if (policy.weather_data !== null) {
+    const days = policy.weather_data
+    await step('weather_data', async () => {
+      const { rolledUp, deleted } = await rollUpWeatherData(days, now)
+      summary.rolled_up_days = rolledUp
+      return deleted
+    })
+  }
+
+  if (policy.weather_stats !== null) {
+    const cutoffDate = new Date(now - policy.weather_stats * MS_PER_DAY).toISOString().slice(0, 10)
+    await step(WEATHER_STATS_COLLECTION, () =>
+      deleteMatching(adminDb.collection(WEATHER_STATS_COLLECTION).where('date', '<', cutoffDate))
+    )
+  }
+
+  if (policy.doctor_requirements !== null) {
+    const days = policy.doctor_requirements
+    await step('doctor_requirements', () =>
+      deleteMatching(adminDb.collection('doctor_requirements').where('generated_at', '<', cutoff(days)))
+    )
+  }
+
+  if (policy.ingestion_logs !== null) {
+    const days = policy.ingestion_logs
+    await step(INGESTION_LOGS_COLLECTION, () =>
+      deleteMatching(adminDb.collection(INGESTION_LOGS_COLLECTION).where('started_at', '<', cutoff(days)))
+    )
+  }
+
+  // Expired cache entries are never read again
+  await step(WEATHER_CACHE_COLLECTION, () =>
+    deleteMatching(adminDb.collection(WEATHER_CACHE_COLLECTION).where('expires_at', '<', Timestamp.fromMillis(now)))
+  )
+
+  console.log(`🧹 Retention: ${summary.rolled_up_days} city-day(s) rolled up, deleted`, summary.deleted)
+  return summary
+}
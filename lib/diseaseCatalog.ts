@@ -0,0 +1,47 @@
+/**
+ * Regional Disease Catalog
+ * Limits the disease definitions evaluated for a place to those endemic there,
+ * so e.g. Malaria is not predicted for Himalayan PIN codes
+ *
+ * New regional diseases are added as complete definitions (with `endemic`)
+ * in `DISEASE_DEFINITIONS` or as documents in `disease_rules`.
+ */
+
+import { normalizeStateName } from './seasonalPriors'
+import type { DiseaseDefinition, DiseaseLocation } from './types/doctor-module'
+
+function normalizeDistrictName(district: string): string {
+  return district.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+/**
+ * Whether a disease should be evaluated at a location
+ * Diseases without an endemic area, and locations without a known state, always match
+ */
+export function isEndemicIn(definition: DiseaseDefinition, location: DiseaseLocation): boolean {
+  if (!definition.endemic || !location.state) return true
+
+  const state = normalizeStateName(location.state)
+  if (definition.endemic.states.some(name => normalizeStateName(name) === state)) return true
+
+  if (!location.district) return false
+  const district = normalizeDistrictName(location.district)
+  return (definition.endemic.districts || []).some(name => normalizeDistrictName(name) === district)
+}
+
+/**
+ * Disease definitions relevant to a location
+ */
+export function filterDefinitionsForLocation(
+  definitions: DiseaseDefinition[],
+  location: DiseaseLocation
+): DiseaseDefinition[] {
+  const relevant = definitions.filter(definition => isEndemicIn(definition, location))
+
+  const skipped = definitions.length - relevant.length
+  if (skipped > 0) {
+    console.log(`🗺️ Skipping ${skipped} disease(s) not endemic in ${location.district ? `${location.district}, ` : ''}${location.state}`)
+  }
+
+  return relevant
+}
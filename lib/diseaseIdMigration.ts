@@ -0,0 +1,106 @@
+/**
+ * Disease ID Migration
+ * Rewrites documents stored before the disease registry so they use registry IDs
+ * and display names:
+ * - doctor_requirements: adds `disease_id`, renames e.g. 'Influenza/Flu' to 'Influenza (Flu)'
+ * - disease_rules: adds `id`
+ * - seasonal_priors, ensemble_config: re-keys per-disease maps by ID
+ *
+ * Readers already resolve old names, so this can run at any time and is safe to repeat.
+ * Stored ML model versions are immutable and are resolved when loaded instead.
+ * Config collections are writable by super admins only, so this runs as a signed-in super admin.
+ */
+
+import { db } from './firebase'
+import { collection, getDocs, writeBatch, type DocumentReference } from 'firebase/firestore'
+import { getDiseaseName, keyByDiseaseId, resolveDiseaseId, toDiseaseId } from './diseaseRegistry'
+import { DISEASE_RULES_COLLECTION } from './diseaseRuleStore'
+import { SEASONAL_PRIORS_COLLECTION } from './seasonalPriorStore'
+import { ENSEMBLE_CONFIG_COLLECTION } from './ensembleConfigStore'
+
+// Firestore allows at most 500 writes per batch
+const BATCH_SIZE = 500
+
+/**
+ * Outcome for one collection
+ */
+export interface DiseaseIdMigrationResult {
+  collection: string
+  scanned: number
+  updated: number
+  error?: string
+}
+
+type Update = { ref: DocumentReference; data: Record<string, unknown> }
+
+async function commitUpdates(updates: Update[]): Promise<void> {
+  for (let start = 0; start < updates.length; start += BATCH_SIZE) {
+    const batch = writeBatch(db)
+    updates.slice(start, start + BATCH_SIZE).forEach(({ ref, data }) => batch.update(ref, data))
+    await batch.commit()
+  }
+}
+
+/**
+ * Whether re-keying a per-disease map would change it
+ */
+function needsRekey(byDisease: unknown): byDisease is Record<string, unknown> {
+  return !!byDisease && typeof byDisease === 'object' &&
+    Object.keys(byDisease).some(key => toDiseaseId(key) !== key)
+}
+
+/**
+ * Scans one collection and applies the updates `migrate` returns (null = already migrated)
+ */
+async function migrateCollection(
+  name: string,
+  migrate: (data: Record<string, unknown>, docId: string) => Record<string, unknown> | null
+): Promise<DiseaseIdMigrationResult> {
+  try {
+    const snapshot = await getDocs(collection(db, name))
+    const updates = snapshot.docs.flatMap(doc => {
+      const data = migrate(doc.data(), doc.id)
+      return data ? [{ ref: doc.ref, data }] : []
+    })
+    await commitUpdates(updates)
+
+    console.log(`🔁 Migrated ${updates.length} of ${snapshot.size} ${name} document(s) to disease IDs`)
+    return { collection: name, scanned: snapshot.size, updated: updates.length }
+  } catch (error) {
+    console.error(`❌ Could not migrate ${name} to disease IDs:`, error)
+    return {
+      collection: name,
+      scanned: 0,
+      updated: 0,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Migrates every collection that refers to diseases; a failing collection does not stop the others
+ */
+export async function migrateDiseaseIds(): Promise<DiseaseIdMigrationResult[]> {
+  return [
+    await migrateCollection('doctor_requirements', data => {
+      const disease = data.predicted_disease
+      if (typeof disease !== 'string') return null
+      const id = toDiseaseId(disease)
+      const name = resolveDiseaseId(disease) ? getDiseaseName(id) : disease
+      return data.disease_id === id && disease === name ? null : { disease_id: id, predicted_disease: name }
+    }),
+
+    await migrateCollection(DISEASE_RULES_COLLECTION, (data, docId) => {
+      const id = toDiseaseId((data.id || data.name || docId) as string)
+      return data.id === id ? null : { id }
+    }),
+
+    await migrateCollection(SEASONAL_PRIORS_COLLECTION, data =>
+      needsRekey(data.diseases) ? { diseases: keyByDiseaseId(data.diseases) } : null
+    ),
+
+    await migrateCollection(ENSEMBLE_CONFIG_COLLECTION, data =>
+      needsRekey(data.ml_weights) ? { ml_weights: keyByDiseaseId(data.ml_weights) } : null
+    ),
+  ]
+}
@@ -0,0 +1,100 @@
+/**
+ * Multi-day Disease Outlook
+ * Runs the disease rules over each day of the weather forecast to give
+ * per-disease risk curves and the projected peak day, for staffing ahead
+ */
+
+import { fetchWeatherForecastFromAPI } from './fetchWeatherData'
+import { DISEASE_DEFINITIONS, SIGNIFICANT_RISK_THRESHOLD } from './predictDisease'
+import { evaluateRule } from './diseaseRuleEngine'
+import { loadDiseaseDefinitions } from './diseaseRuleStore'
+import { applySeasonalPrior, getSeasonalPrior } from './seasonalPriors'
+import { loadSeasonalPriorConfig } from './seasonalPriorStore'
+import { filterDefinitionsForLocation } from './diseaseCatalog'
+import { OUTLOOK_DAY_OPTIONS, DEFAULT_OUTLOOK_DAYS, MAX_OUTLOOK_DAYS } from './outlookOptions'
+import type {
+  DiseaseDefinition,
+  DiseaseLocation,
+  DiseaseOutlook,
+  DiseaseOutlookSummary,
+  SeasonalPriorConfig,
+  WeatherData,
+  WeatherFetchConfig,
+} from './types/doctor-module'
+
+export { OUTLOOK_DAY_OPTIONS, DEFAULT_OUTLOOK_DAYS, MAX_OUTLOOK_DAYS }
+
+/**
+ * Builds risk curves from a daily forecast (one WeatherData per day)
+ * With `seasonal`, each day uses the prior for its own month
+ * Diseases that never exceed the significant-risk threshold are left out
+ */
+export function buildDiseaseOutlook(
+  city: string,
+  forecast: WeatherData[],
+  definitions: DiseaseDefinition[] = DISEASE_DEFINITIONS,
+  seasonal?: { config: SeasonalPriorConfig; state: string | null }
+): DiseaseOutlookSummary {
+  const diseases: DiseaseOutlook[] = definitions
+    .map(definition => {
+      const points = forecast.map(day => {
+        const date = day.recorded_at || ''
+        const month = Number(date.slice(5, 7))
+        const prior = seasonal && month
+          ? getSeasonalPrior(definition.id, seasonal.state, month, seasonal.config)
+          : null
+        return {
+          date,
+          risk_level: applySeasonalPrior(evaluateRule(definition.rule, day), prior),
+        }
+      })
+
+      // Earliest day wins a tie, so staff are ready for the first peak
+      const peak = points.reduce(
+        (best, point) => (point.risk_level > best.risk_level ? point : best),
+        points[0] || { date: '', risk_level: 0 }
+      )
+
+      return {
+        disease_id: definition.id,
+        disease: definition.name,
+        specialty: definition.specialty,
+        points,
+        peak_date: peak.date,
+        peak_risk: peak.risk_level,
+        peak_required_doctors: Math.ceil(definition.doctors_required * peak.risk_level),
+      }
+    })
+    .filter(outlook => outlook.peak_risk > SIGNIFICANT_RISK_THRESHOLD)
+    .sort((a, b) => b.peak_risk - a.peak_risk)
+
+  return {
+    city,
+    forecast,
+    diseases,
+    generated_at: new Date().toISOString(),
+  }
+}
+
+/**
+ * Fetches the forecast for a location and builds its disease outlook
+ * @param days Forecast length (1 to MAX_OUTLOOK_DAYS)
+ * @param location Indian state/district, for endemic diseases and regional seasonal priors
+ */
+export async function getDiseaseOutlook(
+  config: WeatherFetchConfig,
+  days: number = DEFAULT_OUTLOOK_DAYS,
+  location: DiseaseLocation = { state: null }
+): Promise<DiseaseOutlookSummary> {
+  const forecastDays = Math.min(Math.max(Math.round(days), 1), MAX_OUTLOOK_DAYS)
+  const forecast = await fetchWeatherForecastFromAPI(config, forecastDays)
+  const definitions = filterDefinitionsForLocation(await loadDiseaseDefinitions(), location)
+  const outlook = buildDiseaseOutlook(config.city, forecast, definitions, {
+    config: await loadSeasonalPriorConfig(),
+    state: location.state,
+  })
+
+  console.log(`📈 ${forecastDays}-day outlook for ${config.city}: ${outlook.diseases.length} diseases reach significant risk`)
+
+  return outlook
+}
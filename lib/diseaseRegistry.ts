@@ -0,0 +1,88 @@
+/**
+ * Disease Registry
+ * Stable disease IDs shared by the rule engine, ML model, Firestore documents and UI,
+ * so rule and ML results are matched by ID rather than by display name
+ *
+ * Aliases cover older display names (e.g. 'Influenza/Flu' from the ML model) and
+ * surveillance naming (IDSP), and are used to resolve stored names to IDs.
+ * Diseases added only through `disease_rules` get an ID derived from their name.
+ */
+
+import type { DiseaseId } from './types/doctor-module'
+
+export interface DiseaseRegistryEntry {
+  id: DiseaseId
+  name: string // Display name
+  aliases: string[]
+}
+
+export const DISEASE_REGISTRY: DiseaseRegistryEntry[] = [
+  { id: 'dengue', name: 'Dengue Fever', aliases: ['Dengue', 'Dengue/DHF/DSS'] },
+  { id: 'malaria', name: 'Malaria', aliases: [] },
+  {
+    id: 'influenza',
+    name: 'Influenza (Flu)',
+    aliases: ['Influenza/Flu', 'Influenza', 'Flu', 'Seasonal Influenza', 'ILI', 'Influenza Like Illness'],
+  },
+  { id: 'typhoid', name: 'Typhoid Fever', aliases: ['Typhoid', 'Enteric Fever'] },
+  { id: 'heat_stroke', name: 'Heat Stroke', aliases: ['Heatstroke'] },
+  {
+    id: 'respiratory_infection',
+    name: 'Respiratory Infections',
+    aliases: ['Acute Respiratory Infection', 'ARI'],
+  },
+  { id: 'pneumonia', name: 'Pneumonia', aliases: [] },
+  { id: 'allergic_rhinitis', name: 'Allergic Rhinitis', aliases: [] },
+  { id: 'asthma', name: 'Asthma Attacks', aliases: ['Asthma'] },
+  { id: 'dehydration', name: 'Dehydration & Heat Exhaustion', aliases: ['Dehydration', 'Heat Exhaustion'] },
+  {
+    id: 'gastroenteritis',
+    name: 'Gastroenteritis',
+    aliases: ['Acute Diarrhoeal Disease', 'Acute Diarrheal Disease', 'ADD'],
+  },
+  { id: 'skin_infection', name: 'Skin Infections', aliases: ['Skin Infection'] },
+  { id: 'leptospirosis', name: 'Leptospirosis', aliases: [] },
+  { id: 'chikungunya', name: 'Chikungunya', aliases: [] },
+  { id: 'scrub_typhus', name: 'Scrub Typhus', aliases: [] },
+  { id: 'japanese_encephalitis', name: 'Japanese Encephalitis', aliases: ['JE'] },
+]
+
+function normalizeDiseaseKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+// Normalized ID, display name or alias → ID
+const LOOKUP = new Map<string, DiseaseId>(
+  DISEASE_REGISTRY.flatMap(entry =>
+    [entry.id, entry.name, ...entry.aliases].map(key => [normalizeDiseaseKey(key), entry.id] as const)
+  )
+)
+
+/**
+ * Registered disease for an ID, display name or alias (null when not registered)
+ */
+export function resolveDiseaseId(nameOrId: string): DiseaseId | null {
+  return LOOKUP.get(normalizeDiseaseKey(nameOrId)) || null
+}
+
+/**
+ * ID for any disease name: the registered ID, or one derived from the name
+ */
+export function toDiseaseId(nameOrId: string): DiseaseId {
+  return resolveDiseaseId(nameOrId) || normalizeDiseaseKey(nameOrId).replace(/ /g, '_')
+}
+
+/**
+ * Display name of a registered disease (the ID itself when not registered)
+ */
+export function getDiseaseName(id: DiseaseId): string {
+  return DISEASE_REGISTRY.find(entry => entry.id === id)?.name || id
+}
+
+/**
+ * Re-keys a record keyed by disease names or IDs to IDs
+ * Used for stored settings written before IDs existed
+ */
+export function keyByDiseaseId<T>(byDisease: Record<string, T>): Record<DiseaseId, T> {
+  return Object.fromEntries(Object.entries(byDisease).map(([disease, value]) => [toDiseaseId(disease), value]))
+}
@@ -0,0 +1,353 @@
+/**
+ * Disease Rule Engine
+ * Evaluates declarative disease rules against weather data and validates
+ * rule sets loaded from JSON or Firestore
+ *
+ * Evaluation: each factor adds the weight of its first matching tier,
+ * then every matching bonus is added, and the sum is capped at 1.0.
+ */
+
+import type {
+  AirQualityField,
+  WeatherData,
+  DiseaseDefinition,
+  DiseaseRule,
+  LaggedWeatherField,
+  RiskContribution,
+  RuleCondition,
+  RuleField,
+  RuleObservation,
+} from './types/doctor-module'
+import { toDiseaseId } from './diseaseRegistry'
+
+const LAGGED_FIELDS: LaggedWeatherField[] = [
+  'rainfall7d',
+  'rainfall14d',
+  'rainfall21d',
+  'humidity7d',
+  'humidity14d',
+  'humidity21d',
+  'degreeDays7d',
+  'degreeDays14d',
+  'degreeDays21d',
+]
+
+const AIR_QUALITY_FIELDS: AirQualityField[] = ['pm25', 'pm10', 'no2', 'o3', 'pollen', 'aqi']
+
+const RULE_FIELDS: RuleField[] = [
+  'temperature',
+  'humidity',
+  'rainfall',
+  'windSpeed',
+  'uvIndex',
+  'pressure',
+  'dewPoint',
+  'dewPointSpread',
+  ...LAGGED_FIELDS,
+  ...AIR_QUALITY_FIELDS,
+]
+
+const BOUND_KEYS = ['gt', 'gte', 'lt', 'lte'] as const
+
+const BOUND_SYMBOLS: Record<(typeof BOUND_KEYS)[number], string> = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+}
+
+/**
+ * Display names and units for rule fields
+ */
+export const RULE_FIELD_LABELS: Record<RuleField, { label: string; unit: string }> = {
+  temperature: { label: 'Temperature', unit: '°C' },
+  humidity: { label: 'Humidity', unit: '%' },
+  rainfall: { label: 'Rainfall', unit: 'mm' },
+  windSpeed: { label: 'Wind speed', unit: ' km/h' },
+  uvIndex: { label: 'UV index', unit: '' },
+  pressure: { label: 'Pressure', unit: ' hPa' },
+  dewPoint: { label: 'Dew point', unit: '°C' },
+  dewPointSpread: { label: 'Temp − dew point', unit: '°C' },
+  rainfall7d: { label: 'Rainfall (7 days)', unit: 'mm' },
+  rainfall14d: { label: 'Rainfall (14 days)', unit: 'mm' },
+  rainfall21d: { label: 'Rainfall (21 days)', unit: 'mm' },
+  humidity7d: { label: 'Mean humidity (7 days)', unit: '%' },
+  humidity14d: { label: 'Mean humidity (14 days)', unit: '%' },
+  humidity21d: { label: 'Mean humidity (21 days)', unit: '%' },
+  degreeDays7d: { label: 'Degree-days (7 days)', unit: ' °C·d' },
+  degreeDays14d: { label: 'Degree-days (14 days)', unit: ' °C·d' },
+  degreeDays21d: { label: 'Degree-days (21 days)', unit: ' °C·d' },
+  pm25: { label: 'PM2.5', unit: ' µg/m³' },
+  pm10: { label: 'PM10', unit: ' µg/m³' },
+  no2: { label: 'NO₂', unit: ' µg/m³' },
+  o3: { label: 'Ozone', unit: ' µg/m³' },
+  pollen: { label: 'Pollen', unit: ' grains/m³' },
+  aqi: { label: 'AQI', unit: '' },
+}
+
+/**
+ * Result of evaluating a rule: capped risk plus what produced it
+ */
+export interface RuleEvaluation {
+  risk: number
+  contributions: RiskContribution[]
+}
+
+function isLaggedField(field: RuleField): field is LaggedWeatherField {
+  return (LAGGED_FIELDS as RuleField[]).includes(field)
+}
+
+function isAirQualityField(field: RuleField): field is AirQualityField {
+  return (AIR_QUALITY_FIELDS as RuleField[]).includes(field)
+}
+
+/**
+ * Reads a rule field from weather data (undefined when not reported)
+ */
+export function getRuleFieldValue(weather: WeatherData, field: RuleField): number | undefined {
+  if (field === 'dewPointSpread') {
+    return weather.dewPoint !== undefined ? weather.temperature - weather.dewPoint : undefined
+  }
+  if (isLaggedField(field)) {
+    return weather.lagged?.[field]
+  }
+  if (isAirQualityField(field)) {
+    return weather.airQuality?.[field]
+  }
+  return weather[field]
+}
+
+/**
+ * Whether a single condition holds
+ */
+export function evaluateCondition(weather: WeatherData, condition: RuleCondition): boolean {
+  const value = getRuleFieldValue(weather, condition.field)
+  if (value === undefined || value === null) return false
+
+  if (condition.gt !== undefined && !(value > condition.gt)) return false
+  if (condition.gte !== undefined && !(value >= condition.gte)) return false
+  if (condition.lt !== undefined && !(value < condition.lt)) return false
+  if (condition.lte !== undefined && !(value <= condition.lte)) return false
+  return true
+}
+
+/**
+ * Whether every condition holds
+ */
+export function evaluateConditions(weather: WeatherData, conditions: RuleCondition[]): boolean {
+  return conditions.every(condition => evaluateCondition(weather, condition))
+}
+
+/**
+ * Formats a field value with its unit, e.g. "82%" or "12.5 km/h"
+ */
+export function formatRuleFieldValue(field: RuleField, value: number): string {
+  const rounded = Number.isInteger(value) ? value : Number(value.toFixed(1))
+  return `${rounded}${RULE_FIELD_LABELS[field].unit}`
+}
+
+/**
+ * Formats conditions for display, e.g. "Temperature 25-30°C, Humidity > 75%"
+ */
+export function formatConditions(conditions: RuleCondition[]): string {
+  return conditions
+    .map(condition => {
+      const { label } = RULE_FIELD_LABELS[condition.field]
+      if (condition.gte !== undefined && condition.lte !== undefined) {
+        return `${label} ${condition.gte}-${formatRuleFieldValue(condition.field, condition.lte)}`
+      }
+      const bounds = BOUND_KEYS
+        .filter(key => condition[key] !== undefined)
+        .map(key => `${BOUND_SYMBOLS[key]} ${formatRuleFieldValue(condition.field, condition[key] as number)}`)
+      return `${label} ${bounds.join(' and ')}`
+    })
+    .join(', ')
+}
+
+function observeConditions(weather: WeatherData, conditions: RuleCondition[]): RuleObservation[] {
+  const fields = Array.from(new Set(conditions.map(condition => condition.field)))
+  return fields.map(field => ({ field, value: getRuleFieldValue(weather, field) as number }))
+}
+
+/**
+ * Evaluates a rule and records every matched tier and bonus
+ * Contributions are ordered by weight, largest first
+ */
+export function explainRule(rule: DiseaseRule, weather: WeatherData): RuleEvaluation {
+  const contributions: RiskContribution[] = []
+
+  rule.factors.forEach(factor => {
+    const tier = factor.tiers.find(t => evaluateConditions(weather, t.when))
+    if (tier) {
+      contributions.push({
+        label: factor.label,
+        kind: 'factor',
+        condition: formatConditions(tier.when),
+        observed: observeConditions(weather, tier.when),
+        weight: tier.weight,
+      })
+    }
+  })
+
+  rule.bonuses.forEach(bonus => {
+    if (evaluateConditions(weather, bonus.when)) {
+      contributions.push({
+        label: bonus.label,
+        kind: 'bonus',
+        condition: formatConditions(bonus.when),
+        observed: observeConditions(weather, bonus.when),
+        weight: bonus.weight,
+      })
+    }
+  })
+
+  const risk = contributions.reduce((sum, contribution) => sum + contribution.weight, 0)
+
+  return {
+    risk: Math.min(risk, 1.0),
+    contributions: contributions.sort((a, b) => b.weight - a.weight),
+  }
+}
+
+/**
+ * Risk level (0-1) produced by a rule
+ */
+export function evaluateRule(rule: DiseaseRule, weather: WeatherData): number {
+  return explainRule(rule, weather).risk
+}
+
+function validateConditions(conditions: unknown, path: string): string | null {
+  if (!Array.isArray(conditions) || conditions.length === 0) {
+    return `${path}: "when" must be a non-empty array`
+  }
+
+  for (let i = 0; i < conditions.length; i++) {
+    const condition = conditions[i] as Partial<RuleCondition>
+    if (!condition || !RULE_FIELDS.includes(condition.field as RuleField)) {
+      return `${path}.when[${i}]: unknown field "${condition?.field}"`
+    }
+    const bounds = BOUND_KEYS.filter(key => condition[key] !== undefined)
+    if (bounds.length === 0) {
+      return `${path}.when[${i}]: needs at least one of ${BOUND_KEYS.join(', ')}`
+    }
+    if (bounds.some(key => typeof condition[key] !== 'number')) {
+      return `${path}.when[${i}]: bounds must be numbers`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Validates a rule loaded from outside the codebase
+ * @returns Error message, or null when the rule is valid
+ */
+export function validateDiseaseRule(rule: unknown, path: string = 'rule'): string | null {
+  const candidate = rule as Partial<DiseaseRule> | undefined
+  if (!candidate || !Array.isArray(candidate.factors) || !Array.isArray(candidate.bonuses)) {
+    return `${path}: must have "factors" and "bonuses" arrays`
+  }
+
+  for (let i = 0; i < candidate.factors.length; i++) {
+    const factor = candidate.factors[i]
+    const factorPath = `${path}.factors[${i}]`
+    if (!factor?.label || !Array.isArray(factor.tiers) || factor.tiers.length === 0) {
+      return `${factorPath}: needs a label and at least one tier`
+    }
+    for (let j = 0; j < factor.tiers.length; j++) {
+      const tier = factor.tiers[j]
+      if (typeof tier?.weight !== 'number') {
+        return `${factorPath}.tiers[${j}]: weight must be a number`
+      }
+      const error = validateConditions(tier.when, `${factorPath}.tiers[${j}]`)
+      if (error) return error
+    }
+  }
+
+  for (let i = 0; i < candidate.bonuses.length; i++) {
+    const bonus = candidate.bonuses[i]
+    const bonusPath = `${path}.bonuses[${i}]`
+    if (!bonus?.label || typeof bonus.weight !== 'number') {
+      return `${bonusPath}: needs a label and a numeric weight`
+    }
+    const error = validateConditions(bonus.when, bonusPath)
+    if (error) return error
+  }
+
+  return null
+}
+
+/**
+ * Validates a complete disease definition
+ * @returns Error message, or null when the definition is valid
+ */
+export function validateDiseaseDefinition(definition: unknown): string | null {
+  const candidate = definition as Partial<DiseaseDefinition> | undefined
+  const name = candidate?.name || '(unnamed)'
+
+  if (!candidate?.id || !candidate.name || !candidate.specialty) {
+    return `${name}: id, name and specialty are required`
+  }
+  if (typeof candidate.doctors_required !== 'number' || candidate.doctors_required < 0) {
+    return `${name}: doctors_required must be a non-negative number`
+  }
+  if (!Array.isArray(candidate.symptoms) || !Array.isArray(candidate.prevention)) {
+    return `${name}: symptoms and prevention must be arrays`
+  }
+  if (candidate.endemic !== undefined) {
+    const { states, districts } = candidate.endemic
+    const isNameList = (list: unknown) => Array.isArray(list) && list.every(item => typeof item === 'string')
+    if (!isNameList(states) || (districts !== undefined && !isNameList(districts))) {
+      return `${name}: endemic states and districts must be arrays of names`
+    }
+  }
+
+  return validateDiseaseRule(candidate.rule, `${name}.rule`)
+}
+
+/**
+ * Applies overrides (e.g. tuned weights) on top of base definitions, matched by disease ID
+ * Overrides without an ID are matched by name (any registered name or alias).
+ * Overrides may be partial for known diseases; new diseases must be complete.
+ * Invalid entries are skipped with a warning so one bad edit cannot stop predictions.
+ */
+export function mergeDiseaseDefinitions(
+  base: DiseaseDefinition[],
+  overrides: Partial<DiseaseDefinition>[]
+): DiseaseDefinition[] {
+  const merged = new Map(base.map(definition => [definition.id, definition]))
+
+  overrides.forEach(override => {
+    if (!override.id && !override.name) {
+      console.warn('⚠️ Skipping disease rule override without an id or name')
+      return
+    }
+
+    const id = toDiseaseId(override.id || override.name as string)
+    const existing = merged.get(id)
+    // A stored older name (e.g. 'Influenza/Flu') must not replace the registry name
+    const name = existing ? existing.name : override.name
+    const candidate = { ...existing, ...override, id, name }
+    const error = validateDiseaseDefinition(candidate)
+    if (error) {
+      console.warn(`⚠️ Skipping invalid disease rule override: ${error}`)
+      return
+    }
+
+    merged.set(id, candidate as DiseaseDefinition)
+  })
+
+  return Array.from(merged.values())
+}
+
+/**
+ * Parses a JSON rule set: an array of (partial) definitions merged onto `base`
+ * @throws Error when the JSON is not an array
+ */
+export function parseDiseaseDefinitionsJson(json: string, base: DiseaseDefinition[]): DiseaseDefinition[] {
+  const data: unknown = JSON.parse(json)
+  if (!Array.isArray(data)) {
+    throw new Error('Disease rule JSON must be an array of definitions')
+  }
+  return mergeDiseaseDefinitions(base, data as Partial<DiseaseDefinition>[])
+}
@@ -0,0 +1,85 @@
+/**
+ * Disease Rule Store
+ * Loads tuned disease rules from Firestore or JSON on top of the built-in set,
+ * so weights can change without a code deploy
+ *
+ * Each document in `disease_rules` is a (partial) disease definition matched by
+ * disease `id`; e.g. `{ id: 'dengue', rule: {...} }` replaces only Dengue's rule.
+ * Documents without an `id` field are matched by `name`, then by document ID.
+ */
+
+import { db } from './firebase'
+import { collection, doc, getDocs, setDoc, Timestamp } from 'firebase/firestore'
+import { DISEASE_DEFINITIONS } from './predictDisease'
+import {
+  mergeDiseaseDefinitions,
+  parseDiseaseDefinitionsJson,
+  validateDiseaseDefinition,
+} from './diseaseRuleEngine'
+import type { DiseaseDefinition, DiseaseId } from './types/doctor-module'
+
+export const DISEASE_RULES_COLLECTION = 'disease_rules'
+
+// Rules are re-read from Firestore at most this often
+const CACHE_TTL_MS = 5 * 60 * 1000
+
+let cachedDefinitions: { definitions: DiseaseDefinition[]; loadedAt: number } | null = null
+
+/**
+ * Active disease definitions: built-in rules with Firestore overrides applied
+ * Falls back to the built-in rules if Firestore cannot be read
+ */
+export async function loadDiseaseDefinitions(forceRefresh: boolean = false): Promise<DiseaseDefinition[]> {
+  if (!forceRefresh && cachedDefinitions && Date.now() - cachedDefinitions.loadedAt < CACHE_TTL_MS) {
+    return cachedDefinitions.definitions
+  }
+
+  try {
+    const snapshot = await getDocs(collection(db, DISEASE_RULES_COLLECTION))
+    const overrides = snapshot.docs.map(doc => {
+      const data = doc.data() as Partial<DiseaseDefinition>
+      return data.id || data.name ? data : { ...data, id: doc.id }
+    })
+
+    const definitions = mergeDiseaseDefinitions(DISEASE_DEFINITIONS, overrides)
+    cachedDefinitions = { definitions, loadedAt: Date.now() }
+
+    if (overrides.length > 0) {
+      console.log(`📋 Loaded ${overrides.length} disease rule override(s) from Firestore`)
+    }
+    return definitions
+  } catch (error) {
+    console.error('❌ Could not load disease rules from Firestore, using built-in rules:', error)
+    return DISEASE_DEFINITIONS
+  }
+}
+
+/**
+ * Disease definitions from a JSON array of (partial) definitions
+ * @throws Error when the JSON is malformed
+ */
+export function loadDiseaseDefinitionsFromJson(json: string): DiseaseDefinition[] {
+  return parseDiseaseDefinitionsJson(json, DISEASE_DEFINITIONS)
+}
+
+/**
+ * Saves a tuned definition to Firestore (validated against the built-in one it overrides)
+ * @throws Error when the merged definition is invalid
+ */
+export async function saveDiseaseRuleOverride(
+  override: Partial<DiseaseDefinition> & { id: DiseaseId }
+): Promise<void> {
+  const base = DISEASE_DEFINITIONS.find(definition => definition.id === override.id)
+  const error = validateDiseaseDefinition({ ...base, ...override })
+  if (error) {
+    throw new Error(error)
+  }
+
+  await setDoc(doc(db, DISEASE_RULES_COLLECTION, override.id), {
+    ...override,
+    updated_at: Timestamp.now(),
+  })
+
+  cachedDefinitions = null
+  console.log(`✅ Saved disease rule override for ${override.name || override.id}`)
+}
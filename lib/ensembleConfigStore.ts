@@ -0,0 +1,94 @@
+/**
+ * Ensemble Config Store
+ * Loads the rule/ML ensemble weights from Firestore on top of the built-in settings
+ * (blending itself is in `predictionEnsemble`)
+ *
+ * The `ensemble_config/disease` document holds any of
+ * `{ default_ml_weight: 0.5, disagreement_margin: 0.3, ml_weights: { dengue: 0.7 } }`
+ */
+
+import { db } from './firebase'
+import { doc, getDoc } from 'firebase/firestore'
+import { keyByDiseaseId } from './diseaseRegistry'
+import type { EnsembleConfig } from './types/doctor-module'
+
+export const ENSEMBLE_CONFIG_COLLECTION = 'ensemble_config'
+const ENSEMBLE_CONFIG_DOC = 'disease'
+
+/**
+ * Built-in ensemble settings, used when Firestore has none
+ */
+export const DEFAULT_ENSEMBLE_CONFIG: EnsembleConfig = {
+  default_ml_weight: 0.5,
+  ml_weights: {},
+  disagreement_margin: 0.3,
+}
+
+// Settings are re-read from Firestore at most this often
+const CACHE_TTL_MS = 5 * 60 * 1000
+
+let cachedConfig: { config: EnsembleConfig; loadedAt: number } | null = null
+
+function isFraction(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1
+}
+
+/**
+ * Validates the stored settings; invalid values are dropped with a warning
+ */
+function parseEnsembleConfig(data: Record<string, unknown>): EnsembleConfig {
+  const config: EnsembleConfig = { ...DEFAULT_ENSEMBLE_CONFIG, ml_weights: {} }
+
+  if (data.default_ml_weight !== undefined) {
+    if (isFraction(data.default_ml_weight)) {
+      config.default_ml_weight = data.default_ml_weight
+    } else {
+      console.warn(`⚠️ Ignoring default_ml_weight ${data.default_ml_weight}: must be between 0 and 1`)
+    }
+  }
+
+  if (data.disagreement_margin !== undefined) {
+    if (isFraction(data.disagreement_margin)) {
+      config.disagreement_margin = data.disagreement_margin
+    } else {
+      console.warn(`⚠️ Ignoring disagreement_margin ${data.disagreement_margin}: must be between 0 and 1`)
+    }
+  }
+
+  if (data.ml_weights && typeof data.ml_weights === 'object') {
+    // Keyed by disease ID; names are still accepted for documents written before IDs
+    Object.entries(keyByDiseaseId(data.ml_weights as Record<string, unknown>)).forEach(([disease, weight]) => {
+      if (isFraction(weight)) {
+        config.ml_weights[disease] = weight
+      } else {
+        console.warn(`⚠️ Ignoring ML weight ${weight} for ${disease}: must be between 0 and 1`)
+      }
+    })
+  }
+
+  return config
+}
+
+/**
+ * Active ensemble settings: built-in defaults with the Firestore document applied
+ * Falls back to the defaults if Firestore cannot be read
+ */
+export async function loadEnsembleConfig(forceRefresh: boolean = false): Promise<EnsembleConfig> {
+  if (!forceRefresh && cachedConfig && Date.now() - cachedConfig.loadedAt < CACHE_TTL_MS) {
+    return cachedConfig.config
+  }
+
+  try {
+    const snapshot = await getDoc(doc(db, ENSEMBLE_CONFIG_COLLECTION, ENSEMBLE_CONFIG_DOC))
+    const config = snapshot.exists() ? parseEnsembleConfig(snapshot.data()) : DEFAULT_ENSEMBLE_CONFIG
+    cachedConfig = { config, loadedAt: Date.now() }
+
+    if (snapshot.exists()) {
+      console.log(`📋 Loaded ensemble settings from Firestore (${Object.keys(config.ml_weights).length} per-disease weight(s))`)
+    }
+    return config
+  } catch (error) {
+    console.error('❌ Could not load ensemble settings from Firestore, using defaults:', error)
+    return DEFAULT_ENSEMBLE_CONFIG
+  }
+}
@@ -1,105 +1,60 @@
 /**
  * Weather Data Fetching Utility
- * Uses Open-Meteo API (100% free, no API key required)
- * Documentation: https://open-meteo.com/en/docs
+ * Fetches through a weather provider (`weatherProvider`): Open-Meteo by default
+ * (100% free, no API key required), or recorded fixtures for offline use
  */
 
 import type { 
   WeatherData, 
-  OpenMeteoResponse, 
   WeatherFetchConfig, 
-  CityCoordinates 
+  RegisteredLocation 
 } from './types/doctor-module'
+import {
+  createFixtureWeatherProvider,
+  openMeteoWeatherProvider,
+  type WeatherProvider,
+} from './weatherProvider'
+import { createCachedWeatherProvider } from './weatherCache'
+
+// Provider used when none is passed; created once so its cache lives as long as the process
+let defaultProvider: WeatherProvider | null = null
 
 /**
- * Major city coordinates for weather tracking
- * Add more cities as needed
+ * Provider selected by NEXT_PUBLIC_WEATHER_PROVIDER (`open-meteo` by default, or `fixture`)
+ * Open-Meteo responses are cached per hour, in Firestore too when
+ * NEXT_PUBLIC_WEATHER_CACHE_FIRESTORE is `true` (written through the Admin SDK)
  */
-export const CITY_COORDINATES: CityCoordinates[] = [
-  { name: 'New York', latitude: 40.7128, longitude: -74.0060, country: 'USA', state: 'NY' },
-  { name: 'Los Angeles', latitude: 34.0522, longitude: -118.2437, country: 'USA', state: 'CA' },
-  { name: 'Chicago', latitude: 41.8781, longitude: -87.6298, country: 'USA', state: 'IL' },
-  { name: 'Houston', latitude: 29.7604, longitude: -95.3698, country: 'USA', state: 'TX' },
-  { name: 'Phoenix', latitude: 33.4484, longitude: -112.0740, country: 'USA', state: 'AZ' },
-  { name: 'Philadelphia', latitude: 39.9526, longitude: -75.1652, country: 'USA', state: 'PA' },
-  { name: 'San Antonio', latitude: 29.4241, longitude: -98.4936, country: 'USA', state: 'TX' },
-  { name: 'San Diego', latitude: 32.7157, longitude: -117.1611, country: 'USA', state: 'CA' },
-  { name: 'Dallas', latitude: 32.7767, longitude: -96.7970, country: 'USA', state: 'TX' },
-  { name: 'San Jose', latitude: 37.3382, longitude: -121.8863, country: 'USA', state: 'CA' },
-]
+export function getWeatherProvider(): WeatherProvider {
+  if (!defaultProvider) {
+    defaultProvider = process.env.NEXT_PUBLIC_WEATHER_PROVIDER === 'fixture'
+      ? createFixtureWeatherProvider()
+      : createCachedWeatherProvider(openMeteoWeatherProvider, {
+        firestore: process.env.NEXT_PUBLIC_WEATHER_CACHE_FIRESTORE === 'true',
+      })
+  }
+  return defaultProvider
+}
+
+function failure(what: string, city: string, error: unknown): Error {
+  console.error(`Error fetching ${what} for ${city}:`, error)
+  return new Error(`Failed to fetch ${what} for ${city}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+}
 
 /**
- * Fetches current weather data from Open-Meteo API
+ * Fetches current weather data from the weather provider
  * @param config Weather fetch configuration with coordinates and city name
+ * @param provider Weather source, by default the configured provider
  * @returns WeatherData object with current conditions
  */
-export async function fetchWeatherFromAPI(config: WeatherFetchConfig): Promise<WeatherData> {
-  const { latitude, longitude, city, timezone = 'auto' } = config
+export async function fetchWeatherFromAPI(
+  config: WeatherFetchConfig,
+  provider: WeatherProvider = getWeatherProvider()
+): Promise<WeatherData> {
+  const { city } = config
 
   try {
-    // Build API URL with enhanced weather parameters for better disease prediction
-    const params = new URLSearchParams({
-      latitude: latitude.toString(),
-      longitude: longitude.toString(),
-      current_weather: 'true',
-      hourly: 'temperature_2m,relativehumidity_2m,precipitation,windspeed_10m,pressure_msl,dewpoint_2m,uv_index',
-      timezone: timezone,
-    })
-
-    const url = `https://api.open-meteo.com/v1/forecast?${params.toString()}`
-    
-    console.log(`Fetching enhanced weather data for ${city} from Open-Meteo API...`)
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      // Add timeout to prevent hanging requests
-      signal: AbortSignal.timeout(10000), // 10 second timeout
-    })
-
-    if (!response.ok) {
-      throw new Error(`Open-Meteo API error: ${response.status} ${response.statusText}`)
-    }
-
-    const data: OpenMeteoResponse = await response.json()
-
-    // Extract current weather data
-    const currentWeather = data.current_weather
-    if (!currentWeather) {
-      throw new Error('No current weather data available from API')
-    }
-
-    // Get latest hourly data for enhanced parameters
-    const latestHourlyData = data.hourly ? {
-      humidity: data.hourly.relativehumidity_2m?.[0] || 0,
-      precipitation: data.hourly.precipitation?.[0] || 0,
-      windSpeed: data.hourly.windspeed_10m?.[0] || currentWeather.windspeed || 0,
-      pressure: data.hourly.pressure_msl?.[0] || 1013, // Default to standard sea level pressure
-      dewPoint: data.hourly.dewpoint_2m?.[0] || 0,
-      uvIndex: data.hourly.uv_index?.[0] || 0,
-    } : { 
-      humidity: 0, 
-      precipitation: 0, 
-      windSpeed: currentWeather.windspeed || 0,
-      pressure: 1013,
-      dewPoint: 0,
-      uvIndex: 0,
-    }
-
-    const weatherData: WeatherData = {
-      city,
-      temperature: currentWeather.temperature,
-      humidity: latestHourlyData.humidity,
-      rainfall: latestHourlyData.precipitation,
-      windSpeed: latestHourlyData.windSpeed,
-      uvIndex: latestHourlyData.uvIndex,
-      pressure: latestHourlyData.pressure,
-      dewPoint: latestHourlyData.dewPoint,
-      weatherCode: currentWeather.weathercode,
-      recorded_at: new Date().toISOString(),
-    }
+    console.log(`Fetching enhanced weather data for ${city} from ${provider.name}...`)
+    const weatherData = await provider.fetchCurrentWeather(config)
 
     console.log(`Enhanced weather data fetched successfully for ${city}:`, {
       temperature: weatherData.temperature,
@@ -112,32 +67,83 @@ export async function fetchWeatherFromAPI(config: WeatherFetchConfig): Promise<W
     return weatherData
 
   } catch (error) {
-    console.error(`Error fetching weather data for ${city}:`, error)
-    
-    if (error instanceof Error) {
-      throw new Error(`Failed to fetch weather data for ${city}: ${error.message}`)
-    }
-    throw new Error(`Failed to fetch weather data for ${city}: Unknown error`)
+    throw failure('weather data', city, error)
   }
 }
 
+// Open-Meteo serves at most 16 forecast days
+export const MAX_FORECAST_DAYS = 16
+
 /**
- * Fetches weather data for multiple cities
- * @param cities Array of city coordinates
- * @returns Array of WeatherData for successful fetches
+ * Fetches a daily weather forecast from the weather provider
+ * Each day: mean of daily max/min temperature, daily precipitation sum, and
+ * hourly humidity/wind/pressure/dew point averaged over the day (UV is the daily max)
+ * @param config Weather fetch configuration with coordinates and city name
+ * @param days Number of forecast days, starting today (1-16)
+ * @returns One WeatherData per day; `recorded_at` is the forecast date (YYYY-MM-DD)
  */
-export async function fetchWeatherForCities(
-  cities: CityCoordinates[] = CITY_COORDINATES
+export async function fetchWeatherForecastFromAPI(
+  config: WeatherFetchConfig,
+  days: number = 14,
+  provider: WeatherProvider = getWeatherProvider()
 ): Promise<WeatherData[]> {
-  console.log(`Fetching weather data for ${cities.length} cities...`)
+  const { city } = config
+  const forecastDays = Math.min(Math.max(Math.round(days), 1), MAX_FORECAST_DAYS)
+
+  try {
+    console.log(`Fetching ${forecastDays}-day weather forecast for ${city} from ${provider.name}...`)
+    const forecast = await provider.fetchForecast(config, forecastDays)
+
+    console.log(`Weather forecast fetched successfully for ${city}: ${forecast.length} days`)
+    return forecast
+
+  } catch (error) {
+    throw failure('weather forecast', city, error)
+  }
+}
+
+/**
+ * Fetches daily historical weather (Open-Meteo Historical Weather API by default)
+ * Days are summarized like the forecast; UV is estimated from shortwave radiation
+ * @param startDate First day (YYYY-MM-DD)
+ * @param endDate Last day (YYYY-MM-DD), at least a few days before today
+ * @returns One WeatherData per day; `recorded_at` is the date (YYYY-MM-DD)
+ */
+export async function fetchWeatherArchiveFromAPI(
+  config: WeatherFetchConfig,
+  startDate: string,
+  endDate: string,
+  provider: WeatherProvider = getWeatherProvider()
+): Promise<WeatherData[]> {
+  const { city } = config
+
+  try {
+    console.log(`Fetching historical weather for ${city} (${startDate} to ${endDate}) from ${provider.name}...`)
+    const history = await provider.fetchArchive(config, startDate, endDate)
+
+    console.log(`Historical weather fetched successfully for ${city}: ${history.length} days`)
+    return history
+
+  } catch (error) {
+    throw failure('historical weather', city, error)
+  }
+}
+
+/**
+ * Fetches weather data for multiple locations
+ * @param locations Registered locations (see `loadLocations`)
+ * @returns Array of WeatherData for successful fetches
+ */
+export async function fetchWeatherForCities(locations: RegisteredLocation[]): Promise<WeatherData[]> {
+  console.log(`Fetching weather data for ${locations.length} cities...`)
   
-  const weatherPromises = cities.map(city =>
+  const weatherPromises = locations.map(location =>
     fetchWeatherFromAPI({
-      latitude: city.latitude,
-      longitude: city.longitude,
-      city: city.name,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      city: location.city,
     }).catch(error => {
-      console.error(`Failed to fetch weather for ${city.name}:`, error)
+      console.error(`Failed to fetch weather for ${location.city}:`, error)
       return null // Return null for failed fetches
     })
   )
@@ -147,22 +153,11 @@ export async function fetchWeatherForCities(
   // Filter out null results (failed fetches)
   const successfulFetches = results.filter((data): data is WeatherData => data !== null)
   
-  console.log(`Successfully fetched weather data for ${successfulFetches.length}/${cities.length} cities`)
+  console.log(`Successfully fetched weather data for ${successfulFetches.length}/${locations.length} cities`)
   
   return successfulFetches
 }
 
-/**
- * Get city coordinates by name
- * @param cityName Name of the city
- * @returns City coordinates or undefined if not found
- */
-export function getCityCoordinates(cityName: string): CityCoordinates | undefined {
-  return CITY_COORDINATES.find(
-    city => city.name.toLowerCase() === cityName.toLowerCase()
-  )
-}
-
 /**
  * Validates weather data
  * @param data Weather data to validate
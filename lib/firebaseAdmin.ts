@@ -0,0 +1,43 @@
+/**
+ * Firebase Admin Initialization (server only)
+ * Server jobs that must write or delete collections locked down in firestore.rules
+ * (model versions, retention, caches) use the Admin SDK, which bypasses the rules.
+ * Never import this from client components.
+ *
+ * Credentials come from FIREBASE_SERVICE_ACCOUNT_KEY: the service account JSON
+ * (Firebase console → Project settings → Service accounts → Generate new private key)
+ */
+
+import { initializeApp, getApps, cert, type App } from 'firebase-admin/app'
+import { getFirestore, type Firestore } from 'firebase-admin/firestore'
+
+const ADMIN_APP_NAME = 'admin'
+
+let adminDb: Firestore | null = null
+
+/**
+ * Admin Firestore instance, created on first use
+ * @throws Error when FIREBASE_SERVICE_ACCOUNT_KEY is missing or not valid JSON
+ */
+export function getAdminDb(): Firestore {
+  if (adminDb) return adminDb
+
+  const serviceAccountKey = process.env.FIREBASE_SERVICE_ACCOUNT_KEY
+  if (!serviceAccountKey) {
+    throw new Error('Missing FIREBASE_SERVICE_ACCOUNT_KEY: server jobs need a service account to write to Firestore')
+  }
+
+  let serviceAccount: Record<string, string>
+  try {
+    serviceAccount = JSON.parse(serviceAccountKey)
+  } catch {
+    throw new Error('FIREBASE_SERVICE_ACCOUNT_KEY must be the service account JSON')
+  }
+
+  // Singleton pattern to prevent multiple initializations (e.g. on hot reload)
+  const app: App = getApps().find(existing => existing.name === ADMIN_APP_NAME) ||
+    initializeApp({ credential: cert(serviceAccount) }, ADMIN_APP_NAME)
+
+  adminDb = getFirestore(app)
+  return adminDb
+}
@@ -0,0 +1,173 @@
+/**
+ * Hospital Availability Helpers
+ * Per-ward bed inventory: parsing Firestore availability records,
+ * totals and validation for the admin update form
+ */
+
+import type {
+  WardType,
+  WardCapacity,
+  WardBeds,
+  Hospital,
+  HospitalAvailability,
+  AvailabilityRecord,
+  OxygenSupply,
+} from './types/hospital'
+import { projectDepletionTime } from './oxygenSupply'
+
+/**
+ * Ward types in display order
+ * Ventilator-equipped ICU beds are counted separately from regular ICU beds
+ */
+export const WARD_TYPES: { type: WardType; label: string; shortLabel: string }[] = [
+  { type: 'general', label: 'General Ward', shortLabel: 'General' },
+  { type: 'icu', label: 'ICU', shortLabel: 'ICU' },
+  { type: 'icu_ventilator', label: 'ICU with Ventilator', shortLabel: 'Ventilator' },
+  { type: 'emergency', label: 'Emergency', shortLabel: 'Emergency' },
+  { type: 'pediatric', label: 'Pediatric', shortLabel: 'Pediatric' },
+  { type: 'maternity', label: 'Maternity', shortLabel: 'Maternity' },
+]
+
+/**
+ * Creates a ward inventory with zero capacity everywhere
+ */
+export function createEmptyWards(): WardBeds {
+  return WARD_TYPES.reduce((wards, { type }) => {
+    wards[type] = { total: 0, occupied: 0 }
+    return wards
+  }, {} as WardBeds)
+}
+
+/**
+ * Free beds in a single ward, excluding beds held for referrals (never negative)
+ */
+export function getFreeBeds(capacity: WardCapacity): number {
+  return Math.max(capacity.total - capacity.occupied - (capacity.held || 0), 0)
+}
+
+/**
+ * Free beds summed across all wards
+ */
+export function getTotalFreeBeds(wards: WardBeds): number {
+  return WARD_TYPES.reduce((sum, { type }) => sum + getFreeBeds(wards[type]), 0)
+}
+
+/**
+ * Ward types that currently have at least one free bed
+ */
+export function getWardsWithFreeBeds(wards: WardBeds): WardType[] {
+  return WARD_TYPES
+    .filter(({ type }) => getFreeBeds(wards[type]) > 0)
+    .map(({ type }) => type)
+}
+
+/**
+ * Normalizes a stored ward map into a complete inventory
+ * Records written before per-ward tracking only carry `available_beds`,
+ * which is treated as free general ward capacity
+ */
+export function normalizeWards(
+  wards: Partial<WardBeds> | undefined,
+  legacyAvailableBeds: number = 0
+): WardBeds {
+  const normalized = createEmptyWards()
+
+  if (!wards) {
+    normalized.general = { total: legacyAvailableBeds, occupied: 0 }
+    return normalized
+  }
+
+  WARD_TYPES.forEach(({ type }) => {
+    const ward = wards[type]
+    if (ward) {
+      normalized[type] = {
+        total: Number(ward.total) || 0,
+        occupied: Number(ward.occupied) || 0,
+      }
+    }
+  })
+
+  return normalized
+}
+
+/**
+ * Converts a `hospitals` document into the dashboard shape (without availability)
+ * Documents may carry their own `id` field, which takes precedence over the document ID
+ */
+export function parseHospital(docId: string, data: Record<string, unknown>): Hospital {
+  return {
+    id: (data.id as number | string) || docId,  // Keep original type
+    doc_id: docId,
+    name: data.name as string,
+    address: data.address as string,
+    phone_number: data.phone as string | undefined,
+    latitude: (data.latitude as number) || 0,
+    longitude: (data.longitude as number) || 0,
+    pincode: (data.pincode as string) || '',
+  }
+}
+
+/**
+ * Values a hospital ID may have been stored as in `availability.hospital_id`
+ * Older records mix numeric and string IDs for the same hospital
+ */
+export function getHospitalIdVariants(hospitalId: number | string): (number | string)[] {
+  const asString = String(hospitalId)
+  const variants: (number | string)[] = [asString]
+  if (/^\d+$/.test(asString)) {
+    variants.push(Number(asString))
+  }
+  return variants
+}
+
+/**
+ * Reads the oxygen stock from an availability document
+ * Records written before tank tracking only carry cylinders
+ */
+export function parseOxygenSupply(data: Partial<AvailabilityRecord>): OxygenSupply {
+  return {
+    cylinders: Number(data.available_oxygen) || 0,
+    tank_litres: Number(data.liquid_oxygen_litres) || 0,
+    tank_capacity_litres: Number(data.liquid_oxygen_capacity_litres) || 0,
+  }
+}
+
+/**
+ * Converts an availability document into the dashboard shape
+ */
+export function parseAvailability(data: Partial<AvailabilityRecord>): HospitalAvailability {
+  const wards = normalizeWards(data.wards, data.available_beds || 0)
+  const oxygen = parseOxygenSupply(data)
+  const consumption = data.oxygen_consumption_lph ?? null
+  const updatedAt = (data.updated_at as { toDate?: () => Date } | undefined)?.toDate?.()
+
+  return {
+    available_beds: getTotalFreeBeds(wards),
+    available_oxygen: oxygen.cylinders,
+    wards,
+    oxygen,
+    oxygen_consumption_lph: consumption,
+    oxygen_depletes_at: updatedAt ? projectDepletionTime(oxygen, consumption, updatedAt.getTime()) : null,
+    last_updated: updatedAt?.toLocaleString() || '',
+    updated_at_ms: updatedAt?.getTime() ?? null,
+  }
+}
+
+/**
+ * Validates ward counts entered in the admin form
+ * @returns Error message, or null when the inventory is valid
+ */
+export function validateWards(wards: WardBeds): string | null {
+  for (const { type, label } of WARD_TYPES) {
+    const { total, occupied } = wards[type]
+
+    if (!Number.isFinite(total) || !Number.isFinite(occupied) || total < 0 || occupied < 0) {
+      return `${label}: bed counts must be non-negative numbers`
+    }
+    if (occupied > total) {
+      return `${label}: occupied beds cannot exceed total capacity`
+    }
+  }
+
+  return null
+}
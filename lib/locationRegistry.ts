@@ -0,0 +1,155 @@
+/**
+ * Location Registry
+ * Indian cities the app knows about: the scheduled weather collector covers each of them,
+ * `/api/fetchWeatherData` and `/api/diseaseOutlook` accept them by name, and PIN codes
+ * and surveillance districts resolve to their coordinates and population
+ *
+ * Firestore documents in `locations` add or correct entries (see `locationStore`)
+ */
+
+import { normalizeStateName } from './seasonalPriors'
+import type { RegisteredLocation } from './types/doctor-module'
+
+export const INDIAN_LOCATIONS: RegisteredLocation[] = [
+  // Karnataka
+  { id: 'bengaluru', city: 'Bengaluru', district: 'Bengaluru Urban', state: 'Karnataka', latitude: 12.9716, longitude: 77.5946, population: 8520435, aliases: ['Bangalore', 'Bangalore Urban'] },
+  { id: 'mysuru', city: 'Mysuru', district: 'Mysuru', state: 'Karnataka', latitude: 12.2958, longitude: 76.6394, population: 990900, aliases: ['Mysore'] },
+  { id: 'mangaluru', city: 'Mangaluru', district: 'Dakshina Kannada', state: 'Karnataka', latitude: 12.9141, longitude: 74.8560, population: 619664, aliases: ['Mangalore'] },
+
+  // Maharashtra
+  { id: 'mumbai', city: 'Mumbai', district: 'Mumbai', state: 'Maharashtra', latitude: 19.0760, longitude: 72.8777, population: 18414288, aliases: ['Bombay', 'Mumbai City', 'Mumbai Suburban'] },
+  { id: 'pune', city: 'Pune', district: 'Pune', state: 'Maharashtra', latitude: 18.5204, longitude: 73.8567, population: 5057709 },
+  { id: 'nagpur', city: 'Nagpur', district: 'Nagpur', state: 'Maharashtra', latitude: 21.1458, longitude: 79.0882, population: 2497870 },
+  { id: 'thane', city: 'Thane', district: 'Thane', state: 'Maharashtra', latitude: 19.2183, longitude: 72.9781, population: 1841488 },
+  { id: 'nashik', city: 'Nashik', district: 'Nashik', state: 'Maharashtra', latitude: 19.9975, longitude: 73.7898, population: 1562769, aliases: ['Nasik'] },
+
+  // Tamil Nadu
+  { id: 'chennai', city: 'Chennai', district: 'Chennai', state: 'Tamil Nadu', latitude: 13.0827, longitude: 80.2707, population: 8696010, aliases: ['Madras'] },
+  { id: 'coimbatore', city: 'Coimbatore', district: 'Coimbatore', state: 'Tamil Nadu', latitude: 11.0168, longitude: 76.9558, population: 2136916 },
+  { id: 'madurai', city: 'Madurai', district: 'Madurai', state: 'Tamil Nadu', latitude: 9.9252, longitude: 78.1198, population: 1465625 },
+
+  // Delhi NCR
+  {
+    id: 'delhi',
+    city: 'Delhi',
+    district: 'New Delhi',
+    state: 'Delhi',
+    latitude: 28.6139,
+    longitude: 77.2090,
+    population: 16349831,
+    aliases: [
+      'New Delhi', 'Central Delhi', 'North Delhi', 'South Delhi', 'East Delhi', 'West Delhi',
+      'North East Delhi', 'North West Delhi', 'South East Delhi', 'South West Delhi', 'Shahdara',
+    ],
+  },
+  { id: 'gurugram', city: 'Gurugram', district: 'Gurugram', state: 'Haryana', latitude: 28.4595, longitude: 77.0266, population: 876824, aliases: ['Gurgaon'] },
+  { id: 'faridabad', city: 'Faridabad', district: 'Faridabad', state: 'Haryana', latitude: 28.4089, longitude: 77.3178, population: 1414050 },
+  { id: 'noida', city: 'Noida', district: 'Gautam Buddha Nagar', state: 'Uttar Pradesh', latitude: 28.5355, longitude: 77.3910, population: 642381, aliases: ['Gautam Buddh Nagar'] },
+  { id: 'ghaziabad', city: 'Ghaziabad', district: 'Ghaziabad', state: 'Uttar Pradesh', latitude: 28.6692, longitude: 77.4538, population: 2375820 },
+
+  // Uttar Pradesh
+  { id: 'lucknow', city: 'Lucknow', district: 'Lucknow', state: 'Uttar Pradesh', latitude: 26.8467, longitude: 80.9462, population: 2902920 },
+  { id: 'kanpur', city: 'Kanpur', district: 'Kanpur Nagar', state: 'Uttar Pradesh', latitude: 26.4499, longitude: 80.3319, population: 2920496 },
+  { id: 'meerut', city: 'Meerut', district: 'Meerut', state: 'Uttar Pradesh', latitude: 28.9845, longitude: 77.7064, population: 1420902 },
+  { id: 'varanasi', city: 'Varanasi', district: 'Varanasi', state: 'Uttar Pradesh', latitude: 25.3176, longitude: 82.9739, population: 1435113, aliases: ['Benares'] },
+  { id: 'prayagraj', city: 'Prayagraj', district: 'Prayagraj', state: 'Uttar Pradesh', latitude: 25.4358, longitude: 81.8463, population: 1216719, aliases: ['Allahabad'] },
+
+  // West Bengal
+  { id: 'kolkata', city: 'Kolkata', district: 'Kolkata', state: 'West Bengal', latitude: 22.5726, longitude: 88.3639, population: 14112536, aliases: ['Calcutta'] },
+
+  // Telangana and Andhra Pradesh
+  { id: 'hyderabad', city: 'Hyderabad', district: 'Hyderabad', state: 'Telangana', latitude: 17.3850, longitude: 78.4867, population: 7749334 },
+  { id: 'visakhapatnam', city: 'Visakhapatnam', district: 'Visakhapatnam', state: 'Andhra Pradesh', latitude: 17.6868, longitude: 83.2185, population: 1730320, aliases: ['Vizag'] },
+  { id: 'vijayawada', city: 'Vijayawada', district: 'NTR', state: 'Andhra Pradesh', latitude: 16.5062, longitude: 80.6480, population: 1476931, aliases: ['Krishna'] },
+
+  // Gujarat
+  { id: 'ahmedabad', city: 'Ahmedabad', district: 'Ahmedabad', state: 'Gujarat', latitude: 23.0225, longitude: 72.5714, population: 6357693 },
+  { id: 'surat', city: 'Surat', district: 'Surat', state: 'Gujarat', latitude: 21.1702, longitude: 72.8311, population: 4591246 },
+  { id: 'vadodara', city: 'Vadodara', district: 'Vadodara', state: 'Gujarat', latitude: 22.3072, longitude: 73.1812, population: 1817191, aliases: ['Baroda'] },
+  { id: 'rajkot', city: 'Rajkot', district: 'Rajkot', state: 'Gujarat', latitude: 22.3039, longitude: 70.8022, population: 1390640 },
+
+  // Rajasthan
+  { id: 'jaipur', city: 'Jaipur', district: 'Jaipur', state: 'Rajasthan', latitude: 26.9124, longitude: 75.7873, population: 3046163 },
+  { id: 'jodhpur', city: 'Jodhpur', district: 'Jodhpur', state: 'Rajasthan', latitude: 26.2389, longitude: 73.0243, population: 1138300 },
+
+  // Madhya Pradesh and Chhattisgarh
+  { id: 'indore', city: 'Indore', district: 'Indore', state: 'Madhya Pradesh', latitude: 22.7196, longitude: 75.8577, population: 2170295 },
+  { id: 'bhopal', city: 'Bhopal', district: 'Bhopal', state: 'Madhya Pradesh', latitude: 23.2599, longitude: 77.4126, population: 1886100 },
+  { id: 'jabalpur', city: 'Jabalpur', district: 'Jabalpur', state: 'Madhya Pradesh', latitude: 23.1815, longitude: 79.9864, population: 1268848 },
+  { id: 'gwalior', city: 'Gwalior', district: 'Gwalior', state: 'Madhya Pradesh', latitude: 26.2183, longitude: 78.1828, population: 1102884 },
+  { id: 'raipur', city: 'Raipur', district: 'Raipur', state: 'Chhattisgarh', latitude: 21.2514, longitude: 81.6296, population: 1123558 },
+
+  // Kerala
+  { id: 'kochi', city: 'Kochi', district: 'Ernakulam', state: 'Kerala', latitude: 9.9312, longitude: 76.2673, population: 2119724, aliases: ['Cochin'] },
+  { id: 'thiruvananthapuram', city: 'Thiruvananthapuram', district: 'Thiruvananthapuram', state: 'Kerala', latitude: 8.5241, longitude: 76.9366, population: 1687406, aliases: ['Trivandrum'] },
+
+  // Punjab, Haryana and Chandigarh
+  { id: 'ludhiana', city: 'Ludhiana', district: 'Ludhiana', state: 'Punjab', latitude: 30.9010, longitude: 75.8573, population: 1618879 },
+  { id: 'amritsar', city: 'Amritsar', district: 'Amritsar', state: 'Punjab', latitude: 31.6340, longitude: 74.8723, population: 1183705 },
+  { id: 'chandigarh', city: 'Chandigarh', district: 'Chandigarh', state: 'Chandigarh', latitude: 30.7333, longitude: 76.7794, population: 1025682 },
+
+  // East and North East
+  { id: 'patna', city: 'Patna', district: 'Patna', state: 'Bihar', latitude: 25.5941, longitude: 85.1376, population: 2049156 },
+  { id: 'ranchi', city: 'Ranchi', district: 'Ranchi', state: 'Jharkhand', latitude: 23.3441, longitude: 85.3096, population: 1126741 },
+  { id: 'bhubaneswar', city: 'Bhubaneswar', district: 'Khordha', state: 'Odisha', latitude: 20.2961, longitude: 85.8245, population: 885363, aliases: ['Khurda'] },
+  { id: 'guwahati', city: 'Guwahati', district: 'Kamrup Metropolitan', state: 'Assam', latitude: 26.1445, longitude: 91.7362, population: 968549, aliases: ['Kamrup Metro'] },
+
+  // Himalayan states
+  { id: 'srinagar', city: 'Srinagar', district: 'Srinagar', state: 'Jammu and Kashmir', latitude: 34.0837, longitude: 74.7973, population: 1273312 },
+  { id: 'dehradun', city: 'Dehradun', district: 'Dehradun', state: 'Uttarakhand', latitude: 30.3165, longitude: 78.0322, population: 714223 },
+  { id: 'shimla', city: 'Shimla', district: 'Shimla', state: 'Himachal Pradesh', latitude: 31.1048, longitude: 77.1734, population: 171817 },
+
+  // Goa
+  { id: 'panaji', city: 'Panaji', district: 'North Goa', state: 'Goa', latitude: 15.4909, longitude: 73.8278, population: 114759, aliases: ['Panjim'] },
+]
+
+// Population thresholds for scaling doctor requirements (metro, tier-1, tier-2 cities)
+const POPULATION_FACTORS: { minPopulation: number; factor: number }[] = [
+  { minPopulation: 5_000_000, factor: 2.5 },
+  { minPopulation: 1_600_000, factor: 2.0 },
+  { minPopulation: 1_000_000, factor: 1.5 },
+]
+
+function normalizeLocationName(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+/**
+ * Registered location by city, district or alias (case-insensitive)
+ * @param state When given, only locations in this state match
+ */
+export function findLocation(
+  locations: RegisteredLocation[],
+  name: string,
+  state?: string | null
+): RegisteredLocation | undefined {
+  const key = normalizeLocationName(name)
+  const stateKey = state ? normalizeStateName(state) : null
+
+  return locations.find(location =>
+    (!stateKey || normalizeStateName(location.state) === stateKey) &&
+    [location.city, location.district, ...(location.aliases || [])].some(candidate => normalizeLocationName(candidate) === key)
+  )
+}
+
+/**
+ * Most populous registered location in a state, as a stand-in for unknown places there
+ */
+export function getLargestLocationInState(
+  locations: RegisteredLocation[],
+  state: string
+): RegisteredLocation | undefined {
+  const stateKey = normalizeStateName(state)
+  return locations
+    .filter(location => normalizeStateName(location.state) === stateKey)
+    .sort((a, b) => b.population - a.population)[0]
+}
+
+/**
+ * Multiplier for doctor requirements by urban population
+ * Unregistered places (small towns, rural areas) use the base multiplier
+ */
+export function getPopulationFactor(population?: number): number {
+  if (!population) return 1.0
+  return POPULATION_FACTORS.find(({ minPopulation }) => population >= minPopulation)?.factor ?? 1.0
+}
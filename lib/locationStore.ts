@@ -0,0 +1,98 @@
+/**
+ * Location Store
+ * Loads the location registry from Firestore on top of the built-in Indian locations
+ *
+ * Each document in `locations` adds a location or corrects a built-in one (matched by
+ * document ID), e.g. `locations/mumbai`: `{ population: 20667656 }` or a complete
+ * `{ city, district, state, latitude, longitude, population, aliases }`.
+ * `{ disabled: true }` removes a location from collection and lookups.
+ */
+
+import { db } from './firebase'
+import { collection, getDocs } from 'firebase/firestore'
+import { INDIAN_LOCATIONS } from './locationRegistry'
+import type { RegisteredLocation } from './types/doctor-module'
+
+export const LOCATIONS_COLLECTION = 'locations'
+
+// Locations are re-read from Firestore at most this often
+const CACHE_TTL_MS = 5 * 60 * 1000
+
+let cachedLocations: { locations: RegisteredLocation[]; loadedAt: number } | null = null
+
+/**
+ * Why a location is unusable (null when valid)
+ */
+function validateLocation(location: Partial<RegisteredLocation>): string | null {
+  for (const field of ['city', 'district', 'state'] as const) {
+    if (typeof location[field] !== 'string' || !location[field]) return `${field} is required`
+  }
+  if (typeof location.latitude !== 'number' || location.latitude < 6 || location.latitude > 38) {
+    return 'latitude must be within India (6 to 38)'
+  }
+  if (typeof location.longitude !== 'number' || location.longitude < 68 || location.longitude > 98) {
+    return 'longitude must be within India (68 to 98)'
+  }
+  if (typeof location.population !== 'number' || location.population < 0) {
+    return 'population must be a non-negative number'
+  }
+  if (location.aliases !== undefined && !(Array.isArray(location.aliases) && location.aliases.every(alias => typeof alias === 'string'))) {
+    return 'aliases must be a list of names'
+  }
+  return null
+}
+
+/**
+ * Applies Firestore documents to the built-in locations; invalid documents are skipped with a warning
+ */
+export function mergeLocations(
+  builtIn: RegisteredLocation[],
+  documents: { id: string; data: Record<string, unknown> }[]
+): RegisteredLocation[] {
+  const byId = new Map(builtIn.map(location => [location.id, location]))
+
+  documents.forEach(({ id, data }) => {
+    if (data.disabled === true) {
+      byId.delete(id)
+      return
+    }
+
+    const location = { ...byId.get(id), ...data, id } as RegisteredLocation & { disabled?: boolean }
+    delete location.disabled
+    const error = validateLocation(location)
+    if (error) {
+      console.warn(`⚠️ Ignoring location "${id}": ${error}`)
+      return
+    }
+    byId.set(id, location)
+  })
+
+  return Array.from(byId.values())
+}
+
+/**
+ * Active location registry: built-in locations with Firestore additions and corrections
+ * Falls back to the built-in locations if Firestore cannot be read
+ */
+export async function loadLocations(forceRefresh: boolean = false): Promise<RegisteredLocation[]> {
+  if (!forceRefresh && cachedLocations && Date.now() - cachedLocations.loadedAt < CACHE_TTL_MS) {
+    return cachedLocations.locations
+  }
+
+  try {
+    const snapshot = await getDocs(collection(db, LOCATIONS_COLLECTION))
+    const locations = mergeLocations(
+      INDIAN_LOCATIONS,
+      snapshot.docs.map(doc => ({ id: doc.id, data: doc.data() }))
+    )
+    cachedLocations = { locations, loadedAt: Date.now() }
+
+    if (snapshot.size > 0) {
+      console.log(`📋 Applied ${snapshot.size} location document(s) from Firestore (${locations.length} locations)`)
+    }
+    return locations
+  } catch (error) {
+    console.warn('⚠️ Could not load locations from Firestore, using built-in locations:', error)
+    return INDIAN_LOCATIONS
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Disease Model Evaluation
+ * Per-disease classification and calibration metrics on the held-out split,
+ * since overall accuracy says little for imbalanced multi-label output
+ * (a model predicting "no disease" everywhere already scores highly)
+ *
+ * Labels may be soft (0-1 case intensities); an outcome counts as positive at or above 0.5.
+ * Unobserved labels (null) are left out of their disease's metrics.
+ */
+
+import { getDiseaseName } from './diseaseRegistry'
+import type { DiseaseId } from './types/doctor-module'
+
+// Label and prediction cut-off for the threshold metrics
+export const POSITIVE_THRESHOLD = 0.5
+
+// Equal-width probability bins in the reliability curve
+const RELIABILITY_BINS = 10
+
+/**
+ * One bin of the reliability curve: predicted vs observed positive rate
+ */
+export interface ReliabilityBin {
+  lower: number // Probability range of the bin
+  upper: number
+  mean_predicted: number
+  observed_rate: number
+  count: number
+}
+
+/**
+ * Metrics for one disease output
+ * Precision and ROC-AUC are null when undefined (no predicted positives / only one class present)
+ */
+export interface DiseaseEvaluation {
+  disease_id?: DiseaseId // Missing in reports stored before the disease registry
+  disease: string // Display name
+  positives: number // Positive outcomes in the test split
+  precision: number | null
+  recall: number | null
+  f1: number | null
+  roc_auc: number | null
+  brier_score: number // Mean squared error of the probability (0 = perfect)
+  reliability: ReliabilityBin[] // Non-empty bins only
+}
+
+/**
+ * Evaluation of a model version on its held-out split
+ * Macro averages skip diseases where the metric is undefined
+ */
+export interface EvaluationReport {
+  test_samples: number
+  threshold: number
+  diseases: DiseaseEvaluation[]
+  macro_precision: number | null
+  macro_recall: number | null
+  macro_f1: number | null
+  macro_roc_auc: number | null
+  macro_brier_score: number
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null
+}
+
+function macroAverage(values: (number | null)[]): number | null {
+  const defined = values.filter((value): value is number => value !== null)
+  return defined.length > 0 ? defined.reduce((sum, value) => sum + value, 0) / defined.length : null
+}
+
+/**
+ * Area under the ROC curve: the chance a random positive scores above a random negative
+ * (Mann-Whitney U with average ranks for tied scores)
+ */
+export function rocAuc(outcomes: boolean[], scores: number[]): number | null {
+  const positives = outcomes.filter(Boolean).length
+  const negatives = outcomes.length - positives
+  if (positives === 0 || negatives === 0) return null
+
+  const order = scores.map((score, index) => ({ score, index })).sort((a, b) => a.score - b.score)
+  let positiveRankSum = 0
+  for (let start = 0; start < order.length;) {
+    let end = start
+    while (end + 1 < order.length && order[end + 1].score === order[start].score) end++
+    const averageRank = (start + end) / 2 + 1
+    for (let i = start; i <= end; i++) {
+      if (outcomes[order[i].index]) positiveRankSum += averageRank
+    }
+    start = end + 1
+  }
+
+  return (positiveRankSum - (positives * (positives + 1)) / 2) / (positives * negatives)
+}
+
+/**
+ * Reliability curve: for each probability bin, the mean prediction and how often the outcome occurred
+ */
+export function reliabilityCurve(outcomes: boolean[], scores: number[]): ReliabilityBin[] {
+  const bins = Array.from({ length: RELIABILITY_BINS }, (_, index) => ({
+    lower: index / RELIABILITY_BINS,
+    upper: (index + 1) / RELIABILITY_BINS,
+    predicted: 0,
+    observed: 0,
+    count: 0,
+  }))
+
+  scores.forEach((score, index) => {
+    const bin = bins[Math.min(Math.floor(score * RELIABILITY_BINS), RELIABILITY_BINS - 1)]
+    bin.predicted += score
+    bin.observed += outcomes[index] ? 1 : 0
+    bin.count++
+  })
+
+  return bins
+    .filter(bin => bin.count > 0)
+    .map(bin => ({
+      lower: bin.lower,
+      upper: bin.upper,
+      mean_predicted: bin.predicted / bin.count,
+      observed_rate: bin.observed / bin.count,
+      count: bin.count,
+    }))
+}
+
+/**
+ * Evaluates predicted probabilities against labels, one row per test sample
+ * @param diseases Output order of the label and probability columns
+ */
+export function evaluatePredictions(
+  diseases: DiseaseId[],
+  labels: (number | null)[][],
+  probabilities: number[][]
+): EvaluationReport {
+  const evaluations = diseases.map((disease, column) => {
+    const observed = labels
+      .map((row, index) => ({ label: row[column], score: probabilities[index][column] }))
+      .filter((sample): sample is { label: number; score: number } => sample.label !== null)
+    const outcomes = observed.map(sample => sample.label >= POSITIVE_THRESHOLD)
+    const scores = observed.map(sample => sample.score)
+
+    let truePositives = 0
+    let falsePositives = 0
+    let falseNegatives = 0
+    let squaredError = 0
+    scores.forEach((score, index) => {
+      const predicted = score >= POSITIVE_THRESHOLD
+      if (predicted && outcomes[index]) truePositives++
+      else if (predicted) falsePositives++
+      else if (outcomes[index]) falseNegatives++
+      squaredError += (score - (outcomes[index] ? 1 : 0)) ** 2
+    })
+
+    const precision = ratio(truePositives, truePositives + falsePositives)
+    const recall = ratio(truePositives, truePositives + falseNegatives)
+    const f1 = precision !== null && recall !== null
+      ? (precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0)
+      : null
+
+    return {
+      disease_id: disease,
+      disease: getDiseaseName(disease),
+      positives: truePositives + falseNegatives,
+      precision,
+      recall,
+      f1,
+      roc_auc: rocAuc(outcomes, scores),
+      brier_score: scores.length > 0 ? squaredError / scores.length : 0,
+      reliability: reliabilityCurve(outcomes, scores),
+    }
+  })
+
+  return {
+    test_samples: labels.length,
+    threshold: POSITIVE_THRESHOLD,
+    diseases: evaluations,
+    macro_precision: macroAverage(evaluations.map(evaluation => evaluation.precision)),
+    macro_recall: macroAverage(evaluations.map(evaluation => evaluation.recall)),
+    macro_f1: macroAverage(evaluations.map(evaluation => evaluation.f1)),
+    macro_roc_auc: macroAverage(evaluations.map(evaluation => evaluation.roc_auc)),
+    macro_brier_score: macroAverage(evaluations.map(evaluation => evaluation.brier_score)) ?? 0,
+  }
+}
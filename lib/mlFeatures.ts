@@ -0,0 +1,67 @@
+/**
+ * Disease Model Features
+ * Builds the ML model inputs for both training and prediction, so the model always
+ * sees the same thing: weather averaged over the 14 days before the period predicted
+ *
+ * Training windows come from the daily weather archive (one record per day, rainfall
+ * as the daily total). Predictions use stored `weather_data` snapshots, which are hourly
+ * readings, so they are first reduced to the same daily shape (see dailyWeather).
+ */
+
+import { summarizeWeatherByDay } from './dailyWeather'
+import type { WeatherInput } from './mlModel'
+import type { WeatherData } from './types/doctor-module'
+
+// Cases in a week reflect exposure over the preceding incubation period
+export const MODEL_WEATHER_WINDOW_DAYS = 14
+
+// Windows with weather for fewer days than this are not used
+export const MIN_MODEL_WINDOW_DAYS = MODEL_WEATHER_WINDOW_DAYS / 2
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+function mean(values: number[]): number | undefined {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined
+}
+
+function numbers(records: WeatherData[], pick: (record: WeatherData) => number | undefined): number[] {
+  return records.map(pick).filter((value): value is number => typeof value === 'number')
+}
+
+/**
+ * Model inputs from the daily weather of one window
+ * Rainfall is the mean daily total; the weather code is the most severe of the window
+ */
+export function buildModelFeatures(days: WeatherData[]): WeatherInput {
+  return {
+    temperature: mean(numbers(days, day => day.temperature)) ?? 0,
+    humidity: mean(numbers(days, day => day.humidity)) ?? 0,
+    rainfall: mean(numbers(days, day => day.rainfall)) ?? 0,
+    wind_speed: mean(numbers(days, day => day.windSpeed)) ?? 0,
+    uv_index: mean(numbers(days, day => day.uvIndex)) ?? 0,
+    pressure: mean(numbers(days, day => day.pressure)) ?? 1013,
+    dew_point: mean(numbers(days, day => day.dewPoint)) ?? 0,
+    weather_code: Math.max(0, ...numbers(days, day => day.weatherCode)),
+  }
+}
+
+/**
+ * Daily records in the window ending before `endDate` (YYYY-MM-DD, exclusive)
+ * @returns null when fewer than MIN_MODEL_WINDOW_DAYS days have weather
+ */
+export function selectModelWindow(days: WeatherData[], endDate: string): WeatherData[] | null {
+  const end = Date.parse(`${endDate}T00:00:00Z`)
+  const startDate = new Date(end - MODEL_WEATHER_WINDOW_DAYS * MS_PER_DAY).toISOString().slice(0, 10)
+  const window = days.filter(day => day.recorded_at && day.recorded_at >= startDate && day.recorded_at < endDate)
+  return window.length >= MIN_MODEL_WINDOW_DAYS ? window : null
+}
+
+/**
+ * Model inputs for a prediction at `now`, from stored snapshots of the preceding 14 days
+ * (today is left out, as the reporting week is in training)
+ * @returns null when too few days have stored weather
+ */
+export function buildModelFeaturesFromSnapshots(snapshots: WeatherData[], now: number = Date.now()): WeatherInput | null {
+  const window = selectModelWindow(summarizeWeatherByDay(snapshots), new Date(now).toISOString().slice(0, 10))
+  return window ? buildModelFeatures(window) : null
+}
@@ -1,11 +1,28 @@
 /**
  * TensorFlow.js Neural Network for Disease Prediction
  * Uses multi-layer perceptron to predict disease probabilities from weather data
+ *
+ * Trained weights are versioned in the model store: API routes only load them
+ * (`loadMLModel`), and training runs as a separate job (`trainAndStoreMLModel`).
  */
 
 import * as tf from '@tensorflow/tfjs'
-import { generateTrainingData, splitData, type TrainingDataPoint } from './mlTrainingData'
+import { DISEASE_LABELS, generateTrainingData, splitData, type TrainingDataPoint } from './mlTrainingData'
+import { getDiseaseName, resolveDiseaseId } from './diseaseRegistry'
+import { evaluatePredictions, type EvaluationReport } from './mlEvaluation'
+import { loadModelArtifacts, saveModelArtifacts, type ModelVersionInfo } from './mlModelStore'
+import { loadSurveillanceTrainingData, MIN_SURVEILLANCE_SAMPLES } from './surveillanceData'
+import type { DiseaseId, MLDiseasePrediction } from './types/doctor-module'
 
+export const DISEASE_MODEL_NAME = 'disease'
+
+// Unobserved labels in the label tensor; masked out of the loss and accuracy
+const MASKED_LABEL = -1
+
+/**
+ * Model inputs: weather averaged over the 14 days before the period predicted, with
+ * rainfall as the mean daily total in mm (built by `mlFeatures`)
+ */
 export interface WeatherInput {
   temperature: number
   humidity: number
@@ -17,13 +34,6 @@ export interface WeatherInput {
   weather_code: number
 }
 
-export interface DiseasePrediction {
-  disease: string
-  probability: number
-  confidence: number
-  riskLevel: 'High' | 'Medium' | 'Low' | 'Minimal'
-}
-
 export interface ModelMetrics {
   accuracy: number
   loss: number
@@ -31,6 +41,34 @@ export interface ModelMetrics {
   trainingTime: number
   totalSamples: number
   testAccuracy: number
+  version?: number // Stored model version, once saved or loaded
+}
+
+/**
+ * Binary cross-entropy over each sample's observed labels only
+ */
+function maskedBinaryCrossentropy(yTrue: tf.Tensor, yPred: tf.Tensor): tf.Tensor {
+  return tf.tidy(() => {
+    const mask = tf.cast(tf.greaterEqual(yTrue, 0), 'float32')
+    const labels = tf.mul(yTrue, mask)
+    const probabilities = tf.clipByValue(yPred, 1e-7, 1 - 1e-7)
+    const crossentropy = tf.neg(tf.add(
+      tf.mul(labels, tf.log(probabilities)),
+      tf.mul(tf.sub(1, labels), tf.log(tf.sub(1, probabilities)))
+    ))
+    return tf.div(tf.sum(tf.mul(crossentropy, mask), -1), tf.maximum(tf.sum(mask, -1), 1))
+  })
+}
+
+/**
+ * Share of each sample's observed labels predicted on the right side of 0.5
+ */
+function maskedAccuracy(yTrue: tf.Tensor, yPred: tf.Tensor): tf.Tensor {
+  return tf.tidy(() => {
+    const mask = tf.cast(tf.greaterEqual(yTrue, 0), 'float32')
+    const correct = tf.cast(tf.equal(tf.greaterEqual(yTrue, 0.5), tf.greaterEqual(yPred, 0.5)), 'float32')
+    return tf.div(tf.sum(tf.mul(correct, mask), -1), tf.maximum(tf.sum(mask, -1), 1))
+  })
 }
 
 class DiseaseMLModel {
@@ -43,20 +81,8 @@ class DiseaseMLModel {
     totalSamples: 0,
     testAccuracy: 0
   }
-  private diseases = [
-    'Dengue Fever',
-    'Malaria',
-    'Influenza/Flu',
-    'Typhoid Fever',
-    'Heat Stroke',
-    'Respiratory Infections',
-    'Pneumonia',
-    'Allergic Rhinitis',
-    'Asthma Attacks',
-    'Dehydration',
-    'Gastroenteritis',
-    'Skin Infections'
-  ]
+  private evaluation: EvaluationReport | null = null
+  private diseases: DiseaseId[] = DISEASE_LABELS
 
   /**
    * Build the neural network architecture
@@ -110,11 +136,11 @@ class DiseaseMLModel {
       ]
     })
 
-    // Compile with Adam optimizer and binary crossentropy loss
+    // Compile with Adam optimizer and binary crossentropy loss, skipping unobserved labels
     model.compile({
       optimizer: tf.train.adam(0.001),
-      loss: 'binaryCrossentropy',
-      metrics: ['accuracy']
+      loss: maskedBinaryCrossentropy,
+      metrics: [maskedAccuracy]
     })
 
     return model
@@ -137,20 +163,7 @@ class DiseaseMLModel {
     ])
 
     // Extract labels (outputs)
-    const labels = data.map(d => [
-      d.dengue,
-      d.malaria,
-      d.influenza,
-      d.typhoid,
-      d.heat_stroke,
-      d.respiratory_infection,
-      d.pneumonia,
-      d.allergic_rhinitis,
-      d.asthma,
-      d.dehydration,
-      d.gastroenteritis,
-      d.skin_infection
-    ])
+    const labels = data.map(d => DISEASE_LABELS.map(label => d[label] ?? MASKED_LABEL))
 
     return {
       xs: tf.tensor2d(features),
@@ -159,9 +172,17 @@ class DiseaseMLModel {
   }
 
   /**
-   * Train the model with synthetic data
+   * Train the model with synthetic data (bootstrap when no surveillance data exists)
    */
   async trainModel(numSamples: number = 2000, epochs: number = 50): Promise<ModelMetrics> {
+    console.log('🧠 Generating training data...')
+    return this.trainOnData(generateTrainingData(numSamples), epochs)
+  }
+
+  /**
+   * Train the model on labelled data points (synthetic or from surveillance)
+   */
+  async trainOnData(allData: TrainingDataPoint[], epochs: number = 50): Promise<ModelMetrics> {
     const startTime = Date.now()
     
     // Dispose existing model before creating new one
@@ -171,8 +192,6 @@ class DiseaseMLModel {
       console.log('🗑️ Disposed existing model')
     }
     
-    console.log('🧠 Generating training data...')
-    const allData = generateTrainingData(numSamples)
     const { training, testing } = splitData(allData, 0.2)
     
     console.log(`📊 Training samples: ${training.length}`)
@@ -200,7 +219,7 @@ class DiseaseMLModel {
             console.log(
               `Epoch ${epoch + 1}/${epochs} - ` +
               `Loss: ${logs.loss.toFixed(4)} - ` +
-              `Accuracy: ${((logs.acc || 0) * 100).toFixed(2)}%`
+              `Accuracy: ${((logs.maskedAccuracy || 0) * 100).toFixed(2)}%`
             )
           }
         }
@@ -212,6 +231,15 @@ class DiseaseMLModel {
     const testAcc = await evaluation[1].data()
     
     console.log('✅ Test accuracy:', testAcc[0])
+
+    // Per-disease metrics on the same held-out split
+    const testPredictions = this.model.predict(testData.xs) as tf.Tensor
+    this.evaluation = evaluatePredictions(
+      this.diseases,
+      testing.map(d => DISEASE_LABELS.map(label => d[label])),
+      (await testPredictions.array()) as number[][]
+    )
+    testPredictions.dispose()
     
     // Clean up tensors
     trainData.xs.dispose()
@@ -223,11 +251,11 @@ class DiseaseMLModel {
     const trainingTime = Date.now() - startTime
     
     this.metrics = {
-      accuracy: history.history.acc[history.history.acc.length - 1] as number,
+      accuracy: history.history.maskedAccuracy[history.history.maskedAccuracy.length - 1] as number,
       loss: history.history.loss[history.history.loss.length - 1] as number,
       trained: true,
       trainingTime: trainingTime,
-      totalSamples: numSamples,
+      totalSamples: allData.length,
       testAccuracy: testAcc[0]
     }
     
@@ -236,14 +264,15 @@ class DiseaseMLModel {
     console.log(`📈 Final accuracy: ${(this.metrics.accuracy * 100).toFixed(2)}%`)
     console.log(`📉 Final loss: ${this.metrics.loss.toFixed(4)}`)
     console.log(`🎯 Test accuracy: ${(this.metrics.testAccuracy * 100).toFixed(2)}%`)
+    console.log(`🎯 Macro F1: ${this.evaluation.macro_f1?.toFixed(3) ?? 'n/a'}, macro ROC-AUC: ${this.evaluation.macro_roc_auc?.toFixed(3) ?? 'n/a'}`)
     
     return this.metrics
   }
 
   /**
-   * Predict disease probabilities from weather data
+   * Probability (0-1) of every disease the model predicts, keyed by disease ID
    */
-  async predict(weather: WeatherInput): Promise<DiseasePrediction[]> {
+  async predictProbabilities(weather: WeatherInput): Promise<Record<DiseaseId, number>> {
     if (!this.model || !this.metrics.trained) {
       throw new Error('Model not trained. Call trainModel() first.')
     }
@@ -269,30 +298,40 @@ class DiseaseMLModel {
     inputTensor.dispose()
     prediction.dispose()
 
+    return Object.fromEntries(this.diseases.map((disease, i) => [disease, probabilities[i]]))
+  }
+
+  /**
+   * Predict disease probabilities from weather data
+   */
+  async predict(weather: WeatherInput): Promise<MLDiseasePrediction[]> {
+    const probabilities = await this.predictProbabilities(weather)
+    const confidence = this.metrics.testAccuracy // Use test accuracy as confidence
+
     // Format results
-    const predictions: DiseasePrediction[] = []
-    for (let i = 0; i < this.diseases.length; i++) {
-      const probability = probabilities[i] * 100 // Convert to percentage
-      const confidence = this.metrics.testAccuracy * 100 // Use test accuracy as confidence
-      
-      let riskLevel: 'High' | 'Medium' | 'Low' | 'Minimal'
-      if (probability >= 70) riskLevel = 'High'
-      else if (probability >= 50) riskLevel = 'Medium'
-      else if (probability >= 30) riskLevel = 'Low'
-      else riskLevel = 'Minimal'
-
-      if (probability > 25) { // Only include significant predictions
+    const predictions: MLDiseasePrediction[] = []
+    this.diseases.forEach(diseaseId => {
+      const probability = probabilities[diseaseId]
+
+      let riskCategory: MLDiseasePrediction['risk_category']
+      if (probability >= 0.7) riskCategory = 'High'
+      else if (probability >= 0.5) riskCategory = 'Medium'
+      else if (probability >= 0.3) riskCategory = 'Low'
+      else riskCategory = 'Minimal'
+
+      if (probability > 0.25) { // Only include significant predictions
         predictions.push({
-          disease: this.diseases[i],
-          probability: Math.round(probability),
-          confidence: Math.round(confidence),
-          riskLevel
+          disease_id: diseaseId,
+          disease: getDiseaseName(diseaseId),
+          risk_level: probability,
+          confidence,
+          risk_category: riskCategory
         })
       }
-    }
+    })
 
     // Sort by probability (highest first)
-    return predictions.sort((a, b) => b.probability - a.probability)
+    return predictions.sort((a, b) => b.risk_level - a.risk_level)
   }
 
   /**
@@ -302,6 +341,13 @@ class DiseaseMLModel {
     return this.metrics
   }
 
+  /**
+   * Get the per-disease evaluation of the current version (null for versions stored without one)
+   */
+  getEvaluation(): EvaluationReport | null {
+    return this.evaluation
+  }
+
   /**
    * Check if model is trained
    */
@@ -310,39 +356,59 @@ class DiseaseMLModel {
   }
 
   /**
-   * Save model to browser storage
+   * Save the trained model to the model store as a new version
    */
-  async saveModel(name: string = 'disease-prediction-model'): Promise<void> {
-    if (!this.model) {
-      throw new Error('No model to save')
+  async saveModel(trainingSource: string = 'synthetic'): Promise<ModelVersionInfo> {
+    if (!this.model || !this.metrics.trained) {
+      throw new Error('No trained model to save')
     }
-    await this.model.save(`localstorage://${name}`)
-    console.log(`✅ Model saved as: ${name}`)
+
+    let artifacts: tf.io.ModelArtifacts | null = null
+    await this.model.save(tf.io.withSaveHandler(async modelArtifacts => {
+      artifacts = modelArtifacts
+      return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' } }
+    }))
+    if (!artifacts) {
+      throw new Error('Model did not produce artifacts to save')
+    }
+
+    const info = await saveModelArtifacts(DISEASE_MODEL_NAME, artifacts, {
+      metrics: this.metrics,
+      evaluation: this.evaluation,
+      diseases: this.diseases,
+      training_source: trainingSource,
+    })
+    this.metrics = { ...this.metrics, version: info.version }
+    return info
   }
 
   /**
-   * Load model from browser storage
+   * Load a stored model version (the current one by default)
+   * @returns false when no model has been stored yet
    */
-  async loadModel(name: string = 'disease-prediction-model'): Promise<boolean> {
-    try {
-      this.model = await tf.loadLayersModel(`localstorage://${name}`)
-      
-      // Set basic metrics when loading existing model
-      this.metrics = {
-        accuracy: 0.945, // Approximate from training
-        loss: 0.023,
-        trained: true,
-        trainingTime: 0,
-        totalSamples: 2000,
-        testAccuracy: 0.945
-      }
-      
-      console.log(`✅ Model loaded: ${name}`)
-      return true
-    } catch {
-      console.log('ℹ️ No saved model found, will train new model')
+  async loadModel(version?: number): Promise<boolean> {
+    const stored = await loadModelArtifacts(DISEASE_MODEL_NAME, version)
+    if (!stored) {
+      console.log('ℹ️ No stored disease model found; run the training job first')
       return false
     }
+
+    // Versions stored before the disease registry list display names
+    const storedDiseases = stored.info.diseases.map(disease => resolveDiseaseId(disease) || disease)
+    if (storedDiseases.join('|') !== this.diseases.join('|')) {
+      throw new Error(`Stored model version ${stored.info.version} predicts a different disease list`)
+    }
+
+    const model = await tf.loadLayersModel(tf.io.fromMemory(stored.artifacts))
+    if (this.model) {
+      this.model.dispose()
+    }
+    this.model = model
+    this.metrics = { ...stored.info.metrics, trained: true, version: stored.info.version }
+    this.evaluation = stored.info.evaluation
+
+    console.log(`✅ Loaded disease model version ${stored.info.version} (trained ${stored.info.created_at})`)
+    return true
   }
 
   /**
@@ -353,6 +419,7 @@ class DiseaseMLModel {
       this.model.dispose()
       this.model = null
       this.metrics.trained = false
+      this.evaluation = null
       console.log('🗑️ Model disposed')
     }
   }
@@ -381,54 +448,97 @@ export function resetMLModel(): void {
   modelInstance = null
 }
 
+// When no model is stored yet, look again at most this often
+const RETRY_LOAD_MS = 5 * 60 * 1000
+
+let loadAttempt: { promise: Promise<boolean>; startedAt: number } | null = null
+
 /**
- * Initialize and train the model
+ * Loads the current stored model once per server instance
+ * Never trains: without a stored model this resolves to false and callers fall back to rules
  */
-export async function initializeMLModel(
-  numSamples: number = 2000,
-  epochs: number = 50
-): Promise<ModelMetrics> {
+export function loadMLModel(forceRefresh: boolean = false): Promise<boolean> {
   const model = getMLModel()
-  
-  // Check if already trained
-  if (model.isTrained()) {
-    console.log('✅ Model already trained')
-    return model.getMetrics()
+  if (!forceRefresh && model.isTrained()) {
+    return Promise.resolve(true)
+  }
+  if (!forceRefresh && loadAttempt && Date.now() - loadAttempt.startedAt < RETRY_LOAD_MS) {
+    return loadAttempt.promise
   }
-  
-  // Try to load existing model first
-  const loaded = await model.loadModel()
-  
-  if (loaded) {
-    console.log('✅ Loaded existing trained model from storage')
-    return model.getMetrics()
+
+  const promise = model.loadModel().catch(error => {
+    console.error('❌ Could not load stored disease model:', error)
+    return false
+  })
+  loadAttempt = { promise, startedAt: Date.now() }
+  return promise
+}
+
+/**
+ * Where training data comes from
+ * - surveillance: stored case counts joined to historical weather
+ * - synthetic: rule-generated bootstrap data (`numSamples` points)
+ * - auto: surveillance when there is enough of it, otherwise synthetic
+ */
+export type TrainingSource = 'auto' | 'surveillance' | 'synthetic'
+
+/**
+ * Training job: trains a fresh model and stores it as the new current version
+ * This instance switches to it once stored; other instances pick it up on their next cold start
+ */
+export async function trainAndStoreMLModel(
+  numSamples: number = 2000,
+  epochs: number = 50,
+  source: TrainingSource = 'auto'
+): Promise<ModelVersionInfo> {
+  const surveillance = source === 'synthetic' ? [] : await loadSurveillanceTrainingData()
+  const useSurveillance = surveillance.length >= MIN_SURVEILLANCE_SAMPLES
+
+  if (source === 'surveillance' && !useSurveillance) {
+    throw new Error(
+      `Not enough surveillance data to train on (${surveillance.length} district-weeks, need ${MIN_SURVEILLANCE_SAMPLES})`
+    )
+  }
+  if (source === 'auto' && !useSurveillance) {
+    console.log(`ℹ️ ${surveillance.length} surveillance district-weeks available; bootstrapping with synthetic data`)
+  }
+
+  // Trained apart from the serving model, so predictions keep working meanwhile
+  const model = new DiseaseMLModel()
+  if (useSurveillance) {
+    await model.trainOnData(surveillance, epochs)
   } else {
-    // Train new model if loading fails
-    console.log('🔄 Training new model...')
-    const metrics = await model.trainModel(numSamples, epochs)
-    
-    // Save the trained model
-    try {
-      await model.saveModel()
-      console.log('✅ Model saved to browser storage')
-    } catch (error) {
-      console.warn('⚠️ Could not save model:', error)
-    }
-    
-    return metrics
+    await model.trainModel(numSamples, epochs)
+  }
+  const info = await model.saveModel(useSurveillance ? 'surveillance' : 'synthetic')
+
+  if (modelInstance) {
+    modelInstance.dispose()
   }
+  modelInstance = model
+  return info
 }
 
 /**
- * Predict diseases using the trained ML model
+ * Predict diseases using the stored ML model
+ * @throws Error when no trained model is available
  */
-export async function predictWithML(weather: WeatherInput): Promise<DiseasePrediction[]> {
-  const model = getMLModel()
-  
-  if (!model.isTrained()) {
-    console.log('⚠️ Model not trained, training now...')
-    await model.trainModel(2000, 50)
+export async function predictWithML(weather: WeatherInput): Promise<MLDiseasePrediction[]> {
+  if (!(await loadMLModel())) {
+    throw new Error('No trained disease model available. Run the training job (POST /api/trainMLModel).')
+  }
+
+  return await getMLModel().predict(weather)
+}
+
+/**
+ * Probability (0-1) of every disease the stored ML model predicts
+ * @throws Error when no trained model is available
+ */
+export async function predictProbabilitiesWithML(weather: WeatherInput): Promise<Record<DiseaseId, number>> {
+  if (!(await loadMLModel())) {
+    throw new Error('No trained disease model available. Run the training job (POST /api/trainMLModel).')
   }
-  
-  return await model.predict(weather)
+
+  return await getMLModel().predictProbabilities(weather)
 }
@@ -0,0 +1,127 @@
+/**
+ * ML Model Artifact Store
+ * Versioned TensorFlow.js model weights in Firestore, so API routes load a
+ * trained model on cold start instead of retraining inside the request
+ *
+ * `ml_models/{name}` holds the current version and its metrics;
+ * `ml_models/{name}/versions/{version}` holds the topology, weight specs and weights.
+ * New versions are written only by the training job (`POST /api/trainMLModel`), through
+ * the Admin SDK; firestore.rules lets other clients only read.
+ */
+
+import type * as tf from '@tensorflow/tfjs'
+import { db } from './firebase'
+import { getAdminDb } from './firebaseAdmin'
+import { Bytes, doc, getDoc, Timestamp } from 'firebase/firestore'
+import { Timestamp as AdminTimestamp } from 'firebase-admin/firestore'
+import type { ModelMetrics } from './mlModel'
+import type { EvaluationReport } from './mlEvaluation'
+
+export const ML_MODELS_COLLECTION = 'ml_models'
+
+/**
+ * What a stored version was trained on and how well it did
+ */
+export interface ModelVersionInfo {
+  version: number
+  metrics: ModelMetrics
+  evaluation: EvaluationReport | null // Per-disease metrics on the held-out split
+  diseases: string[] // Output order of the model
+  training_source: string // 'surveillance' or 'synthetic'
+  created_at: string
+}
+
+/**
+ * Joins tfjs weight data (one buffer or several) into bytes
+ */
+function toBytes(weightData: tf.io.WeightData): Uint8Array {
+  const buffers = Array.isArray(weightData) ? weightData : [weightData]
+  const bytes = new Uint8Array(buffers.reduce((sum, buffer) => sum + buffer.byteLength, 0))
+  let offset = 0
+  buffers.forEach(buffer => {
+    bytes.set(new Uint8Array(buffer), offset)
+    offset += buffer.byteLength
+  })
+  return bytes
+}
+
+/**
+ * Saves model artifacts as the next version and makes it current
+ * @returns The stored version
+ */
+export async function saveModelArtifacts(
+  name: string,
+  artifacts: tf.io.ModelArtifacts,
+  info: Omit<ModelVersionInfo, 'version' | 'created_at'>
+): Promise<ModelVersionInfo> {
+  if (!artifacts.modelTopology || !artifacts.weightSpecs || !artifacts.weightData) {
+    throw new Error('Model artifacts are missing topology or weights')
+  }
+
+  const adminDb = getAdminDb()
+  const modelRef = adminDb.collection(ML_MODELS_COLLECTION).doc(name)
+  const createdAt = AdminTimestamp.now()
+
+  const version = await adminDb.runTransaction(async transaction => {
+    const current = await transaction.get(modelRef)
+    const next = ((current.exists && (current.data()?.current_version as number)) || 0) + 1
+    const stored = { ...info, version: next, created_at: createdAt }
+
+    transaction.set(modelRef.collection('versions').doc(String(next)), {
+      ...stored,
+      // Firestore cannot store nested arrays, so the topology is kept as JSON
+      model_topology: JSON.stringify(artifacts.modelTopology),
+      weight_specs: artifacts.weightSpecs,
+      weight_data: Buffer.from(toBytes(artifacts.weightData as tf.io.WeightData)),
+    })
+    transaction.set(modelRef, {
+      current_version: next,
+      metrics: info.metrics,
+      updated_at: createdAt,
+    })
+    return next
+  })
+
+  console.log(`💾 Stored ${name} model version ${version}`)
+  return { ...info, version, created_at: createdAt.toDate().toISOString() }
+}
+
+/**
+ * Loads the artifacts of a stored version (the current one by default)
+ * @returns null when nothing has been stored yet
+ */
+export async function loadModelArtifacts(
+  name: string,
+  version?: number
+): Promise<{ artifacts: tf.io.ModelArtifacts; info: ModelVersionInfo } | null> {
+  let target = version
+  if (target === undefined) {
+    const model = await getDoc(doc(db, ML_MODELS_COLLECTION, name))
+    if (!model.exists()) return null
+    target = model.data().current_version as number
+  }
+
+  const snapshot = await getDoc(doc(db, ML_MODELS_COLLECTION, name, 'versions', String(target)))
+  if (!snapshot.exists()) return null
+
+  const data = snapshot.data()
+  const weights = (data.weight_data as Bytes).toUint8Array()
+
+  return {
+    artifacts: {
+      modelTopology: JSON.parse(data.model_topology as string),
+      weightSpecs: data.weight_specs as tf.io.WeightsManifestEntry[],
+      // Copied so the buffer holds exactly the weights
+      weightData: new Uint8Array(weights).buffer,
+    },
+    info: {
+      version: data.version as number,
+      metrics: data.metrics as ModelMetrics,
+      // Versions stored before evaluation reports were added have none
+      evaluation: (data.evaluation as EvaluationReport | undefined) ?? null,
+      diseases: data.diseases as string[],
+      training_source: data.training_source as string,
+      created_at: (data.created_at as Timestamp).toDate().toISOString(),
+    },
+  }
+}
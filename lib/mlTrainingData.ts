@@ -4,8 +4,10 @@
  * for disease prediction model training
  */
 
-export interface TrainingDataPoint {
-  // Input features (weather parameters)
+/**
+ * Input features (weather parameters)
+ */
+export interface TrainingFeatures {
   temperature: number
   humidity: number
   rainfall: number
@@ -14,8 +16,12 @@ export interface TrainingDataPoint {
   pressure: number
   dew_point: number
   weather_code: number
+}
 
-  // Output labels (disease probabilities)
+/**
+ * Output labels (disease probabilities, 0-1), keyed by disease registry ID
+ */
+export interface DiseaseLabels {
   dengue: number
   malaria: number
   influenza: number
@@ -30,9 +36,38 @@ export interface TrainingDataPoint {
   skin_infection: number
 }
 
+export type DiseaseLabel = keyof DiseaseLabels
+
+/**
+ * Model outputs in order (the stored model's output layer depends on it)
+ */
+export const DISEASE_LABELS: DiseaseLabel[] = [
+  'dengue',
+  'malaria',
+  'influenza',
+  'typhoid',
+  'heat_stroke',
+  'respiratory_infection',
+  'pneumonia',
+  'allergic_rhinitis',
+  'asthma',
+  'dehydration',
+  'gastroenteritis',
+  'skin_infection',
+]
+
+/**
+ * Labels of a training point: null where the disease was not observed (surveillance data
+ * only covers the diseases a district reports), which leaves it out of the loss and evaluation
+ */
+export type TrainingLabels = { [label in DiseaseLabel]: number | null }
+
+export type TrainingDataPoint = TrainingFeatures & TrainingLabels
+
 /**
  * Generate synthetic training data based on medical research
- * This simulates historical data that would come from real outbreak records
+ * Labels come from rule-like risk formulas, so this only bootstraps the model
+ * until surveillance data is available (see `surveillanceData`)
  */
 export function generateTrainingData(numSamples: number = 2000): TrainingDataPoint[] {
   const data: TrainingDataPoint[] = []
@@ -0,0 +1,109 @@
+/**
+ * Nearest Hospital Search
+ * Ranks hospitals by distance from a search origin and by free beds,
+ * after dropping hospitals that lack the resources a patient needs
+ */
+
+import { getFreeBeds } from './hospitalAvailability'
+import { getOxygenSupplyLitres } from './oxygenSupply'
+import type { Hospital, RankedHospital, RequiredResource, SearchOrigin } from './types/hospital'
+
+/**
+ * Required-resource filters in display order
+ */
+export const REQUIRED_RESOURCES: { resource: RequiredResource; label: string }[] = [
+  { resource: 'oxygen', label: 'Needs oxygen' },
+  { resource: 'icu', label: 'Needs ICU' },
+  { resource: 'ventilator', label: 'Needs ventilator' },
+]
+
+const EARTH_RADIUS_KM = 6371
+
+// Free beds beyond this count no longer improve a hospital's rank
+const FREE_BEDS_CAP = 10
+
+/**
+ * Great-circle distance between two points (Haversine formula)
+ */
+export function calculateDistanceKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+  const dLat = toRadians(to.latitude - from.latitude)
+  const dLon = toRadians(to.longitude - from.longitude)
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a))
+}
+
+/**
+ * Whether a hospital currently has every required resource
+ * ICU requirements are met by regular or ventilator ICU beds
+ */
+export function hasRequiredResources(hospital: Hospital, resources: RequiredResource[]): boolean {
+  if (resources.length === 0) return true
+
+  const avail = hospital.availability?.[0]
+  if (!avail) return false
+
+  return resources.every(resource => {
+    switch (resource) {
+      case 'oxygen':
+        return getOxygenSupplyLitres(avail.oxygen) > 0
+      case 'icu':
+        return getFreeBeds(avail.wards.icu) + getFreeBeds(avail.wards.icu_ventilator) > 0
+      case 'ventilator':
+        return getFreeBeds(avail.wards.icu_ventilator) > 0
+    }
+  })
+}
+
+/**
+ * Hospitals whose coordinates were never set are stored as (0, 0)
+ */
+function hasCoordinates(hospital: Hospital): boolean {
+  return hospital.latitude !== 0 || hospital.longitude !== 0
+}
+
+/**
+ * Ranks hospitals for a "find beds near me" search
+ *
+ * Hospitals with free beds always come before full ones. Within each group
+ * the score is the distance shrunk by up to half for plentiful free beds,
+ * so a well-stocked hospital can outrank a slightly closer, nearly full one.
+ *
+ * @param getRelevantFreeBeds - Free beds that count for the search (e.g. a single ward type)
+ */
+export function rankHospitalsByProximity(
+  hospitals: Hospital[],
+  origin: SearchOrigin,
+  requiredResources: RequiredResource[],
+  getRelevantFreeBeds: (hospital: Hospital) => number = hospital => hospital.availability?.[0]?.available_beds || 0
+): RankedHospital[] {
+  return hospitals
+    .filter(hospital => hasCoordinates(hospital) && hasRequiredResources(hospital, requiredResources))
+    .map(hospital => {
+      const distance_km = calculateDistanceKm(origin, hospital)
+      const free_beds = getRelevantFreeBeds(hospital)
+      const availabilityFactor = 1 + Math.min(free_beds, FREE_BEDS_CAP) / FREE_BEDS_CAP
+
+      return { hospital, distance_km, free_beds, score: distance_km / availabilityFactor }
+    })
+    .sort((a, b) => {
+      if ((a.free_beds > 0) !== (b.free_beds > 0)) {
+        return a.free_beds > 0 ? -1 : 1
+      }
+      return a.score - b.score
+    })
+}
+
+/**
+ * Formats a distance for hospital cards
+ */
+export function formatDistance(distanceKm: number): string {
+  return distanceKm < 1 ? `${Math.round(distanceKm * 1000)} m` : `${distanceKm.toFixed(1)} km`
+}
@@ -0,0 +1,12 @@
+/**
+ * Disease Outlook Options
+ * Outlook lengths shared by the outlook API and the dashboard; kept apart from
+ * lib/diseaseOutlook so client components do not load the weather providers
+ */
+
+/**
+ * Outlook lengths offered in the UI
+ */
+export const OUTLOOK_DAY_OPTIONS = [7, 14]
+export const DEFAULT_OUTLOOK_DAYS = 7
+export const MAX_OUTLOOK_DAYS = 14
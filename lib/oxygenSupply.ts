@@ -0,0 +1,130 @@
+/**
+ * Oxygen Supply Helpers
+ * Converts cylinders and liquid-oxygen tank level into one gaseous volume,
+ * derives a consumption rate from successive updates and projects depletion
+ */
+
+import type { HospitalAvailability, OxygenSupply } from './types/hospital'
+
+// Gaseous oxygen in a full D-type cylinder (litres at NTP)
+export const CYLINDER_GAS_LITRES = 7000
+
+// One litre of liquid oxygen expands to roughly 861 litres of gas
+export const LIQUID_OXYGEN_EXPANSION_RATIO = 861
+
+// Updates older than this do not influence the consumption rate
+export const OXYGEN_RATE_WINDOW_HOURS = 24
+
+/**
+ * Hospitals projected to run out sooner than this are flagged
+ * Configure with NEXT_PUBLIC_OXYGEN_ALERT_HOURS (default 24)
+ */
+export const OXYGEN_ALERT_HOURS = Number(process.env.NEXT_PUBLIC_OXYGEN_ALERT_HOURS) || 24
+
+const MS_PER_HOUR = 60 * 60 * 1000
+
+/**
+ * Total oxygen on hand as gaseous litres
+ */
+export function getOxygenSupplyLitres(supply: OxygenSupply): number {
+  return supply.cylinders * CYLINDER_GAS_LITRES + supply.tank_litres * LIQUID_OXYGEN_EXPANSION_RATIO
+}
+
+/**
+ * Tank fill level as a percentage (null without a tank)
+ */
+export function getTankFillPercentage(supply: OxygenSupply): number | null {
+  if (supply.tank_capacity_litres <= 0) return null
+  return Math.min((supply.tank_litres / supply.tank_capacity_litres) * 100, 100)
+}
+
+/**
+ * Consumption rate in gaseous litres per hour from successive readings
+ * Intervals where supply went up (a refill) are skipped, since the usage
+ * during them is unknown. Returns null when no interval can be measured.
+ * @param readings - Oldest first
+ */
+export function calculateOxygenConsumptionRate(
+  readings: { timestamp: number; supply_litres: number }[]
+): number | null {
+  let consumedLitres = 0
+  let measuredMs = 0
+
+  for (let i = 1; i < readings.length; i++) {
+    const previous = readings[i - 1]
+    const current = readings[i]
+    const elapsedMs = current.timestamp - previous.timestamp
+
+    if (elapsedMs <= 0 || current.supply_litres > previous.supply_litres) continue
+
+    consumedLitres += previous.supply_litres - current.supply_litres
+    measuredMs += elapsedMs
+  }
+
+  if (measuredMs === 0) return null
+  return consumedLitres / (measuredMs / MS_PER_HOUR)
+}
+
+/**
+ * Projected time the supply runs out (ms since epoch)
+ * Null when nothing is being consumed or the rate is not known yet
+ */
+export function projectDepletionTime(
+  supply: OxygenSupply,
+  consumptionLph: number | null,
+  measuredAt: number
+): number | null {
+  if (!consumptionLph || consumptionLph <= 0) return null
+  return measuredAt + (getOxygenSupplyLitres(supply) / consumptionLph) * MS_PER_HOUR
+}
+
+/**
+ * Hours of oxygen left at the current consumption rate
+ * 0 when the hospital has no oxygen at all, null when no projection is possible
+ */
+export function getHoursUntilDepletion(
+  availability: HospitalAvailability,
+  now: number = Date.now()
+): number | null {
+  if (getOxygenSupplyLitres(availability.oxygen) === 0) return 0
+  if (availability.oxygen_depletes_at === null) return null
+  return Math.max((availability.oxygen_depletes_at - now) / MS_PER_HOUR, 0)
+}
+
+/**
+ * Whether a hospital should be flagged for low oxygen
+ */
+export function isOxygenLow(
+  availability: HospitalAvailability | undefined,
+  thresholdHours: number = OXYGEN_ALERT_HOURS,
+  now: number = Date.now()
+): boolean {
+  if (!availability) return false
+  const hours = getHoursUntilDepletion(availability, now)
+  return hours !== null && hours < thresholdHours
+}
+
+/**
+ * Formats hours until depletion for hospital cards
+ */
+export function formatHoursUntilDepletion(hours: number | null): string {
+  if (hours === null) return 'No usage measured'
+  if (hours === 0) return 'Depleted'
+  if (hours < 1) return `${Math.round(hours * 60)}m left`
+  if (hours < 72) return `${hours.toFixed(1)}h left`
+  return `${Math.round(hours / 24)}d left`
+}
+
+/**
+ * Validates oxygen stock entered in the admin form
+ * @returns Error message, or null when the stock is valid
+ */
+export function validateOxygenSupply(supply: OxygenSupply): string | null {
+  if (supply.cylinders < 0 || supply.tank_litres < 0 || supply.tank_capacity_litres < 0) {
+    return 'Oxygen values cannot be negative'
+  }
+  if (supply.tank_litres > supply.tank_capacity_litres) {
+    return `Liquid oxygen level (${supply.tank_litres} L) exceeds tank capacity (${supply.tank_capacity_litres} L)`
+  }
+  return null
+}
@@ -0,0 +1,222 @@
+/**
+ * PIN Code Directory
+ * PIN code → post office, district, state and coordinates, stored in Firestore
+ * (`pincode_directory`, document ID = PIN code) so analyses do not depend on a live
+ * lookup for every PIN code
+ *
+ * Filled from the India Post "All India Pincode Directory" dataset (data.gov.in) with
+ * scripts/importPinCodeDirectory.ts; PIN codes missing from it are looked up on the
+ * network by `getLocationFromPinCode` and cached back here. Both write through the
+ * Admin SDK (server only); firestore.rules lets other clients only read.
+ *
+ * Dataset columns used (header row, any order, case-insensitive):
+ * officename, pincode, officetype, district (or districtname), statename, latitude, longitude
+ */
+
+import { db } from './firebase'
+import { getAdminDb } from './firebaseAdmin'
+import { doc, getDoc } from 'firebase/firestore'
+import { Timestamp } from 'firebase-admin/firestore'
+import { parseCsvLine } from './csv'
+
+export const PINCODE_DIRECTORY_COLLECTION = 'pincode_directory'
+
+// Firestore allows at most 500 writes per batch
+const BATCH_SIZE = 500
+
+// Head offices describe a PIN code best, then sub offices, then branch offices
+const OFFICE_TYPE_PRIORITY = ['H.O', 'S.O', 'B.O']
+
+// Coordinates outside this box are data errors in the dataset
+const INDIA_BOUNDS = { minLatitude: 6, maxLatitude: 38, minLongitude: 68, maxLongitude: 98 }
+
+export interface PinCodeDirectoryEntry {
+  pincode: string
+  office: string // Post office the PIN code is named after
+  district: string
+  state: string
+  latitude: number
+  longitude: number
+  source: 'india_post' | 'lookup' // Dataset import, or cached from a network lookup
+}
+
+// Directory entries read during this session (PIN codes rarely change)
+const memoryCache = new Map<string, PinCodeDirectoryEntry>()
+
+/**
+ * 'NORTH WEST DELHI' → 'North West Delhi'; names already in mixed case are kept
+ */
+function toTitleCase(name: string): string {
+  if (name !== name.toUpperCase()) return name
+  return name
+    .toLowerCase()
+    .replace(/\b[a-z]/g, letter => letter.toUpperCase())
+    .replace(/\b(And|Of)\b/g, word => word.toLowerCase())
+}
+
+/**
+ * Valid coordinates within India; latitude and longitude swapped in the dataset are corrected
+ */
+function parseCoordinates(latitude: string, longitude: string): { latitude: number; longitude: number } | null {
+  let lat = Number(latitude)
+  let lon = Number(longitude)
+  if (latitude === '' || longitude === '' || isNaN(lat) || isNaN(lon)) return null
+
+  const inIndia = (a: number, b: number) =>
+    a >= INDIA_BOUNDS.minLatitude && a <= INDIA_BOUNDS.maxLatitude &&
+    b >= INDIA_BOUNDS.minLongitude && b <= INDIA_BOUNDS.maxLongitude
+  if (!inIndia(lat, lon)) {
+    if (!inIndia(lon, lat)) return null
+    ;[lat, lon] = [lon, lat]
+  }
+  return { latitude: lat, longitude: lon }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * Parses the India Post dataset into one entry per PIN code
+ * Offices sharing a PIN code are combined: names come from the highest-ranked office
+ * and coordinates are the median of the offices' valid coordinates (robust to stray ones).
+ * PIN codes without any valid coordinates are counted in `skipped` and left to network lookups.
+ */
+export function parseIndiaPostCsv(csv: string): {
+  entries: PinCodeDirectoryEntry[]
+  skipped: number
+  errors: string[]
+} {
+  const lines = csv.split(/\r?\n/).filter(line => line.trim() !== '')
+  if (lines.length === 0) {
+    return { entries: [], skipped: 0, errors: ['CSV is empty'] }
+  }
+
+  const header = parseCsvLine(lines[0]).map(name => name.toLowerCase().replace(/[^a-z]/g, ''))
+  const column = (...names: string[]) => header.findIndex(name => names.includes(name))
+  const columns = {
+    office: column('officename'),
+    pincode: column('pincode'),
+    officeType: column('officetype'),
+    district: column('district', 'districtname'),
+    state: column('statename', 'state'),
+    latitude: column('latitude'),
+    longitude: column('longitude'),
+  }
+  const missing = Object.entries(columns).filter(([, index]) => index === -1).map(([name]) => name)
+  if (missing.length > 0) {
+    return { entries: [], skipped: 0, errors: [`Missing column(s): ${missing.join(', ')}`] }
+  }
+
+  type Office = { office: string; rank: number; district: string; state: string; coordinates: { latitude: number; longitude: number } | null }
+  const offices = new Map<string, Office[]>()
+  const errors: string[] = []
+
+  lines.slice(1).forEach((line, index) => {
+    const values = parseCsvLine(line)
+    const pincode = values[columns.pincode] ?? ''
+    if (!/^\d{6}$/.test(pincode)) {
+      errors.push(`Line ${index + 2}: pincode must be 6 digits`)
+      return
+    }
+
+    const officeType = (values[columns.officeType] || '').toUpperCase().replace(/\s/g, '')
+    const rank = OFFICE_TYPE_PRIORITY.indexOf(officeType)
+    offices.set(pincode, [...(offices.get(pincode) || []), {
+      office: values[columns.office] || '',
+      rank: rank === -1 ? OFFICE_TYPE_PRIORITY.length : rank,
+      district: toTitleCase(values[columns.district] || ''),
+      state: toTitleCase(values[columns.state] || ''),
+      coordinates: parseCoordinates(values[columns.latitude] ?? '', values[columns.longitude] ?? ''),
+    }])
+  })
+
+  const entries: PinCodeDirectoryEntry[] = []
+  let skipped = 0
+
+  offices.forEach((pinOffices, pincode) => {
+    const located = pinOffices.filter(office => office.coordinates && office.district && office.state)
+    if (located.length === 0) {
+      skipped++
+      return
+    }
+
+    const main = [...located].sort((a, b) => a.rank - b.rank)[0]
+    entries.push({
+      pincode,
+      office: main.office,
+      district: main.district,
+      state: main.state,
+      latitude: Number(median(located.map(office => office.coordinates!.latitude)).toFixed(4)),
+      longitude: Number(median(located.map(office => office.coordinates!.longitude)).toFixed(4)),
+      source: 'india_post',
+    })
+  })
+
+  return { entries, skipped, errors }
+}
+
+/**
+ * Stores directory entries; re-importing a PIN code replaces it
+ * @returns Number of entries written
+ * @throws Error when FIREBASE_SERVICE_ACCOUNT_KEY is missing
+ */
+export async function importPinCodeEntries(entries: PinCodeDirectoryEntry[]): Promise<number> {
+  const adminDb = getAdminDb()
+  const importedAt = Timestamp.now()
+
+  for (let start = 0; start < entries.length; start += BATCH_SIZE) {
+    const batch = adminDb.batch()
+    entries.slice(start, start + BATCH_SIZE).forEach(entry => {
+      batch.set(adminDb.collection(PINCODE_DIRECTORY_COLLECTION).doc(entry.pincode), { ...entry, updated_at: importedAt })
+    })
+    await batch.commit()
+  }
+
+  console.log(`🗂️ Imported ${entries.length} PIN code(s) into the directory`)
+  return entries.length
+}
+
+/**
+ * Directory entry for a PIN code (null when not in the directory or Firestore cannot be read)
+ */
+export async function getPinCodeEntry(pincode: string): Promise<PinCodeDirectoryEntry | null> {
+  const cached = memoryCache.get(pincode)
+  if (cached) return cached
+
+  try {
+    const snapshot = await getDoc(doc(db, PINCODE_DIRECTORY_COLLECTION, pincode))
+    if (!snapshot.exists()) return null
+
+    const data = snapshot.data()
+    const entry: PinCodeDirectoryEntry = {
+      pincode,
+      office: data.office,
+      district: data.district,
+      state: data.state,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      source: data.source,
+    }
+    memoryCache.set(pincode, entry)
+    return entry
+  } catch (error) {
+    console.warn(`⚠️ Could not read PIN code ${pincode} from the directory:`, error)
+    return null
+  }
+}
+
+/**
+ * Caches a network lookup in the directory; failures are logged and ignored
+ */
+export async function savePinCodeEntry(entry: PinCodeDirectoryEntry): Promise<void> {
+  memoryCache.set(entry.pincode, entry)
+  try {
+    await getAdminDb().collection(PINCODE_DIRECTORY_COLLECTION).doc(entry.pincode).set({ ...entry, updated_at: Timestamp.now() })
+    console.log(`🗂️ Cached PIN code ${entry.pincode} (${entry.district}, ${entry.state}) in the directory`)
+  } catch (error) {
+    console.warn(`⚠️ Could not cache PIN code ${entry.pincode} in the directory:`, error)
+  }
+}
@@ -3,9 +3,26 @@
  * Integrates PIN code location lookup with weather-based disease prediction
  */
 
-import type { WeatherData, DoctorRequirement, DiseasePrediction } from './types/doctor-module'
+import type {
+  WeatherData,
+  DoctorRequirement,
+  DiseasePrediction,
+  DiseaseOutlookSummary,
+  SeasonalContext,
+  RegisteredLocation,
+} from './types/doctor-module'
 import { fetchWeatherFromAPI } from './fetchWeatherData'
 import { predictDiseases } from './predictDisease'
+import { loadDiseaseDefinitions } from './diseaseRuleStore'
+import { getDiseaseOutlook, DEFAULT_OUTLOOK_DAYS } from './diseaseOutlook'
+import { withLaggedFeatures } from './weatherHistory'
+import { withAirQuality, getAqiCategory } from './airQuality'
+import { getSeasonalContext } from './seasonalPriors'
+import { loadSeasonalPriorConfig } from './seasonalPriorStore'
+import { filterDefinitionsForLocation } from './diseaseCatalog'
+import { findLocation, getLargestLocationInState, getPopulationFactor } from './locationRegistry'
+import { loadLocations } from './locationStore'
+import { getPinCodeEntry, savePinCodeEntry, type PinCodeDirectoryEntry } from './pinCodeDirectory'
 
 /**
  * PIN code to location coordinates mapping
@@ -18,124 +35,7 @@ interface PinCodeLocation {
   state: string
   latitude: number
   longitude: number
-}
-
-/**
- * Major Indian cities with coordinates (for PIN code matching)
- * These are approximate city centers - can be refined with actual PIN code geocoding
- */
-const INDIAN_CITY_COORDINATES: Record<string, { latitude: number; longitude: number }> = {
-  // Karnataka
-  'Bangalore': { latitude: 12.9716, longitude: 77.5946 },
-  'Mysore': { latitude: 12.2958, longitude: 76.6394 },
-  'Mangalore': { latitude: 12.9141, longitude: 74.8560 },
-  
-  // Maharashtra
-  'Mumbai': { latitude: 19.0760, longitude: 72.8777 },
-  'Pune': { latitude: 18.5204, longitude: 73.8567 },
-  'Nagpur': { latitude: 21.1458, longitude: 79.0882 },
-  
-  // Tamil Nadu
-  'Chennai': { latitude: 13.0827, longitude: 80.2707 },
-  'Coimbatore': { latitude: 11.0168, longitude: 76.9558 },
-  'Madurai': { latitude: 9.9252, longitude: 78.1198 },
-  
-  // Delhi NCR
-  'New Delhi': { latitude: 28.6139, longitude: 77.2090 },
-  'Delhi': { latitude: 28.7041, longitude: 77.1025 },
-  'Gurgaon': { latitude: 28.4595, longitude: 77.0266 },
-  'Noida': { latitude: 28.5355, longitude: 77.3910 },
-  
-  // West Bengal
-  'Kolkata': { latitude: 22.5726, longitude: 88.3639 },
-  
-  // Telangana
-  'Hyderabad': { latitude: 17.3850, longitude: 78.4867 },
-  
-  // Gujarat
-  'Ahmedabad': { latitude: 23.0225, longitude: 72.5714 },
-  'Surat': { latitude: 21.1702, longitude: 72.8311 },
-  
-  // Rajasthan
-  'Jaipur': { latitude: 26.9124, longitude: 75.7873 },
-  
-  // Kerala
-  'Kochi': { latitude: 9.9312, longitude: 76.2673 },
-  'Thiruvananthapuram': { latitude: 8.5241, longitude: 76.9366 },
-  
-  // Add more cities as needed
-}
-
-/**
- * Get estimated population factor based on city/district
- * This scales doctor requirements based on urban density
- */
-function getPopulationFactor(city: string, district: string): number {
-  // Metropolitan cities (High density) - 2.5x multiplier
-  const metroCities = ['Mumbai', 'Delhi', 'Bangalore', 'Chennai', 'Kolkata', 'Hyderabad', 'Pune', 'Ahmedabad']
-  
-  // Tier-1 cities (Medium-high density) - 2.0x multiplier
-  const tier1Cities = ['Surat', 'Jaipur', 'Lucknow', 'Kanpur', 'Nagpur', 'Indore', 'Thane', 'Bhopal', 
-                       'Visakhapatnam', 'Patna', 'Vadodara', 'Ghaziabad', 'Ludhiana', 'Coimbatore']
-  
-  // Tier-2 cities (Medium density) - 1.5x multiplier
-  const tier2Cities = ['Madurai', 'Nashik', 'Faridabad', 'Rajkot', 'Meerut', 'Varanasi', 'Srinagar', 
-                       'Amritsar', 'Allahabad', 'Ranchi', 'Jabalpur', 'Gwalior', 'Vijayawada', 'Jodhpur']
-  
-  // Check city against tiers
-  const cityName = city.toLowerCase()
-  const districtName = district?.toLowerCase() || ''
-  
-  if (metroCities.some(c => cityName.includes(c.toLowerCase()) || districtName.includes(c.toLowerCase()))) {
-    return 2.5
-  }
-  
-  if (tier1Cities.some(c => cityName.includes(c.toLowerCase()) || districtName.includes(c.toLowerCase()))) {
-    return 2.0
-  }
-  
-  if (tier2Cities.some(c => cityName.includes(c.toLowerCase()) || districtName.includes(c.toLowerCase()))) {
-    return 1.5
-  }
-  
-  // Small towns/rural areas - 1.0x (base multiplier)
-  return 1.0
-}
-
-/**
- * State capital coordinates for fallback
- */
-const STATE_CAPITALS: Record<string, { latitude: number; longitude: number }> = {
-  'Karnataka': { latitude: 12.9716, longitude: 77.5946 }, // Bangalore
-  'Maharashtra': { latitude: 19.0760, longitude: 72.8777 }, // Mumbai
-  'Tamil Nadu': { latitude: 13.0827, longitude: 80.2707 }, // Chennai
-  'Delhi': { latitude: 28.7041, longitude: 77.1025 }, // Delhi
-  'West Bengal': { latitude: 22.5726, longitude: 88.3639 }, // Kolkata
-  'Telangana': { latitude: 17.3850, longitude: 78.4867 }, // Hyderabad
-  'Gujarat': { latitude: 23.0225, longitude: 72.5714 }, // Ahmedabad
-  'Rajasthan': { latitude: 26.9124, longitude: 75.7873 }, // Jaipur
-  'Kerala': { latitude: 8.5241, longitude: 76.9366 }, // Thiruvananthapuram
-  'Uttar Pradesh': { latitude: 26.8467, longitude: 80.9462 }, // Lucknow
-  'Madhya Pradesh': { latitude: 23.2599, longitude: 77.4126 }, // Bhopal
-  'Punjab': { latitude: 30.7333, longitude: 76.7794 }, // Chandigarh
-  'Andhra Pradesh': { latitude: 16.5062, longitude: 80.6480 }, // Amaravati
-  'Haryana': { latitude: 30.7333, longitude: 76.7794 }, // Chandigarh
-  'Bihar': { latitude: 25.5941, longitude: 85.1376 }, // Patna
-  'Odisha': { latitude: 20.2961, longitude: 85.8245 }, // Bhubaneswar
-  'Assam': { latitude: 26.1445, longitude: 91.7362 }, // Guwahati
-  'Jharkhand': { latitude: 23.3441, longitude: 85.3096 }, // Ranchi
-  'Chhattisgarh': { latitude: 21.2514, longitude: 81.6296 }, // Raipur
-  'Uttarakhand': { latitude: 30.0668, longitude: 79.0193 }, // Dehradun
-  'Himachal Pradesh': { latitude: 31.1048, longitude: 77.1734 }, // Shimla
-  'Jammu and Kashmir': { latitude: 34.0837, longitude: 74.7973 }, // Srinagar
-  'Goa': { latitude: 15.2993, longitude: 74.1240 }, // Panaji
-}
-
-/**
- * Get state capital coordinates as fallback
- */
-function getStateCapitalCoordinates(state: string): { latitude: number; longitude: number } | null {
-  return STATE_CAPITALS[state] || null
+  population?: number // Set when the PIN code resolves to a registered location
 }
 
 /**
@@ -166,7 +66,42 @@ async function geocodeLocation(locationString: string): Promise<{ latitude: numb
 }
 
 /**
- * Fetches location details from PIN code using India Post API
+ * Coordinates of a district, from the location registry or by geocoding
+ * Unlike PIN code lookups there is no state-level fallback, so callers can skip unknown districts
+ */
+export async function getDistrictCoordinates(
+  district: string,
+  state: string
+): Promise<{ latitude: number; longitude: number } | null> {
+  const known = findLocation(await loadLocations(), district, state)
+  return known
+    ? { latitude: known.latitude, longitude: known.longitude }
+    : geocodeLocation(`${district}, ${state}, India`)
+}
+
+/**
+ * Location for a PIN code directory entry
+ * The city name and population come from the location registry when the district
+ * (or post office) is registered; the coordinates are always the PIN code's own.
+ */
+function toPinCodeLocation(entry: PinCodeDirectoryEntry, locations: RegisteredLocation[]): PinCodeLocation {
+  const registered = findLocation(locations, entry.district, entry.state) ||
+                     findLocation(locations, entry.office, entry.state)
+  return {
+    pincode: entry.pincode,
+    city: registered?.city || entry.district,
+    district: entry.district,
+    state: entry.state,
+    latitude: entry.latitude,
+    longitude: entry.longitude,
+    ...(registered && { population: registered.population }),
+  }
+}
+
+/**
+ * Fetches location details from PIN code
+ * Reads the PIN code directory first; PIN codes missing from it are looked up with the
+ * India Post API and, once located, cached back into the directory.
  */
 export async function getLocationFromPinCode(pincode: string): Promise<PinCodeLocation | null> {
   try {
@@ -174,6 +109,12 @@ export async function getLocationFromPinCode(pincode: string): Promise<PinCodeLo
       throw new Error('Invalid PIN code format')
     }
 
+    const locations = await loadLocations()
+    const entry = await getPinCodeEntry(pincode)
+    if (entry) {
+      return toPinCodeLocation(entry, locations)
+    }
+
     const response = await fetch(`https://api.postalpincode.in/pincode/${pincode}`)
     const data = await response.json()
 
@@ -182,30 +123,35 @@ export async function getLocationFromPinCode(pincode: string): Promise<PinCodeLo
       const city = postOffice.District || postOffice.Name
       const state = postOffice.State
       
-      // Try to get coordinates from our predefined list
-      let coordinates = INDIAN_CITY_COORDINATES[city] || 
-                       INDIAN_CITY_COORDINATES[postOffice.District]
-      
-      // If not found in our list, try to geocode the city+state
-      if (!coordinates || (coordinates.latitude === 0 && coordinates.longitude === 0)) {
-        const geocoded = await geocodeLocation(`${city}, ${state}, India`)
-        if (geocoded) {
-          coordinates = geocoded
+      // Try the location registry first (district, then post office name), then geocode the city+state
+      const registered = findLocation(locations, postOffice.District || '', state) ||
+                         findLocation(locations, postOffice.Name || '', state)
+      const coordinates = registered || await geocodeLocation(`${city}, ${state}, India`)
+
+      if (coordinates && !(coordinates.latitude === 0 && coordinates.longitude === 0)) {
+        const lookedUp: PinCodeDirectoryEntry = {
+          pincode,
+          office: postOffice.Name || city,
+          district: postOffice.District || city,
+          state,
+          latitude: coordinates.latitude,
+          longitude: coordinates.longitude,
+          source: 'lookup',
         }
+        await savePinCodeEntry(lookedUp)
+        return toPinCodeLocation(lookedUp, locations)
       }
-      
-      // If still no coordinates, use state capital or major city as fallback
-      if (!coordinates || (coordinates.latitude === 0 && coordinates.longitude === 0)) {
-        coordinates = getStateCapitalCoordinates(state) || { latitude: 20.5937, longitude: 78.9629 } // India center
-      }
+
+      // Not located: use the largest registered city in the state (not cached, so a later lookup can do better)
+      const fallback = getLargestLocationInState(locations, state) || { latitude: 20.5937, longitude: 78.9629 } // India center
 
       return {
         pincode,
         city,
         district: postOffice.District,
         state: state,
-        latitude: coordinates.latitude,
-        longitude: coordinates.longitude,
+        latitude: fallback.latitude,
+        longitude: fallback.longitude,
       }
     }
 
@@ -224,6 +170,7 @@ export async function analyzeDiseaseByPinCode(pincode: string): Promise<{
   location: PinCodeLocation | null
   weather: WeatherData | null
   diseases: DiseasePrediction[]
+  season: SeasonalContext | null
   doctorRequirements: DoctorRequirement[]
   totalDoctorsRequired: number
   summary: string
@@ -247,6 +194,7 @@ export async function analyzeDiseaseByPinCode(pincode: string): Promise<{
         location,
         weather: null,
         diseases: [],
+        season: null,
         doctorRequirements: [],
         totalDoctorsRequired: 0,
         summary: `Location ${location.city} found, but coordinates not available. Please add coordinates for this city.`
@@ -255,27 +203,30 @@ export async function analyzeDiseaseByPinCode(pincode: string): Promise<{
 
     // Step 3: Fetch weather data for the location
     console.log(`🌤️ Fetching weather data for ${location.city}...`)
-    const weather = await fetchWeatherFromAPI({
+    const weather = await withLaggedFeatures(await withAirQuality(await fetchWeatherFromAPI({
       latitude: location.latitude,
       longitude: location.longitude,
       city: location.city,
-    })
+    }), location))
 
     console.log(`✅ Weather data: ${weather.temperature}°C, ${weather.humidity}% humidity, ${weather.rainfall}mm rain`)
 
-    // Step 4: Predict diseases based on weather
+    // Step 4: Predict diseases endemic to the location based on weather
     console.log(`🦠 Predicting diseases...`)
-    const diseases = predictDiseases(weather)
+    const season = getSeasonalContext(location.state, new Date(), await loadSeasonalPriorConfig())
+    const definitions = filterDefinitionsForLocation(await loadDiseaseDefinitions(), location)
+    const diseases = predictDiseases(weather, definitions, season)
     console.log(`✅ Found ${diseases.length} potential disease risks`)
 
     // Step 5: Get population factor for this location
-    const populationFactor = getPopulationFactor(location.city, location.district)
+    const populationFactor = getPopulationFactor(location.population)
     console.log(`📊 Population factor for ${location.city}: ${populationFactor}x`)
 
     // Step 6: Calculate doctor requirements with population scaling
     const doctorRequirements: DoctorRequirement[] = diseases.map(disease => ({
-      id: `${location.pincode}-${disease.disease}`,
+      id: `${location.pincode}-${disease.disease_id}`,
       city: location.city,
+      disease_id: disease.disease_id,
       predicted_disease: disease.disease,
       risk_level: disease.risk_level,
       required_doctors: Math.ceil(disease.required_doctors * populationFactor),
@@ -297,6 +248,7 @@ export async function analyzeDiseaseByPinCode(pincode: string): Promise<{
       location,
       weather,
       diseases,
+      season,
       doctorRequirements,
       totalDoctorsRequired,
       summary,
@@ -307,6 +259,40 @@ export async function analyzeDiseaseByPinCode(pincode: string): Promise<{
   }
 }
 
+/**
+ * Multi-day disease outlook for a PIN code
+ * Peak doctor counts are scaled by the location's population factor
+ */
+export async function getDiseaseOutlookByPinCode(
+  pincode: string,
+  days: number = DEFAULT_OUTLOOK_DAYS
+): Promise<{ location: PinCodeLocation; outlook: DiseaseOutlookSummary } | null> {
+  try {
+    const location = await getLocationFromPinCode(pincode)
+    if (!location || (location.latitude === 0 && location.longitude === 0)) {
+      console.error('❌ Could not locate PIN code for outlook:', pincode)
+      return null
+    }
+
+    const outlook = await getDiseaseOutlook({
+      latitude: location.latitude,
+      longitude: location.longitude,
+      city: location.city,
+    }, days, location)
+
+    const populationFactor = getPopulationFactor(location.population)
+    outlook.diseases = outlook.diseases.map(disease => ({
+      ...disease,
+      peak_required_doctors: Math.ceil(disease.peak_required_doctors * populationFactor),
+    }))
+
+    return { location, outlook }
+  } catch (error) {
+    console.error('❌ Error building disease outlook:', error)
+    return null
+  }
+}
+
 /**
  * Generates a human-readable summary of the analysis
  */
@@ -332,7 +318,14 @@ function generateSummary(
   
   let summary = `📍 Location: ${location.city}, ${location.state} (PIN: ${location.pincode})\n`
   summary += `🏙️ Area Type: ${cityType} (Population Factor: ${populationFactor}x)\n`
-  summary += `🌡️ Weather: ${weather.temperature.toFixed(1)}°C, ${weather.humidity.toFixed(0)}% humidity, ${weather.rainfall.toFixed(1)}mm rainfall\n\n`
+  summary += `🌡️ Weather: ${weather.temperature.toFixed(1)}°C, ${weather.humidity.toFixed(0)}% humidity, ${weather.rainfall.toFixed(1)}mm rainfall\n`
+  if (weather.airQuality) {
+    summary += `🌫️ Air Quality: AQI ${weather.airQuality.aqi} (${getAqiCategory(weather.airQuality.aqi)}), PM2.5 ${weather.airQuality.pm25.toFixed(0)} µg/m³\n`
+  }
+  if (weather.historyError) {
+    summary += `⚠️ Weather history unavailable, rainfall/humidity trends not considered: ${weather.historyError}\n`
+  }
+  summary += `\n`
   
   if (diseases.length === 0) {
     summary += `✅ Good news! No significant disease risks detected for current weather conditions.\n`
@@ -430,6 +423,5 @@ export async function getHospitalAreaDiseaseRisk(hospitalPinCode: string): Promi
  * Export for use in API routes and components
  */
 export {
-  INDIAN_CITY_COORDINATES,
   type PinCodeLocation,
 }
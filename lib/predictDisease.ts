@@ -2,29 +2,41 @@
  * Disease Prediction Logic - Rule-Based System
  * Uses weather conditions to predict seasonal disease risks
  * No external ML APIs required - lightweight and fast
+ *
+ * Rules are declarative data evaluated by `diseaseRuleEngine`; the built-in
+ * definitions below can be tuned from Firestore or JSON (see `diseaseRuleStore`)
+ *
+ * Vector- and water-borne diseases also use rolling 7/14/21-day history
+ * (`weatherHistory`); those factors only apply when history is attached.
+ * The weather risk is then adjusted by the month's seasonal prior (`seasonalPriors`).
  */
 
 import type { 
   WeatherData, 
   DiseasePrediction, 
-  DiseaseDefinition 
+  DiseaseDefinition,
+  SeasonalContext
 } from './types/doctor-module'
+import { explainRule } from './diseaseRuleEngine'
+import { applySeasonalPrior } from './seasonalPriors'
 
 /**
- * Disease definitions with prediction rules and thresholds
+ * Predictions at or below this risk level are not reported
+ * Lowered to 0.25 to catch more potential risks
+ */
+export const SIGNIFICANT_RISK_THRESHOLD = 0.25
+
+/**
+ * Built-in disease definitions with prediction rules
  * Updated with research-based multi-factor risk calculations
+ * IDs and names match the disease registry (`diseaseRegistry`)
  */
 export const DISEASE_DEFINITIONS: DiseaseDefinition[] = [
   {
+    id: 'dengue',
     name: 'Dengue Fever',
     specialty: 'Infectious Disease',
     doctors_required: 5,
-    thresholds: {
-      temperature_min: 20,
-      temperature_max: 35,
-      humidity_min: 70,
-      rainfall_min: 5,
-    },
     description: 'Mosquito-borne viral infection common in tropical regions',
     symptoms: [
       'High fever (40°C/104°F)',
@@ -41,54 +53,63 @@ export const DISEASE_DEFINITIONS: DiseaseDefinition[] = [
       'Use mosquito nets',
       'Install window screens'
     ],
-    risk_calculator: (weather: WeatherData): number => {
-      let risk = 0
-      
-      // Optimal dengue breeding temperature: 25-30°C (highest risk)
-      if (weather.temperature >= 25 && weather.temperature <= 30) {
-        risk += 0.35
-      } else if (weather.temperature >= 20 && weather.temperature <= 35) {
-        risk += 0.20
-      }
-      
-      // High humidity is critical for mosquito survival (>70% optimal)
-      if (weather.humidity > 80) {
-        risk += 0.30
-      } else if (weather.humidity > 70) {
-        risk += 0.20
-      }
-      
-      // Rainfall creates breeding grounds (5-20mm optimal)
-      if (weather.rainfall >= 5 && weather.rainfall <= 20) {
-        risk += 0.25
-      } else if (weather.rainfall > 20) {
-        risk += 0.15 // Too much rain can flush out larvae
-      }
-      
-      // Low wind speed allows mosquitoes to fly (<15 km/h)
-      if (weather.windSpeed !== undefined && weather.windSpeed < 15) {
-        risk += 0.10
-      }
-      
-      // Compound risk for perfect dengue conditions
-      if (weather.temperature >= 25 && weather.temperature <= 30 && 
-          weather.humidity > 75 && weather.rainfall >= 5) {
-        risk = Math.min(risk + 0.15, 1.0)
-      }
-      
-      return Math.min(risk, 1.0)
+    rule: {
+      factors: [
+        {
+          label: 'Optimal dengue breeding temperature: 25-30°C (highest risk)',
+          tiers: [
+            { when: [{ field: 'temperature', gte: 25, lte: 30 }], weight: 0.35 },
+            { when: [{ field: 'temperature', gte: 20, lte: 35 }], weight: 0.20 },
+          ],
+        },
+        {
+          label: 'High humidity is critical for mosquito survival (>70% optimal)',
+          tiers: [
+            { when: [{ field: 'humidity', gt: 80 }], weight: 0.30 },
+            { when: [{ field: 'humidity', gt: 70 }], weight: 0.20 },
+          ],
+        },
+        {
+          label: 'Rainfall creates breeding grounds (5-20mm optimal, heavier rain flushes larvae)',
+          tiers: [
+            { when: [{ field: 'rainfall', gte: 5, lte: 20 }], weight: 0.25 },
+            { when: [{ field: 'rainfall', gt: 20 }], weight: 0.15 },
+          ],
+        },
+        {
+          label: 'Low wind speed allows mosquitoes to fly (<15 km/h)',
+          tiers: [
+            { when: [{ field: 'windSpeed', lt: 15 }], weight: 0.10 },
+          ],
+        },
+        {
+          label: 'Rain over the past 2 weeks left breeding sites (larvae take 7-14 days to mature)',
+          tiers: [
+            { when: [{ field: 'rainfall14d', gte: 60 }], weight: 0.15 },
+            { when: [{ field: 'rainfall14d', gte: 25 }], weight: 0.08 },
+          ],
+        },
+        {
+          label: 'Warmth accumulated over the past 2 weeks shortens virus incubation in mosquitoes',
+          tiers: [
+            { when: [{ field: 'degreeDays14d', gte: 120 }], weight: 0.10 },
+          ],
+        },
+      ],
+      bonuses: [
+        {
+          label: 'Compound risk for perfect dengue conditions',
+          when: [{ field: 'temperature', gte: 25, lte: 30 }, { field: 'humidity', gt: 75 }, { field: 'rainfall', gte: 5 }],
+          weight: 0.15,
+        },
+      ],
     }
   },
   {
+    id: 'malaria',
     name: 'Malaria',
     specialty: 'Infectious Disease',
     doctors_required: 6,
-    thresholds: {
-      temperature_min: 18,
-      temperature_max: 32,
-      humidity_min: 60,
-      rainfall_min: 3,
-    },
     description: 'Parasitic disease transmitted by Anopheles mosquitoes',
     symptoms: [
       'Cyclical fever and chills',
@@ -106,44 +127,68 @@ export const DISEASE_DEFINITIONS: DiseaseDefinition[] = [
       'Eliminate standing water',
       'Indoor residual spraying'
     ],
-    risk_calculator: (weather: WeatherData): number => {
-      let risk = 0
-      
-      // Malaria parasites develop optimally at 20-30°C
-      if (weather.temperature >= 20 && weather.temperature <= 30) {
-        risk += 0.35
-      } else if (weather.temperature >= 18 && weather.temperature <= 32) {
-        risk += 0.20
-      }
-      
-      // High humidity (60-90%) crucial for mosquito survival
-      if (weather.humidity >= 70 && weather.humidity <= 90) {
-        risk += 0.30
-      } else if (weather.humidity >= 60) {
-        risk += 0.20
-      }
-      
-      // Moderate rainfall creates breeding sites
-      if (weather.rainfall >= 3 && weather.rainfall <= 15) {
-        risk += 0.25
-      }
-      
-      // Low wind speed (<10 km/h) helps mosquito activity
-      if (weather.windSpeed !== undefined && weather.windSpeed < 10) {
-        risk += 0.10
-      }
-      
-      return Math.min(risk, 1.0)
+    // Not transmitted in the cold Himalayan states; only the Terai belt of Uttarakhand
+    endemic: {
+      states: [
+        'Andhra Pradesh', 'Arunachal Pradesh', 'Assam', 'Bihar', 'Chandigarh', 'Chhattisgarh',
+        'Dadra and Nagar Haveli and Daman and Diu', 'Delhi', 'Goa', 'Gujarat', 'Haryana',
+        'Jharkhand', 'Karnataka', 'Kerala', 'Madhya Pradesh', 'Maharashtra', 'Manipur',
+        'Meghalaya', 'Mizoram', 'Nagaland', 'Odisha', 'Puducherry', 'Punjab', 'Rajasthan',
+        'Tamil Nadu', 'Telangana', 'Tripura', 'Uttar Pradesh', 'West Bengal',
+        'Andaman and Nicobar Islands',
+      ],
+      districts: ['Haridwar', 'Udham Singh Nagar', 'Nainital'],
+    },
+    rule: {
+      factors: [
+        {
+          label: 'Malaria parasites develop optimally at 20-30°C',
+          tiers: [
+            { when: [{ field: 'temperature', gte: 20, lte: 30 }], weight: 0.35 },
+            { when: [{ field: 'temperature', gte: 18, lte: 32 }], weight: 0.20 },
+          ],
+        },
+        {
+          label: 'High humidity (60-90%) crucial for mosquito survival',
+          tiers: [
+            { when: [{ field: 'humidity', gte: 70, lte: 90 }], weight: 0.30 },
+            { when: [{ field: 'humidity', gte: 60 }], weight: 0.20 },
+          ],
+        },
+        {
+          label: 'Moderate rainfall creates breeding sites',
+          tiers: [
+            { when: [{ field: 'rainfall', gte: 3, lte: 15 }], weight: 0.25 },
+          ],
+        },
+        {
+          label: 'Low wind speed (<10 km/h) helps mosquito activity',
+          tiers: [
+            { when: [{ field: 'windSpeed', lt: 10 }], weight: 0.10 },
+          ],
+        },
+        {
+          label: 'Rain over the past 3 weeks filled Anopheles breeding pools',
+          tiers: [
+            { when: [{ field: 'rainfall21d', gte: 75 }], weight: 0.15 },
+            { when: [{ field: 'rainfall21d', gte: 30 }], weight: 0.08 },
+          ],
+        },
+        {
+          label: 'Sustained humidity (>70% over 2 weeks) lets mosquitoes live long enough to transmit',
+          tiers: [
+            { when: [{ field: 'humidity14d', gt: 70 }], weight: 0.10 },
+          ],
+        },
+      ],
+      bonuses: [],
     }
   },
   {
+    id: 'influenza',
     name: 'Influenza (Flu)',
     specialty: 'General Medicine',
     doctors_required: 3,
-    thresholds: {
-      temperature_max: 20,
-      humidity_min: 40,
-    },
     description: 'Viral infection affecting the respiratory system, common in cold weather',
     symptoms: [
       'Fever and chills',
@@ -161,46 +206,43 @@ export const DISEASE_DEFINITIONS: DiseaseDefinition[] = [
       'Stay home when sick',
       'Boost immune system'
     ],
-    risk_calculator: (weather: WeatherData): number => {
-      let risk = 0
-      
-      // Flu thrives in cold temperatures (5-15°C optimal)
-      if (weather.temperature >= 5 && weather.temperature <= 15) {
-        risk += 0.40
-      } else if (weather.temperature < 20) {
-        risk += 0.25
-      }
-      
-      // Low to moderate humidity (40-70%) helps virus spread
-      if (weather.humidity >= 40 && weather.humidity <= 70) {
-        risk += 0.30
-      } else if (weather.humidity < 40) {
-        risk += 0.20 // Dry air allows longer aerosol survival
-      }
-      
-      // High atmospheric pressure associated with cold, dry conditions
-      if (weather.pressure !== undefined && weather.pressure > 1020) {
-        risk += 0.10
-      }
-      
-      // Winter conditions compound risk
-      if (weather.temperature < 15 && weather.humidity >= 40 && weather.humidity <= 70) {
-        risk = Math.min(risk + 0.15, 1.0)
-      }
-      
-      return Math.min(risk, 1.0)
+    rule: {
+      factors: [
+        {
+          label: 'Flu thrives in cold temperatures (5-15°C optimal)',
+          tiers: [
+            { when: [{ field: 'temperature', gte: 5, lte: 15 }], weight: 0.40 },
+            { when: [{ field: 'temperature', lt: 20 }], weight: 0.25 },
+          ],
+        },
+        {
+          label: 'Low to moderate humidity (40-70%) helps virus spread; dry air allows longer aerosol survival',
+          tiers: [
+            { when: [{ field: 'humidity', gte: 40, lte: 70 }], weight: 0.30 },
+            { when: [{ field: 'humidity', lt: 40 }], weight: 0.20 },
+          ],
+        },
+        {
+          label: 'High atmospheric pressure associated with cold, dry conditions',
+          tiers: [
+            { when: [{ field: 'pressure', gt: 1020 }], weight: 0.10 },
+          ],
+        },
+      ],
+      bonuses: [
+        {
+          label: 'Winter conditions compound risk',
+          when: [{ field: 'temperature', lt: 15 }, { field: 'humidity', gte: 40, lte: 70 }],
+          weight: 0.15,
+        },
+      ],
     }
   },
   {
+    id: 'typhoid',
     name: 'Typhoid Fever',
     specialty: 'Infectious Disease',
     doctors_required: 4,
-    thresholds: {
-      temperature_min: 20,
-      temperature_max: 35,
-      humidity_min: 60,
-      rainfall_min: 2,
-    },
     description: 'Bacterial infection from contaminated water, common after flooding',
     symptoms: [
       'Prolonged high fever',
@@ -218,43 +260,50 @@ export const DISEASE_DEFINITIONS: DiseaseDefinition[] = [
       'Ensure proper sanitation',
       'Cook food thoroughly'
     ],
-    risk_calculator: (weather: WeatherData): number => {
-      let risk = 0
-      
-      // Warm, humid conditions (20-35°C) promote bacterial growth
-      if (weather.temperature >= 25 && weather.temperature <= 35) {
-        risk += 0.35
-      } else if (weather.temperature >= 20) {
-        risk += 0.20
-      }
-      
-      // High humidity increases contamination risk
-      if (weather.humidity > 70) {
-        risk += 0.25
-      }
-      
-      // Heavy rainfall (>10mm) contaminates water supplies
-      if (weather.rainfall > 10) {
-        risk += 0.30
-      } else if (weather.rainfall > 2) {
-        risk += 0.15
-      }
-      
-      // Flooding conditions (high rain + high humidity)
-      if (weather.rainfall > 15 && weather.humidity > 75) {
-        risk = Math.min(risk + 0.20, 1.0)
-      }
-      
-      return Math.min(risk, 1.0)
+    rule: {
+      factors: [
+        {
+          label: 'Warm, humid conditions (20-35°C) promote bacterial growth',
+          tiers: [
+            { when: [{ field: 'temperature', gte: 25, lte: 35 }], weight: 0.35 },
+            { when: [{ field: 'temperature', gte: 20 }], weight: 0.20 },
+          ],
+        },
+        {
+          label: 'High humidity increases contamination risk',
+          tiers: [
+            { when: [{ field: 'humidity', gt: 70 }], weight: 0.25 },
+          ],
+        },
+        {
+          label: 'Heavy rainfall (>10mm) contaminates water supplies',
+          tiers: [
+            { when: [{ field: 'rainfall', gt: 10 }], weight: 0.30 },
+            { when: [{ field: 'rainfall', gt: 2 }], weight: 0.15 },
+          ],
+        },
+        {
+          label: 'Heavy rain over the past week contaminates water supplies',
+          tiers: [
+            { when: [{ field: 'rainfall7d', gte: 50 }], weight: 0.15 },
+            { when: [{ field: 'rainfall7d', gte: 20 }], weight: 0.08 },
+          ],
+        },
+      ],
+      bonuses: [
+        {
+          label: 'Flooding conditions (high rain + high humidity)',
+          when: [{ field: 'rainfall', gt: 15 }, { field: 'humidity', gt: 75 }],
+          weight: 0.20,
+        },
+      ],
     }
   },
   {
+    id: 'heat_stroke',
     name: 'Heat Stroke',
     specialty: 'Emergency Medicine',
     doctors_required: 2,
-    thresholds: {
-      temperature_min: 35,
-    },
     description: 'Serious condition caused by prolonged exposure to high temperatures',
     symptoms: [
       'Body temperature above 40°C (104°F)',
@@ -272,45 +321,39 @@ export const DISEASE_DEFINITIONS: DiseaseDefinition[] = [
       'Take frequent breaks in shade',
       'Check on vulnerable individuals'
     ],
-    risk_calculator: (weather: WeatherData): number => {
-      let risk = 0
-      
-      // Extreme heat is primary factor (>35°C)
-      if (weather.temperature > 42) {
-        risk += 0.60
-      } else if (weather.temperature > 38) {
-        risk += 0.45
-      } else if (weather.temperature > 35) {
-        risk += 0.30
-      }
-      
-      // High UV index (>8) increases risk
-      if (weather.uvIndex !== undefined) {
-        if (weather.uvIndex > 10) {
-          risk += 0.20
-        } else if (weather.uvIndex > 8) {
-          risk += 0.15
-        }
-      }
-      
-      // High humidity prevents cooling through sweating
-      if (weather.temperature > 35 && weather.humidity > 70) {
-        risk += 0.20 // Heat index effect
-      } else if (weather.temperature > 35 && weather.humidity < 30) {
-        risk += 0.10 // Dry heat dehydration
-      }
-      
-      return Math.min(risk, 1.0)
+    rule: {
+      factors: [
+        {
+          label: 'Extreme heat is primary factor (>35°C)',
+          tiers: [
+            { when: [{ field: 'temperature', gt: 42 }], weight: 0.60 },
+            { when: [{ field: 'temperature', gt: 38 }], weight: 0.45 },
+            { when: [{ field: 'temperature', gt: 35 }], weight: 0.30 },
+          ],
+        },
+        {
+          label: 'High UV index (>8) increases risk',
+          tiers: [
+            { when: [{ field: 'uvIndex', gt: 10 }], weight: 0.20 },
+            { when: [{ field: 'uvIndex', gt: 8 }], weight: 0.15 },
+          ],
+        },
+        {
+          label: 'Humidity in extreme heat: humid air prevents cooling, dry heat dehydrates',
+          tiers: [
+            { when: [{ field: 'temperature', gt: 35 }, { field: 'humidity', gt: 70 }], weight: 0.20 },
+            { when: [{ field: 'temperature', gt: 35 }, { field: 'humidity', lt: 30 }], weight: 0.10 },
+          ],
+        },
+      ],
+      bonuses: [],
     }
   },
   {
+    id: 'respiratory_infection',
     name: 'Respiratory Infections',
     specialty: 'Pulmonology',
     doctors_required: 4,
-    thresholds: {
-      temperature_max: 18,
-      humidity_min: 50,
-    },
     description: 'Various respiratory tract infections common in cold, damp conditions',
     symptoms: [
       'Persistent cough',
@@ -328,44 +371,56 @@ export const DISEASE_DEFINITIONS: DiseaseDefinition[] = [
       'Boost immune system',
       'Get vaccinated'
     ],
-    risk_calculator: (weather: WeatherData): number => {
-      let risk = 0
-      
-      // Cold temperatures (<18°C) stress respiratory system
-      if (weather.temperature < 10) {
-        risk += 0.35
-      } else if (weather.temperature < 18) {
-        risk += 0.25
-      }
-      
-      // Moderate to high humidity (50-80%) supports pathogen survival
-      if (weather.humidity >= 60 && weather.humidity <= 80) {
-        risk += 0.30
-      } else if (weather.humidity >= 50) {
-        risk += 0.20
-      }
-      
-      // Low pressure systems associated with respiratory issues
-      if (weather.pressure !== undefined && weather.pressure < 1000) {
-        risk += 0.15
-      }
-      
-      // Cold, damp conditions compound risk
-      if (weather.temperature < 15 && weather.humidity > 65 && weather.rainfall > 1) {
-        risk = Math.min(risk + 0.15, 1.0)
-      }
-      
-      return Math.min(risk, 1.0)
+    rule: {
+      factors: [
+        {
+          label: 'Cold temperatures (<18°C) stress respiratory system',
+          tiers: [
+            { when: [{ field: 'temperature', lt: 10 }], weight: 0.35 },
+            { when: [{ field: 'temperature', lt: 18 }], weight: 0.25 },
+          ],
+        },
+        {
+          label: 'Moderate to high humidity (50-80%) supports pathogen survival',
+          tiers: [
+            { when: [{ field: 'humidity', gte: 60, lte: 80 }], weight: 0.30 },
+            { when: [{ field: 'humidity', gte: 50 }], weight: 0.20 },
+          ],
+        },
+        {
+          label: 'Low pressure systems associated with respiratory issues',
+          tiers: [
+            { when: [{ field: 'pressure', lt: 1000 }], weight: 0.15 },
+          ],
+        },
+        {
+          label: 'Polluted air (AQI > 100) inflames the airways',
+          tiers: [
+            { when: [{ field: 'aqi', gt: 200 }], weight: 0.20 },
+            { when: [{ field: 'aqi', gt: 100 }], weight: 0.10 },
+          ],
+        },
+        {
+          label: 'Traffic NO₂ (>80 µg/m³) weakens airway defences',
+          tiers: [
+            { when: [{ field: 'no2', gt: 80 }], weight: 0.10 },
+          ],
+        },
+      ],
+      bonuses: [
+        {
+          label: 'Cold, damp conditions compound risk',
+          when: [{ field: 'temperature', lt: 15 }, { field: 'humidity', gt: 65 }, { field: 'rainfall', gt: 1 }],
+          weight: 0.15,
+        },
+      ],
     }
   },
   {
+    id: 'pneumonia',
     name: 'Pneumonia',
     specialty: 'Pulmonology',
     doctors_required: 5,
-    thresholds: {
-      temperature_max: 15,
-      humidity_min: 60,
-    },
     description: 'Lung infection causing inflammation, severe in cold/damp conditions',
     symptoms: [
       'Chest pain when breathing',
@@ -383,44 +438,37 @@ export const DISEASE_DEFINITIONS: DiseaseDefinition[] = [
       'Keep immune system strong',
       'Avoid sick people'
     ],
-    risk_calculator: (weather: WeatherData): number => {
-      let risk = 0
-      
-      // Very cold temperatures (<15°C) increase risk
-      if (weather.temperature < 5) {
-        risk += 0.40
-      } else if (weather.temperature < 15) {
-        risk += 0.30
-      }
-      
-      // High humidity (>60%) in cold weather
-      if (weather.humidity > 70 && weather.temperature < 15) {
-        risk += 0.35
-      } else if (weather.humidity > 60) {
-        risk += 0.20
-      }
-      
-      // Sudden temperature drops increase vulnerability
-      if (weather.dewPoint !== undefined) {
-        const temperatureDiff = weather.temperature - weather.dewPoint
-        if (temperatureDiff > 10 && weather.temperature < 15) {
-          risk += 0.15
-        }
-      }
-      
-      return Math.min(risk, 1.0)
+    rule: {
+      factors: [
+        {
+          label: 'Very cold temperatures (<15°C) increase risk',
+          tiers: [
+            { when: [{ field: 'temperature', lt: 5 }], weight: 0.40 },
+            { when: [{ field: 'temperature', lt: 15 }], weight: 0.30 },
+          ],
+        },
+        {
+          label: 'High humidity (>60%), worst in cold weather',
+          tiers: [
+            { when: [{ field: 'humidity', gt: 70 }, { field: 'temperature', lt: 15 }], weight: 0.35 },
+            { when: [{ field: 'humidity', gt: 60 }], weight: 0.20 },
+          ],
+        },
+        {
+          label: 'Sudden temperature drops increase vulnerability (temperature far above dew point)',
+          tiers: [
+            { when: [{ field: 'dewPointSpread', gt: 10 }, { field: 'temperature', lt: 15 }], weight: 0.15 },
+          ],
+        },
+      ],
+      bonuses: [],
     }
   },
   {
+    id: 'allergic_rhinitis',
     name: 'Allergic Rhinitis',
     specialty: 'Allergy & Immunology',
     doctors_required: 2,
-    thresholds: {
-      temperature_min: 15,
-      temperature_max: 25,
-      humidity_min: 40,
-      humidity_max: 70,
-    },
     description: 'Allergic reaction causing nasal inflammation, common in spring/fall',
     symptoms: [
       'Sneezing',
@@ -438,42 +486,55 @@ export const DISEASE_DEFINITIONS: DiseaseDefinition[] = [
       'Take antihistamines',
       'Avoid outdoor activities at peak pollen times'
     ],
-    risk_calculator: (weather: WeatherData): number => {
-      let risk = 0
-      
-      // Mild temperatures (15-25°C) ideal for pollen release
-      if (weather.temperature >= 18 && weather.temperature <= 24) {
-        risk += 0.35
-      } else if (weather.temperature >= 15 && weather.temperature <= 25) {
-        risk += 0.25
-      }
-      
-      // Moderate humidity (40-70%) optimal for pollen spread
-      if (weather.humidity >= 45 && weather.humidity <= 65) {
-        risk += 0.30
-      }
-      
-      // Low rainfall (<1mm) keeps pollen airborne longer
-      if (weather.rainfall < 1) {
-        risk += 0.20
-      }
-      
-      // Moderate wind (10-20 km/h) disperses pollen
-      if (weather.windSpeed !== undefined && weather.windSpeed >= 10 && weather.windSpeed <= 20) {
-        risk += 0.15
-      }
-      
-      return Math.min(risk, 1.0)
+    rule: {
+      factors: [
+        {
+          label: 'Mild temperatures (15-25°C) ideal for pollen release',
+          tiers: [
+            { when: [{ field: 'temperature', gte: 18, lte: 24 }], weight: 0.35 },
+            { when: [{ field: 'temperature', gte: 15, lte: 25 }], weight: 0.25 },
+          ],
+        },
+        {
+          label: 'Moderate humidity (40-70%) optimal for pollen spread',
+          tiers: [
+            { when: [{ field: 'humidity', gte: 45, lte: 65 }], weight: 0.30 },
+          ],
+        },
+        {
+          label: 'Low rainfall (<1mm) keeps pollen airborne longer',
+          tiers: [
+            { when: [{ field: 'rainfall', lt: 1 }], weight: 0.20 },
+          ],
+        },
+        {
+          label: 'Moderate wind (10-20 km/h) disperses pollen',
+          tiers: [
+            { when: [{ field: 'windSpeed', gte: 10, lte: 20 }], weight: 0.15 },
+          ],
+        },
+        {
+          label: 'High pollen counts (>20 grains/m³) where reported',
+          tiers: [
+            { when: [{ field: 'pollen', gt: 50 }], weight: 0.25 },
+            { when: [{ field: 'pollen', gt: 20 }], weight: 0.15 },
+          ],
+        },
+        {
+          label: 'Coarse dust (PM10 > 100 µg/m³) irritates the nose',
+          tiers: [
+            { when: [{ field: 'pm10', gt: 100 }], weight: 0.15 },
+          ],
+        },
+      ],
+      bonuses: [],
     }
   },
   {
+    id: 'asthma',
     name: 'Asthma Attacks',
     specialty: 'Pulmonology',
     doctors_required: 3,
-    thresholds: {
-      temperature_min: 10,
-      temperature_max: 30,
-    },
     description: 'Respiratory condition worsened by weather changes and air quality',
     symptoms: [
       'Shortness of breath',
@@ -491,43 +552,66 @@ export const DISEASE_DEFINITIONS: DiseaseDefinition[] = [
       'Keep rescue inhaler nearby',
       'Follow asthma action plan'
     ],
-    risk_calculator: (weather: WeatherData): number => {
-      let risk = 0
-      
-      // Temperature extremes trigger asthma
-      if (weather.temperature < 5 || weather.temperature > 30) {
-        risk += 0.30
-      } else if (weather.temperature < 10 || weather.temperature > 25) {
-        risk += 0.20
-      }
-      
-      // Very high humidity (>80%) or very low (<30%) problematic
-      if (weather.humidity > 85 || weather.humidity < 25) {
-        risk += 0.30
-      } else if (weather.humidity > 75 || weather.humidity < 35) {
-        risk += 0.20
-      }
-      
-      // High wind speed can carry irritants
-      if (weather.windSpeed !== undefined && weather.windSpeed > 25) {
-        risk += 0.20
-      }
-      
-      // Low pressure systems trigger symptoms
-      if (weather.pressure !== undefined && weather.pressure < 1005) {
-        risk += 0.20
-      }
-      
-      return Math.min(risk, 1.0)
+    rule: {
+      factors: [
+        {
+          label: 'Temperature extremes trigger asthma',
+          tiers: [
+            { when: [{ field: 'temperature', lt: 5 }], weight: 0.30 },
+            { when: [{ field: 'temperature', gt: 30 }], weight: 0.30 },
+            { when: [{ field: 'temperature', lt: 10 }], weight: 0.20 },
+            { when: [{ field: 'temperature', gt: 25 }], weight: 0.20 },
+          ],
+        },
+        {
+          label: 'Very high (>80%) or very low (<30%) humidity is problematic',
+          tiers: [
+            { when: [{ field: 'humidity', gt: 85 }], weight: 0.30 },
+            { when: [{ field: 'humidity', lt: 25 }], weight: 0.30 },
+            { when: [{ field: 'humidity', gt: 75 }], weight: 0.20 },
+            { when: [{ field: 'humidity', lt: 35 }], weight: 0.20 },
+          ],
+        },
+        {
+          label: 'High wind speed can carry irritants',
+          tiers: [
+            { when: [{ field: 'windSpeed', gt: 25 }], weight: 0.20 },
+          ],
+        },
+        {
+          label: 'Low pressure systems trigger symptoms',
+          tiers: [
+            { when: [{ field: 'pressure', lt: 1005 }], weight: 0.20 },
+          ],
+        },
+        {
+          label: 'Fine particulates (PM2.5 > 60 µg/m³) trigger attacks',
+          tiers: [
+            { when: [{ field: 'pm25', gt: 90 }], weight: 0.25 },
+            { when: [{ field: 'pm25', gt: 60 }], weight: 0.15 },
+          ],
+        },
+        {
+          label: 'Ground-level ozone (>100 µg/m³) irritates airways',
+          tiers: [
+            { when: [{ field: 'o3', gt: 100 }], weight: 0.10 },
+          ],
+        },
+        {
+          label: 'High pollen counts (>50 grains/m³) where reported',
+          tiers: [
+            { when: [{ field: 'pollen', gt: 50 }], weight: 0.10 },
+          ],
+        },
+      ],
+      bonuses: [],
     }
   },
   {
+    id: 'dehydration',
     name: 'Dehydration & Heat Exhaustion',
     specialty: 'Emergency Medicine',
     doctors_required: 3,
-    thresholds: {
-      temperature_min: 32,
-    },
     description: 'Condition caused by excessive fluid loss in hot weather',
     symptoms: [
       'Excessive thirst',
@@ -545,47 +629,44 @@ export const DISEASE_DEFINITIONS: DiseaseDefinition[] = [
       'Avoid strenuous activity in heat',
       'Monitor urine color'
     ],
-    risk_calculator: (weather: WeatherData): number => {
-      let risk = 0
-      
-      // High temperatures (>32°C) increase fluid loss
-      if (weather.temperature > 38) {
-        risk += 0.45
-      } else if (weather.temperature > 35) {
-        risk += 0.35
-      } else if (weather.temperature > 32) {
-        risk += 0.25
-      }
-      
-      // Low humidity (<40%) exacerbates dehydration through increased evaporation
-      if (weather.humidity < 30 && weather.temperature > 32) {
-        risk += 0.30
-      } else if (weather.humidity < 40 && weather.temperature > 35) {
-        risk += 0.20
-      }
-      
-      // High UV index increases sun exposure risk
-      if (weather.uvIndex !== undefined && weather.uvIndex > 8) {
-        risk += 0.15
-      }
-      
-      // Wind speed >15 km/h increases evaporation
-      if (weather.windSpeed !== undefined && weather.windSpeed > 15 && weather.temperature > 35) {
-        risk += 0.10
-      }
-      
-      return Math.min(risk, 1.0)
+    rule: {
+      factors: [
+        {
+          label: 'High temperatures (>32°C) increase fluid loss',
+          tiers: [
+            { when: [{ field: 'temperature', gt: 38 }], weight: 0.45 },
+            { when: [{ field: 'temperature', gt: 35 }], weight: 0.35 },
+            { when: [{ field: 'temperature', gt: 32 }], weight: 0.25 },
+          ],
+        },
+        {
+          label: 'Low humidity (<40%) exacerbates dehydration through increased evaporation',
+          tiers: [
+            { when: [{ field: 'humidity', lt: 30 }, { field: 'temperature', gt: 32 }], weight: 0.30 },
+            { when: [{ field: 'humidity', lt: 40 }, { field: 'temperature', gt: 35 }], weight: 0.20 },
+          ],
+        },
+        {
+          label: 'High UV index increases sun exposure risk',
+          tiers: [
+            { when: [{ field: 'uvIndex', gt: 8 }], weight: 0.15 },
+          ],
+        },
+        {
+          label: 'Wind speed >15 km/h increases evaporation',
+          tiers: [
+            { when: [{ field: 'windSpeed', gt: 15 }, { field: 'temperature', gt: 35 }], weight: 0.10 },
+          ],
+        },
+      ],
+      bonuses: [],
     }
   },
   {
+    id: 'gastroenteritis',
     name: 'Gastroenteritis',
     specialty: 'Gastroenterology',
     doctors_required: 4,
-    thresholds: {
-      temperature_min: 22,
-      temperature_max: 38,
-      humidity_min: 60,
-    },
     description: 'Stomach and intestinal inflammation, common in warm, humid conditions',
     symptoms: [
       'Diarrhea',
@@ -603,46 +684,56 @@ export const DISEASE_DEFINITIONS: DiseaseDefinition[] = [
       'Maintain hygiene',
       'Cook food properly'
     ],
-    risk_calculator: (weather: WeatherData): number => {
-      let risk = 0
-      
-      // Warm temperatures (22-38°C) promote bacterial growth in food
-      if (weather.temperature >= 28 && weather.temperature <= 35) {
-        risk += 0.35
-      } else if (weather.temperature >= 22 && weather.temperature <= 38) {
-        risk += 0.25
-      }
-      
-      // High humidity (>60%) increases food spoilage rate
-      if (weather.humidity > 75) {
-        risk += 0.30
-      } else if (weather.humidity > 60) {
-        risk += 0.20
-      }
-      
-      // Heavy rainfall contaminates water and food
-      if (weather.rainfall > 10) {
-        risk += 0.25
-      } else if (weather.rainfall > 5) {
-        risk += 0.15
-      }
-      
-      // Perfect conditions for foodborne illness
-      if (weather.temperature >= 25 && weather.humidity > 70 && weather.rainfall > 5) {
-        risk = Math.min(risk + 0.15, 1.0)
-      }
-      
-      return Math.min(risk, 1.0)
+    rule: {
+      factors: [
+        {
+          label: 'Warm temperatures (22-38°C) promote bacterial growth in food',
+          tiers: [
+            { when: [{ field: 'temperature', gte: 28, lte: 35 }], weight: 0.35 },
+            { when: [{ field: 'temperature', gte: 22, lte: 38 }], weight: 0.25 },
+          ],
+        },
+        {
+          label: 'High humidity (>60%) increases food spoilage rate',
+          tiers: [
+            { when: [{ field: 'humidity', gt: 75 }], weight: 0.30 },
+            { when: [{ field: 'humidity', gt: 60 }], weight: 0.20 },
+          ],
+        },
+        {
+          label: 'Heavy rainfall contaminates water and food',
+          tiers: [
+            { when: [{ field: 'rainfall', gt: 10 }], weight: 0.25 },
+            { when: [{ field: 'rainfall', gt: 5 }], weight: 0.15 },
+          ],
+        },
+        {
+          label: 'Rain over the past week washes sewage into water and food supplies',
+          tiers: [
+            { when: [{ field: 'rainfall7d', gte: 40 }], weight: 0.10 },
+          ],
+        },
+        {
+          label: 'A humid week (>75% mean humidity) speeds food spoilage',
+          tiers: [
+            { when: [{ field: 'humidity7d', gt: 75 }], weight: 0.05 },
+          ],
+        },
+      ],
+      bonuses: [
+        {
+          label: 'Perfect conditions for foodborne illness',
+          when: [{ field: 'temperature', gte: 25 }, { field: 'humidity', gt: 70 }, { field: 'rainfall', gt: 5 }],
+          weight: 0.15,
+        },
+      ],
     }
   },
   {
+    id: 'skin_infection',
     name: 'Skin Infections',
     specialty: 'Dermatology',
     doctors_required: 2,
-    thresholds: {
-      temperature_min: 25,
-      humidity_min: 70,
-    },
     description: 'Bacterial and fungal skin infections in hot, humid weather',
     symptoms: [
       'Redness and inflammation',
@@ -660,32 +751,286 @@ export const DISEASE_DEFINITIONS: DiseaseDefinition[] = [
       'Avoid sharing personal items',
       'Treat cuts promptly'
     ],
-    risk_calculator: (weather: WeatherData): number => {
-      let risk = 0
-      
-      // Hot, humid conditions (>25°C, >70% humidity) ideal for microbes
-      if (weather.temperature > 30 && weather.humidity > 80) {
-        risk += 0.45
-      } else if (weather.temperature > 25 && weather.humidity > 70) {
-        risk += 0.35
-      }
-      
-      // High dewpoint indicates moisture that supports fungal growth
-      if (weather.dewPoint !== undefined && weather.dewPoint > 20) {
-        risk += 0.25
-      }
-      
-      // Light rain keeps skin damp
-      if (weather.rainfall > 1 && weather.rainfall < 5) {
-        risk += 0.15
-      }
-      
-      // Low wind prevents skin drying
-      if (weather.windSpeed !== undefined && weather.windSpeed < 5) {
-        risk += 0.10
-      }
-      
-      return Math.min(risk, 1.0)
+    rule: {
+      factors: [
+        {
+          label: 'Hot, humid conditions (>25°C, >70% humidity) ideal for microbes',
+          tiers: [
+            { when: [{ field: 'temperature', gt: 30 }, { field: 'humidity', gt: 80 }], weight: 0.45 },
+            { when: [{ field: 'temperature', gt: 25 }, { field: 'humidity', gt: 70 }], weight: 0.35 },
+          ],
+        },
+        {
+          label: 'High dewpoint indicates moisture that supports fungal growth',
+          tiers: [
+            { when: [{ field: 'dewPoint', gt: 20 }], weight: 0.25 },
+          ],
+        },
+        {
+          label: 'Light rain keeps skin damp',
+          tiers: [
+            { when: [{ field: 'rainfall', gt: 1, lt: 5 }], weight: 0.15 },
+          ],
+        },
+        {
+          label: 'Low wind prevents skin drying',
+          tiers: [
+            { when: [{ field: 'windSpeed', lt: 5 }], weight: 0.10 },
+          ],
+        },
+      ],
+      bonuses: [],
+    }
+  },
+  {
+    id: 'leptospirosis',
+    name: 'Leptospirosis',
+    specialty: 'Infectious Disease',
+    doctors_required: 4,
+    description: 'Bacterial infection spread through floodwater contaminated by rodent urine',
+    symptoms: [
+      'Sudden high fever',
+      'Severe calf muscle pain',
+      'Red eyes',
+      'Headache and chills',
+      'Jaundice',
+      'Reduced urine output'
+    ],
+    prevention: [
+      'Avoid wading through floodwater',
+      'Wear boots and gloves in waterlogged areas',
+      'Cover cuts and wounds',
+      'Control rodents around homes',
+      'Doxycycline prophylaxis for high-exposure workers'
+    ],
+    endemic: {
+      states: [
+        'Kerala', 'Tamil Nadu', 'Karnataka', 'Maharashtra', 'Gujarat', 'Goa',
+        'Odisha', 'West Bengal', 'Andaman and Nicobar Islands', 'Puducherry',
+      ],
+    },
+    rule: {
+      factors: [
+        {
+          label: 'Flooding and waterlogging spread Leptospira from rodent urine',
+          tiers: [
+            { when: [{ field: 'rainfall', gt: 20 }], weight: 0.30 },
+            { when: [{ field: 'rainfall', gt: 10 }], weight: 0.15 },
+          ],
+        },
+        {
+          label: 'Heavy rain over the past 2 weeks (symptoms appear 5-14 days after exposure)',
+          tiers: [
+            { when: [{ field: 'rainfall14d', gte: 100 }], weight: 0.25 },
+            { when: [{ field: 'rainfall14d', gte: 50 }], weight: 0.15 },
+          ],
+        },
+        {
+          label: 'Warm temperatures (25-35°C) keep bacteria alive in water and soil',
+          tiers: [
+            { when: [{ field: 'temperature', gte: 25, lte: 35 }], weight: 0.20 },
+          ],
+        },
+        {
+          label: 'High humidity (>80%) keeps soil moist',
+          tiers: [
+            { when: [{ field: 'humidity', gt: 80 }], weight: 0.15 },
+          ],
+        },
+      ],
+      bonuses: [
+        {
+          label: 'Post-flood conditions (heavy week of rain, saturated air)',
+          when: [{ field: 'rainfall7d', gte: 75 }, { field: 'humidity', gt: 80 }],
+          weight: 0.10,
+        },
+      ],
+    }
+  },
+  {
+    id: 'chikungunya',
+    name: 'Chikungunya',
+    specialty: 'Infectious Disease',
+    doctors_required: 3,
+    description: 'Aedes mosquito-borne viral fever with severe, often lasting joint pain',
+    symptoms: [
+      'Sudden high fever',
+      'Severe joint pain and swelling',
+      'Muscle pain',
+      'Headache',
+      'Fatigue',
+      'Skin rash'
+    ],
+    prevention: [
+      'Use mosquito repellent',
+      'Remove standing water around homes',
+      'Cover water storage containers',
+      'Wear long sleeves during the day',
+      'Use mosquito nets'
+    ],
+    endemic: {
+      states: [
+        'Andhra Pradesh', 'Delhi', 'Gujarat', 'Karnataka', 'Kerala', 'Madhya Pradesh',
+        'Maharashtra', 'Odisha', 'Rajasthan', 'Tamil Nadu', 'Telangana', 'West Bengal',
+        'Goa', 'Puducherry',
+      ],
+    },
+    rule: {
+      factors: [
+        {
+          label: 'Aedes mosquitoes breed and bite most at 24-32°C',
+          tiers: [
+            { when: [{ field: 'temperature', gte: 24, lte: 32 }], weight: 0.30 },
+            { when: [{ field: 'temperature', gte: 20, lte: 35 }], weight: 0.15 },
+          ],
+        },
+        {
+          label: 'High humidity (>70%) helps mosquitoes survive',
+          tiers: [
+            { when: [{ field: 'humidity', gt: 70 }], weight: 0.25 },
+          ],
+        },
+        {
+          label: 'Rain over the past 2 weeks filled containers where larvae develop',
+          tiers: [
+            { when: [{ field: 'rainfall14d', gte: 40 }], weight: 0.20 },
+            { when: [{ field: 'rainfall14d', gte: 15 }], weight: 0.10 },
+          ],
+        },
+        {
+          label: 'Low wind speed allows mosquitoes to fly (<15 km/h)',
+          tiers: [
+            { when: [{ field: 'windSpeed', lt: 15 }], weight: 0.10 },
+          ],
+        },
+      ],
+      bonuses: [
+        {
+          label: 'Warm, humid weather after recent rain',
+          when: [{ field: 'temperature', gte: 24, lte: 32 }, { field: 'humidity', gt: 75 }, { field: 'rainfall7d', gte: 10 }],
+          weight: 0.15,
+        },
+      ],
+    }
+  },
+  {
+    id: 'scrub_typhus',
+    name: 'Scrub Typhus',
+    specialty: 'Infectious Disease',
+    doctors_required: 3,
+    description: 'Mite-borne rickettsial infection, common in rural and hilly areas after the monsoon',
+    symptoms: [
+      'Fever with chills',
+      'Dark scab (eschar) at the bite site',
+      'Headache and body aches',
+      'Swollen lymph nodes',
+      'Cough',
+      'Rash'
+    ],
+    prevention: [
+      'Wear full-length clothing in fields and scrub',
+      'Use repellent on skin and clothing',
+      'Clear vegetation around homes',
+      'Avoid sitting or lying on bare ground',
+      'Bathe and wash clothes after field work'
+    ],
+    endemic: {
+      states: [
+        'Himachal Pradesh', 'Uttarakhand', 'Jammu and Kashmir', 'Sikkim', 'Meghalaya', 'Mizoram',
+        'Manipur', 'Nagaland', 'Assam', 'Arunachal Pradesh', 'Tamil Nadu', 'Kerala', 'Karnataka',
+        'Andhra Pradesh', 'Telangana', 'Puducherry', 'Rajasthan', 'West Bengal', 'Odisha',
+      ],
+    },
+    rule: {
+      factors: [
+        {
+          label: 'Mild temperatures (20-30°C) favour chigger mites',
+          tiers: [
+            { when: [{ field: 'temperature', gte: 20, lte: 30 }], weight: 0.30 },
+            { when: [{ field: 'temperature', gte: 15, lte: 32 }], weight: 0.15 },
+          ],
+        },
+        {
+          label: 'Humid air keeps mites active in vegetation',
+          tiers: [
+            { when: [{ field: 'humidity', gt: 80 }], weight: 0.25 },
+            { when: [{ field: 'humidity', gt: 70 }], weight: 0.15 },
+          ],
+        },
+        {
+          label: 'Monsoon rain over the past 3 weeks brings scrub growth and mite breeding',
+          tiers: [
+            { when: [{ field: 'rainfall21d', gte: 60 }], weight: 0.20 },
+          ],
+        },
+      ],
+      bonuses: [
+        {
+          label: 'Cool, humid post-monsoon conditions',
+          when: [{ field: 'temperature', gte: 20, lte: 28 }, { field: 'humidity', gt: 75 }, { field: 'rainfall21d', gte: 30 }],
+          weight: 0.15,
+        },
+      ],
+    }
+  },
+  {
+    id: 'japanese_encephalitis',
+    name: 'Japanese Encephalitis',
+    specialty: 'Neurology',
+    doctors_required: 3,
+    description: 'Culex mosquito-borne viral brain infection, linked to paddy fields and pig rearing',
+    symptoms: [
+      'Fever and headache',
+      'Vomiting',
+      'Confusion or altered consciousness',
+      'Seizures',
+      'Neck stiffness',
+      'Weakness or paralysis'
+    ],
+    prevention: [
+      'JE vaccination for children in endemic districts',
+      'Use mosquito nets at night',
+      'Use mosquito repellent at dusk',
+      'Keep pigsties away from homes',
+      'Seek care early for fever with confusion'
+    ],
+    endemic: {
+      states: [
+        'Assam', 'Uttar Pradesh', 'Bihar', 'West Bengal', 'Tamil Nadu', 'Karnataka',
+        'Andhra Pradesh', 'Telangana', 'Kerala', 'Odisha', 'Manipur', 'Tripura',
+        'Arunachal Pradesh', 'Meghalaya', 'Nagaland', 'Jharkhand', 'Goa', 'Haryana', 'Maharashtra',
+      ],
+    },
+    rule: {
+      factors: [
+        {
+          label: 'Warm temperatures (25-35°C) speed virus development in Culex mosquitoes',
+          tiers: [
+            { when: [{ field: 'temperature', gte: 25, lte: 35 }], weight: 0.30 },
+            { when: [{ field: 'temperature', gte: 22, lte: 37 }], weight: 0.15 },
+          ],
+        },
+        {
+          label: 'Rain over the past 2 weeks flooded paddy fields where Culex breeds',
+          tiers: [
+            { when: [{ field: 'rainfall14d', gte: 50 }], weight: 0.25 },
+            { when: [{ field: 'rainfall14d', gte: 20 }], weight: 0.12 },
+          ],
+        },
+        {
+          label: 'High humidity (>75%) extends mosquito lifespan',
+          tiers: [
+            { when: [{ field: 'humidity', gt: 75 }], weight: 0.20 },
+          ],
+        },
+      ],
+      bonuses: [
+        {
+          label: 'Sustained monsoon: 3 weeks of rain with warm weather',
+          when: [{ field: 'rainfall21d', gte: 75 }, { field: 'temperature', gte: 25 }],
+          weight: 0.15,
+        },
+      ],
     }
   }
 ]
@@ -694,9 +1039,17 @@ export const DISEASE_DEFINITIONS: DiseaseDefinition[] = [
  * Predicts diseases based on current weather conditions
  * Enhanced with improved risk threshold and comprehensive logging
  * @param weather Current weather data with enhanced parameters
+ * @param definitions Disease definitions to evaluate (defaults to the built-in set)
+ * @param season Seasonal priors for the location and month (weather risk only when omitted)
+ * @param minRisk Predictions at or below this risk are left out (negative to keep every disease)
  * @returns Array of disease predictions with risk levels
  */
-export function predictDiseases(weather: WeatherData): DiseasePrediction[] {
+export function predictDiseases(
+  weather: WeatherData,
+  definitions: DiseaseDefinition[] = DISEASE_DEFINITIONS,
+  season?: SeasonalContext,
+  minRisk: number = SIGNIFICANT_RISK_THRESHOLD
+): DiseasePrediction[] {
   console.log(`🔍 Predicting diseases for ${weather.city} based on enhanced weather data:`, {
     temperature: weather.temperature,
     humidity: weather.humidity,
@@ -707,28 +1060,34 @@ export function predictDiseases(weather: WeatherData): DiseasePrediction[] {
     dewPoint: weather.dewPoint,
   })
 
-  const predictions: DiseasePrediction[] = DISEASE_DEFINITIONS
+  const predictions: DiseasePrediction[] = definitions
     .map(disease => {
-      const risk_level = disease.risk_calculator(weather)
+      const { risk: weather_risk, contributions } = explainRule(disease.rule, weather)
+      const seasonal_prior = season?.priors[disease.id] ?? null
+      const risk_level = applySeasonalPrior(weather_risk, seasonal_prior)
       
       return {
+        disease_id: disease.id,
         disease: disease.name,
         risk_level,
+        weather_risk,
+        seasonal_prior,
         required_doctors: Math.ceil(disease.doctors_required * risk_level),
         specialty: disease.specialty,
         description: disease.description,
         symptoms: disease.symptoms,
         prevention: disease.prevention,
+        contributing_factors: contributions,
       }
     })
-    // Lower threshold to 0.25 to catch more potential risks
-    .filter(prediction => prediction.risk_level > 0.25)
+    .filter(prediction => prediction.risk_level > minRisk)
     // Sort by risk level (highest first)
     .sort((a, b) => b.risk_level - a.risk_level)
 
-  console.log(`✅ Predicted ${predictions.length} diseases with significant risk (>25%) for ${weather.city}:`)
+  console.log(`✅ Predicted ${predictions.length} diseases${minRisk >= 0 ? ` with risk above ${(minRisk * 100).toFixed(0)}%` : ''} for ${weather.city}:`)
   predictions.forEach(p => {
-    console.log(`   • ${p.disease}: ${(p.risk_level * 100).toFixed(0)}% risk - ${p.required_doctors} ${p.specialty} doctors`)
+    const seasonal = p.seasonal_prior !== null ? ` (weather ${(p.weather_risk * 100).toFixed(0)}%, seasonal prior ${(p.seasonal_prior * 100).toFixed(0)}%)` : ''
+    console.log(`   • ${p.disease}: ${(p.risk_level * 100).toFixed(0)}% risk${seasonal} - ${p.required_doctors} ${p.specialty} doctors`)
   })
   
   return predictions
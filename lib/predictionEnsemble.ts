@@ -0,0 +1,142 @@
+/**
+ * Rule/ML Ensemble
+ * Blends the rule-based risk with the ML probability per disease, using
+ * configurable ML weights, and flags diseases where the two methods disagree
+ *
+ * The location's disease catalog decides which diseases are reported; ML outputs
+ * for diseases outside it are ignored, and catalog diseases the ML model does not
+ * predict keep their rule-based risk.
+ *
+ * The ML model gets the 14-day window it was trained on (`mlFeatures`), built from
+ * the location's stored weather history rather than the current reading.
+ */
+
+import { predictDiseases, SIGNIFICANT_RISK_THRESHOLD } from './predictDisease'
+import { predictProbabilitiesWithML, type WeatherInput } from './mlModel'
+import { MODEL_WEATHER_WINDOW_DAYS, buildModelFeaturesFromSnapshots } from './mlFeatures'
+import { fetchWeatherHistory } from './weatherHistory'
+import { DEFAULT_ENSEMBLE_CONFIG } from './ensembleConfigStore'
+import type {
+  DiseaseDefinition,
+  DiseaseId,
+  DiseasePrediction,
+  DoctorRequirement,
+  EnsembleConfig,
+  EnsemblePrediction,
+  SeasonalContext,
+  WeatherData,
+} from './types/doctor-module'
+
+/**
+ * ML model input for a city: its stored weather over the 14 days before today
+ * @returns null when too few of those days have stored weather
+ */
+export async function loadModelInput(city: string, now: number = Date.now()): Promise<WeatherInput | null> {
+  // One extra day so the first day of the window is complete
+  const history = await fetchWeatherHistory(city, MODEL_WEATHER_WINDOW_DAYS + 1)
+  return buildModelFeaturesFromSnapshots(history, now)
+}
+
+/**
+ * ML share of the blend for a disease (configured weight, clamped to 0-1)
+ */
+export function getMLWeight(disease: DiseaseId, config: EnsembleConfig = DEFAULT_ENSEMBLE_CONFIG): number {
+  const weight = config.ml_weights[disease] ?? config.default_ml_weight
+  return Math.min(Math.max(weight, 0), 1)
+}
+
+/**
+ * Blends rule-based predictions with ML probabilities
+ * @param rulePredictions Rule-based predictions for every catalog disease (no risk cut-off)
+ * @param mlProbabilities ML probability (0-1) by disease ID, or null when no model is available
+ * @param definitions Disease definitions the rule predictions came from (for doctor counts)
+ * @returns Diseases whose blended risk is significant or whose methods disagree, highest risk first
+ */
+export function blendPredictions(
+  rulePredictions: DiseasePrediction[],
+  mlProbabilities: Record<DiseaseId, number> | null,
+  definitions: DiseaseDefinition[],
+  config: EnsembleConfig = DEFAULT_ENSEMBLE_CONFIG
+): EnsemblePrediction[] {
+  return rulePredictions
+    .map(prediction => {
+      const ml_risk = mlProbabilities?.[prediction.disease_id] ?? null
+      const ml_weight = ml_risk === null ? 0 : getMLWeight(prediction.disease_id, config)
+      const risk_level = ml_weight * (ml_risk ?? 0) + (1 - ml_weight) * prediction.risk_level
+      const doctorsRequired = definitions.find(definition => definition.id === prediction.disease_id)?.doctors_required
+
+      return {
+        ...prediction,
+        risk_level,
+        required_doctors: doctorsRequired !== undefined
+          ? Math.ceil(doctorsRequired * risk_level)
+          : prediction.required_doctors,
+        rule_risk: prediction.risk_level,
+        ml_risk,
+        ml_weight,
+        disagreement: ml_risk !== null && Math.abs(ml_risk - prediction.risk_level) > config.disagreement_margin,
+      }
+    })
+    // Disagreements are kept even at low blended risk so they can be reviewed
+    .filter(prediction => prediction.risk_level > SIGNIFICANT_RISK_THRESHOLD || prediction.disagreement)
+    .sort((a, b) => b.risk_level - a.risk_level)
+}
+
+/**
+ * Ensemble predictions for one location
+ * Uses the rule-based risk alone when no ML model is available
+ */
+export async function predictDiseasesEnsemble(
+  weather: WeatherData,
+  definitions: DiseaseDefinition[],
+  season: SeasonalContext,
+  config: EnsembleConfig = DEFAULT_ENSEMBLE_CONFIG
+): Promise<EnsemblePrediction[]> {
+  // Every catalog disease, including zero rule risk, so ML-only risk is not lost
+  const rulePredictions = predictDiseases(weather, definitions, season, -1)
+
+  let mlProbabilities: Record<DiseaseId, number> | null = null
+  try {
+    const modelInput = await loadModelInput(weather.city)
+    if (modelInput) {
+      mlProbabilities = await predictProbabilitiesWithML(modelInput)
+    } else {
+      console.warn(`⚠️ Not enough stored weather history for ${weather.city} to use the ML model, using rule-based risk only`)
+    }
+  } catch (error) {
+    console.warn(`⚠️ ML prediction unavailable for ${weather.city}, using rule-based risk only:`, error)
+  }
+
+  const predictions = blendPredictions(rulePredictions, mlProbabilities, definitions, config)
+  const disagreements = predictions.filter(prediction => prediction.disagreement)
+  if (disagreements.length > 0) {
+    console.warn(`⚠️ Rule and ML risks disagree for ${weather.city}: ${disagreements.map(prediction =>
+      `${prediction.disease} (rules ${(prediction.rule_risk * 100).toFixed(0)}%, ML ${((prediction.ml_risk ?? 0) * 100).toFixed(0)}%)`
+    ).join(', ')}`)
+  }
+
+  return predictions
+}
+
+/**
+ * Doctor requirement record for an ensemble prediction
+ * Diseases without an ML risk (or with no stored model) are recorded as rule-based
+ */
+export function toDoctorRequirement(city: string, prediction: EnsemblePrediction): Omit<DoctorRequirement, 'id' | 'created_at'> {
+  return {
+    city,
+    disease_id: prediction.disease_id,
+    predicted_disease: prediction.disease,
+    risk_level: prediction.risk_level,
+    required_doctors: prediction.required_doctors,
+    specialty: prediction.specialty,
+    generated_at: new Date().toISOString(),
+    weather_risk: prediction.weather_risk,
+    seasonal_prior: prediction.seasonal_prior,
+    rule_risk: prediction.rule_risk,
+    ml_risk: prediction.ml_risk,
+    ml_weight: prediction.ml_weight,
+    disagreement: prediction.disagreement,
+    prediction_method: prediction.ml_risk !== null ? 'Ensemble' : 'Rule-Based'
+  }
+}
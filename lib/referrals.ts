@@ -0,0 +1,262 @@
+/**
+ * Bed Reservation / Patient Referral
+ * A doctor or hospital admin requests a bed at another hospital; the receiving
+ * hospital admin accepts (holding one bed for a time window) or declines.
+ *
+ * Holds are not written into availability documents. Accepted referrals are
+ * applied to the live counts when reading, so an expired hold frees its bed
+ * without anyone having to clean it up.
+ */
+
+import { db } from './firebase'
+import {
+  collection,
+  doc,
+  addDoc,
+  query,
+  where,
+  onSnapshot,
+  runTransaction,
+  Timestamp,
+  type Unsubscribe,
+} from 'firebase/firestore'
+import { getTotalFreeBeds } from './hospitalAvailability'
+import type { Hospital } from './types/hospital'
+import type {
+  AcuityLevel,
+  EffectiveReferralStatus,
+  NewReferral,
+  Referral,
+  ReferralStatus,
+} from './types/referral'
+
+export const REFERRALS_COLLECTION = 'referrals'
+
+/**
+ * Acuity levels in display order (most urgent first)
+ */
+export const ACUITY_LEVELS: { level: AcuityLevel; label: string }[] = [
+  { level: 'critical', label: 'Critical' },
+  { level: 'serious', label: 'Serious' },
+  { level: 'stable', label: 'Stable' },
+]
+
+/**
+ * How long the receiving hospital can hold a bed after accepting
+ * firestore.rules rejects holds longer than the largest option (12 hours)
+ */
+export const REFERRAL_HOLD_OPTIONS_HOURS = [2, 4, 8, 12]
+export const DEFAULT_REFERRAL_HOLD_HOURS = 4
+
+// Roles allowed to request a bed at another hospital
+export const REFERRAL_REQUESTER_ROLES = ['doctor', 'hospital_admin', 'super_admin']
+
+const MS_PER_HOUR = 60 * 60 * 1000
+
+function toMillis(value: unknown): number | null {
+  return value instanceof Timestamp ? value.toMillis() : null
+}
+
+/**
+ * Converts a `referrals` document into the app shape
+ */
+export function parseReferral(id: string, data: Record<string, unknown>): Referral {
+  return {
+    id,
+    to_hospital_id: String(data.to_hospital_id),
+    to_hospital_doc_id: data.to_hospital_doc_id as string,
+    to_hospital_name: data.to_hospital_name as string,
+    from_hospital_doc_id: (data.from_hospital_doc_id as string) || null,
+    from_hospital_name: (data.from_hospital_name as string) || null,
+    requested_by: data.requested_by as string,
+    requested_by_name: (data.requested_by_name as string) || 'Unknown',
+    bed_type: data.bed_type as Referral['bed_type'],
+    acuity: data.acuity as AcuityLevel,
+    patient_notes: (data.patient_notes as string) || '',
+    status: data.status as ReferralStatus,
+    decline_reason: (data.decline_reason as string) || null,
+    hold_until: toMillis(data.hold_until),
+    created_at: toMillis(data.created_at) || 0,
+    responded_at: toMillis(data.responded_at),
+  }
+}
+
+/**
+ * Status including expiry of accepted holds
+ */
+export function getEffectiveStatus(referral: Referral, now: number = Date.now()): EffectiveReferralStatus {
+  if (referral.status === 'accepted' && referral.hold_until !== null && referral.hold_until <= now) {
+    return 'expired'
+  }
+  return referral.status
+}
+
+/**
+ * Whether a referral currently holds a bed
+ */
+export function isHoldingBed(referral: Referral, now: number = Date.now()): boolean {
+  return getEffectiveStatus(referral, now) === 'accepted'
+}
+
+/**
+ * Subtracts beds held by accepted referrals from each hospital's free beds
+ */
+export function applyBedHolds(hospitals: Hospital[], referrals: Referral[], now: number = Date.now()): Hospital[] {
+  const activeHolds = referrals.filter(referral => isHoldingBed(referral, now))
+  if (activeHolds.length === 0) return hospitals
+
+  return hospitals.map(hospital => {
+    const avail = hospital.availability?.[0]
+    const holds = activeHolds.filter(referral => referral.to_hospital_id === String(hospital.id))
+    if (!avail || holds.length === 0) return hospital
+
+    const wards = { ...avail.wards }
+    holds.forEach(({ bed_type }) => {
+      wards[bed_type] = { ...wards[bed_type], held: (wards[bed_type].held || 0) + 1 }
+    })
+
+    return {
+      ...hospital,
+      availability: [{ ...avail, wards, available_beds: getTotalFreeBeds(wards) }],
+    }
+  })
+}
+
+/**
+ * Requests a bed at another hospital
+ * @returns ID of the new referral
+ */
+export async function createReferral(referral: NewReferral): Promise<string> {
+  const docRef = await addDoc(collection(db, REFERRALS_COLLECTION), {
+    ...referral,
+    status: 'pending',
+    decline_reason: null,
+    hold_until: null,
+    created_at: Timestamp.now(),
+    responded_at: null,
+  })
+
+  console.log(`✅ Referral ${docRef.id} requested at ${referral.to_hospital_name}`)
+
+  return docRef.id
+}
+
+/**
+ * Moves a referral to a new status if it is still in the expected one
+ * Runs in a transaction so two admins cannot act on the same request
+ */
+async function transitionReferral(
+  referralId: string,
+  from: ReferralStatus,
+  update: Record<string, unknown> & { status: ReferralStatus }
+): Promise<void> {
+  const referralRef = doc(db, REFERRALS_COLLECTION, referralId)
+
+  await runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(referralRef)
+    if (!snapshot.exists()) {
+      throw new Error('Referral not found')
+    }
+
+    const current = snapshot.data().status as ReferralStatus
+    if (current !== from) {
+      throw new Error(`Referral is already ${current}`)
+    }
+
+    transaction.update(referralRef, update)
+  })
+}
+
+/**
+ * Receiving hospital accepts and holds one bed for `holdHours`
+ */
+export async function acceptReferral(
+  referralId: string,
+  holdHours: number = DEFAULT_REFERRAL_HOLD_HOURS
+): Promise<void> {
+  const now = Timestamp.now()
+  await transitionReferral(referralId, 'pending', {
+    status: 'accepted',
+    hold_until: Timestamp.fromMillis(now.toMillis() + holdHours * MS_PER_HOUR),
+    responded_at: now,
+  })
+}
+
+/**
+ * Receiving hospital declines the request
+ */
+export async function declineReferral(referralId: string, reason: string): Promise<void> {
+  await transitionReferral(referralId, 'pending', {
+    status: 'declined',
+    decline_reason: reason.trim() || null,
+    responded_at: Timestamp.now(),
+  })
+}
+
+/**
+ * Requester withdraws a request that has not been answered yet
+ */
+export async function cancelReferral(referralId: string): Promise<void> {
+  await transitionReferral(referralId, 'pending', { status: 'cancelled' })
+}
+
+/**
+ * Receiving hospital confirms the patient arrived, releasing the hold
+ */
+export async function markReferralAdmitted(referralId: string): Promise<void> {
+  await transitionReferral(referralId, 'accepted', { status: 'admitted' })
+}
+
+/**
+ * Listens to referrals matching a single field, newest first
+ * Sorted on the client to avoid a composite index per query
+ */
+function subscribeToReferralsWhere(
+  field: keyof Referral,
+  value: string,
+  onUpdate: (referrals: Referral[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe {
+  return onSnapshot(
+    query(collection(db, REFERRALS_COLLECTION), where(field, '==', value)),
+    snapshot => {
+      const referrals = snapshot.docs
+        .map(doc => parseReferral(doc.id, doc.data()))
+        .sort((a, b) => b.created_at - a.created_at)
+      onUpdate(referrals)
+    },
+    onError
+  )
+}
+
+/**
+ * Accepted referrals across all hospitals (used to apply bed holds)
+ */
+export function subscribeToAcceptedReferrals(
+  onUpdate: (referrals: Referral[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe {
+  return subscribeToReferralsWhere('status', 'accepted', onUpdate, onError)
+}
+
+/**
+ * Referrals received by a hospital (by hospital document ID)
+ */
+export function subscribeToIncomingReferrals(
+  hospitalDocId: string,
+  onUpdate: (referrals: Referral[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe {
+  return subscribeToReferralsWhere('to_hospital_doc_id', hospitalDocId, onUpdate, onError)
+}
+
+/**
+ * Referrals requested by a user
+ */
+export function subscribeToOutgoingReferrals(
+  userId: string,
+  onUpdate: (referrals: Referral[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe {
+  return subscribeToReferralsWhere('requested_by', userId, onUpdate, onError)
+}
@@ -0,0 +1,100 @@
+/**
+ * Seasonal Prior Store
+ * Loads per-state seasonal overrides from Firestore on top of the built-in priors
+ *
+ * Each document in `seasonal_priors` configures one state, e.g.
+ * `{ state: 'Kerala', region: 'west_coast', diseases: { dengue: [12 values] } }`
+ */
+
+import { db } from './firebase'
+import { collection, getDocs } from 'firebase/firestore'
+import {
+  CLIMATE_REGION_LABELS,
+  DEFAULT_SEASONAL_PRIOR_CONFIG,
+  normalizeStateName,
+  validateMonthlyCurve,
+} from './seasonalPriors'
+import { keyByDiseaseId } from './diseaseRegistry'
+import type {
+  ClimateRegion,
+  DiseaseId,
+  MonthlyCurve,
+  SeasonalPriorConfig,
+  StateSeasonalOverride,
+} from './types/doctor-module'
+
+export const SEASONAL_PRIORS_COLLECTION = 'seasonal_priors'
+
+// Overrides are re-read from Firestore at most this often
+const CACHE_TTL_MS = 5 * 60 * 1000
+
+let cachedConfig: { config: SeasonalPriorConfig; loadedAt: number } | null = null
+
+/**
+ * Validates one state document; invalid curves are dropped with a warning
+ * @returns The usable part of the override, or null if nothing is usable
+ */
+function parseStateOverride(state: string, data: Record<string, unknown>): StateSeasonalOverride | null {
+  const override: StateSeasonalOverride = {}
+
+  if (data.region !== undefined) {
+    if (typeof data.region === 'string' && data.region in CLIMATE_REGION_LABELS) {
+      override.region = data.region as ClimateRegion
+    } else {
+      console.warn(`⚠️ Ignoring unknown climate region "${data.region}" for ${state}`)
+    }
+  }
+
+  if (data.diseases && typeof data.diseases === 'object') {
+    const diseases: Record<DiseaseId, MonthlyCurve> = {}
+    // Keyed by disease ID; names are still accepted for documents written before IDs
+    Object.entries(keyByDiseaseId(data.diseases as Record<string, unknown>)).forEach(([disease, curve]) => {
+      const error = validateMonthlyCurve(curve)
+      if (error) {
+        console.warn(`⚠️ Ignoring seasonal prior for ${disease} in ${state}: ${error}`)
+        return
+      }
+      diseases[disease] = curve as MonthlyCurve
+    })
+    if (Object.keys(diseases).length > 0) {
+      override.diseases = diseases
+    }
+  }
+
+  return override.region || override.diseases ? override : null
+}
+
+/**
+ * Active seasonal prior config: built-in priors with Firestore state overrides
+ * Falls back to the built-in priors if Firestore cannot be read
+ */
+export async function loadSeasonalPriorConfig(forceRefresh: boolean = false): Promise<SeasonalPriorConfig> {
+  if (!forceRefresh && cachedConfig && Date.now() - cachedConfig.loadedAt < CACHE_TTL_MS) {
+    return cachedConfig.config
+  }
+
+  try {
+    const snapshot = await getDocs(collection(db, SEASONAL_PRIORS_COLLECTION))
+    const stateOverrides: Record<string, StateSeasonalOverride> = {}
+
+    snapshot.docs.forEach(doc => {
+      const data = doc.data()
+      const state = (data.state as string) || doc.id
+      const override = parseStateOverride(state, data)
+      if (override) {
+        stateOverrides[normalizeStateName(state)] = override
+      }
+    })
+
+    const config = { ...DEFAULT_SEASONAL_PRIOR_CONFIG, state_overrides: stateOverrides }
+    cachedConfig = { config, loadedAt: Date.now() }
+
+    if (snapshot.size > 0) {
+      console.log(`📋 Loaded seasonal prior overrides for ${Object.keys(stateOverrides).length} state(s) from Firestore`)
+    }
+    return config
+  } catch (error) {
+    console.error('❌ Could not load seasonal priors from Firestore, using built-in priors:', error)
+    return DEFAULT_SEASONAL_PRIOR_CONFIG
+  }
+}
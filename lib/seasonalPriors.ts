@@ -0,0 +1,250 @@
+/**
+ * Seasonal Calendar Priors
+ * Monthly baseline for each disease by Indian climate region, combined with
+ * the weather-based risk so e.g. monsoon Malaria and winter Pneumonia carry
+ * more weight than the same weather off season
+ *
+ * A prior of 0.5 is neutral. The weather risk is scaled by
+ * 1 - SEASONAL_PRIOR_WEIGHT (prior 0) up to 1 + SEASONAL_PRIOR_WEIGHT (prior 1),
+ * so weather with no risk stays at zero whatever the season.
+ */
+
+import type {
+  ClimateRegion,
+  DiseaseId,
+  MonthlyCurve,
+  SeasonalContext,
+  SeasonalPriorConfig,
+  SeasonKind,
+} from './types/doctor-module'
+
+export const SEASONAL_PRIOR_WEIGHT = 0.3
+
+/**
+ * Display names for climate regions
+ */
+export const CLIMATE_REGION_LABELS: Record<ClimateRegion, string> = {
+  north_plains: 'Northern Plains',
+  northwest_arid: 'Northwest (Arid)',
+  himalayan: 'Himalayan',
+  northeast: 'Northeast',
+  east: 'East',
+  central_deccan: 'Central & Deccan',
+  west_coast: 'West Coast',
+  southeast_coast: 'Southeast Coast',
+}
+
+//                      Jan  Feb  Mar  Apr  May  Jun  Jul  Aug  Sep  Oct  Nov  Dec
+const NATIONAL_CURVES: Record<SeasonKind, MonthlyCurve> = {
+  monsoon:           [0.2, 0.2, 0.2, 0.3, 0.4, 0.7, 0.9, 0.9, 0.8, 0.6, 0.4, 0.3],
+  post_monsoon:      [0.3, 0.2, 0.2, 0.2, 0.3, 0.4, 0.6, 0.8, 0.9, 0.9, 0.7, 0.4],
+  winter:            [0.9, 0.8, 0.5, 0.3, 0.2, 0.3, 0.4, 0.4, 0.4, 0.5, 0.7, 0.9],
+  summer:            [0.1, 0.2, 0.4, 0.8, 0.9, 0.8, 0.4, 0.3, 0.3, 0.3, 0.2, 0.1],
+  pollen:            [0.5, 0.8, 0.9, 0.7, 0.4, 0.3, 0.3, 0.4, 0.6, 0.7, 0.6, 0.5],
+}
+
+// Only the patterns that differ from the national curves
+const REGION_CURVES: Record<ClimateRegion, Partial<Record<SeasonKind, MonthlyCurve>>> = {
+  north_plains: {
+    winter:          [1.0, 0.9, 0.5, 0.2, 0.1, 0.2, 0.3, 0.3, 0.3, 0.5, 0.8, 1.0],
+    summer:          [0.0, 0.1, 0.4, 0.8, 1.0, 0.9, 0.4, 0.3, 0.3, 0.2, 0.1, 0.0],
+  },
+  northwest_arid: {
+    monsoon:         [0.1, 0.1, 0.1, 0.2, 0.2, 0.4, 0.8, 0.9, 0.6, 0.3, 0.2, 0.1],
+    summer:          [0.1, 0.2, 0.5, 0.9, 1.0, 0.9, 0.5, 0.4, 0.4, 0.3, 0.2, 0.1],
+  },
+  himalayan: {
+    monsoon:         [0.1, 0.1, 0.1, 0.2, 0.3, 0.6, 0.8, 0.8, 0.6, 0.3, 0.1, 0.1],
+    winter:          [1.0, 1.0, 0.7, 0.4, 0.2, 0.2, 0.3, 0.3, 0.3, 0.5, 0.8, 1.0],
+    summer:          [0.0, 0.0, 0.1, 0.2, 0.3, 0.4, 0.3, 0.3, 0.2, 0.1, 0.0, 0.0],
+  },
+  northeast: {
+    monsoon:         [0.2, 0.2, 0.3, 0.5, 0.7, 0.9, 0.9, 0.9, 0.8, 0.6, 0.3, 0.2],
+    post_monsoon:    [0.2, 0.2, 0.2, 0.3, 0.4, 0.6, 0.8, 0.9, 0.9, 0.8, 0.5, 0.3],
+  },
+  east: {
+    monsoon:         [0.2, 0.2, 0.2, 0.3, 0.5, 0.8, 0.9, 0.9, 0.9, 0.7, 0.4, 0.3],
+  },
+  central_deccan: {},
+  west_coast: {
+    monsoon:         [0.2, 0.2, 0.2, 0.3, 0.5, 0.9, 1.0, 0.9, 0.8, 0.6, 0.4, 0.3],
+    winter:          [0.6, 0.5, 0.4, 0.3, 0.3, 0.5, 0.6, 0.6, 0.5, 0.4, 0.5, 0.6],
+    summer:          [0.2, 0.3, 0.5, 0.7, 0.7, 0.4, 0.2, 0.2, 0.3, 0.4, 0.3, 0.2],
+  },
+  // Most rain falls with the northeast monsoon (October-December)
+  southeast_coast: {
+    monsoon:         [0.4, 0.2, 0.2, 0.2, 0.3, 0.4, 0.5, 0.5, 0.6, 0.8, 0.9, 0.9],
+    post_monsoon:    [0.6, 0.4, 0.2, 0.2, 0.2, 0.3, 0.4, 0.5, 0.6, 0.8, 0.9, 0.9],
+    winter:          [0.6, 0.5, 0.3, 0.2, 0.2, 0.3, 0.3, 0.3, 0.4, 0.5, 0.6, 0.6],
+    summer:          [0.2, 0.3, 0.5, 0.8, 0.9, 0.8, 0.6, 0.5, 0.4, 0.3, 0.2, 0.2],
+  },
+}
+
+const DISEASE_SEASONS: Record<DiseaseId, SeasonKind> = {
+  dengue: 'post_monsoon',
+  malaria: 'monsoon',
+  influenza: 'winter',
+  typhoid: 'monsoon',
+  heat_stroke: 'summer',
+  respiratory_infection: 'winter',
+  pneumonia: 'winter',
+  allergic_rhinitis: 'pollen',
+  asthma: 'winter',
+  dehydration: 'summer',
+  gastroenteritis: 'monsoon',
+  skin_infection: 'monsoon',
+  leptospirosis: 'monsoon',
+  chikungunya: 'post_monsoon',
+  scrub_typhus: 'post_monsoon',
+  japanese_encephalitis: 'monsoon',
+}
+
+const STATE_REGIONS: Record<string, ClimateRegion> = {
+  'delhi': 'north_plains',
+  'punjab': 'north_plains',
+  'haryana': 'north_plains',
+  'chandigarh': 'north_plains',
+  'uttar pradesh': 'north_plains',
+  'bihar': 'north_plains',
+  'rajasthan': 'northwest_arid',
+  'gujarat': 'northwest_arid',
+  'dadra and nagar haveli and daman and diu': 'northwest_arid',
+  'jammu and kashmir': 'himalayan',
+  'ladakh': 'himalayan',
+  'himachal pradesh': 'himalayan',
+  'uttarakhand': 'himalayan',
+  'sikkim': 'himalayan',
+  'assam': 'northeast',
+  'arunachal pradesh': 'northeast',
+  'meghalaya': 'northeast',
+  'manipur': 'northeast',
+  'mizoram': 'northeast',
+  'nagaland': 'northeast',
+  'tripura': 'northeast',
+  'west bengal': 'east',
+  'odisha': 'east',
+  'jharkhand': 'east',
+  'madhya pradesh': 'central_deccan',
+  'chhattisgarh': 'central_deccan',
+  'telangana': 'central_deccan',
+  'andhra pradesh': 'central_deccan',
+  'maharashtra': 'west_coast',
+  'goa': 'west_coast',
+  'karnataka': 'west_coast',
+  'kerala': 'west_coast',
+  'lakshadweep': 'west_coast',
+  'tamil nadu': 'southeast_coast',
+  'puducherry': 'southeast_coast',
+  'andaman and nicobar islands': 'southeast_coast',
+}
+
+// Alternative spellings returned by PIN code lookups
+const STATE_ALIASES: Record<string, string> = {
+  'nct of delhi': 'delhi',
+  'new delhi': 'delhi',
+  'orissa': 'odisha',
+  'pondicherry': 'puducherry',
+  'uttaranchal': 'uttarakhand',
+  'jammu & kashmir': 'jammu and kashmir',
+  'andaman & nicobar islands': 'andaman and nicobar islands',
+}
+
+/**
+ * Built-in priors; per-state overrides are layered on by `seasonalPriorStore`
+ */
+export const DEFAULT_SEASONAL_PRIOR_CONFIG: SeasonalPriorConfig = {
+  national_curves: NATIONAL_CURVES,
+  region_curves: REGION_CURVES,
+  disease_seasons: DISEASE_SEASONS,
+  state_regions: STATE_REGIONS,
+  state_overrides: {},
+}
+
+/**
+ * Lower-case, alias-resolved state key
+ */
+export function normalizeStateName(state: string): string {
+  const key = state.trim().toLowerCase().replace(/\s+/g, ' ')
+  return STATE_ALIASES[key] || key
+}
+
+/**
+ * Climate region of a state (null when unknown)
+ */
+export function getClimateRegion(
+  state: string | null | undefined,
+  config: SeasonalPriorConfig = DEFAULT_SEASONAL_PRIOR_CONFIG
+): ClimateRegion | null {
+  if (!state) return null
+  const key = normalizeStateName(state)
+  return config.state_overrides[key]?.region || config.state_regions[key] || null
+}
+
+/**
+ * Prior for one disease in a given month (null when the disease has no seasonal pattern)
+ */
+export function getSeasonalPrior(
+  disease: DiseaseId,
+  state: string | null | undefined,
+  month: number,
+  config: SeasonalPriorConfig = DEFAULT_SEASONAL_PRIOR_CONFIG
+): number | null {
+  const stateCurve = state ? config.state_overrides[normalizeStateName(state)]?.diseases?.[disease] : undefined
+  if (stateCurve) return stateCurve[month - 1]
+
+  const season = config.disease_seasons[disease]
+  if (!season) return null
+
+  const region = getClimateRegion(state, config)
+  const curve = (region && config.region_curves[region]?.[season]) || config.national_curves[season]
+  return curve[month - 1]
+}
+
+/**
+ * Priors for every disease with a seasonal pattern, for a state and date
+ */
+export function getSeasonalContext(
+  state: string | null | undefined,
+  date: Date = new Date(),
+  config: SeasonalPriorConfig = DEFAULT_SEASONAL_PRIOR_CONFIG
+): SeasonalContext {
+  const month = date.getMonth() + 1
+  const stateDiseases = state ? Object.keys(config.state_overrides[normalizeStateName(state)]?.diseases || {}) : []
+  const diseases = new Set([...Object.keys(config.disease_seasons), ...stateDiseases])
+
+  const priors: Record<string, number> = {}
+  diseases.forEach(disease => {
+    const prior = getSeasonalPrior(disease, state, month, config)
+    if (prior !== null) priors[disease] = prior
+  })
+
+  return {
+    state: state || null,
+    region: getClimateRegion(state, config),
+    month,
+    priors,
+  }
+}
+
+/**
+ * Weather risk scaled by the seasonal prior, capped at 1
+ */
+export function applySeasonalPrior(weatherRisk: number, prior: number | null): number {
+  if (prior === null) return weatherRisk
+  const multiplier = 1 + SEASONAL_PRIOR_WEIGHT * (2 * prior - 1)
+  return Math.min(weatherRisk * multiplier, 1.0)
+}
+
+/**
+ * Validates a monthly curve loaded from outside the codebase
+ * @returns Error message, or null when the curve is valid
+ */
+export function validateMonthlyCurve(curve: unknown): string | null {
+  if (!Array.isArray(curve) || curve.length !== 12) {
+    return 'must be an array of 12 monthly values'
+  }
+  if (curve.some(value => typeof value !== 'number' || value < 0 || value > 1)) {
+    return 'monthly values must be numbers from 0 to 1'
+  }
+  return null
+}
@@ -0,0 +1,258 @@
+/**
+ * Disease Surveillance Data
+ * Weekly confirmed case counts per district and disease (IDSP-style CSV),
+ * joined to the weather before each week so the disease ML model learns from
+ * observed outcomes instead of rule-generated labels
+ *
+ * CSV columns (header row, any order): week_start, state, district, disease, cases
+ * Optional: latitude, longitude (for districts that cannot be geocoded)
+ *
+ * Records are written only by the import route, through the Admin SDK;
+ * firestore.rules lets other clients only read them.
+ */
+
+import { db } from './firebase'
+import { getAdminDb } from './firebaseAdmin'
+import { collection, getDocs } from 'firebase/firestore'
+import { Timestamp } from 'firebase-admin/firestore'
+import { fetchWeatherArchiveFromAPI } from './fetchWeatherData'
+import { getDistrictCoordinates } from './pinCodeDiseaseAnalysis'
+import { resolveDiseaseId } from './diseaseRegistry'
+import { parseCsvLine } from './csv'
+import { DISEASE_LABELS, type DiseaseLabel, type TrainingDataPoint, type TrainingLabels } from './mlTrainingData'
+import { MODEL_WEATHER_WINDOW_DAYS, buildModelFeatures, selectModelWindow } from './mlFeatures'
+import type { WeatherData } from './types/doctor-module'
+
+export const SURVEILLANCE_COLLECTION = 'surveillance_cases'
+
+// Below this many district-weeks the model falls back to synthetic data
+export const MIN_SURVEILLANCE_SAMPLES = 100
+
+// Weekly peaks smaller than this are treated as this, so one stray case is not a full outbreak
+const MIN_PEAK_CASES = 10
+
+// Firestore allows at most 500 writes per batch
+const BATCH_SIZE = 500
+
+export interface SurveillanceRecord {
+  week_start: string // YYYY-MM-DD
+  state: string
+  district: string
+  disease: string // As reported
+  cases: number
+  latitude?: number
+  longitude?: number
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+/**
+ * Model output a reported disease name maps to (null when the model does not predict it)
+ * Names are resolved through the disease registry, which includes IDSP naming
+ */
+export function getDiseaseLabel(disease: string): DiseaseLabel | null {
+  const id = resolveDiseaseId(disease)
+  return id && (DISEASE_LABELS as string[]).includes(id) ? id as DiseaseLabel : null
+}
+
+/**
+ * Parses a surveillance CSV
+ * Invalid rows are reported in `errors` (with their line number) and left out
+ */
+export function parseSurveillanceCsv(csv: string): { records: SurveillanceRecord[]; errors: string[] } {
+  const lines = csv.split(/\r?\n/).filter(line => line.trim() !== '')
+  if (lines.length === 0) {
+    return { records: [], errors: ['CSV is empty'] }
+  }
+
+  const header = parseCsvLine(lines[0]).map(normalizeName).map(name => name.replace(/ /g, '_'))
+  const missing = ['week_start', 'state', 'district', 'disease', 'cases'].filter(column => !header.includes(column))
+  if (missing.length > 0) {
+    return { records: [], errors: [`Missing column(s): ${missing.join(', ')}`] }
+  }
+
+  const records: SurveillanceRecord[] = []
+  const errors: string[] = []
+
+  lines.slice(1).forEach((line, index) => {
+    const lineNumber = index + 2
+    const values = parseCsvLine(line)
+    const row = Object.fromEntries(header.map((column, i) => [column, values[i] ?? '']))
+
+    const cases = Number(row.cases)
+    const hasCoordinates = row.latitude !== undefined && row.latitude !== '' && row.longitude !== ''
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(row.week_start) || isNaN(Date.parse(row.week_start))) {
+      errors.push(`Line ${lineNumber}: week_start must be a date (YYYY-MM-DD)`)
+    } else if (!row.state || !row.district || !row.disease) {
+      errors.push(`Line ${lineNumber}: state, district and disease are required`)
+    } else if (!Number.isInteger(cases) || cases < 0) {
+      errors.push(`Line ${lineNumber}: cases must be a whole number of at least 0`)
+    } else if (hasCoordinates && (isNaN(Number(row.latitude)) || isNaN(Number(row.longitude)))) {
+      errors.push(`Line ${lineNumber}: latitude and longitude must be numbers`)
+    } else {
+      records.push({
+        week_start: row.week_start,
+        state: row.state,
+        district: row.district,
+        disease: row.disease,
+        cases,
+        ...(hasCoordinates && { latitude: Number(row.latitude), longitude: Number(row.longitude) }),
+      })
+    }
+  })
+
+  return { records, errors }
+}
+
+/**
+ * Stores records in Firestore; re-importing a district/disease/week replaces its count
+ * @returns Number of records written
+ * @throws Error when FIREBASE_SERVICE_ACCOUNT_KEY is missing
+ */
+export async function importSurveillanceRecords(records: SurveillanceRecord[]): Promise<number> {
+  const adminDb = getAdminDb()
+  const importedAt = Timestamp.now()
+
+  for (let start = 0; start < records.length; start += BATCH_SIZE) {
+    const batch = adminDb.batch()
+    records.slice(start, start + BATCH_SIZE).forEach(record => {
+      const docId = normalizeName(`${record.state} ${record.district} ${record.disease} ${record.week_start}`).replace(/ /g, '-')
+      batch.set(adminDb.collection(SURVEILLANCE_COLLECTION).doc(docId), { ...record, imported_at: importedAt })
+    })
+    await batch.commit()
+  }
+
+  console.log(`🗂️ Imported ${records.length} surveillance record(s)`)
+  return records.length
+}
+
+/**
+ * All stored surveillance records
+ */
+export async function loadSurveillanceRecords(): Promise<SurveillanceRecord[]> {
+  const snapshot = await getDocs(collection(db, SURVEILLANCE_COLLECTION))
+  return snapshot.docs.map(snapshot => {
+    const data = snapshot.data()
+    return {
+      week_start: data.week_start,
+      state: data.state,
+      district: data.district,
+      disease: data.disease,
+      cases: data.cases,
+      ...(typeof data.latitude === 'number' && { latitude: data.latitude, longitude: data.longitude }),
+    }
+  })
+}
+
+function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`)
+  shifted.setUTCDate(shifted.getUTCDate() + days)
+  return shifted.toISOString().slice(0, 10)
+}
+
+/**
+ * Joins surveillance records to historical weather: one training point per district-week
+ * Labels are each disease's cases relative to its peak week in that district (0-1).
+ * Only diseases the district reports are labelled: weeks without a row for one of them
+ * are 0, and diseases it never reports are null (unobserved, not "no cases").
+ */
+export async function buildSurveillanceTrainingData(records: SurveillanceRecord[]): Promise<{
+  data: TrainingDataPoint[]
+  districts: number
+  skipped: string[]
+}> {
+  const skipped: string[] = []
+  const unmapped = new Set<string>()
+
+  const byDistrict = new Map<string, SurveillanceRecord[]>()
+  records.forEach(record => {
+    if (!getDiseaseLabel(record.disease)) {
+      unmapped.add(record.disease)
+      return
+    }
+    const key = `${normalizeName(record.state)}|${normalizeName(record.district)}`
+    byDistrict.set(key, [...(byDistrict.get(key) || []), record])
+  })
+
+  if (unmapped.size > 0) {
+    skipped.push(`Not predicted by the model: ${[...unmapped].join(', ')}`)
+  }
+
+  const data: TrainingDataPoint[] = []
+  let districts = 0
+
+  // One district at a time, to stay well within the weather API rate limits
+  for (const districtRecords of byDistrict.values()) {
+    const { state, district } = districtRecords[0]
+    const withCoordinates = districtRecords.find(record => record.latitude !== undefined)
+    const coordinates = withCoordinates
+      ? { latitude: withCoordinates.latitude as number, longitude: withCoordinates.longitude as number }
+      : await getDistrictCoordinates(district, state)
+
+    if (!coordinates) {
+      skipped.push(`${district}, ${state}: location not found`)
+      continue
+    }
+
+    const weeks = [...new Set(districtRecords.map(record => record.week_start))].sort()
+    let history: WeatherData[]
+    try {
+      history = await fetchWeatherArchiveFromAPI(
+        { ...coordinates, city: district },
+        addDays(weeks[0], -MODEL_WEATHER_WINDOW_DAYS),
+        addDays(weeks[weeks.length - 1], -1)
+      )
+    } catch (error) {
+      skipped.push(`${district}, ${state}: ${error instanceof Error ? error.message : 'weather unavailable'}`)
+      continue
+    }
+
+    const peaks: Partial<Record<DiseaseLabel, number>> = {}
+    districtRecords.forEach(record => {
+      const label = getDiseaseLabel(record.disease) as DiseaseLabel
+      peaks[label] = Math.max(peaks[label] || MIN_PEAK_CASES, record.cases)
+    })
+
+    weeks.forEach(week => {
+      // The same window the prediction uses (see `mlFeatures`)
+      const days = selectModelWindow(history, week)
+      if (!days) {
+        skipped.push(`${district}, ${state} week ${week}: not enough weather history`)
+        return
+      }
+
+      const labels = Object.fromEntries(
+        DISEASE_LABELS.map(label => [label, peaks[label] !== undefined ? 0 : null])
+      ) as TrainingLabels
+      districtRecords
+        .filter(record => record.week_start === week)
+        .forEach(record => {
+          const label = getDiseaseLabel(record.disease) as DiseaseLabel
+          // The same disease may be reported under several names
+          labels[label] = Math.min((labels[label] as number) + record.cases / (peaks[label] as number), 1)
+        })
+
+      data.push({ ...buildModelFeatures(days), ...labels })
+    })
+    districts++
+  }
+
+  console.log(`🗂️ Built ${data.length} training points from surveillance data in ${districts} district(s)`)
+  if (skipped.length > 0) {
+    console.warn(`⚠️ Skipped surveillance data:\n  ${skipped.slice(0, 20).join('\n  ')}`)
+  }
+
+  return { data, districts, skipped }
+}
+
+/**
+ * Training points from all stored surveillance records
+ */
+export async function loadSurveillanceTrainingData(): Promise<TrainingDataPoint[]> {
+  const records = await loadSurveillanceRecords()
+  if (records.length === 0) return []
+  return (await buildSurveillanceTrainingData(records)).data
+}
@@ -18,21 +18,161 @@ export interface WeatherData {
   pressure?: number // hPa - correlates with respiratory issues
   dewPoint?: number // Celsius - indicates moisture levels affecting mold/bacteria growth
   weatherCode?: number // WMO weather code - general condition indicator
+  lagged?: LaggedWeatherFeatures // Rolling history from stored weather_data (not stored itself)
+  historyError?: string // Set instead of `lagged` when stored history could not be read (not stored itself)
+  airQuality?: AirQualityData // From the configured air quality provider
   recorded_at?: string
   created_at?: string
 }
 
 /**
- * Disease prediction with risk assessment
+ * Rolling weather history features over the previous 7/14/21 days
+ * - rainfallNd: estimated total rainfall (mm)
+ * - humidityNd: mean relative humidity (%)
+ * - degreeDaysNd: sum of daily mean temperature above the development base (°C·days)
  */
-export interface DiseasePrediction {
-  disease: string
+export type LaggedWeatherField =
+  | 'rainfall7d'
+  | 'rainfall14d'
+  | 'rainfall21d'
+  | 'humidity7d'
+  | 'humidity14d'
+  | 'humidity21d'
+  | 'degreeDays7d'
+  | 'degreeDays14d'
+  | 'degreeDays21d'
+
+/**
+ * A window is omitted when too few of its days have stored weather
+ */
+export type LaggedWeatherFeatures = Partial<Record<LaggedWeatherField, number>>
+
+/**
+ * Air quality readings a disease rule can test
+ */
+export type AirQualityField = 'pm25' | 'pm10' | 'no2' | 'o3' | 'pollen' | 'aqi'
+
+/**
+ * Current air quality at a weather location
+ * Pollutants in µg/m³; pollen in grains/m³ (only reported in some regions)
+ */
+export interface AirQualityData {
+  pm25: number
+  pm10: number
+  no2: number
+  o3: number
+  pollen?: number
+  aqi: number // Indian National AQI (0-500) from the pollutants above
+  source: string // Provider that supplied the readings
+}
+
+/**
+ * Stable disease identifier from the disease registry, e.g. 'dengue'
+ */
+export type DiseaseId = string
+
+/**
+ * Risk of one disease, common to rule-based, ML and ensemble predictions
+ */
+export interface DiseaseRisk {
+  disease_id: DiseaseId
+  disease: string // Display name
   risk_level: number // 0.0 to 1.0
+}
+
+/**
+ * Disease prediction with risk assessment
+ * `risk_level` is the weather risk adjusted by the seasonal prior
+ */
+export interface DiseasePrediction extends DiseaseRisk {
+  weather_risk: number // 0.0 to 1.0, from the weather rule alone
+  seasonal_prior: number | null // 0.0 to 1.0 for this month and region (0.5 = typical), null if none applies
   required_doctors: number
   specialty: string
   description: string
   symptoms: string[]
   prevention: string[]
+  contributing_factors: RiskContribution[] // Why the risk is what it is, largest first
+}
+
+/**
+ * ML model output for one disease (`risk_level` is the model probability)
+ */
+export interface MLDiseasePrediction extends DiseaseRisk {
+  confidence: number // 0.0 to 1.0, test accuracy of the model version
+  risk_category: 'High' | 'Medium' | 'Low' | 'Minimal'
+}
+
+/**
+ * Disease prediction blending the rule-based risk with the ML probability
+ * `risk_level` and `required_doctors` use the blended risk
+ */
+export interface EnsemblePrediction extends DiseasePrediction {
+  rule_risk: number // 0.0 to 1.0, rule-based risk (after the seasonal prior)
+  ml_risk: number | null // 0.0 to 1.0, null when the ML model does not predict this disease
+  ml_weight: number // ML share of the blend actually applied (0 without an ML risk)
+  disagreement: boolean // Rule and ML risks differ by more than the configured margin
+}
+
+/**
+ * Rule/ML ensemble settings (e.g. from the `ensemble_config` collection)
+ * ML weights are the ML share of the blended risk: 0 = rules only, 1 = ML only
+ */
+export interface EnsembleConfig {
+  default_ml_weight: number
+  ml_weights: Record<DiseaseId, number> // ML weight overriding the default
+  disagreement_margin: number // 0.0 to 1.0
+}
+
+/**
+ * A weather value tested by a matched rule condition
+ */
+export interface RuleObservation {
+  field: RuleField
+  value: number
+}
+
+/**
+ * One matched factor tier or bonus and the risk it added
+ * Weights are shown before the 1.0 cap, so they can sum to more than `risk_level`
+ */
+export interface RiskContribution {
+  label: string
+  kind: 'factor' | 'bonus'
+  condition: string // Matched conditions, e.g. "Humidity > 80%"
+  observed: RuleObservation[]
+  weight: number
+}
+
+/**
+ * Forecast risk of one disease on one day
+ */
+export interface DiseaseOutlookPoint {
+  date: string // YYYY-MM-DD
+  risk_level: number // 0.0 to 1.0
+}
+
+/**
+ * Risk curve of one disease over the forecast window
+ */
+export interface DiseaseOutlook {
+  disease_id: DiseaseId
+  disease: string
+  specialty: string
+  points: DiseaseOutlookPoint[]
+  peak_date: string
+  peak_risk: number
+  peak_required_doctors: number // At the peak day's risk (population-scaled for PIN codes)
+}
+
+/**
+ * Multi-day disease outlook for a city or PIN code
+ */
+export interface DiseaseOutlookSummary {
+  city: string
+  forecast: WeatherData[] // One entry per day (`recorded_at` = date)
+  diseases: DiseaseOutlook[] // Diseases that reach significant risk on any day, highest peak first
+  generated_at: string
 }
 
 /**
@@ -41,7 +181,8 @@ export interface DiseasePrediction {
 export interface DoctorRequirement {
   id?: string
   city: string
-  predicted_disease: string
+  disease_id?: DiseaseId // Missing on records stored before the disease registry (see the migration job)
+  predicted_disease: string // Display name
   risk_level: number | 'High' | 'Medium' | 'Low' | 'Minimal'
   required_doctors: number
   specialty: string
@@ -49,7 +190,13 @@ export interface DoctorRequirement {
   created_at?: string
   ml_probability?: number
   ml_confidence?: number
-  prediction_method?: 'ML' | 'Rule-Based'
+  weather_risk?: number // Rule-based and ensemble: risk before the seasonal prior
+  seasonal_prior?: number | null
+  rule_risk?: number // Ensemble only: components of the blended `risk_level` (0-1)
+  ml_risk?: number | null
+  ml_weight?: number
+  disagreement?: boolean // Ensemble only: rule and ML risks differ by more than the margin
+  prediction_method?: 'ML' | 'Rule-Based' | 'Ensemble'
 }
 
 /**
@@ -81,12 +228,14 @@ export interface OpenMeteoResponse {
     pressure_msl?: number[]
     dewpoint_2m?: number[]
     uv_index?: number[]
+    shortwave_radiation?: number[] // W/m², historical archive only (no UV there)
   }
   daily?: {
     time: string[]
     temperature_2m_max: number[]
     temperature_2m_min: number[]
     precipitation_sum: number[]
+    weathercode?: number[]
   }
 }
 
@@ -103,35 +252,150 @@ export interface WeatherFetchConfig {
 }
 
 /**
- * Disease risk thresholds - Enhanced with more parameters
+ * Weather values a disease rule can test
+ * `dewPointSpread` is derived: temperature minus dew point
+ * Lagged fields come from `WeatherData.lagged`, air quality fields from `WeatherData.airQuality`
+ */
+export type RuleField =
+  | 'temperature'
+  | 'humidity'
+  | 'rainfall'
+  | 'windSpeed'
+  | 'uvIndex'
+  | 'pressure'
+  | 'dewPoint'
+  | 'dewPointSpread'
+  | LaggedWeatherField
+  | AirQualityField
+
+/**
+ * Bounds on a single weather value; every bound given must hold
+ * Optional fields that are missing from the weather data never match
+ */
+export interface RuleCondition {
+  field: RuleField
+  gt?: number
+  gte?: number
+  lt?: number
+  lte?: number
+}
+
+/**
+ * One band of a factor: all conditions must match for the weight to apply
+ */
+export interface RuleTier {
+  when: RuleCondition[]
+  weight: number
+}
+
+/**
+ * A risk factor; only the first matching tier contributes (if/else-if chain)
  */
-export interface DiseaseThresholds {
-  temperature_min?: number
-  temperature_max?: number
-  humidity_min?: number
-  humidity_max?: number
-  rainfall_min?: number
-  rainfall_max?: number
-  windSpeed_min?: number
-  windSpeed_max?: number
-  uvIndex_min?: number
-  uvIndex_max?: number
-  pressure_min?: number
-  pressure_max?: number
+export interface RuleFactor {
+  label: string
+  tiers: RuleTier[]
+}
+
+/**
+ * Extra risk added when a combination of conditions all match
+ */
+export interface RuleBonus {
+  label: string
+  when: RuleCondition[]
+  weight: number
+}
+
+/**
+ * Declarative risk rule: factor weights, then bonuses, summed and capped at 1
+ */
+export interface DiseaseRule {
+  factors: RuleFactor[]
+  bonuses: RuleBonus[]
+}
+
+/**
+ * Indian climate regions used for seasonal priors
+ */
+export type ClimateRegion =
+  | 'north_plains'
+  | 'northwest_arid'
+  | 'himalayan'
+  | 'northeast'
+  | 'east'
+  | 'central_deccan'
+  | 'west_coast'
+  | 'southeast_coast'
+
+/**
+ * Seasonal pattern a disease follows
+ */
+export type SeasonKind = 'monsoon' | 'post_monsoon' | 'winter' | 'summer' | 'pollen'
+
+/**
+ * Twelve monthly priors, January first (0 = off season, 0.5 = typical, 1 = peak)
+ */
+export type MonthlyCurve = number[]
+
+/**
+ * Per-state seasonal configuration (e.g. from the `seasonal_priors` collection)
+ */
+export interface StateSeasonalOverride {
+  region?: ClimateRegion // Reassigns the state's climate region
+  diseases?: Record<DiseaseId, MonthlyCurve> // Curve replacing the region's curve
+}
+
+/**
+ * Everything needed to resolve a seasonal prior
+ */
+export interface SeasonalPriorConfig {
+  national_curves: Record<SeasonKind, MonthlyCurve>
+  region_curves: Record<ClimateRegion, Partial<Record<SeasonKind, MonthlyCurve>>>
+  disease_seasons: Record<DiseaseId, SeasonKind>
+  state_regions: Record<string, ClimateRegion> // Lower-case state name → region
+  state_overrides: Record<string, StateSeasonalOverride> // Lower-case state name → override
+}
+
+/**
+ * Seasonal priors resolved for one place and month
+ */
+export interface SeasonalContext {
+  state: string | null
+  region: ClimateRegion | null // null = national curves
+  month: number // 1-12
+  priors: Record<DiseaseId, number>
+}
+
+/**
+ * Where a disease is endemic: any listed state, or any listed district elsewhere
+ * Names are matched case-insensitively
+ */
+export interface EndemicArea {
+  states: string[]
+  districts?: string[]
+}
+
+/**
+ * Resolved location a disease catalog is filtered for
+ */
+export interface DiseaseLocation {
+  state: string | null
+  district?: string | null
 }
 
 /**
  * Disease definition with prediction rules
+ * Pure data, so definitions can be stored in Firestore or JSON
  */
 export interface DiseaseDefinition {
-  name: string
+  id: DiseaseId
+  name: string // Display name
   specialty: string
   doctors_required: number
-  thresholds: DiseaseThresholds
   description: string
   symptoms: string[]
   prevention: string[]
-  risk_calculator: (weather: WeatherData) => number
+  rule: DiseaseRule
+  endemic?: EndemicArea // Omitted = evaluated everywhere
 }
 
 /**
@@ -159,24 +423,36 @@ export interface ApiResponse<T> {
 }
 
 /**
- * City coordinates for weather fetching
+ * A location in the location registry (weather collection, city lookups, PIN code resolution)
  */
-export interface CityCoordinates {
-  name: string
+export interface RegisteredLocation {
+  id: string // Stable slug, e.g. 'mumbai'
+  city: string
+  district: string
+  state: string
   latitude: number
   longitude: number
-  country?: string
-  state?: string
+  population: number // Urban agglomeration population (Census 2011)
+  aliases?: string[] // Other city or district names that resolve to this location
 }
 
 /**
  * Weather statistics for analytics
+ * Stored per city and UTC day in `weather_stats` when hourly `weather_data` is rolled up
  */
 export interface WeatherStats {
+  id?: string
   city: string
+  location_id?: string // Registered location, for records stored by the ingestion job
+  state?: string
+  date?: string // YYYY-MM-DD (UTC) for daily aggregates
   avg_temperature: number
   avg_humidity: number
-  total_rainfall: number
+  total_rainfall: number // mm over the period (mean hourly rate × hours for daily aggregates)
+  avg_wind_speed?: number
+  avg_pressure?: number
+  avg_dew_point?: number
+  max_uv_index?: number
   data_points: number
   period_start: string
   period_end: string
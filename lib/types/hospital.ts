@@ -0,0 +1,136 @@
+/**
+ * TypeScript interfaces for Hospital Bed & Oxygen Availability
+ */
+
+/**
+ * Ward types tracked for every hospital
+ */
+export type WardType =
+  | 'general'
+  | 'icu'
+  | 'icu_ventilator'
+  | 'emergency'
+  | 'pediatric'
+  | 'maternity'
+
+/**
+ * Capacity of a single ward
+ */
+export interface WardCapacity {
+  total: number
+  occupied: number
+  held?: number // Beds reserved by accepted referrals (applied when reading, never stored)
+}
+
+/**
+ * Per-ward bed inventory keyed by ward type
+ */
+export type WardBeds = Record<WardType, WardCapacity>
+
+/**
+ * Oxygen stock: compressed cylinders plus the liquid-oxygen (LOX) tank
+ */
+export interface OxygenSupply {
+  cylinders: number
+  tank_litres: number // Liquid oxygen currently in the tank
+  tank_capacity_litres: number // 0 when the hospital has no tank
+}
+
+/**
+ * Latest availability snapshot for a hospital
+ */
+export interface HospitalAvailability {
+  available_beds: number // Sum of free beds across all wards
+  available_oxygen: number // Cylinders (kept for older readers)
+  wards: WardBeds
+  oxygen: OxygenSupply
+  oxygen_consumption_lph: number | null // Gaseous litres per hour, null until measurable
+  oxygen_depletes_at: number | null // Projected depletion time (ms since epoch)
+  last_updated: string
+  updated_at_ms: number | null // Used for freshness checks
+}
+
+/**
+ * Hospital as shown on the dashboard
+ */
+export interface Hospital {
+  id: number | string  // Allow both number and string IDs
+  doc_id?: string // Firestore document ID in `hospitals`
+  name: string
+  address: string
+  phone_number?: string
+  latitude: number
+  longitude: number
+  pincode?: string
+  availability?: HospitalAvailability[]
+}
+
+/**
+ * Availability document as stored in the `availability` collection
+ */
+export interface AvailabilityRecord {
+  hospital_id: number | string
+  available_beds: number
+  available_oxygen: number // Cylinders
+  liquid_oxygen_litres?: number
+  liquid_oxygen_capacity_litres?: number
+  oxygen_consumption_lph?: number | null // Written with each update from recent history
+  wards?: Partial<WardBeds>
+  updated_at: unknown // Firestore Timestamp
+}
+
+/**
+ * One point of a hospital's availability history
+ */
+export interface AvailabilityHistoryPoint {
+  timestamp: number // Milliseconds since epoch
+  available_beds: number
+  available_oxygen: number
+}
+
+/**
+ * Daily min/max of bed and oxygen availability
+ */
+export interface DailyAvailabilityStats {
+  date: string // YYYY-MM-DD (local time)
+  min_beds: number
+  max_beds: number
+  min_oxygen: number
+  max_oxygen: number
+  updates: number
+}
+
+/**
+ * Time a hospital spent with no free beds
+ */
+export interface ZeroBedStats {
+  total_ms: number
+  percentage: number // Share of the observed period (0-100)
+  episodes: number
+  longest_ms: number
+}
+
+/**
+ * Resource a patient needs, used to filter hospitals
+ */
+export type RequiredResource = 'oxygen' | 'icu' | 'ventilator'
+
+/**
+ * Point a nearby-hospital search is measured from
+ */
+export interface SearchOrigin {
+  latitude: number
+  longitude: number
+  label: string // e.g. "your location" or "Bangalore (560001)"
+  source: 'geolocation' | 'pincode'
+}
+
+/**
+ * Hospital ranked by distance and bed availability
+ */
+export interface RankedHospital {
+  hospital: Hospital
+  distance_km: number
+  free_beds: number
+  score: number // Lower is better
+}
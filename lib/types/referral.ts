@@ -0,0 +1,62 @@
+/**
+ * TypeScript interfaces for Bed Reservation / Patient Referral workflow
+ */
+
+import type { WardType } from './hospital'
+
+/**
+ * How urgently the referred patient needs a bed
+ */
+export type AcuityLevel = 'critical' | 'serious' | 'stable'
+
+/**
+ * Stored lifecycle of a referral
+ * - pending: waiting for the receiving hospital
+ * - accepted: a bed is held until `hold_until`
+ * - admitted: patient arrived, hold released (the ward count now covers the bed)
+ */
+export type ReferralStatus = 'pending' | 'accepted' | 'declined' | 'cancelled' | 'admitted'
+
+/**
+ * Status as shown to users: accepted referrals whose hold ran out are expired
+ */
+export type EffectiveReferralStatus = ReferralStatus | 'expired'
+
+/**
+ * Referral document in the `referrals` collection (timestamps as ms since epoch)
+ */
+export interface Referral {
+  id: string
+  to_hospital_id: string // String form of the receiving hospital's `id` (matches availability)
+  to_hospital_doc_id: string // Receiving hospital's document ID (matches `profiles.hospital_id`)
+  to_hospital_name: string
+  from_hospital_doc_id: string | null // Requester's hospital, if any
+  from_hospital_name: string | null
+  requested_by: string // User ID
+  requested_by_name: string
+  bed_type: WardType
+  acuity: AcuityLevel
+  patient_notes: string
+  status: ReferralStatus
+  decline_reason: string | null
+  hold_until: number | null // Set when accepted
+  created_at: number
+  responded_at: number | null
+}
+
+/**
+ * Fields supplied when requesting a bed
+ */
+export type NewReferral = Pick<
+  Referral,
+  | 'to_hospital_id'
+  | 'to_hospital_doc_id'
+  | 'to_hospital_name'
+  | 'from_hospital_doc_id'
+  | 'from_hospital_name'
+  | 'requested_by'
+  | 'requested_by_name'
+  | 'bed_type'
+  | 'acuity'
+  | 'patient_notes'
+>
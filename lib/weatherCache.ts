@@ -0,0 +1,143 @@
+/**
+ * Weather Cache
+ * Wraps a weather provider so nearby requests within the same hour share one response
+ * (e.g. PIN codes in the same district), in memory and optionally in Firestore so the
+ * cache is shared across server instances and browsers
+ *
+ * Keys are the coordinates rounded to 0.1° (about the model grid spacing) plus the UTC hour;
+ * history is keyed by its date range instead and kept for a day
+ *
+ * The Firestore layer is written through the Admin SDK, so it is for server code only;
+ * firestore.rules lets other clients only read the cache
+ */
+
+import { db } from './firebase'
+import { getAdminDb } from './firebaseAdmin'
+import { doc, getDoc, Timestamp } from 'firebase/firestore'
+import { Timestamp as AdminTimestamp } from 'firebase-admin/firestore'
+import type { WeatherProvider } from './weatherProvider'
+import type { WeatherData, WeatherFetchConfig } from './types/doctor-module'
+
+export const WEATHER_CACHE_COLLECTION = 'weather_cache'
+
+const COORDINATE_DECIMALS = 1
+const MS_PER_HOUR = 60 * 60 * 1000
+const ARCHIVE_TTL_MS = 24 * MS_PER_HOUR
+
+export interface WeatherCacheOptions {
+  firestore?: boolean // Also read and write the weather_cache collection (server only)
+}
+
+interface CacheEntry {
+  value: WeatherData | WeatherData[]
+  expiresAt: number
+}
+
+function locationKey({ latitude, longitude }: WeatherFetchConfig): string {
+  return `${latitude.toFixed(COORDINATE_DECIMALS)}_${longitude.toFixed(COORDINATE_DECIMALS)}`
+}
+
+/**
+ * Current UTC hour (YYYY-MM-DDTHH) and when it ends
+ */
+function currentHour(now: number = Date.now()): { hour: string; endsAt: number } {
+  const start = Math.floor(now / MS_PER_HOUR) * MS_PER_HOUR
+  return { hour: new Date(start).toISOString().slice(0, 13), endsAt: start + MS_PER_HOUR }
+}
+
+/**
+ * Cached values keep the city name of the request that stored them
+ */
+function forCity<T extends WeatherData | WeatherData[]>(value: T, city: string): T {
+  return (Array.isArray(value)
+    ? value.map(weather => ({ ...weather, city }))
+    : { ...value, city }) as T
+}
+
+/**
+ * Provider answering from the cache before calling `provider`
+ * Firestore errors are logged and the request falls through to the provider
+ */
+export function createCachedWeatherProvider(
+  provider: WeatherProvider,
+  { firestore = false }: WeatherCacheOptions = {}
+): WeatherProvider {
+  const memory = new Map<string, CacheEntry>()
+
+  const readFirestore = async (key: string): Promise<CacheEntry | null> => {
+    try {
+      const snapshot = await getDoc(doc(db, WEATHER_CACHE_COLLECTION, key))
+      if (!snapshot.exists()) return null
+      const data = snapshot.data()
+      const expiresAt = (data.expires_at as Timestamp).toMillis()
+      return expiresAt > Date.now() ? { value: data.weather, expiresAt } : null
+    } catch (error) {
+      console.warn(`⚠️ Could not read cached weather ${key} from Firestore:`, error)
+      return null
+    }
+  }
+
+  const writeFirestore = async (key: string, entry: CacheEntry): Promise<void> => {
+    try {
+      await getAdminDb().collection(WEATHER_CACHE_COLLECTION).doc(key).set({
+        // Firestore rejects undefined, so optional readings are dropped
+        weather: JSON.parse(JSON.stringify(entry.value)),
+        provider: provider.name,
+        expires_at: AdminTimestamp.fromMillis(entry.expiresAt),
+        cached_at: AdminTimestamp.now(),
+      })
+    } catch (error) {
+      console.warn(`⚠️ Could not cache weather ${key} in Firestore:`, error)
+    }
+  }
+
+  const cached = async <T extends WeatherData | WeatherData[]>(
+    key: string,
+    city: string,
+    expiresAt: number,
+    load: () => Promise<T>
+  ): Promise<T> => {
+    const now = Date.now()
+    let entry = memory.get(key)
+    if (!entry || entry.expiresAt <= now) {
+      entry = (firestore && await readFirestore(key)) || undefined
+      if (entry) memory.set(key, entry)
+    }
+    if (entry && entry.expiresAt > now) {
+      console.log(`🗄️ Weather cache hit for ${city} (${key})`)
+      return forCity(entry.value as T, city)
+    }
+
+    const value = await load()
+    entry = { value, expiresAt }
+
+    // Drop expired entries so long-running servers do not grow the cache indefinitely
+    memory.forEach((existing, existingKey) => {
+      if (existing.expiresAt <= now) memory.delete(existingKey)
+    })
+    memory.set(key, entry)
+    if (firestore) await writeFirestore(key, entry)
+    return value
+  }
+
+  return {
+    name: provider.name,
+
+    fetchCurrentWeather(config) {
+      const { hour, endsAt } = currentHour()
+      return cached(`current_${locationKey(config)}_${hour}`, config.city, endsAt,
+        () => provider.fetchCurrentWeather(config))
+    },
+
+    fetchForecast(config, days) {
+      const { hour, endsAt } = currentHour()
+      return cached(`forecast${days}_${locationKey(config)}_${hour}`, config.city, endsAt,
+        () => provider.fetchForecast(config, days))
+    },
+
+    fetchArchive(config, startDate, endDate) {
+      return cached(`archive_${locationKey(config)}_${startDate}_${endDate}`, config.city,
+        Date.now() + ARCHIVE_TTL_MS, () => provider.fetchArchive(config, startDate, endDate))
+    },
+  }
+}
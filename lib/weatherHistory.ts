@@ -0,0 +1,92 @@
+/**
+ * Weather History Aggregation
+ * Rolling 7/14/21-day features from stored `weather_data` snapshots, for
+ * diseases whose risk lags the weather (e.g. mosquito larvae need 1-3 weeks)
+ *
+ * Snapshots are taken at irregular times, so each day is first reduced to its
+ * daily summary (see dailyWeather). Windows with missing days are scaled up from
+ * the days present, and dropped entirely when fewer than half the days have data.
+ */
+
+import { db } from './firebase'
+import { collection, getDocs, query, where, Timestamp } from 'firebase/firestore'
+import { summarizeWeatherByDay } from './dailyWeather'
+import type { LaggedWeatherFeatures, LaggedWeatherField, WeatherData } from './types/doctor-module'
+
+export const WEATHER_HISTORY_WINDOWS_DAYS = [7, 14, 21] as const
+
+// Below this daily mean temperature mosquito and parasite development stalls
+export const DEGREE_DAY_BASE_C = 18
+
+const MIN_WINDOW_COVERAGE = 0.5
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+/**
+ * Rolling features for each window ending at `now`
+ */
+export function calculateLaggedFeatures(records: WeatherData[], now: number = Date.now()): LaggedWeatherFeatures {
+  const days = summarizeWeatherByDay(records)
+  const features: LaggedWeatherFeatures = {}
+
+  WEATHER_HISTORY_WINDOWS_DAYS.forEach(windowDays => {
+    const windowStart = new Date(now - windowDays * MS_PER_DAY).toISOString().slice(0, 10)
+    const windowData = days.filter(day => day.recorded_at > windowStart)
+    if (windowData.length < windowDays * MIN_WINDOW_COVERAGE) return
+
+    const scale = windowDays / windowData.length
+    const set = (prefix: 'rainfall' | 'humidity' | 'degreeDays', value: number) => {
+      features[`${prefix}${windowDays}d` as LaggedWeatherField] = Number(value.toFixed(1))
+    }
+
+    set('rainfall', windowData.reduce((sum, day) => sum + day.rainfall, 0) * scale)
+    set('humidity', mean(windowData.map(day => day.humidity)))
+    set('degreeDays', windowData.reduce((sum, day) => sum + Math.max(0, day.temperature - DEGREE_DAY_BASE_C), 0) * scale)
+  })
+
+  return features
+}
+
+/**
+ * Stored weather snapshots for a city over the last `days` days
+ * Requires the weather_data (city + recorded_at) composite index
+ */
+export async function fetchWeatherHistory(city: string, days: number = 21): Promise<WeatherData[]> {
+  const since = Timestamp.fromMillis(Date.now() - days * MS_PER_DAY)
+  const snapshot = await getDocs(
+    query(
+      collection(db, 'weather_data'),
+      where('city', '==', city),
+      where('recorded_at', '>=', since)
+    )
+  )
+
+  return snapshot.docs.map(doc => {
+    const data = doc.data()
+    return {
+      ...(data as WeatherData),
+      id: doc.id,
+      recorded_at: data.recorded_at instanceof Timestamp ? data.recorded_at.toDate().toISOString() : data.recorded_at,
+    }
+  })
+}
+
+/**
+ * Adds rolling history features to current weather
+ * Without history (new city) lagged rule factors simply do not match; when the
+ * history cannot be read, `historyError` says why so callers can report it
+ */
+export async function withLaggedFeatures(weather: WeatherData): Promise<WeatherData> {
+  try {
+    const history = await fetchWeatherHistory(weather.city, Math.max(...WEATHER_HISTORY_WINDOWS_DAYS))
+    const lagged = calculateLaggedFeatures(history)
+    console.log(`📆 Lagged weather features for ${weather.city} from ${history.length} snapshots:`, lagged)
+    return { ...weather, lagged }
+  } catch (error) {
+    console.error(`❌ Could not load weather history for ${weather.city}:`, error)
+    return { ...weather, historyError: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * Weather Ingestion Job
+ * Fetches weather for every registered location, stores one `weather_data` record per
+ * location per UTC hour, runs the disease prediction for each and records the run in
+ * `ingestion_logs`
+ *
+ * Records use deterministic IDs (`<location id>_<YYYY-MM-DDTHH>`), so a repeated or
+ * overlapping trigger within the same hour skips locations already stored.
+ * Triggered by the cron route `/api/ingestWeather`; `/api/fetchWeatherData` stores through
+ * the same functions, so every path keeps one record per location per hour.
+ * The run log is written through the Admin SDK, as clients may only read it.
+ */
+
+import { db } from './firebase'
+import { getAdminDb } from './firebaseAdmin'
+import { doc, getDoc, setDoc, Timestamp } from 'firebase/firestore'
+import { Timestamp as AdminTimestamp } from 'firebase-admin/firestore'
+import { fetchWeatherFromAPI } from './fetchWeatherData'
+import { withAirQuality } from './airQuality'
+import { withLaggedFeatures } from './weatherHistory'
+import { loadLocations } from './locationStore'
+import { loadDiseaseDefinitions } from './diseaseRuleStore'
+import { loadSeasonalPriorConfig } from './seasonalPriorStore'
+import { loadEnsembleConfig } from './ensembleConfigStore'
+import { getSeasonalContext } from './seasonalPriors'
+import { filterDefinitionsForLocation } from './diseaseCatalog'
+import { loadMLModel } from './mlModel'
+import { predictDiseasesEnsemble, toDoctorRequirement } from './predictionEnsemble'
+import type {
+  DiseaseDefinition,
+  EnsembleConfig,
+  EnsemblePrediction,
+  RegisteredLocation,
+  SeasonalPriorConfig,
+  WeatherData,
+} from './types/doctor-module'
+
+export const INGESTION_LOGS_COLLECTION = 'ingestion_logs'
+
+// Locations fetched at the same time, to stay well inside Open-Meteo rate limits
+const CONCURRENCY = 5
+
+/**
+ * Outcome for one location
+ * `skipped`: a record for this hour was already stored by an earlier run
+ * `history_error`: stored, but predicted without lagged features (history could not be read)
+ */
+export interface IngestionLocationResult {
+  location_id: string
+  city: string
+  status: 'stored' | 'skipped' | 'failed'
+  prediction_count: number
+  error?: string
+  history_error?: string
+}
+
+/**
+ * Summary of one ingestion run, as stored in `ingestion_logs`
+ * `partial`: some locations failed; `failed`: none were stored or the run itself failed
+ */
+export interface IngestionRunSummary {
+  id: string
+  hour: string // UTC hour the records belong to (YYYY-MM-DDTHH)
+  status: 'success' | 'partial' | 'failed'
+  locations_total: number
+  stored: number
+  skipped: number
+  failed: number
+  prediction_count: number
+  failures: { location_id: string; city: string; error: string }[]
+  history_unavailable: { location_id: string; city: string; error: string }[]
+  error?: string
+}
+
+/**
+ * Disease settings shared by every location of a run
+ */
+export interface PredictionSettings {
+  definitions: DiseaseDefinition[]
+  seasonalConfig: SeasonalPriorConfig
+  ensembleConfig: EnsembleConfig
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+/**
+ * UTC hour a record stored at `now` belongs to (YYYY-MM-DDTHH)
+ */
+export function getIngestionHour(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 13)
+}
+
+/**
+ * Loads the stored ML model and the disease settings for a run
+ * Without a stored model every location falls back to rule-based risk
+ */
+export async function loadPredictionSettings(): Promise<PredictionSettings> {
+  await loadMLModel()
+  return {
+    definitions: await loadDiseaseDefinitions(),
+    seasonalConfig: await loadSeasonalPriorConfig(),
+    ensembleConfig: await loadEnsembleConfig(),
+  }
+}
+
+/**
+ * Fetches a location's current weather and stores it with its predictions as the record
+ * for `hour`, replacing one stored earlier in the same hour
+ * @returns The weather with lagged features (not stored) and the predictions
+ */
+export async function recordLocationWeather(
+  location: RegisteredLocation,
+  hour: string,
+  settings: PredictionSettings
+): Promise<{ id: string; weather: WeatherData; predictions: EnsemblePrediction[] }> {
+  const recordId = `${location.id}_${hour}`
+
+  const weather = await withAirQuality(await fetchWeatherFromAPI({
+    latitude: location.latitude,
+    longitude: location.longitude,
+    city: location.city,
+  }), location)
+
+  // Lagged features come from earlier records, so read them before storing this one
+  const laggedWeather = await withLaggedFeatures(weather)
+
+  await setDoc(doc(db, 'weather_data', recordId), {
+    ...weather,
+    location_id: location.id,
+    state: location.state,
+    recorded_at: Timestamp.now(),
+  })
+
+  const season = getSeasonalContext(location.state, new Date(), settings.seasonalConfig)
+  const definitions = filterDefinitionsForLocation(settings.definitions, location)
+  const predictions = await predictDiseasesEnsemble(laggedWeather, definitions, season, settings.ensembleConfig)
+
+  await Promise.all(predictions.map(prediction =>
+    setDoc(doc(db, 'doctor_requirements', `${recordId}_${prediction.disease_id}`), {
+      ...toDoctorRequirement(location.city, prediction),
+      generated_at: Timestamp.now(),
+    })
+  ))
+
+  return { id: recordId, weather: laggedWeather, predictions }
+}
+
+/**
+ * Stores and predicts for one location, unless its record for the hour already exists
+ */
+async function ingestLocation(
+  location: RegisteredLocation,
+  hour: string,
+  settings: PredictionSettings
+): Promise<IngestionLocationResult> {
+  const result: IngestionLocationResult = {
+    location_id: location.id,
+    city: location.city,
+    status: 'stored',
+    prediction_count: 0,
+  }
+
+  try {
+    if ((await getDoc(doc(db, 'weather_data', `${location.id}_${hour}`))).exists()) {
+      return { ...result, status: 'skipped' }
+    }
+
+    const { weather, predictions } = await recordLocationWeather(location, hour, settings)
+
+    return {
+      ...result,
+      prediction_count: predictions.length,
+      ...(weather.historyError && { history_error: weather.historyError }),
+    }
+  } catch (error) {
+    console.error(`❌ Weather ingestion failed for ${location.city}:`, error)
+    return { ...result, status: 'failed', error: errorMessage(error) }
+  }
+}
+
+/**
+ * Runs one ingestion over all registered locations
+ * The log entry is written as `running` first, so runs that never finish are visible
+ * @throws Error when FIREBASE_SERVICE_ACCOUNT_KEY is missing
+ */
+export async function runWeatherIngestion(now: Date = new Date()): Promise<IngestionRunSummary> {
+  const hour = getIngestionHour(now)
+  const logRef = getAdminDb().collection(INGESTION_LOGS_COLLECTION).doc()
+  await logRef.set({
+    hour,
+    status: 'running',
+    started_at: AdminTimestamp.fromDate(now),
+  })
+  console.log(`🛰️ Weather ingestion ${logRef.id} started for ${hour}`)
+
+  let summary: IngestionRunSummary
+  try {
+    const locations = await loadLocations()
+    const settings = await loadPredictionSettings()
+
+    const results: IngestionLocationResult[] = []
+    for (let start = 0; start < locations.length; start += CONCURRENCY) {
+      results.push(...await Promise.all(
+        locations.slice(start, start + CONCURRENCY).map(location => ingestLocation(location, hour, settings))
+      ))
+    }
+
+    const count = (status: IngestionLocationResult['status']) => results.filter(result => result.status === status).length
+    const failures = results
+      .filter(result => result.status === 'failed')
+      .map(({ location_id, city, error }) => ({ location_id, city, error: error || 'Unknown error' }))
+    const historyUnavailable = results
+      .filter(result => result.history_error)
+      .map(({ location_id, city, history_error }) => ({ location_id, city, error: history_error! }))
+
+    summary = {
+      id: logRef.id,
+      hour,
+      status: failures.length === 0 ? 'success' : failures.length < results.length ? 'partial' : 'failed',
+      locations_total: locations.length,
+      stored: count('stored'),
+      skipped: count('skipped'),
+      failed: failures.length,
+      prediction_count: results.reduce((sum, result) => sum + result.prediction_count, 0),
+      failures,
+      history_unavailable: historyUnavailable,
+    }
+  } catch (error) {
+    console.error('❌ Weather ingestion failed:', error)
+    summary = {
+      id: logRef.id,
+      hour,
+      status: 'failed',
+      locations_total: 0,
+      stored: 0,
+      skipped: 0,
+      failed: 0,
+      prediction_count: 0,
+      failures: [],
+      history_unavailable: [],
+      error: errorMessage(error),
+    }
+  }
+
+  const { id, ...logFields } = summary
+  await logRef.update({ ...logFields, finished_at: AdminTimestamp.now() })
+
+  console.log(`🛰️ Weather ingestion ${id} ${summary.status}: ${summary.stored} stored, ${summary.skipped} skipped, ${summary.failed} failed`)
+  if (summary.history_unavailable.length > 0) {
+    console.error(`❌ ${summary.history_unavailable.length} location(s) predicted without weather history`)
+  }
+  return summary
+}
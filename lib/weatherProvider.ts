@@ -0,0 +1,288 @@
+/**
+ * Weather Providers
+ * Current conditions, daily forecasts and daily history for a location,
+ * used by the disease pipeline through `fetchWeatherData`
+ *
+ * - `open-meteo` (default): Open-Meteo APIs, free, no API key
+ *   Documentation: https://open-meteo.com/en/docs
+ * - `fixture`: replays recorded weather (lib/fixtures/weather.json), for tests and
+ *   demos without network access. Re-record with scripts/recordWeatherFixtures.ts
+ */
+
+import type { OpenMeteoResponse, WeatherData, WeatherFetchConfig } from './types/doctor-module'
+import recordedFixtures from './fixtures/weather.json'
+
+export interface WeatherProvider {
+  name: string
+  fetchCurrentWeather(config: WeatherFetchConfig): Promise<WeatherData>
+  /** One entry per day starting today; `recorded_at` is the date (YYYY-MM-DD) */
+  fetchForecast(config: WeatherFetchConfig, days: number): Promise<WeatherData[]>
+  /** One entry per day from `startDate` to `endDate` (YYYY-MM-DD) */
+  fetchArchive(config: WeatherFetchConfig, startDate: string, endDate: string): Promise<WeatherData[]>
+}
+
+/**
+ * Weather values without location or timestamps, as stored in fixtures
+ */
+export type WeatherReading = Omit<WeatherData, 'id' | 'city' | 'lagged' | 'airQuality' | 'recorded_at' | 'created_at'>
+
+/**
+ * Weather recorded for one location: current conditions plus the daily forecast at that time
+ */
+export interface WeatherFixture {
+  city: string
+  latitude: number
+  longitude: number
+  recorded_at: string
+  current: WeatherReading
+  daily: WeatherReading[]
+}
+
+async function fetchOpenMeteo(url: string, timeoutMs: number): Promise<OpenMeteoResponse> {
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    signal: AbortSignal.timeout(timeoutMs),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Open-Meteo API error: ${response.status} ${response.statusText}`)
+  }
+  return response.json()
+}
+
+function average(values: number[]): number | undefined {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined
+}
+
+// Clear-sky midday UV index is roughly 1 per 100 W/m² of shortwave radiation
+const UV_INDEX_PER_WM2 = 0.01
+
+/**
+ * One WeatherData per day of an Open-Meteo response with daily and hourly data
+ * Daily values: mean of max/min temperature, precipitation sum, weather code;
+ * hourly humidity/wind/pressure/dew point are averaged and UV is the day's maximum
+ * (estimated from peak shortwave radiation when UV is not available)
+ */
+function toDailyWeather(city: string, data: OpenMeteoResponse): WeatherData[] {
+  const daily = data.daily
+  if (!daily) return []
+
+  const hourly = data.hourly
+  const hoursOf = (date: string, values?: number[]): number[] => {
+    if (!hourly || !values) return []
+    return hourly.time
+      .map((time, i) => (time.startsWith(date) ? values[i] : null))
+      .filter((value): value is number => typeof value === 'number')
+  }
+
+  return daily.time.map((date, i) => {
+    const uvValues = hourly?.uv_index
+      ? hoursOf(date, hourly.uv_index)
+      : hoursOf(date, hourly?.shortwave_radiation).map(radiation => radiation * UV_INDEX_PER_WM2)
+    return {
+      city,
+      temperature: (daily.temperature_2m_max[i] + daily.temperature_2m_min[i]) / 2,
+      humidity: average(hoursOf(date, hourly?.relativehumidity_2m)) ?? 0,
+      rainfall: daily.precipitation_sum[i] || 0,
+      windSpeed: average(hoursOf(date, hourly?.windspeed_10m)),
+      uvIndex: uvValues.length > 0 ? Math.max(...uvValues) : undefined,
+      pressure: average(hoursOf(date, hourly?.pressure_msl)),
+      dewPoint: average(hoursOf(date, hourly?.dewpoint_2m)),
+      weatherCode: daily.weathercode?.[i] ?? undefined,
+      recorded_at: date,
+    }
+  })
+}
+
+/**
+ * Open-Meteo forecast and historical weather APIs
+ */
+export const openMeteoWeatherProvider: WeatherProvider = {
+  name: 'open-meteo',
+
+  async fetchCurrentWeather({ latitude, longitude, city, timezone = 'auto' }) {
+    // Enhanced hourly parameters for better disease prediction
+    const params = new URLSearchParams({
+      latitude: latitude.toString(),
+      longitude: longitude.toString(),
+      current_weather: 'true',
+      hourly: 'temperature_2m,relativehumidity_2m,precipitation,windspeed_10m,pressure_msl,dewpoint_2m,uv_index',
+      timezone: timezone,
+    })
+
+    const data = await fetchOpenMeteo(`https://api.open-meteo.com/v1/forecast?${params.toString()}`, 10000)
+
+    const currentWeather = data.current_weather
+    if (!currentWeather) {
+      throw new Error('No current weather data available from API')
+    }
+
+    // Get latest hourly data for enhanced parameters
+    const latestHourlyData = data.hourly ? {
+      humidity: data.hourly.relativehumidity_2m?.[0] || 0,
+      precipitation: data.hourly.precipitation?.[0] || 0,
+      windSpeed: data.hourly.windspeed_10m?.[0] || currentWeather.windspeed || 0,
+      pressure: data.hourly.pressure_msl?.[0] || 1013, // Default to standard sea level pressure
+      dewPoint: data.hourly.dewpoint_2m?.[0] || 0,
+      uvIndex: data.hourly.uv_index?.[0] || 0,
+    } : {
+      humidity: 0,
+      precipitation: 0,
+      windSpeed: currentWeather.windspeed || 0,
+      pressure: 1013,
+      dewPoint: 0,
+      uvIndex: 0,
+    }
+
+    return {
+      city,
+      temperature: currentWeather.temperature,
+      humidity: latestHourlyData.humidity,
+      rainfall: latestHourlyData.precipitation,
+      windSpeed: latestHourlyData.windSpeed,
+      uvIndex: latestHourlyData.uvIndex,
+      pressure: latestHourlyData.pressure,
+      dewPoint: latestHourlyData.dewPoint,
+      weatherCode: currentWeather.weathercode,
+      recorded_at: new Date().toISOString(),
+    }
+  },
+
+  async fetchForecast({ latitude, longitude, city, timezone = 'auto' }, days) {
+    const params = new URLSearchParams({
+      latitude: latitude.toString(),
+      longitude: longitude.toString(),
+      hourly: 'relativehumidity_2m,windspeed_10m,pressure_msl,dewpoint_2m,uv_index',
+      daily: 'temperature_2m_max,temperature_2m_min,precipitation_sum',
+      forecast_days: days.toString(),
+      timezone: timezone,
+    })
+
+    const data = await fetchOpenMeteo(`https://api.open-meteo.com/v1/forecast?${params.toString()}`, 10000)
+    if (!data.daily || data.daily.time.length === 0) {
+      throw new Error('No daily forecast data available from API')
+    }
+    return toDailyWeather(city, data)
+  },
+
+  async fetchArchive({ latitude, longitude, city, timezone = 'auto' }, startDate, endDate) {
+    const params = new URLSearchParams({
+      latitude: latitude.toString(),
+      longitude: longitude.toString(),
+      start_date: startDate,
+      end_date: endDate,
+      hourly: 'relativehumidity_2m,windspeed_10m,pressure_msl,dewpoint_2m,shortwave_radiation',
+      daily: 'temperature_2m_max,temperature_2m_min,precipitation_sum,weathercode',
+      timezone: timezone,
+    })
+
+    // Multi-year ranges are slower
+    const data = await fetchOpenMeteo(`https://archive-api.open-meteo.com/v1/archive?${params.toString()}`, 30000)
+    const history = toDailyWeather(city, data)
+    if (history.length === 0) {
+      throw new Error('No historical weather data available from API')
+    }
+    return history
+  },
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * MS_PER_DAY).toISOString().slice(0, 10)
+}
+
+/**
+ * Recording closest to the requested location
+ */
+function nearestFixture(fixtures: WeatherFixture[], { latitude, longitude }: WeatherFetchConfig): WeatherFixture {
+  return fixtures.reduce((nearest, fixture) => {
+    const distance = (fixture.latitude - latitude) ** 2 + (fixture.longitude - longitude) ** 2
+    const nearestDistance = (nearest.latitude - latitude) ** 2 + (nearest.longitude - longitude) ** 2
+    return distance < nearestDistance ? fixture : nearest
+  })
+}
+
+/**
+ * Provider replaying recorded weather (no network)
+ * Each request is answered from the recording nearest to its coordinates, re-dated to
+ * the request: the recorded days are repeated as needed to fill forecasts and history
+ * @param fixtures Recordings, by default lib/fixtures/weather.json
+ */
+export function createFixtureWeatherProvider(
+  fixtures: WeatherFixture[] = recordedFixtures as WeatherFixture[]
+): WeatherProvider {
+  if (fixtures.length === 0) {
+    throw new Error('Weather fixture provider needs at least one recording')
+  }
+
+  const dailyWeather = (fixture: WeatherFixture, city: string, startDate: string, days: number) =>
+    Array.from({ length: days }, (_, day) => ({
+      ...fixture.daily[day % fixture.daily.length],
+      city,
+      recorded_at: addDays(startDate, day),
+    }))
+
+  return {
+    name: 'fixture',
+
+    async fetchCurrentWeather(config) {
+      return {
+        ...nearestFixture(fixtures, config).current,
+        city: config.city,
+        recorded_at: new Date().toISOString(),
+      }
+    },
+
+    async fetchForecast(config, days) {
+      const today = new Date().toISOString().slice(0, 10)
+      return dailyWeather(nearestFixture(fixtures, config), config.city, today, days)
+    },
+
+    async fetchArchive(config, startDate, endDate) {
+      const days = Math.round((Date.parse(endDate) - Date.parse(startDate)) / MS_PER_DAY) + 1
+      if (!(days > 0)) {
+        throw new Error(`Invalid date range ${startDate} to ${endDate}`)
+      }
+      return dailyWeather(nearestFixture(fixtures, config), config.city, startDate, days)
+    },
+  }
+}
+
+/**
+ * Records a location from a live provider in the fixture format
+ * Undefined values are dropped so the recording can be written as JSON
+ */
+export async function recordWeatherFixture(
+  config: WeatherFetchConfig,
+  provider: WeatherProvider = openMeteoWeatherProvider,
+  days: number = 16
+): Promise<WeatherFixture> {
+  const toReading = (weather: WeatherData): WeatherReading => JSON.parse(JSON.stringify({
+    temperature: weather.temperature,
+    humidity: weather.humidity,
+    rainfall: weather.rainfall,
+    windSpeed: weather.windSpeed,
+    uvIndex: weather.uvIndex,
+    pressure: weather.pressure,
+    dewPoint: weather.dewPoint,
+    weatherCode: weather.weatherCode,
+  }))
+
+  const [current, forecast] = await Promise.all([
+    provider.fetchCurrentWeather(config),
+    provider.fetchForecast(config, days),
+  ])
+
+  return {
+    city: config.city,
+    latitude: config.latitude,
+    longitude: config.longitude,
+    recorded_at: new Date().toISOString(),
+    current: toReading(current),
+    daily: forecast.map(toReading),
+  }
+}
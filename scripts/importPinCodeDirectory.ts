@@ -0,0 +1,42 @@
+/**
+ * Imports the India Post "All India Pincode Directory" CSV (data.gov.in) into the
+ * `pincode_directory` collection, one document per PIN code
+ * Reads the Firebase settings and FIREBASE_SERVICE_ACCOUNT_KEY from .env.local (writes go
+ * through the Admin SDK); re-running replaces existing PIN codes
+ * Run with: node --loader ts-node/esm scripts/importPinCodeDirectory.ts <path-to-csv>
+ */
+
+import { readFileSync } from 'fs'
+import { loadEnvConfig } from '@next/env'
+
+async function importPinCodeDirectory() {
+  const csvPath = process.argv[2]
+  if (!csvPath) {
+    console.error('Usage: node --loader ts-node/esm scripts/importPinCodeDirectory.ts <path-to-csv>')
+    process.exit(1)
+  }
+
+  // lib/firebase reads the environment when it is loaded, so load .env.local first
+  loadEnvConfig(process.cwd())
+  const { parseIndiaPostCsv, importPinCodeEntries } = await import('../lib/pinCodeDirectory')
+
+  const { entries, skipped, errors } = parseIndiaPostCsv(readFileSync(csvPath, 'utf8'))
+  errors.slice(0, 10).forEach(error => console.warn(`⚠️ ${error}`))
+  if (errors.length > 10) console.warn(`⚠️ ...and ${errors.length - 10} more`)
+  if (skipped > 0) console.log(`ℹ️ ${skipped} PIN code(s) have no valid coordinates and will use network lookups`)
+
+  if (entries.length === 0) {
+    console.error('❌ No PIN codes to import')
+    process.exit(1)
+  }
+
+  console.log(`📮 Importing ${entries.length} PIN code(s)...`)
+  await importPinCodeEntries(entries)
+  console.log('✅ PIN code directory imported')
+  process.exit(0)
+}
+
+importPinCodeDirectory().catch(error => {
+  console.error('❌ PIN code import failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,32 @@
+/**
+ * Re-records the weather fixtures (lib/fixtures/weather.json) from Open-Meteo
+ * Records current conditions and a 16-day forecast for each location already in the file
+ * Run with: node --loader ts-node/esm scripts/recordWeatherFixtures.ts
+ */
+
+import { readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { recordWeatherFixture, type WeatherFixture } from '../lib/weatherProvider'
+
+const FIXTURE_PATH = join(__dirname, '..', 'lib', 'fixtures', 'weather.json')
+
+async function recordWeatherFixtures() {
+  const existing: WeatherFixture[] = JSON.parse(readFileSync(FIXTURE_PATH, 'utf8'))
+  console.log(`📼 Recording weather for ${existing.length} location(s)...`)
+
+  const fixtures: WeatherFixture[] = []
+  for (const { city, latitude, longitude } of existing) {
+    try {
+      fixtures.push(await recordWeatherFixture({ city, latitude, longitude }))
+      console.log(`✅ ${city}`)
+    } catch (error) {
+      console.error(`❌ Could not record ${city}, keeping the previous recording:`, error)
+      fixtures.push(existing.find(fixture => fixture.city === city)!)
+    }
+  }
+
+  writeFileSync(FIXTURE_PATH, JSON.stringify(fixtures, null, 2) + '\n')
+  console.log(`💾 Saved ${FIXTURE_PATH}`)
+}
+
+recordWeatherFixtures()
@@ -2,9 +2,11 @@
  * Test Script for Doctor Module
  * Run with: npm run test:doctor-module
  * Or directly: node --loader ts-node/esm scripts/test-doctor-module.ts
+ * Offline: set NEXT_PUBLIC_WEATHER_PROVIDER=fixture to use the recorded weather fixtures
  */
 
-import { fetchWeatherForCities, CITY_COORDINATES } from '../lib/fetchWeatherData'
+import { fetchWeatherForCities } from '../lib/fetchWeatherData'
+import { INDIAN_LOCATIONS } from '../lib/locationRegistry'
 import { predictDiseases, calculateTotalDoctorRequirements } from '../lib/predictDisease'
 
 async function testDoctorModule() {
@@ -13,7 +15,7 @@ async function testDoctorModule() {
   try {
     // Test 1: Fetch Weather Data
     console.log('📡 Test 1: Fetching weather data for configured cities...')
-    const weatherData = await fetchWeatherForCities(CITY_COORDINATES.slice(0, 3)) // Test first 3 cities
+    const weatherData = await fetchWeatherForCities(INDIAN_LOCATIONS.slice(0, 3)) // Test first 3 cities
     console.log(`✅ Successfully fetched weather for ${weatherData.length} cities\n`)
 
     // Test 2: Disease Prediction
@@ -43,7 +45,7 @@ async function testDoctorModule() {
     // Test 3: API Endpoint (if server is running)
     console.log('\n\n🌐 Test 3: Testing API endpoint...')
     console.log('To test the API endpoint, run:')
-    console.log('  curl http://localhost:3000/api/fetchWeatherData')
+    console.log('  curl -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/fetchWeatherData')
     console.log('Or:')
     console.log('  npm run dev')
     console.log('  Then open: http://localhost:3000/dashboard')
@@ -53,7 +55,7 @@ async function testDoctorModule() {
     console.log('1. Make sure Firebase indexes are created in Firebase Console')
     console.log('2. Start the dev server: npm run dev')
     console.log('3. Navigate to /dashboard to see the Doctor Insights component')
-    console.log('4. Set up automation (cron job) to call /api/fetchWeatherData every 6 hours')
+    console.log('4. Set CRON_SECRET so the hourly cron job (vercel.json) can call /api/ingestWeather')
 
   } catch (error) {
     console.error('❌ Test failed:', error)